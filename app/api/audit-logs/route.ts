@@ -0,0 +1,215 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type Filter } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { AuditLog } from '@/lib/models';
+import { auditLogsToCsv } from '@/lib/audit';
+
+// Largest export served in one download
+const MAX_EXPORT_ROWS = 10000;
+
+/**
+ * @swagger
+ * /api/audit-logs:
+ *   get:
+ *     tags: [Audit Logs]
+ *     summary: List audit log entries
+ *     description: Lists recorded writes, newest first. Every create, update and delete made through the API is recorded with the user who made it, their IP address and the fields that changed. Pass format=csv to download the matching entries instead.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Only list entries for this action, e.g. UPDATE_BORROWER.
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           enum: [book, book_copy, borrower, lending, reservation, loan_policy, fine, case, reminder, document, user, notification]
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: A user ID, or part of the name or email of the user who made the change.
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Audit log entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 logs:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditLog'
+ *                 total:
+ *                   type: integer
+ *                 actions:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Every action recorded so far, for filtering.
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.AUDIT_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(
+      Number.parseInt(searchParams.get('page') || '1') || 1,
+      1
+    );
+    const limit = Math.min(
+      Math.max(Number.parseInt(searchParams.get('limit') || '20') || 20, 1),
+      100
+    );
+    const action = searchParams.get('action');
+    const targetType = searchParams.get('targetType');
+    const targetId = searchParams.get('targetId');
+    const actor = searchParams.get('actor')?.trim();
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const filter: Filter<AuditLog> = {};
+    if (action) filter.action = action;
+    if (targetType) filter.targetType = targetType;
+    if (targetId) {
+      if (!ObjectId.isValid(targetId)) {
+        return NextResponse.json(
+          { error: 'Invalid Target ID format' },
+          { status: 400 }
+        );
+      }
+      filter.targetId = { $in: [new ObjectId(targetId), targetId] };
+    }
+    if (actor) {
+      if (ObjectId.isValid(actor)) {
+        filter.actor = new ObjectId(actor);
+      } else {
+        const pattern = new RegExp(
+          actor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+          'i'
+        );
+        filter.$or = [{ actorName: pattern }, { actorEmail: pattern }];
+      }
+    }
+    if (from || to) {
+      const range = { from: from && new Date(from), to: to && new Date(to) };
+      if (
+        (range.from && Number.isNaN(range.from.getTime())) ||
+        (range.to && Number.isNaN(range.to.getTime()))
+      ) {
+        return NextResponse.json(
+          { error: 'from and to must be valid dates' },
+          { status: 400 }
+        );
+      }
+      filter.timestamp = {
+        ...(range.from && { $gte: range.from }),
+        ...(range.to && { $lte: range.to }),
+      };
+    }
+
+    const db = await getDatabase();
+    const collection = db.collection<AuditLog>('audit_logs');
+
+    if (searchParams.get('format') === 'csv') {
+      const logs = await collection
+        .find(filter)
+        .sort({ timestamp: -1 })
+        .limit(MAX_EXPORT_ROWS)
+        .toArray();
+      const date = new Date().toISOString().slice(0, 10);
+
+      return new NextResponse(auditLogsToCsv(logs), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${date}.csv"`,
+        },
+      });
+    }
+
+    const [logs, total, actions] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter),
+      collection.distinct('action'),
+    ]);
+
+    return NextResponse.json({
+      logs: logs.map((log) => ({
+        ...log,
+        _id: log._id.toString(),
+        targetId: log.targetId?.toString(),
+        actor: log.actor?.toString(),
+      })),
+      total,
+      actions: actions.sort(),
+    });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,69 +2,126 @@
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 import NextAuth from 'next-auth';
+import type { NextRequest } from 'next/server';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { getDatabase } from '@/lib/mongodb';
 import { compare } from 'bcryptjs';
 import type { User } from '@/lib/models';
+import { resolvePermissions } from '@/lib/roles';
+import { TWO_FACTOR_INVALID, TWO_FACTOR_REQUIRED } from '@/lib/auth';
+import { needsTwoFactorSetup, verifySecondFactor } from '@/lib/two-factor';
 import {
-  DEFAULT_USER_PERMISSIONS,
-  ADMIN_PERMISSIONS,
-  SUPER_ADMIN_PERMISSIONS,
-  LIBRARIAN_PERMISSIONS, // Import the new permission set
-} from '@/lib/auth';
+  checkSignInThrottle,
+  formatRetryAfter,
+  getRequestInfo,
+  recordSignInFailure,
+  recordSignInSuccess,
+} from '@/lib/login-attempts';
+import {
+  SESSION_REVOKED,
+  getSessionVersion,
+  isSessionCurrent,
+} from '@/lib/sessions';
+import { linkBorrowerByEmail } from '@/lib/my-library';
+import { isPasswordExpired } from '@/lib/passwords';
+import {
+  OIDC_PROVIDER_ID,
+  OidcProvider,
+  getSsoSettings,
+  handleSsoSignIn,
+} from '@/lib/sso';
 
-export const authOptions = {
-  providers: [
-    CredentialsProvider({
-      name: 'Credentials',
-      credentials: {
-        email: { label: 'Email', type: 'text' },
-        password: { label: 'Password', type: 'password' },
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials.password) {
-          return null;
-        }
-        const db = await getDatabase();
-        const user = await db
-          .collection<User>('users')
-          .findOne({ email: credentials.email });
+const ssoSettings = getSsoSettings();
 
-        if (!user || !user.password) {
-          return null;
-        }
+// NextAuth only hands `authorize` the headers, so the address the request
+// came from is passed in when the handler is built
+const credentialsProvider = (remoteIp?: string | null) =>
+  CredentialsProvider({
+    name: 'Credentials',
+    credentials: {
+      email: { label: 'Email', type: 'text' },
+      password: { label: 'Password', type: 'password' },
+      code: { label: 'Authentication code', type: 'text' },
+    },
+    async authorize(credentials, req) {
+      if (!credentials?.email || !credentials.password) {
+        return null;
+      }
+      const email = credentials.email;
+      const requestInfo = getRequestInfo(req?.headers, remoteIp);
 
-        const isValid = await compare(credentials.password, user.password);
-        if (!isValid) {
-          return null;
-        }
+      const db = await getDatabase();
+      const user = await db.collection<User>('users').findOne({ email });
+
+      const throttle = await checkSignInThrottle(email, requestInfo.ip);
+      if (!throttle.allowed) {
+        await recordSignInFailure(
+          email,
+          user,
+          throttle.locked ? 'locked' : 'throttled',
+          requestInfo
+        );
+        throw new Error(
+          throttle.locked
+            ? `This account is locked after too many failed sign-ins. Try again in ${formatRetryAfter(
+                throttle.retryAfter
+              )} or ask an administrator to unlock it.`
+            : `Too many failed sign-ins. Try again in ${formatRetryAfter(
+                throttle.retryAfter
+              )}.`
+        );
+      }
 
-        let permissions: string[] = [];
-        switch (user.role) {
-          case 'Super Admin':
-            permissions = SUPER_ADMIN_PERMISSIONS;
-            break;
-          case 'Admin':
-            permissions = ADMIN_PERMISSIONS;
-            break;
-          case 'Librarian':
-            permissions = LIBRARIAN_PERMISSIONS; // Use the new Librarian permissions
-            break;
-          case 'User':
-          default:
-            permissions = DEFAULT_USER_PERMISSIONS;
-            break;
+      if (!user || !user.password) {
+        await recordSignInFailure(email, null, 'unknown_user', requestInfo);
+        return null;
+      }
+
+      const isValid = await compare(credentials.password, user.password);
+      if (!isValid) {
+        await recordSignInFailure(email, user, 'bad_password', requestInfo);
+        return null;
+      }
+
+      if (user.status === 'inactive') {
+        await recordSignInFailure(email, user, 'inactive', requestInfo);
+        throw new Error(
+          'This account has been deactivated. Ask an administrator to reactivate it.'
+        );
+      }
+
+      // The password was right, the sign-in page now asks for a code
+      if (user.twoFactor?.enabled) {
+        if (!credentials.code) {
+          throw new Error(TWO_FACTOR_REQUIRED);
+        }
+        if (!(await verifySecondFactor(user, credentials.code))) {
+          await recordSignInFailure(email, user, 'bad_code', requestInfo);
+          throw new Error(TWO_FACTOR_INVALID);
         }
+      }
+
+      await recordSignInSuccess(user, requestInfo);
+      await linkBorrowerByEmail(user);
 
-        return {
-          id: user._id.toString(),
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          permissions: permissions,
-        };
-      },
-    }),
+      return {
+        id: user._id.toString(),
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        permissions: await resolvePermissions(user),
+        twoFactorSetupRequired: await needsTwoFactorSetup(user),
+        passwordChangeRequired: await isPasswordExpired(user),
+        sessionVersion: getSessionVersion(user),
+      };
+    },
+  });
+
+export const authOptions = {
+  providers: [
+    credentialsProvider(),
+    // Single sign-on sits alongside passwords when an issuer is configured
+    ...(ssoSettings ? [OidcProvider(ssoSettings)] : []),
   ],
   session: {
     strategy: 'jwt' as const,
@@ -74,11 +131,48 @@ export const authOptions = {
     secret: process.env.NEXTAUTH_SECRET,
   },
   callbacks: {
-    async jwt({ token, user }: { token: any; user: any }) {
+    async jwt({
+      token,
+      user,
+      account,
+    }: {
+      token: any;
+      user: any;
+      account?: { provider: string } | null;
+    }) {
       if (user) {
+        token.provider = account?.provider;
         token.id = user.id;
         token.role = user.role;
         token.permissions = user.permissions;
+        token.twoFactorSetupRequired = user.twoFactorSetupRequired;
+        token.passwordChangeRequired = user.passwordChangeRequired;
+        token.sessionVersion = user.sessionVersion;
+      } else if (token.email) {
+        // Pick up role, permission and 2FA changes made since sign-in
+        let current: User | null;
+        try {
+          const db = await getDatabase();
+          current = await db
+            .collection<User>('users')
+            .findOne({ email: token.email });
+        } catch (error) {
+          console.error('Error refreshing session permissions:', error);
+          return token;
+        }
+        // Deleted users and revoked sessions are signed out
+        if (!current || !isSessionCurrent(current, token.sessionVersion)) {
+          throw new Error(SESSION_REVOKED);
+        }
+        token.role = current.role;
+        token.permissions = await resolvePermissions(current);
+        // SSO sign-ins leave the second factor and password expiry to the
+        // identity provider
+        const isSso = token.provider === OIDC_PROVIDER_ID;
+        token.twoFactorSetupRequired =
+          !isSso && (await needsTwoFactorSetup(current));
+        token.passwordChangeRequired =
+          !isSso && (await isPasswordExpired(current));
       }
       console.log('JWT Token:', JSON.stringify(token, null, 2));
       return token;
@@ -88,6 +182,8 @@ export const authOptions = {
         session.user.id = token.id;
         session.user.role = token.role;
         session.user.permissions = token.permissions;
+        session.user.twoFactorSetupRequired = token.twoFactorSetupRequired;
+        session.user.passwordChangeRequired = token.passwordChangeRequired;
       }
       console.log('Session:', JSON.stringify(session, null, 2));
       return session;
@@ -99,6 +195,21 @@ export const authOptions = {
   },
 };
 
-const handler = NextAuth(authOptions);
+// Built per request so sign-ins are throttled and audited by the caller's IP
+const handler = (
+  request: NextRequest,
+  context: { params: { nextauth: string[] } }
+) =>
+  NextAuth(request, context, {
+    ...authOptions,
+    providers: [
+      credentialsProvider(request.ip),
+      ...(ssoSettings ? [OidcProvider(ssoSettings)] : []),
+    ],
+    callbacks: {
+      ...authOptions.callbacks,
+      signIn: (params: any) => handleSsoSignIn(request, params),
+    },
+  });
 
 export { handler as GET, handler as POST };
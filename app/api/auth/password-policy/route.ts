@@ -0,0 +1,10 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { NextResponse } from 'next/server';
+import { getPasswordPolicy } from '@/lib/password-policy';
+
+// Public, so the register, reset and invitation pages can show the rules
+export async function GET() {
+  return NextResponse.json(getPasswordPolicy());
+}
@@ -1,13 +1,18 @@
 /** @format */
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
-import { NextResponse } from 'next/server';
+import { type NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { hash } from 'bcryptjs';
 import type { User } from '@/lib/models';
-import { DEFAULT_USER_PERMISSIONS } from '@/lib/auth';
+import { DEFAULT_ROLE } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  checkNewPassword,
+  hashNewPassword,
+  passwordPolicyError,
+} from '@/lib/passwords';
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const { name, email, password } = await request.json();
 
@@ -18,6 +23,11 @@ export async function POST(request: Request) {
       );
     }
 
+    const violations = await checkNewPassword(password, null, { email, name });
+    if (violations.length > 0) {
+      return passwordPolicyError(violations);
+    }
+
     const db = await getDatabase();
     const usersCollection = db.collection<User>('users');
 
@@ -29,19 +39,24 @@ export async function POST(request: Request) {
       );
     }
 
-    const hashedPassword = await hash(password, 12);
-
     const newUser: User = {
       name,
       email,
-      password: hashedPassword,
-      role: 'User',
-      permissions: DEFAULT_USER_PERMISSIONS,
+      ...(await hashNewPassword(password)),
+      role: DEFAULT_ROLE,
+      permissions: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     const result = await usersCollection.insertOne(newUser);
+    await recordAudit(request, {
+      action: 'REGISTER_USER',
+      targetType: 'user',
+      targetId: result.insertedId,
+      after: newUser,
+      actor: { ...newUser, _id: result.insertedId },
+    });
 
     return NextResponse.json(
       {
@@ -0,0 +1,346 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { BookCopy, LendingRecord } from '@/lib/models';
+import { validateBookCopy } from '@/lib/validators';
+import { syncCopyCounts } from '@/lib/copies';
+import { releaseHeldCopy } from '@/lib/reservations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/books/{id}/copies/{copyId}:
+ *   get:
+ *     tags: [Books]
+ *     summary: Get a copy of a book
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the book
+ *       - in: path
+ *         name: copyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the copy
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Copy retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Copy not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags: [Books]
+ *     summary: Update a copy of a book
+ *     description: Update a copy's barcode, condition, acquisition date, notes or status. Copies on loan change status through the lending routes. A copy put back on the shelf is set aside for the next hold on the book.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the book
+ *       - in: path
+ *         name: copyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the copy
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BookCopy'
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Copy updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       400:
+ *         description: Invalid input or barcode already in use
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Copy not found
+ *       409:
+ *         description: The copy is on loan
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Books]
+ *     summary: Delete a copy of a book
+ *     description: Delete a copy that was added by mistake. Copies that have been lent must be withdrawn instead so their lending history is kept.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the book
+ *       - in: path
+ *         name: copyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the copy
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Copy deleted successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Copy not found
+ *       409:
+ *         description: The copy has lending history
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; copyId: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id, copyId } = params;
+    if (!ObjectId.isValid(id) || !ObjectId.isValid(copyId)) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID or Copy ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const copy = await db
+      .collection<BookCopy>('book_copies')
+      .findOne({ _id: new ObjectId(copyId), bookId: new ObjectId(id) });
+
+    if (!copy) {
+      return NextResponse.json({ error: 'Copy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...copy,
+      _id: copy._id.toString(),
+      bookId: copy.bookId.toString(),
+    });
+  } catch (error) {
+    console.error('Error fetching book copy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch book copy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; copyId: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_UPDATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id, copyId } = params;
+    if (!ObjectId.isValid(id) || !ObjectId.isValid(copyId)) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID or Copy ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const { _id, bookId, createdAt, updatedAt, ...updateData } =
+      await request.json();
+    const { valid, errors } = validateBookCopy(updateData, { partial: true });
+
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const bookObjectId = new ObjectId(id);
+    const copyObjectId = new ObjectId(copyId);
+    const copy = await db
+      .collection<BookCopy>('book_copies')
+      .findOne({ _id: copyObjectId, bookId: bookObjectId });
+    if (!copy) {
+      return NextResponse.json({ error: 'Copy not found' }, { status: 404 });
+    }
+
+    if (
+      copy.status === 'on_loan' &&
+      updateData.status &&
+      updateData.status !== copy.status
+    ) {
+      return NextResponse.json(
+        { error: 'Copy is on loan, return it before changing its status' },
+        { status: 409 }
+      );
+    }
+
+    if (updateData.barcode && updateData.barcode !== copy.barcode) {
+      const existingCopy = await db
+        .collection<BookCopy>('book_copies')
+        .findOne({ barcode: updateData.barcode });
+      if (existingCopy) {
+        return NextResponse.json(
+          { error: 'A copy with this barcode already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (updateData.acquisitionDate) {
+      updateData.acquisitionDate = new Date(updateData.acquisitionDate);
+    }
+
+    const result = await db
+      .collection<BookCopy>('book_copies')
+      .findOneAndUpdate(
+        { _id: copyObjectId },
+        { $set: { ...updateData, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+
+    if (!result) {
+      return NextResponse.json({ error: 'Copy not found' }, { status: 404 });
+    }
+
+    await recordAudit(request, {
+      action: 'UPDATE_BOOK_COPY',
+      targetType: 'book_copy',
+      targetId: copyObjectId,
+      before: copy,
+      after: result,
+    });
+
+    if (result.status !== copy.status) {
+      if (result.status === 'on_shelf') {
+        await releaseHeldCopy(bookObjectId);
+      } else {
+        await syncCopyCounts(bookObjectId);
+      }
+    }
+
+    return NextResponse.json({
+      ...result,
+      _id: result._id.toString(),
+      bookId: result.bookId.toString(),
+    });
+  } catch (error) {
+    console.error('Error updating book copy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update book copy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; copyId: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_DELETE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id, copyId } = params;
+    if (!ObjectId.isValid(id) || !ObjectId.isValid(copyId)) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID or Copy ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const bookObjectId = new ObjectId(id);
+    const copyObjectId = new ObjectId(copyId);
+
+    const lendingCount = await db
+      .collection<LendingRecord>('lendings')
+      .countDocuments({ copyId: copyObjectId });
+    if (lendingCount > 0) {
+      return NextResponse.json(
+        { error: 'Copy has lending history, withdraw it instead' },
+        { status: 409 }
+      );
+    }
+
+    const copy = await db
+      .collection<BookCopy>('book_copies')
+      .findOneAndDelete({ _id: copyObjectId, bookId: bookObjectId });
+
+    if (!copy) {
+      return NextResponse.json({ error: 'Copy not found' }, { status: 404 });
+    }
+
+    await syncCopyCounts(bookObjectId);
+    await recordAudit(request, {
+      action: 'DELETE_BOOK_COPY',
+      targetType: 'book_copy',
+      targetId: copyObjectId,
+      before: copy,
+    });
+
+    return NextResponse.json({ message: 'Copy deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting book copy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete book copy' },
+      { status: 500 }
+    );
+  }
+}
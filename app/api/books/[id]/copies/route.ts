@@ -0,0 +1,329 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book, BookCopy } from '@/lib/models';
+import { validateBookCopy } from '@/lib/validators';
+import { addCopies, ensureCopies, syncCopyCounts } from '@/lib/copies';
+import { releaseHeldCopy } from '@/lib/reservations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/books/{id}/copies:
+ *   get:
+ *     tags: [Books]
+ *     summary: Get the copies of a book
+ *     description: Retrieve every physical copy of a book with its barcode, condition and status. Copies on loan include the open loan.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the book
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Copies retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 copies:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BookCopy'
+ *                 totalCopies:
+ *                   type: integer
+ *                 availableCopies:
+ *                   type: integer
+ *       400:
+ *         description: Invalid Book ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Book not found
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Books]
+ *     summary: Add copies of a book
+ *     description: Add a single copy with its own barcode, or a number of copies with generated barcodes. New copies go on the shelf and are set aside for waiting holds first.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the book
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               barcode:
+ *                 type: string
+ *                 description: Accession number of the copy. Generated when omitted.
+ *               count:
+ *                 type: integer
+ *                 description: Number of copies to add with generated barcodes. Defaults to 1.
+ *               condition:
+ *                 type: string
+ *                 enum: [new, good, fair, poor, damaged]
+ *               acquisitionDate:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Copies added successfully
+ *       400:
+ *         description: Invalid input or barcode already in use
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Book not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const bookObjectId = new ObjectId(id);
+
+    await ensureCopies(bookObjectId);
+    const book = await db
+      .collection<Book>('books')
+      .findOne({ _id: bookObjectId });
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const copies = await db
+      .collection<BookCopy>('book_copies')
+      .aggregate([
+        { $match: { bookId: bookObjectId } },
+        { $sort: { barcode: 1 } },
+        {
+          $lookup: {
+            from: 'lendings',
+            let: { copyId: '$_id' },
+            pipeline: [
+              {
+                $match: {
+                  $expr: { $eq: ['$copyId', '$$copyId'] },
+                  status: { $in: ['borrowed', 'overdue'] },
+                },
+              },
+              {
+                $lookup: {
+                  from: 'borrowers',
+                  localField: 'borrowerId',
+                  foreignField: '_id',
+                  as: 'borrower',
+                },
+              },
+              {
+                $unwind: {
+                  path: '$borrower',
+                  preserveNullAndEmptyArrays: true,
+                },
+              },
+              {
+                $project: {
+                  _id: { $toString: '$_id' },
+                  dueDate: 1,
+                  'borrower.name': '$borrower.name',
+                  'borrower.memberId': '$borrower.memberId',
+                },
+              },
+            ],
+            as: 'currentLoan',
+          },
+        },
+        { $unwind: { path: '$currentLoan', preserveNullAndEmptyArrays: true } },
+        {
+          $addFields: {
+            _id: { $toString: '$_id' },
+            bookId: { $toString: '$bookId' },
+          },
+        },
+      ])
+      .toArray();
+
+    return NextResponse.json({
+      copies,
+      totalCopies: book.totalCopies,
+      availableCopies: book.availableCopies,
+    });
+  } catch (error) {
+    console.error('Error fetching book copies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch book copies' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_UPDATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const bookObjectId = new ObjectId(id);
+    const { count, ...copyData } = await request.json();
+    const { valid, errors } = validateBookCopy(copyData, { partial: true });
+
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const copyCount = count === undefined ? 1 : Number(count);
+    if (!Number.isInteger(copyCount) || copyCount < 1 || copyCount > 100) {
+      return NextResponse.json(
+        { error: 'Count must be a whole number between 1 and 100' },
+        { status: 400 }
+      );
+    }
+
+    if (copyData.barcode && copyCount !== 1) {
+      return NextResponse.json(
+        { error: 'A barcode can only be given when adding a single copy' },
+        { status: 400 }
+      );
+    }
+
+    await ensureCopies(bookObjectId);
+    const book = await db
+      .collection<Book>('books')
+      .findOne({ _id: bookObjectId });
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const details = {
+      condition: copyData.condition,
+      acquisitionDate: copyData.acquisitionDate
+        ? new Date(copyData.acquisitionDate)
+        : undefined,
+    };
+
+    let copies: BookCopy[];
+    if (copyData.barcode) {
+      const existingCopy = await db
+        .collection<BookCopy>('book_copies')
+        .findOne({ barcode: copyData.barcode });
+      if (existingCopy) {
+        return NextResponse.json(
+          { error: 'A copy with this barcode already exists' },
+          { status: 400 }
+        );
+      }
+
+      const copy: BookCopy = {
+        bookId: bookObjectId,
+        barcode: copyData.barcode,
+        condition: details.condition || 'new',
+        status: copyData.status || 'on_shelf',
+        acquisitionDate: details.acquisitionDate || new Date(),
+        notes: copyData.notes || '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await db.collection<BookCopy>('book_copies').insertOne(copy);
+      copies = [copy];
+    } else {
+      copies = await addCopies(book, copyCount, details);
+    }
+
+    for (const copy of copies) {
+      await recordAudit(request, {
+        action: 'CREATE_BOOK_COPY',
+        targetType: 'book_copy',
+        targetId: copy._id,
+        after: copy,
+      });
+    }
+
+    // Every copy that reaches the shelf can serve the next hold in the queue
+    const shelvedCount = copies.filter((c) => c.status === 'on_shelf').length;
+    for (let i = 0; i < shelvedCount; i++) {
+      await releaseHeldCopy(bookObjectId);
+    }
+    if (shelvedCount === 0) {
+      await syncCopyCounts(bookObjectId);
+    }
+
+    return NextResponse.json(
+      {
+        copies: copies.map((c) => ({
+          ...c,
+          _id: c._id?.toString(),
+          bookId: id,
+        })),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding book copies:', error);
+    return NextResponse.json(
+      { error: 'Failed to add book copies' },
+      { status: 500 }
+    );
+  }
+}
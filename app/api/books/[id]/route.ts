@@ -13,7 +13,10 @@ import { getDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
-import type { Book } from '@/lib/models';
+import type { Book, BookCopy } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import { validateCitation } from '@/lib/validators';
+import { CITATION_CATEGORIES, normalizeCitation } from '@/lib/citations';
 
 /**
  * @swagger
@@ -50,7 +53,7 @@ import type { Book } from '@/lib/models';
  *   put:
  *     tags: [Books]
  *     summary: Update a book by ID
- *     description: Update an existing book's details.
+ *     description: Update an existing book's details. Copy counters are derived from the book's copies and cannot be set directly. A citation of null removes it, as does moving the book out of the Law Report and Case Law categories.
  *     parameters:
  *       - in: path
  *         name: id
@@ -87,7 +90,7 @@ import type { Book } from '@/lib/models';
  *   delete:
  *     tags: [Books]
  *     summary: Delete a book by ID
- *     description: Delete a book from the database.
+ *     description: Delete a book and its copy records from the database.
  *     parameters:
  *       - in: path
  *         name: id
@@ -218,26 +221,55 @@ export async function PUT(
     const objectId = new ObjectId(id);
 
     const body = await request.json();
-    const { _id, ...updateData } = body;
+    // Counters are derived from copy state, see /api/books/{id}/copies
+    const { _id, totalCopies, availableCopies, ...updateData } = body;
 
     if (
-      updateData.availableCopies !== undefined &&
-      updateData.availableCopies < 0
+      updateData.replacementCost != null &&
+      (typeof updateData.replacementCost !== 'number' ||
+        !(updateData.replacementCost >= 0))
     ) {
       return NextResponse.json(
-        { error: 'Available copies cannot be negative' },
+        { error: 'Replacement Cost must be a non-negative amount' },
         { status: 400 }
       );
     }
 
+    const { citation, ...fields } = updateData;
     const updatePayload = {
-      ...updateData,
+      ...fields,
       updatedAt: new Date(),
     };
 
+    const existingBook = await db
+      .collection<Book>('books')
+      .findOne({ _id: objectId });
+
+    // Only law reports and cases are cited, so other items lose their citation
+    const category = fields.category ?? existingBook?.category;
+    if (citation) {
+      const { valid, errors } = validateCitation(citation, category);
+      if (!valid) {
+        return NextResponse.json(
+          {
+            error: `Invalid citation: ${Object.values(errors).join('; ')}`,
+            details: errors,
+          },
+          { status: 400 }
+        );
+      }
+      updatePayload.citation = normalizeCitation(citation);
+    }
+    const removeCitation =
+      citation === null ||
+      (!citation && !CITATION_CATEGORIES.includes(category));
+
     const result = await db.collection<Book>('books').findOneAndUpdate(
       { _id: objectId },
-      { $set: updatePayload },
+      {
+        $set: updatePayload,
+        ...(removeCitation && { $unset: { citation: '' } }),
+      },
       {
         returnDocument: 'after',
         includeResultMetadata: true,
@@ -255,6 +287,14 @@ export async function PUT(
       );
     }
 
+    await recordAudit(request, {
+      action: 'UPDATE_BOOK',
+      targetType: 'book',
+      targetId: objectId,
+      before: existingBook,
+      after: result.value,
+    });
+
     const previousValues = await db
       .collection<Book>('books')
       .findOne({ _id: objectId });
@@ -324,7 +364,7 @@ export async function DELETE(
 
     const activeLendings = await db.collection('lendings').countDocuments({
       bookId: objectId,
-      status: 'borrowed',
+      status: { $in: ['borrowed', 'overdue'] },
     });
 
     if (activeLendings > 0) {
@@ -352,6 +392,17 @@ export async function DELETE(
       );
     }
 
+    await db
+      .collection<BookCopy>('book_copies')
+      .deleteMany({ bookId: objectId });
+
+    await recordAudit(request, {
+      action: 'DELETE_BOOK',
+      targetType: 'book',
+      targetId: objectId,
+      before: existingBook,
+    });
+
     console.log(`Successfully deleted book: ${id}`);
     return new NextResponse(null, { status: 204 });
   } catch (error) {
@@ -0,0 +1,121 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book } from '@/lib/models';
+import { getBookSearchFilter } from '@/lib/search';
+import { BOOK_COLUMNS, LIST_SEPARATOR, exportResponse } from '@/lib/imports';
+
+/**
+ * @swagger
+ * /books/export:
+ *   get:
+ *     tags: [Books]
+ *     summary: Export books as CSV or Excel
+ *     description: Download the books matching the list filters, with the same columns the import reads so that the file can be edited and imported again.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Full-text search over title, author, keywords, ISBN and book ID.
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: Only export books in these categories.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV or Excel file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Unknown format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csv';
+    const searchQuery = searchParams.get('search') || '';
+    const categories = searchParams.getAll('category');
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { error: 'format must be csv or xlsx' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const query: any = searchQuery
+      ? (await getBookSearchFilter(db, searchQuery)).filter
+      : {};
+    if (categories.length > 0) {
+      query.category = { $in: categories };
+    }
+
+    const books = await db
+      .collection<Book>('books')
+      .find(query)
+      .sort({ bookId: 1 })
+      .toArray();
+
+    return exportResponse(
+      BOOK_COLUMNS,
+      books.map((book) => ({
+        bookId: book.bookId,
+        title: book.title,
+        author: book.author,
+        category: book.category,
+        isbn: book.isbn,
+        totalCopies: book.totalCopies,
+        shelfLocation: book.shelfLocation,
+        keywords: (book.keywords || []).join(`${LIST_SEPARATOR} `),
+        replacementCost: book.replacementCost,
+      })),
+      format,
+      'books'
+    );
+  } catch (error) {
+    console.error('Error exporting books:', error);
+    return NextResponse.json(
+      { error: 'Failed to export books' },
+      { status: 500 }
+    );
+  }
+}
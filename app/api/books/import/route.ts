@@ -0,0 +1,177 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book } from '@/lib/models';
+import { addCopies } from '@/lib/copies';
+import { recordAudit } from '@/lib/audit';
+import { BOOK_CATEGORIES } from '@/lib/models';
+import { validateNewBook } from '@/lib/validators';
+import {
+  BOOK_COLUMNS,
+  type ImportRowResult,
+  checkUniqueKeys,
+  importSummary,
+  readImportRequest,
+  readRow,
+  splitList,
+} from '@/lib/imports';
+
+/**
+ * @swagger
+ * /books/import:
+ *   post:
+ *     tags: [Books]
+ *     summary: Import books from a CSV or Excel file
+ *     description: >
+ *       Creates a book, with its copies, for each row of the first sheet. Columns
+ *       are matched to fields by header (Book ID, Title, Author, Category, ISBN,
+ *       Total Copies, Shelf Location, Keywords separated by semicolons and
+ *       Replacement Cost) unless a mapping is given. Each row is validated and
+ *       its Book ID checked against the catalogue and the rest of the file. With
+ *       dryRun the outcome of each row is returned without saving anything;
+ *       otherwise nothing is imported unless every row is valid.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV or .xlsx file, at most 10MB and 5000 rows.
+ *               mapping:
+ *                 type: string
+ *                 description: JSON object of book fields to the headers they are read from.
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Books imported, or the preview of a dry run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportResult'
+ *       400:
+ *         description: Unreadable file, or rows with errors when not a dry run
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_CREATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const sheet = await readImportRequest(
+      await request.formData(),
+      BOOK_COLUMNS
+    );
+    if (sheet instanceof NextResponse) return sheet;
+
+    const books: Book[] = [];
+    const results: ImportRowResult[] = sheet.rows.map((row, index) => {
+      const values = readRow(sheet.headers, row, sheet.mapping);
+      const category =
+        BOOK_CATEGORIES.find(
+          (name) => name.toLowerCase() === values.category?.toLowerCase()
+        ) ?? values.category;
+      const totalCopies = Number(values.totalCopies);
+
+      const book: Book = {
+        title: values.title || '',
+        author: values.author || '',
+        category: category || '',
+        isbn: values.isbn || '',
+        bookId: values.bookId || '',
+        totalCopies,
+        availableCopies: totalCopies,
+        shelfLocation: values.shelfLocation || '',
+        keywords: splitList(values.keywords),
+        coverImage: '',
+        ...(values.replacementCost && {
+          replacementCost: Number(values.replacementCost),
+        }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      books.push(book);
+
+      const { errors } = validateNewBook(book);
+      return {
+        row: index + 2,
+        action: Object.keys(errors).length > 0 ? 'error' : 'create',
+        key: book.bookId || undefined,
+        label: book.title || undefined,
+        ...(Object.keys(errors).length > 0 && {
+          errors: Object.values(errors),
+        }),
+      };
+    });
+
+    const db = await getDatabase();
+    const collection = db.collection<Book>('books');
+    const keys = results
+      .map((result) => result.key)
+      .filter((key): key is string => !!key);
+    const existing = await collection
+      .find({ bookId: { $in: keys } }, { projection: { bookId: 1 } })
+      .toArray();
+    checkUniqueKeys(
+      results,
+      new Set(existing.map((book) => book.bookId)),
+      'Book ID'
+    );
+
+    const body = importSummary(sheet, BOOK_COLUMNS, results);
+    if (sheet.dryRun) return NextResponse.json(body);
+
+    if (body.missingColumns.length > 0 || body.summary.error > 0) {
+      return NextResponse.json(
+        {
+          ...body,
+          error: 'Nothing was imported, fix the rows with errors and try again',
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const book of books) {
+      const result = await collection.insertOne(book);
+      await addCopies({ ...book, _id: result.insertedId }, book.totalCopies);
+      await recordAudit(request, {
+        action: 'CREATE_BOOK',
+        targetType: 'book',
+        targetId: result.insertedId,
+        after: book,
+        details: { source: 'import' },
+      });
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error importing books:', error);
+    return NextResponse.json(
+      { error: 'Failed to import books' },
+      { status: 500 }
+    );
+  }
+}
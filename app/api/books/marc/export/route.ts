@@ -0,0 +1,92 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book } from '@/lib/models';
+import { getBookSearchFilter } from '@/lib/search';
+import { bookToMarc, toMarcXml } from '@/lib/marc';
+
+/**
+ * @swagger
+ * /books/marc/export:
+ *   get:
+ *     tags: [Books]
+ *     summary: Export the catalogue as MARCXML
+ *     description: Download books as a MARCXML collection, one record per book with the book ID in 001, the ISBN in 020, keywords as 650 subject headings and the shelf location in 852.
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Full-text search over title, author, keywords, ISBN and book ID.
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: Only export books in these categories.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: MARCXML file
+ *         content:
+ *           application/marcxml+xml:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const { searchParams } = new URL(request.url);
+    const searchQuery = searchParams.get('search') || '';
+    const categories = searchParams.getAll('category');
+
+    const query: any = searchQuery
+      ? (await getBookSearchFilter(db, searchQuery)).filter
+      : {};
+    if (categories.length > 0) {
+      query.category = { $in: categories };
+    }
+
+    const books = await db
+      .collection<Book>('books')
+      .find(query)
+      .sort({ bookId: 1 })
+      .toArray();
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(toMarcXml(books.map(bookToMarc)), {
+      headers: {
+        'Content-Type': 'application/marcxml+xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="catalogue-${date}.xml"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting MARC records:', error);
+    return NextResponse.json(
+      { error: 'Failed to export MARC records' },
+      { status: 500 }
+    );
+  }
+}
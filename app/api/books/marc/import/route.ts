@@ -0,0 +1,414 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { BOOK_CATEGORIES, type Book } from '@/lib/models';
+import { addCopies } from '@/lib/copies';
+import { recordAudit } from '@/lib/audit';
+import { validateNewBook } from '@/lib/validators';
+import {
+  type MarcBookFields,
+  marcToBook,
+  normalizeIsbn,
+  parseMarcFile,
+} from '@/lib/marc';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_RECORDS = 5000;
+const MAX_COPIES = 100;
+
+// Fields a matched book takes from the record. The book ID stays, copy
+// barcodes are built from it.
+const UPDATABLE_FIELDS = [
+  'title',
+  'author',
+  'isbn',
+  'category',
+  'shelfLocation',
+  'keywords',
+] as const;
+
+// Where a record carries the fields a new book cannot do without
+const MARC_SOURCES: Partial<Record<keyof Book, string>> = {
+  title: 'title (245)',
+  author: 'author (100, 110, 111 or 245 $c)',
+  shelfLocation: 'call number or default shelf location',
+};
+
+type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+interface ImportRecord {
+  index: number;
+  action: ImportAction;
+  bookId?: string;
+  title?: string;
+  isbn?: string;
+  matchedBy?: 'isbn' | 'bookId';
+  existingId?: string;
+  changes?: string[];
+  errors?: string[];
+}
+
+/**
+ * @swagger
+ * /books/marc/import:
+ *   post:
+ *     tags: [Books]
+ *     summary: Import books from MARC records
+ *     description: >
+ *       Reads a MARC21 (ISO 2709) or MARCXML file and maps each record to a book:
+ *       245 to the title, 100/110/111 to the author, 020 to the ISBN, subject
+ *       headings to keywords and the call number (852, 090, 099, 050 or 082) to the
+ *       shelf location. Records matching a book by ISBN, then by book ID (001),
+ *       update it; the rest are created with the given number of copies. Each
+ *       record is validated like a book added by hand, and records with errors
+ *       are left out. With dryRun the outcome for each record is returned
+ *       without saving anything.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: MARC21 or MARCXML file, at most 10MB and 5000 records.
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *               defaultCategory:
+ *                 type: string
+ *                 enum: [Textbook, Statute, Law Report, Case Law, Journal, Reference]
+ *                 default: Reference
+ *                 description: Category for new books whose record doesn't name one in 655.
+ *               defaultShelfLocation:
+ *                 type: string
+ *                 description: Shelf location for new books whose record has no call number.
+ *               copies:
+ *                 type: integer
+ *                 default: 1
+ *                 description: Copies to add for each new book.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Records imported, or the preview of a dry run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                     create:
+ *                       type: integer
+ *                     update:
+ *                       type: integer
+ *                     skip:
+ *                       type: integer
+ *                     error:
+ *                       type: integer
+ *                 records:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       index:
+ *                         type: integer
+ *                       action:
+ *                         type: string
+ *                         enum: [create, update, skip, error]
+ *                       bookId:
+ *                         type: string
+ *                       title:
+ *                         type: string
+ *                       isbn:
+ *                         type: string
+ *                       matchedBy:
+ *                         type: string
+ *                         enum: [isbn, bookId]
+ *                       existingId:
+ *                         type: string
+ *                       changes:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       errors:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *       400:
+ *         description: Missing or unreadable file, or invalid options
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    for (const permission of [
+      PERMISSIONS.BOOKS_CREATE,
+      PERMISSIONS.BOOKS_UPDATE,
+    ]) {
+      const permissionError = await requirePermission(permission)(request);
+      if (permissionError) return permissionError;
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const dryRun = formData.get('dryRun') === 'true';
+    const defaultCategory =
+      (formData.get('defaultCategory') as string | null) || 'Reference';
+    const defaultShelfLocation = (
+      (formData.get('defaultShelfLocation') as string | null) || ''
+    ).trim();
+    const copies = Number.parseInt(
+      (formData.get('copies') as string | null) || '1'
+    );
+
+    if (!file || file.size === 0) {
+      return NextResponse.json(
+        { error: 'A MARC21 or MARCXML file is required' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 10MB' },
+        { status: 400 }
+      );
+    }
+    if (!BOOK_CATEGORIES.includes(defaultCategory)) {
+      return NextResponse.json(
+        {
+          error: `Default category must be one of ${BOOK_CATEGORIES.join(
+            ', '
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (Number.isNaN(copies) || copies < 1 || copies > MAX_COPIES) {
+      return NextResponse.json(
+        { error: `Copies must be between 1 and ${MAX_COPIES}` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseMarcFile(Buffer.from(await file.arrayBuffer()));
+    if (parsed.records.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No MARC records could be read from the file',
+          details: parsed.errors,
+        },
+        { status: 400 }
+      );
+    }
+    if (parsed.records.length > MAX_RECORDS) {
+      return NextResponse.json(
+        { error: `Files can hold at most ${MAX_RECORDS} records` },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const collection = db.collection<Book>('books');
+
+    // The whole catalogue is matched in memory: stored ISBNs are not
+    // normalized, so hyphenated and bare forms must compare equal
+    const books = await collection.find({}).toArray();
+    const byIsbn = new Map<string, Book>();
+    const byBookId = new Map<string, Book>();
+    for (const book of books) {
+      const isbn = normalizeIsbn(book.isbn);
+      if (isbn && !byIsbn.has(isbn)) byIsbn.set(isbn, book);
+      byBookId.set(book.bookId, book);
+    }
+
+    // Later records with the same identifier as an earlier one are skipped
+    const seen = new Set<string>();
+    const results: ImportRecord[] = parsed.errors.map((error, index) => ({
+      index: parsed.records.length + index,
+      action: 'error',
+      errors: [error],
+    }));
+
+    for (let index = 0; index < parsed.records.length; index++) {
+      const record = parsed.records[index];
+      const fields = marcToBook(record);
+      const isbn = normalizeIsbn(fields.isbn);
+      const bookId = fields.bookId || isbn;
+      const result: ImportRecord = {
+        index,
+        action: 'skip',
+        bookId,
+        title: fields.title,
+        isbn: fields.isbn,
+      };
+      results.push(result);
+
+      if (!bookId) {
+        result.action = 'error';
+        result.errors = ['Record has no control number (001) or ISBN'];
+        continue;
+      }
+
+      const keys = [isbn && `isbn:${isbn}`, `bookId:${bookId}`].filter(
+        (key): key is string => !!key
+      );
+      if (keys.some((key) => seen.has(key))) {
+        result.errors = ['Duplicate of an earlier record in the file'];
+        continue;
+      }
+      keys.forEach((key) => seen.add(key));
+
+      const existing =
+        (isbn && byIsbn.get(isbn)) || byBookId.get(bookId) || null;
+
+      if (existing) {
+        result.matchedBy =
+          isbn && byIsbn.get(isbn) === existing ? 'isbn' : 'bookId';
+        result.existingId = existing._id?.toString();
+        result.bookId = existing.bookId;
+
+        const update = getChanges(existing, fields);
+        result.changes = Object.keys(update);
+        if (result.changes.length === 0) continue;
+
+        // Only the fields the record changes are checked, older books may
+        // not meet every rule
+        const { errors } = validateNewBook({ ...existing, ...update });
+        const changeErrors = result.changes
+          .filter((field) => errors[field])
+          .map((field) => errors[field]);
+        if (changeErrors.length > 0) {
+          result.action = 'error';
+          result.errors = changeErrors;
+          continue;
+        }
+
+        result.action = 'update';
+        if (dryRun) continue;
+
+        const updated = await collection.findOneAndUpdate(
+          { _id: existing._id },
+          { $set: { ...update, updatedAt: new Date() } },
+          { returnDocument: 'after' }
+        );
+        await recordAudit(request, {
+          action: 'UPDATE_BOOK',
+          targetType: 'book',
+          targetId: existing._id,
+          before: existing,
+          after: updated,
+          details: { source: 'marc' },
+        });
+        continue;
+      }
+
+      const newBook: Book = {
+        title: fields.title || '',
+        author: fields.author || '',
+        category: fields.category || defaultCategory,
+        isbn: fields.isbn || '',
+        bookId,
+        totalCopies: copies,
+        availableCopies: copies,
+        shelfLocation: fields.shelfLocation || defaultShelfLocation,
+        keywords: fields.keywords || [],
+        coverImage: '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const { valid, errors } = validateNewBook(newBook);
+      if (!valid) {
+        result.action = 'error';
+        result.errors = Object.entries(errors).map(([field, error]) => {
+          const source = MARC_SOURCES[field as keyof Book];
+          return source && !newBook[field as keyof Book]
+            ? `Missing ${source}`
+            : error;
+        });
+        continue;
+      }
+
+      result.action = 'create';
+      if (dryRun) continue;
+
+      const inserted = await collection.insertOne(newBook);
+      await addCopies({ ...newBook, _id: inserted.insertedId }, copies);
+      await recordAudit(request, {
+        action: 'CREATE_BOOK',
+        targetType: 'book',
+        targetId: inserted.insertedId,
+        after: newBook,
+        details: { source: 'marc' },
+      });
+      result.existingId = inserted.insertedId.toString();
+    }
+
+    results.sort((a, b) => a.index - b.index);
+    const summary = {
+      total: results.length,
+      create: 0,
+      update: 0,
+      skip: 0,
+      error: 0,
+    };
+    for (const result of results) summary[result.action]++;
+
+    return NextResponse.json({ dryRun, summary, records: results });
+  } catch (error) {
+    console.error('Error importing MARC records:', error);
+    return NextResponse.json(
+      { error: 'Failed to import MARC records' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * The fields of a matched book that the record changes. Keywords are merged
+ * so that ones added in the catalogue are kept.
+ */
+function getChanges(book: Book, fields: Partial<MarcBookFields>) {
+  const changes: Partial<Book> = {};
+  for (const field of UPDATABLE_FIELDS) {
+    const value = fields[field];
+    if (!value || (Array.isArray(value) && value.length === 0)) continue;
+
+    if (field === 'keywords') {
+      const current = book.keywords || [];
+      const keywords = Array.from(
+        new Set<string>([...current, ...(value as string[])])
+      );
+      if (keywords.length !== current.length) changes.keywords = keywords;
+    } else if (field === 'isbn') {
+      if (normalizeIsbn(book.isbn) !== normalizeIsbn(value as string)) {
+        changes.isbn = value as string;
+      }
+    } else if (book[field] !== value) {
+      changes[field] = value as string;
+    }
+  }
+  return changes;
+}
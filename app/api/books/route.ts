@@ -6,6 +6,12 @@ import { getDatabase } from '@/lib/mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import type { Book } from '@/lib/models';
+import { getHoldCounts } from '@/lib/reservations';
+import { addCopies } from '@/lib/copies';
+import { recordAudit } from '@/lib/audit';
+import { searchBooks } from '@/lib/search';
+import { validateCitation } from '@/lib/validators';
+import { normalizeCitation } from '@/lib/citations';
 
 /**
  * @swagger
@@ -13,7 +19,7 @@ import type { Book } from '@/lib/models';
  *   get:
  *     tags: [Books]
  *     summary: Get all books
- *     description: Retrieve a list of all books with pagination and search capabilities.
+ *     description: Retrieve a list of all books with pagination and search capabilities. With a search query the books are ranked by relevance, as in /books/search, and a pasted law report citation finds the volume or case it cites. Each book includes the number of borrowers waiting in its hold queue.
  *     parameters:
  *       - in: query
  *         name: page
@@ -31,7 +37,7 @@ import type { Book } from '@/lib/models';
  *         name: search
  *         schema:
  *           type: string
- *         description: Search query for title, author, ISBN, or book ID.
+ *         description: Full-text search over title, author, keywords, ISBN and book ID.
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -57,7 +63,7 @@ import type { Book } from '@/lib/models';
  *   post:
  *     tags: [Books]
  *     summary: Create a new book
- *     description: Add a new book to the library.
+ *     description: Add a new book to the library. A copy record with a generated barcode is created for each of the total copies.
  *     requestBody:
  *       required: true
  *       content:
@@ -93,6 +99,11 @@ import type { Book } from '@/lib/models';
  *                   type: string
  *               coverImage:
  *                 type: string
+ *               replacementCost:
+ *                 type: number
+ *                 description: Charged to the borrower when a copy is lost or damaged.
+ *               citation:
+ *                 $ref: '#/components/schemas/BookCitation'
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -127,27 +138,25 @@ export async function GET(request: NextRequest) {
     const limit = Number.parseInt(searchParams.get('limit') || '10');
     const searchQuery = searchParams.get('search') || '';
 
-    const query: any = {};
-    if (searchQuery) {
-      query.$or = [
-        { title: { $regex: searchQuery, $options: 'i' } },
-        { author: { $regex: searchQuery, $options: 'i' } },
-        { isbn: { $regex: searchQuery, $options: 'i' } },
-        { bookId: { $regex: searchQuery, $options: 'i' } },
-      ];
-    }
-
-    const books = await db
-      .collection<Book>('books')
-      .find(query)
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .toArray();
-
-    const total = await db.collection<Book>('books').countDocuments(query);
+    const { books, total } = searchQuery
+      ? await searchBooks(db, { query: searchQuery, page, limit })
+      : {
+          books: await db
+            .collection<Book>('books')
+            .find({})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .toArray(),
+          total: await db.collection<Book>('books').countDocuments(),
+        };
+    const holdCounts = await getHoldCounts(books.map((b) => b._id));
 
     return NextResponse.json({
-      books: books.map((b) => ({ ...b, _id: b._id?.toString() })),
+      books: books.map((b) => ({
+        ...b,
+        _id: b._id?.toString(),
+        holdCount: holdCounts[b._id.toString()] || 0,
+      })),
       total,
     });
   } catch (error) {
@@ -181,6 +190,8 @@ export async function POST(request: NextRequest) {
       shelfLocation,
       keywords,
       coverImage,
+      replacementCost,
+      citation,
     } = body;
 
     if (
@@ -208,22 +219,62 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const copyCount = Number.parseInt(totalCopies);
+    if (Number.isNaN(copyCount) || copyCount < 1) {
+      return NextResponse.json(
+        { error: 'Total Copies must be at least 1' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      replacementCost != null &&
+      (typeof replacementCost !== 'number' || !(replacementCost >= 0))
+    ) {
+      return NextResponse.json(
+        { error: 'Replacement Cost must be a non-negative amount' },
+        { status: 400 }
+      );
+    }
+
+    if (citation) {
+      const { valid, errors } = validateCitation(citation, category);
+      if (!valid) {
+        return NextResponse.json(
+          {
+            error: `Invalid citation: ${Object.values(errors).join('; ')}`,
+            details: errors,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     const newBook: Book = {
       title,
       author,
       category,
       isbn: isbn || '',
       bookId,
-      totalCopies: Number.parseInt(totalCopies),
-      availableCopies: Number.parseInt(totalCopies),
+      totalCopies: copyCount,
+      availableCopies: copyCount,
       shelfLocation,
       keywords: keywords || [],
       coverImage: coverImage || '',
+      ...(replacementCost != null && { replacementCost }),
+      ...(citation && { citation: normalizeCitation(citation) }),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     const result = await db.collection<Book>('books').insertOne(newBook);
+    await addCopies({ ...newBook, _id: result.insertedId }, copyCount);
+    await recordAudit(request, {
+      action: 'CREATE_BOOK',
+      targetType: 'book',
+      targetId: result.insertedId,
+      after: newBook,
+    });
 
     return NextResponse.json(
       { ...newBook, _id: result.insertedId.toString() },
@@ -0,0 +1,165 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { type BookSearchFilters, searchBooks } from '@/lib/search';
+
+const MAX_LIMIT = 100;
+
+/**
+ * @swagger
+ * /books/search:
+ *   get:
+ *     tags: [Books]
+ *     summary: Search the catalogue
+ *     description: >
+ *       Full-text search over title, author, keywords, ISBN and book ID, best
+ *       matches first. Words are stemmed, and words found nowhere in the catalogue
+ *       are replaced with the closest catalogue word before searching. Results can
+ *       be narrowed by facet; each facet's counts ignore its own selection. When q
+ *       holds a law report citation such as (2019) 8 NWLR (Pt. 1675) 1 or
+ *       [1932] AC 562 and a catalogued volume or case matches it, only those are
+ *       returned, the closest match first. Without q the whole catalogue is
+ *       listed by title.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *       - in: query
+ *         name: author
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *       - in: query
+ *         name: availability
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [available, unavailable]
+ *         style: form
+ *         explode: true
+ *       - in: query
+ *         name: shelf
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Matching books with facet counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 books:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Book'
+ *                 total:
+ *                   type: integer
+ *                 facets:
+ *                   type: object
+ *                   description: Top values of category, author, availability and shelf, each as { value, count }.
+ *                 terms:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Stems of the searched words, for highlighting matches.
+ *                 correctedQuery:
+ *                   type: string
+ *                   description: The query searched for when misspelt words were replaced.
+ *                 citation:
+ *                   $ref: '#/components/schemas/BookCitation'
+ *                   description: The citation the query was read as, when books matched it.
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(
+      Number.parseInt(searchParams.get('page') || '1') || 1,
+      1
+    );
+    const limit = Math.min(
+      Math.max(Number.parseInt(searchParams.get('limit') || '10') || 10, 1),
+      MAX_LIMIT
+    );
+    const filters: BookSearchFilters = {
+      category: searchParams.getAll('category'),
+      author: searchParams.getAll('author'),
+      availability: searchParams
+        .getAll('availability')
+        .filter(
+          (value): value is 'available' | 'unavailable' =>
+            value === 'available' || value === 'unavailable'
+        ),
+      shelf: searchParams.getAll('shelf'),
+    };
+
+    const db = await getDatabase();
+    const result = await searchBooks(db, {
+      query: searchParams.get('q') || '',
+      filters,
+      page: Number.isNaN(page) ? 1 : page,
+      limit: Number.isNaN(limit) ? 10 : limit,
+    });
+
+    return NextResponse.json({
+      ...result,
+      books: result.books.map((book) => ({
+        ...book,
+        _id: book._id?.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error searching books:', error);
+    return NextResponse.json(
+      { error: 'Failed to search books' },
+      { status: 500 }
+    );
+  }
+}
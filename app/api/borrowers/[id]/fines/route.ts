@@ -0,0 +1,238 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Borrower } from '@/lib/models';
+import {
+  MAX_OUTSTANDING_FINES,
+  getFineBalance,
+  getFineLedger,
+  recordPayment,
+} from '@/lib/fines';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/borrowers/{id}/fines:
+ *   get:
+ *     tags: [Fines]
+ *     summary: Get a borrower's fines ledger
+ *     description: Lists every charge, payment and waiver recorded for a borrower, newest first, together with the outstanding balance and the balance above which new loans are blocked.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Ledger retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 balance:
+ *                   type: number
+ *                 limit:
+ *                   type: number
+ *                 blocked:
+ *                   type: boolean
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/FineLedgerEntry'
+ *       400:
+ *         description: Invalid borrower ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Borrower not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.FINES_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Borrower ID' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: new ObjectId(params.id) });
+    if (!borrower) {
+      return NextResponse.json(
+        { error: 'Borrower not found' },
+        { status: 404 }
+      );
+    }
+
+    const [balance, entries] = await Promise.all([
+      getFineBalance(borrower._id),
+      getFineLedger(borrower._id),
+    ]);
+
+    return NextResponse.json({
+      balance,
+      limit: MAX_OUTSTANDING_FINES,
+      blocked: balance > MAX_OUTSTANDING_FINES,
+      entries: entries.map((entry) => ({
+        ...entry,
+        _id: entry._id.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching fines ledger:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fines ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/borrowers/{id}/fines:
+ *   post:
+ *     tags: [Fines]
+ *     summary: Record a fine payment
+ *     description: Records a payment from a borrower against their outstanding balance.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 minimum: 0.01
+ *               description:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Payment recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FineLedgerEntry'
+ *       400:
+ *         description: Invalid amount or payment exceeds the balance
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Borrower not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.FINES_CREATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Borrower ID' },
+        { status: 400 }
+      );
+    }
+
+    const { amount, description } = await request.json();
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { error: 'Amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: new ObjectId(params.id) });
+    if (!borrower) {
+      return NextResponse.json(
+        { error: 'Borrower not found' },
+        { status: 404 }
+      );
+    }
+
+    const balance = await getFineBalance(borrower._id);
+    if (amount > balance) {
+      return NextResponse.json(
+        { error: `Payment exceeds the outstanding balance of ${balance}` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    const payment = await recordPayment(borrower._id, amount, {
+      description,
+      recordedBy: user?._id,
+    });
+    await recordAudit(request, {
+      action: 'RECORD_FINE_PAYMENT',
+      targetType: 'fine',
+      targetId: payment._id,
+      after: payment,
+      actor: user,
+    });
+
+    return NextResponse.json(
+      { ...payment, _id: payment._id.toString() },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error recording fine payment:', error);
+    return NextResponse.json(
+      { error: 'Failed to record payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,16 +8,7 @@ import { PERMISSIONS } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
 import type { Borrower } from '@/lib/models';
 import { validateBorrowerUpdate } from '@/lib/validators';
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id: string;
-    name?: string | null;
-    email?: string | null;
-    role: string;
-    permissions: string[];
-  };
-}
+import { recordAudit } from '@/lib/audit';
 
 /**
  * @swagger
@@ -217,23 +208,13 @@ export async function PUT(
       );
     }
 
-    // Audit log
-    try {
-      const authenticatedRequest = request as AuthenticatedRequest;
-      await db.collection('audit_logs').insertOne({
-        action: 'UPDATE_BORROWER',
-        targetId: result.value._id,
-        targetType: 'borrower',
-        actor: authenticatedRequest.user?.id,
-        details: {
-          oldValues: existingBorrower,
-          newValues: result.value,
-        },
-        timestamp: new Date(),
-      });
-    } catch (auditError) {
-      console.error('Failed to create audit log:', auditError);
-    }
+    await recordAudit(request, {
+      action: 'UPDATE_BORROWER',
+      targetType: 'borrower',
+      targetId: result.value._id,
+      before: existingBorrower,
+      after: result.value,
+    });
 
     return NextResponse.json({
       ...result.value,
@@ -352,22 +333,12 @@ export async function DELETE(
       );
     }
 
-    // Audit log
-    try {
-      const authenticatedRequest = request as AuthenticatedRequest;
-      await db.collection('audit_logs').insertOne({
-        action: 'DELETE_BORROWER',
-        targetId: borrower._id,
-        targetType: 'borrower',
-        actor: authenticatedRequest.user?.id,
-        details: {
-          deletedBorrower: borrower,
-        },
-        timestamp: new Date(),
-      });
-    } catch (auditError) {
-      console.error('Failed to create audit log:', auditError);
-    }
+    await recordAudit(request, {
+      action: 'DELETE_BORROWER',
+      targetType: 'borrower',
+      targetId: borrower._id,
+      before: borrower,
+    });
 
     return NextResponse.json(
       {
@@ -0,0 +1,121 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Borrower } from '@/lib/models';
+import { BORROWER_COLUMNS, exportResponse } from '@/lib/imports';
+
+/**
+ * @swagger
+ * /api/borrowers/export:
+ *   get:
+ *     tags: [Borrowers]
+ *     summary: Export borrowers as CSV or Excel
+ *     description: Download the borrowers matching the list filters, with the same columns the import reads so that the file can be edited and imported again.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search query for name, email, or member ID.
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: Only export borrowers with these roles.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV or Excel file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Unknown format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BORROWERS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csv';
+    const searchQuery = searchParams.get('search') || '';
+    const roles = searchParams.getAll('role');
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { error: 'format must be csv or xlsx' },
+        { status: 400 }
+      );
+    }
+
+    const query: any = {};
+    if (searchQuery) {
+      query.$or = [
+        { name: { $regex: searchQuery, $options: 'i' } },
+        { email: { $regex: searchQuery, $options: 'i' } },
+        { memberId: { $regex: searchQuery, $options: 'i' } },
+      ];
+    }
+    if (roles.length > 0) {
+      query.role = { $in: roles };
+    }
+
+    const db = await getDatabase();
+    const borrowers = await db
+      .collection<Borrower>('borrowers')
+      .find(query)
+      .sort({ memberId: 1 })
+      .toArray();
+
+    return exportResponse(
+      BORROWER_COLUMNS,
+      borrowers.map((borrower) => ({
+        memberId: borrower.memberId,
+        name: borrower.name,
+        role: borrower.role,
+        phone: borrower.phone,
+        email: borrower.email,
+      })),
+      format,
+      'borrowers'
+    );
+  } catch (error) {
+    console.error('Error exporting borrowers:', error);
+    return NextResponse.json(
+      { error: 'Failed to export borrowers' },
+      { status: 500 }
+    );
+  }
+}
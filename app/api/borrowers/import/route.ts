@@ -0,0 +1,158 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Borrower } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import { validateNewBorrower } from '@/lib/validators';
+import {
+  BORROWER_COLUMNS,
+  type ImportRowResult,
+  checkUniqueKeys,
+  importSummary,
+  readImportRequest,
+  readRow,
+} from '@/lib/imports';
+
+/**
+ * @swagger
+ * /api/borrowers/import:
+ *   post:
+ *     tags: [Borrowers]
+ *     summary: Import borrowers from a CSV or Excel file
+ *     description: >
+ *       Creates a borrower for each row of the first sheet. Columns are matched to
+ *       fields by header (Member ID, Name, Role, Phone and Email) unless a mapping
+ *       is given. Each row is validated and its Member ID checked against existing
+ *       borrowers and the rest of the file. With dryRun the outcome of each row is
+ *       returned without saving anything; otherwise nothing is imported unless
+ *       every row is valid.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV or .xlsx file, at most 10MB and 5000 rows.
+ *               mapping:
+ *                 type: string
+ *                 description: JSON object of borrower fields to the headers they are read from.
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Borrowers imported, or the preview of a dry run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportResult'
+ *       400:
+ *         description: Unreadable file, or rows with errors when not a dry run
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.BORROWERS_CREATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const sheet = await readImportRequest(
+      await request.formData(),
+      BORROWER_COLUMNS
+    );
+    if (sheet instanceof NextResponse) return sheet;
+
+    const borrowers: Borrower[] = [];
+    const results: ImportRowResult[] = sheet.rows.map((row, index) => {
+      const values = readRow(sheet.headers, row, sheet.mapping);
+      const borrower: Borrower = {
+        name: values.name || '',
+        role: values.role || '',
+        phone: values.phone || '',
+        email: values.email || '',
+        memberId: values.memberId || '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      borrowers.push(borrower);
+
+      const { errors } = validateNewBorrower(borrower);
+      return {
+        row: index + 2,
+        action: Object.keys(errors).length > 0 ? 'error' : 'create',
+        key: borrower.memberId || undefined,
+        label: borrower.name || undefined,
+        ...(Object.keys(errors).length > 0 && {
+          errors: Object.values(errors),
+        }),
+      };
+    });
+
+    const db = await getDatabase();
+    const collection = db.collection<Borrower>('borrowers');
+    const keys = results
+      .map((result) => result.key)
+      .filter((key): key is string => !!key);
+    const existing = await collection
+      .find({ memberId: { $in: keys } }, { projection: { memberId: 1 } })
+      .toArray();
+    checkUniqueKeys(
+      results,
+      new Set(existing.map((borrower) => borrower.memberId)),
+      'Member ID'
+    );
+
+    const body = importSummary(sheet, BORROWER_COLUMNS, results);
+    if (sheet.dryRun) return NextResponse.json(body);
+
+    if (body.missingColumns.length > 0 || body.summary.error > 0) {
+      return NextResponse.json(
+        {
+          ...body,
+          error: 'Nothing was imported, fix the rows with errors and try again',
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const borrower of borrowers) {
+      const result = await collection.insertOne(borrower);
+      await recordAudit(request, {
+        action: 'CREATE_BORROWER',
+        targetType: 'borrower',
+        targetId: result.insertedId,
+        after: borrower,
+        details: { source: 'import' },
+      });
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error importing borrowers:', error);
+    return NextResponse.json(
+      { error: 'Failed to import borrowers' },
+      { status: 500 }
+    );
+  }
+}
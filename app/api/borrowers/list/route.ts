@@ -35,6 +35,8 @@ import type { Borrower } from '@/lib/models';
  *                     type: string
  *                   role:
  *                     type: string
+ *                   email:
+ *                     type: string
  *       401:
  *         description: Unauthorized
  *       403:
@@ -56,7 +58,7 @@ export async function GET(request: NextRequest) {
     const borrowers = await db
       .collection<Borrower>('borrowers')
       .find({})
-      .project({ name: 1, memberId: 1, role: 1 })
+      .project({ name: 1, memberId: 1, role: 1, email: 1 })
       .toArray();
 
     return NextResponse.json(
@@ -0,0 +1,125 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Borrower, LendingRecord } from '@/lib/models';
+
+/**
+ * @swagger
+ * /api/borrowers/member/{memberId}:
+ *   get:
+ *     tags: [Borrowers]
+ *     summary: Get a borrower by member ID
+ *     description: Retrieve a borrower from the member ID printed on their card, together with their open loans.
+ *     parameters:
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Borrower retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 borrower:
+ *                   $ref: '#/components/schemas/Borrower'
+ *                 activeLoans:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LendingRecord'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Borrower not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { memberId: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BORROWERS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne({ memberId: decodeURIComponent(params.memberId).trim() });
+
+    if (!borrower) {
+      return NextResponse.json(
+        { error: 'Borrower not found' },
+        { status: 404 }
+      );
+    }
+
+    const activeLoans = await db
+      .collection<LendingRecord>('lendings')
+      .aggregate([
+        {
+          $match: {
+            borrowerId: borrower._id,
+            status: { $in: ['borrowed', 'overdue'] },
+          },
+        },
+        { $sort: { dueDate: 1 } },
+        {
+          $lookup: {
+            from: 'books',
+            localField: 'bookId',
+            foreignField: '_id',
+            as: 'book',
+          },
+        },
+        { $unwind: { path: '$book', preserveNullAndEmptyArrays: true } },
+        {
+          $lookup: {
+            from: 'book_copies',
+            localField: 'copyId',
+            foreignField: '_id',
+            as: 'copy',
+          },
+        },
+        { $unwind: { path: '$copy', preserveNullAndEmptyArrays: true } },
+        {
+          $project: {
+            _id: { $toString: '$_id' },
+            borrowDate: 1,
+            dueDate: 1,
+            status: 1,
+            'book.title': '$book.title',
+            'copy.barcode': '$copy.barcode',
+          },
+        },
+      ])
+      .toArray();
+
+    return NextResponse.json({
+      borrower: { ...borrower, _id: borrower._id.toString() },
+      activeLoans,
+    });
+  } catch (error) {
+    console.error('Error fetching borrower by member ID:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch borrower' },
+      { status: 500 }
+    );
+  }
+}
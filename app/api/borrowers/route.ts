@@ -6,6 +6,7 @@ import { getDatabase } from '@/lib/mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import type { Borrower } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * @swagger
@@ -191,6 +192,12 @@ export async function POST(request: NextRequest) {
     const result = await db
       .collection<Borrower>('borrowers')
       .insertOne(newBorrower);
+    await recordAudit(request, {
+      action: 'CREATE_BORROWER',
+      targetType: 'borrower',
+      targetId: result.insertedId,
+      after: newBorrower,
+    });
 
     return NextResponse.json(
       { ...newBorrower, _id: result.insertedId.toString() },
@@ -8,6 +8,7 @@ import { ObjectId } from 'mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import type { Case } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * @swagger
@@ -241,6 +242,14 @@ export async function PUT(
       );
     }
 
+    await recordAudit(request, {
+      action: 'UPDATE_CASE',
+      targetType: 'case',
+      targetId: objectId,
+      before: existingCase,
+      after: { ...existingCase, ...updatePayload },
+    });
+
     // Fetch the updated case with the same pipeline as GET
     const pipeline = [
       { $match: { _id: objectId } },
@@ -336,14 +345,26 @@ export async function DELETE(
       );
     }
 
-    const result = await db
+    const deletedCase = await db
       .collection<Case>('cases')
-      .deleteOne({ _id: objectId });
+      .findOneAndDelete({ _id: objectId });
 
-    if (result.deletedCount === 0) {
+    if (!deletedCase) {
       return NextResponse.json({ error: 'Case not found' }, { status: 404 });
     }
 
+    const reminders = await db
+      .collection('reminders')
+      .deleteMany({ caseId: objectId });
+
+    await recordAudit(request, {
+      action: 'DELETE_CASE',
+      targetType: 'case',
+      targetId: objectId,
+      before: deletedCase,
+      details: { remindersDeleted: reminders.deletedCount },
+    });
+
     return new NextResponse(null, { status: 204 });
   } catch (error) {
     console.error('Error deleting case:', error);
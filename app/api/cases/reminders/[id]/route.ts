@@ -0,0 +1,468 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type UpdateFilter } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Reminder, User } from '@/lib/models';
+import { validateReminder } from '@/lib/validators';
+import {
+  CLOSED_REMINDER_STATUSES,
+  getLeadDays,
+  getNextSendAt,
+  getReminders,
+  normalizeSchedule,
+  resendReminder,
+} from '@/lib/reminders';
+import { recordAudit } from '@/lib/audit';
+
+type ReminderAction = 'snooze' | 'done' | 'cancel' | 'reopen' | 'retry';
+
+const AUDIT_ACTIONS: Record<ReminderAction, string> = {
+  snooze: 'SNOOZE_REMINDER',
+  done: 'COMPLETE_REMINDER',
+  cancel: 'CANCEL_REMINDER',
+  reopen: 'REOPEN_REMINDER',
+  retry: 'RETRY_REMINDER',
+};
+
+/**
+ * @swagger
+ * /api/cases/reminders/{id}:
+ *   get:
+ *     tags: [Cases]
+ *     summary: Get a case reminder
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reminder retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Reminder'
+ *       400:
+ *         description: Invalid reminder ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Reminder not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags: [Cases]
+ *     summary: Update a case reminder
+ *     description: |
+ *       Edits a reminder's title, message, due date or assignees, or moves it through its lifecycle with an `action`:
+ *       - `snooze` holds the reminder until `snoozedUntil`, when it is sent again
+ *       - `done` marks the deadline as met and stops further reminders
+ *       - `cancel` stops the reminder without completing it
+ *       - `reopen` puts a done or cancelled reminder back to pending
+ *       - `retry` resends a failed or sent reminder straight away
+ *
+ *       Changing the due date, lead times or recurrence of an open reminder puts it back to pending and starts its notices afresh.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [snooze, done, cancel, reopen, retry]
+ *               snoozedUntil:
+ *                 type: string
+ *                 format: date-time
+ *               title:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *               leadDays:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                   minimum: 0
+ *               recurrence:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/ReminderRecurrence'
+ *                 nullable: true
+ *                 description: Set to null to stop the reminder repeating.
+ *               assignees:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reminder updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Reminder'
+ *       400:
+ *         description: Invalid input or action not allowed in the reminder's current state
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Reminder or assignee not found
+ *       409:
+ *         description: The reminder is already being sent
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Cases]
+ *     summary: Delete a case reminder
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Reminder deleted successfully
+ *       400:
+ *         description: Invalid reminder ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Reminder not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(PERMISSIONS.CASES_READ)(
+      request
+    );
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Reminder ID format' },
+        { status: 400 }
+      );
+    }
+
+    const [reminder] = await getReminders({ _id: new ObjectId(params.id) });
+    if (!reminder) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(reminder);
+  } catch (error) {
+    console.error('Error fetching reminder:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reminder' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.CASES_UPDATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Reminder ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const reminderId = new ObjectId(params.id);
+    const reminder = await db
+      .collection<Reminder>('reminders')
+      .findOne({ _id: reminderId });
+    if (!reminder) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
+    const { action, snoozedUntil, ...updateData } = (await request.json()) as {
+      action?: ReminderAction;
+      snoozedUntil?: string;
+    } & Partial<Reminder>;
+    const isClosed = CLOSED_REMINDER_STATUSES.includes(reminder.status);
+    const now = new Date();
+    const changes: Partial<Reminder> = { updatedAt: now };
+    const cleared: Record<string, ''> = {};
+
+    switch (action) {
+      case undefined:
+        break;
+      case 'snooze': {
+        const until = new Date(snoozedUntil ?? '');
+        if (Number.isNaN(until.getTime()) || until <= now) {
+          return NextResponse.json(
+            { error: 'snoozedUntil must be a date in the future' },
+            { status: 400 }
+          );
+        }
+        if (isClosed) {
+          return NextResponse.json(
+            { error: `Cannot snooze a ${reminder.status} reminder` },
+            { status: 400 }
+          );
+        }
+        changes.status = 'snoozed';
+        changes.snoozedUntil = until;
+        break;
+      }
+      case 'done': {
+        const user = await getCurrentUser(request);
+        changes.status = 'done';
+        changes.completedAt = now;
+        if (user?._id) changes.completedBy = user._id;
+        cleared.snoozedUntil = '';
+        break;
+      }
+      case 'cancel':
+        changes.status = 'cancelled';
+        cleared.snoozedUntil = '';
+        break;
+      case 'reopen':
+        if (!isClosed) {
+          return NextResponse.json(
+            { error: 'Only done or cancelled reminders can be reopened' },
+            { status: 400 }
+          );
+        }
+        changes.status = 'pending';
+        cleared.completedAt = '';
+        cleared.completedBy = '';
+        break;
+      case 'retry':
+        if (reminder.status !== 'failed' && reminder.status !== 'sent') {
+          return NextResponse.json(
+            { error: 'Only failed or sent reminders can be resent' },
+            { status: 400 }
+          );
+        }
+        break;
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+
+    let rescheduled = false;
+    if (Object.keys(updateData).length > 0) {
+      const { valid, errors } = validateReminder(updateData, {
+        partial: true,
+      });
+      if (!valid) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: errors },
+          { status: 400 }
+        );
+      }
+
+      if (updateData.title !== undefined) {
+        changes.title = updateData.title.trim();
+      }
+      if (updateData.message !== undefined) {
+        changes.message = updateData.message.trim();
+      }
+      if (updateData.assignees !== undefined) {
+        const assignees = Array.from(
+          new Set(updateData.assignees.map(String))
+        ).map((id) => new ObjectId(id));
+        const assigneeCount = await db
+          .collection<User>('users')
+          .countDocuments({ _id: { $in: assignees } });
+        if (assigneeCount !== assignees.length) {
+          return NextResponse.json(
+            { error: 'Assigned user not found' },
+            { status: 404 }
+          );
+        }
+        changes.assignees = assignees;
+        cleared.assignedTo = '';
+      }
+      if (updateData.dueDate !== undefined) {
+        changes.dueDate = new Date(updateData.dueDate);
+      }
+
+      const { leadDays, recurrence } = normalizeSchedule(updateData);
+      if (leadDays !== undefined) changes.leadDays = leadDays;
+      if (recurrence) changes.recurrence = recurrence;
+      if (recurrence === null) cleared.recurrence = '';
+
+      // A changed schedule starts over, so its notices are sent afresh
+      rescheduled = Boolean(
+        (changes.dueDate &&
+          changes.dueDate.getTime() !== new Date(reminder.dueDate).getTime()) ||
+          (leadDays !== undefined &&
+            leadDays.join() !== getLeadDays(reminder).join()) ||
+          (recurrence !== undefined &&
+            JSON.stringify(recurrence) !==
+              JSON.stringify(reminder.recurrence ?? null))
+      );
+      if (rescheduled) {
+        changes.notices = [];
+      }
+      if (rescheduled && !isClosed && !action) {
+        changes.status = 'pending';
+        cleared.snoozedUntil = '';
+        cleared.sentAt = '';
+        cleared.failedAt = '';
+        cleared.errorMessage = '';
+      }
+    }
+
+    if (rescheduled || action === 'reopen') {
+      const merged = { ...reminder, ...changes };
+      if (cleared.recurrence !== undefined) delete merged.recurrence;
+
+      const nextSendAt = getNextSendAt(merged);
+      if (nextSendAt) changes.nextSendAt = nextSendAt;
+      else cleared.nextSendAt = '';
+    }
+
+    const update: UpdateFilter<Reminder> = { $set: changes };
+    if (Object.keys(cleared).length > 0) update.$unset = cleared;
+
+    const updated = await db
+      .collection<Reminder>('reminders')
+      .findOneAndUpdate({ _id: reminderId }, update, {
+        returnDocument: 'after',
+      });
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: action ? AUDIT_ACTIONS[action] : 'UPDATE_REMINDER',
+      targetType: 'reminder',
+      targetId: reminderId,
+      before: reminder,
+      after: updated,
+    });
+
+    if (action === 'retry' && !(await resendReminder(updated))) {
+      return NextResponse.json(
+        { error: 'Reminder is already being sent' },
+        { status: 409 }
+      );
+    }
+
+    const [result] = await getReminders({ _id: reminderId });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating reminder:', error);
+    return NextResponse.json(
+      { error: 'Failed to update reminder' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.CASES_UPDATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Reminder ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const reminder = await db
+      .collection<Reminder>('reminders')
+      .findOneAndDelete({ _id: new ObjectId(params.id) });
+
+    if (!reminder) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'DELETE_REMINDER',
+      targetType: 'reminder',
+      targetId: reminder._id,
+      before: reminder,
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting reminder:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete reminder' },
+      { status: 500 }
+    );
+  }
+}
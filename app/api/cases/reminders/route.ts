@@ -1,11 +1,170 @@
 /** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
 import { type NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
-import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { ObjectId, type Filter } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
-import { sendEmail } from '@/lib/email';
+import type { Case, Reminder, User } from '@/lib/models';
+import { validateReminder } from '@/lib/validators';
+import {
+  REMINDER_STATUSES,
+  emailAssignees,
+  getNextSendAt,
+  getReminders,
+  normalizeSchedule,
+  serializeReminder,
+} from '@/lib/reminders';
+import { recordAudit } from '@/lib/audit';
 
+/**
+ * @swagger
+ * /api/cases/reminders:
+ *   get:
+ *     tags: [Cases]
+ *     summary: List case reminders
+ *     description: Lists reminders and deadlines, soonest first, with their assignees populated.
+ *     parameters:
+ *       - in: query
+ *         name: caseId
+ *         schema:
+ *           type: string
+ *         description: Only list reminders for this case.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, sent, failed, done, snoozed, cancelled]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reminders retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Reminder'
+ *       400:
+ *         description: Invalid case ID or status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(PERMISSIONS.CASES_READ)(
+      request
+    );
+    if (permissionResponse) return permissionResponse;
+
+    const { searchParams } = new URL(request.url);
+    const caseId = searchParams.get('caseId');
+    const status = searchParams.get('status') as Reminder['status'] | null;
+
+    const filter: Filter<Reminder> = {};
+    if (caseId) {
+      if (!ObjectId.isValid(caseId)) {
+        return NextResponse.json(
+          { error: 'Invalid Case ID format' },
+          { status: 400 }
+        );
+      }
+      filter.caseId = new ObjectId(caseId);
+    }
+    if (status) {
+      if (!REMINDER_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: `status must be one of ${REMINDER_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      filter.status = status;
+    }
+
+    return NextResponse.json(await getReminders(filter));
+  } catch (error) {
+    console.error('Error fetching reminders:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reminders' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/cases/reminders:
+ *   post:
+ *     tags: [Cases]
+ *     summary: Set a case reminder
+ *     description: Creates a pending reminder for a case deadline and emails its assignees that it has been set. The reminder service then sends a notice each lead time before the deadline, and for recurring reminders before every occurrence of it. Without assignees the reminder goes to the lawyer assigned to the case.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - caseId
+ *               - dueDate
+ *               - message
+ *             properties:
+ *               caseId:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: The deadline, or its first occurrence for recurring reminders.
+ *               leadDays:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                   minimum: 0
+ *                 description: Days before each deadline to send a notice, e.g. [30, 7, 1]. Defaults to [0], on the day.
+ *               recurrence:
+ *                 $ref: '#/components/schemas/ReminderRecurrence'
+ *               assignees:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Reminder set successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Reminder'
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Case or assignee not found
+ *       500:
+ *         description: Internal server error
+ */
 export async function POST(request: NextRequest) {
   try {
     const authResponse = await authMiddleware(request);
@@ -17,84 +176,99 @@ export async function POST(request: NextRequest) {
     if (permissionResponse) return permissionResponse;
 
     const db = await getDatabase();
-    const body = await request.json();
-    const { caseId, dueDate, message, assignedTo } = body;
+    const { caseId, assignedTo, ...reminderData } = await request.json();
 
-    if (!caseId || !dueDate || !message || !assignedTo) {
+    if (!caseId || !ObjectId.isValid(caseId)) {
       return NextResponse.json(
-        { error: 'Case ID, due date, message and assignedTo are required' },
+        { error: 'Invalid Case ID format' },
         { status: 400 }
       );
     }
 
-    // Get case details
-    const caseObjectId = new ObjectId(caseId);
     const caseDetails = await db
-      .collection('cases')
-      .findOne({ _id: caseObjectId });
+      .collection<Case>('cases')
+      .findOne({ _id: new ObjectId(caseId) });
     if (!caseDetails) {
       return NextResponse.json({ error: 'Case not found' }, { status: 404 });
     }
 
-    // Get assigned user details
-    const userObjectId = new ObjectId(assignedTo);
-    const user = await db.collection('users').findOne({ _id: userObjectId });
-    if (!user || !user.email) {
+    // Older clients send a single assignee, and reminders default to the
+    // lawyer on the case
+    if (reminderData.assignees === undefined) {
+      const fallback = assignedTo || caseDetails.assignedTo;
+      if (fallback) reminderData.assignees = [fallback.toString()];
+    }
+
+    const { valid, errors } = validateReminder(reminderData);
+    if (!valid) {
       return NextResponse.json(
-        { error: 'Assigned user not found or has no email' },
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const assignees = Array.from(
+      new Set<string>(reminderData.assignees.map(String))
+    ).map((id) => new ObjectId(id));
+    const assigneeCount = await db
+      .collection<User>('users')
+      .countDocuments({ _id: { $in: assignees } });
+    if (assigneeCount !== assignees.length) {
+      return NextResponse.json(
+        { error: 'Assigned user not found' },
         { status: 404 }
       );
     }
 
-    // Create reminder
-    const reminder = {
-      caseId: caseObjectId,
-      dueDate: new Date(dueDate),
-      message,
-      assignedTo: userObjectId,
-      createdAt: new Date(),
+    const user = await getCurrentUser(request);
+    const now = new Date();
+    const { leadDays, recurrence } = normalizeSchedule(reminderData);
+    const reminder: Reminder = {
+      caseId: caseDetails._id,
+      title: reminderData.title?.trim() || undefined,
+      message: reminderData.message.trim(),
+      dueDate: new Date(reminderData.dueDate),
+      ...(leadDays && { leadDays }),
+      ...(recurrence && { recurrence }),
+      assignees,
       status: 'pending',
+      notices: [],
+      createdBy: user?._id,
+      createdAt: now,
+      updatedAt: now,
     };
+    reminder.nextSendAt = getNextSendAt(reminder);
 
-    await db.collection('reminders').insertOne(reminder);
-
-    // Send email notification
-    const formattedDate = new Date(dueDate).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
+    const result = await db
+      .collection<Reminder>('reminders')
+      .insertOne(reminder);
+    const created = { ...reminder, _id: result.insertedId };
+    await recordAudit(request, {
+      action: 'CREATE_REMINDER',
+      targetType: 'reminder',
+      targetId: result.insertedId,
+      after: created,
+      actor: user,
     });
 
-    const emailContent = `
-      <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
-        <h2 style="color: #1f2937;">Case Reminder: ${caseDetails.title}</h2>
-        <p>Dear ${user.name},</p>
-        <p>This is a reminder for the following case:</p>
-        <ul>
-          <li><strong>Case ID:</strong> ${caseDetails.caseId}</li>
-          <li><strong>Client:</strong> ${caseDetails.clientName}</li>
-          <li><strong>Reminder Date:</strong> ${formattedDate}</li>
-        </ul>
-        <div style="padding: 15px; background-color: #f8f9fa; border-radius: 4px; margin: 15px 0;">
-          <strong>Message:</strong>
-          <p>${message}</p>
-        </div>
-        <p>You can view the case details by clicking <a href="${process.env.NEXTAUTH_URL}/cases/${caseId}">here</a>.</p>
-        <p>Best regards,<br>The Ralph Nwosu & Co. Team</p>
-      </div>
-    `;
-
-    await sendEmail({
-      to: user.email,
-      subject: `Reminder: ${caseDetails.title} (Due ${formattedDate})`,
-      html: emailContent,
-    });
+    // The reminder stands even if the confirmation cannot be delivered
+    try {
+      const formattedDate = reminder.dueDate.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      await emailAssignees(
+        created,
+        (details) => `Reminder: ${details.title} (Due ${formattedDate})`
+      );
+    } catch (error) {
+      console.error('Error emailing reminder confirmation:', error);
+    }
 
-    return NextResponse.json({
-      message: 'Reminder set successfully and email notification sent',
-    });
+    return NextResponse.json(serializeReminder(created), { status: 201 });
   } catch (error) {
     console.error('Error setting reminder:', error);
     return NextResponse.json(
@@ -7,6 +7,7 @@ import { getDatabase } from '@/lib/mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import type { Case } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -230,6 +231,12 @@ export async function POST(request: NextRequest) {
     };
 
     const result = await db.collection<Case>('cases').insertOne(newCase);
+    await recordAudit(request, {
+      action: 'CREATE_CASE',
+      targetType: 'case',
+      targetId: result.insertedId,
+      after: newCase,
+    });
 
     return NextResponse.json(
       { ...newCase, _id: result.insertedId.toString() },
@@ -38,11 +38,10 @@ export async function GET(request: NextRequest) {
       db.collection('books').countDocuments(),
       db.collection('books').countDocuments({ availableCopies: { $gt: 0 } }),
       db.collection('borrowers').countDocuments(),
-      db.collection('lendings').countDocuments({ status: 'borrowed' }),
-      db.collection('lendings').countDocuments({
-        status: 'borrowed',
-        dueDate: { $lt: new Date() },
-      }),
+      db
+        .collection('lendings')
+        .countDocuments({ status: { $in: ['borrowed', 'overdue'] } }),
+      db.collection('lendings').countDocuments({ status: 'overdue' }),
       db
         .collection('lendings')
         .aggregate([
@@ -8,6 +8,7 @@ import { ObjectId } from 'mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import type { Document } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
 import {
   uploadFileToCloudinary,
   deleteFileFromCloudinary,
@@ -290,6 +291,14 @@ export async function PUT(
       );
     }
 
+    await recordAudit(request, {
+      action: 'UPDATE_DOCUMENT',
+      targetType: 'document',
+      targetId: objectId,
+      before: existingDocument,
+      after: updatedDocument,
+    });
+
     return NextResponse.json({
       ...updatedDocument,
       _id: updatedDocument._id.toString(),
@@ -363,6 +372,13 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(request, {
+      action: 'DELETE_DOCUMENT',
+      targetType: 'document',
+      targetId: objectId,
+      before: documentToDelete,
+    });
+
     return new NextResponse(null, { status: 204 });
   } catch (error) {
     console.error('Error deleting document:', error);
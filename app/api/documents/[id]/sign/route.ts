@@ -4,6 +4,7 @@ import { getDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 export async function POST(
   request: NextRequest,
@@ -51,7 +52,7 @@ export async function POST(
       .findOneAndUpdate(
         { _id: objectId },
         { $set: updatePayload },
-        { returnDocument: 'after' }
+        { returnDocument: 'after', includeResultMetadata: true }
       );
 
     if (!result.value) {
@@ -61,6 +62,13 @@ export async function POST(
       );
     }
 
+    await recordAudit(request, {
+      action: 'SIGN_DOCUMENT',
+      targetType: 'document',
+      targetId: objectId,
+      after: result.value,
+    });
+
     return NextResponse.json({
       ...result.value,
       _id: result.value._id.toString(),
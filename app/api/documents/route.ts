@@ -10,6 +10,7 @@ import { PERMISSIONS } from '@/lib/auth';
 import type { Document } from '@/lib/models';
 import { ObjectId } from 'mongodb';
 import { uploadFileToCloudinary } from '@/lib/cloudinary';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * @swagger
@@ -208,6 +209,12 @@ export async function POST(request: NextRequest) {
       .collection<Document>('documents')
       .insertOne(newDocument);
     console.log('Document created with ID:', result.insertedId);
+    await recordAudit(request, {
+      action: 'CREATE_DOCUMENT',
+      targetType: 'document',
+      targetId: result.insertedId,
+      after: newDocument,
+    });
 
     return NextResponse.json(
       {
@@ -8,6 +8,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { PERMISSIONS } from '@/lib/auth';
 import { sendEmail } from '@/lib/email';
+import { recordAudit } from '@/lib/audit';
 import { ObjectId } from 'mongodb';
 
 export async function POST(request: NextRequest) {
@@ -182,6 +183,12 @@ export async function POST(request: NextRequest) {
       sentAt: new Date(),
       message: message || null,
     });
+    await recordAudit(request, {
+      action: 'EMAIL_DOCUMENT',
+      targetType: 'document',
+      targetId: documentId,
+      details: { recipientEmail, subject },
+    });
 
     return NextResponse.json({
       message: 'Document sent successfully',
@@ -0,0 +1,109 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { waiveCharge } from '@/lib/fines';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/fines/{id}/waive:
+ *   post:
+ *     tags: [Fines]
+ *     summary: Waive a charge
+ *     description: Waives what is left of an overdue, lost or damaged charge, never more than the borrower still owes. Waiving an overdue charge also stops it from accruing. Restricted to administrators.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the charge's ledger entry.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Charge waived successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FineLedgerEntry'
+ *       400:
+ *         description: Invalid ID or the entry is not a charge
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Charge not found
+ *       409:
+ *         description: Nothing left to waive on this charge
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.FINES_WAIVE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid Charge ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const user = await getCurrentUser(request);
+    const outcome = await waiveCharge(params.id, {
+      reason: typeof body.reason === 'string' ? body.reason.trim() : undefined,
+      recordedBy: user?._id,
+    });
+
+    if ('error' in outcome) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'WAIVE_FINE',
+      targetType: 'fine',
+      targetId: params.id,
+      after: outcome.waiver,
+      actor: user,
+    });
+
+    return NextResponse.json(
+      { ...outcome.waiver, _id: outcome.waiver._id?.toString() },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error waiving charge:', error);
+    return NextResponse.json(
+      { error: 'Failed to waive charge' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { FineLedgerEntry } from '@/lib/models';
+import { MAX_OUTSTANDING_FINES } from '@/lib/fines';
+
+/**
+ * @swagger
+ * /api/fines:
+ *   get:
+ *     tags: [Fines]
+ *     summary: List outstanding fine balances
+ *     description: Lists every borrower who owes fines, highest balance first, flagging those blocked from new loans.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Balances retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 limit:
+ *                   type: number
+ *                 balances:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       borrower:
+ *                         $ref: '#/components/schemas/Borrower'
+ *                       balance:
+ *                         type: number
+ *                       blocked:
+ *                         type: boolean
+ *                       lastActivity:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.FINES_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const balances = await db
+      .collection<FineLedgerEntry>('fine_ledger')
+      .aggregate([
+        {
+          $group: {
+            _id: '$borrowerId',
+            balance: { $sum: '$amount' },
+            lastActivity: { $max: '$updatedAt' },
+          },
+        },
+        // Ignore floating point dust left by fully settled ledgers
+        { $match: { balance: { $gt: 0.005 } } },
+        { $sort: { balance: -1 } },
+        {
+          $lookup: {
+            from: 'borrowers',
+            localField: '_id',
+            foreignField: '_id',
+            as: 'borrower',
+          },
+        },
+        { $unwind: '$borrower' },
+        {
+          $project: {
+            _id: 0,
+            borrower: {
+              _id: { $toString: '$borrower._id' },
+              name: '$borrower.name',
+              memberId: '$borrower.memberId',
+              role: '$borrower.role',
+              email: '$borrower.email',
+            },
+            balance: { $round: ['$balance', 2] },
+            blocked: { $gt: ['$balance', MAX_OUTSTANDING_FINES] },
+            lastActivity: 1,
+          },
+        },
+      ])
+      .toArray();
+
+    return NextResponse.json({ limit: MAX_OUTSTANDING_FINES, balances });
+  } catch (error) {
+    console.error('Error fetching fine balances:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fine balances' },
+      { status: 500 }
+    );
+  }
+}
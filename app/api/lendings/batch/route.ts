@@ -0,0 +1,218 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Borrower } from '@/lib/models';
+import { findItemByBarcode, lendBook } from '@/lib/circulation';
+import { recordAudit } from '@/lib/audit';
+
+// Upper bound on the items a single desk transaction can lend
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * @swagger
+ * /api/lendings/batch:
+ *   post:
+ *     tags: [Lendings]
+ *     summary: Lend several items to one borrower
+ *     description: Creates a loan for each scanned barcode, identifying the borrower by member ID or database ID. Copy barcodes lend that exact copy, a book ID lends any copy on the shelf. Each item is processed independently under the usual lending rules, and the response reports the outcome of every item.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - barcodes
+ *             properties:
+ *               memberId:
+ *                 type: string
+ *                 description: The member ID of the borrower. Required unless borrowerId is given.
+ *               borrowerId:
+ *                 type: string
+ *                 description: The database ID of the borrower.
+ *               barcodes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Copy barcodes or book IDs to lend, at most 50.
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Due date for every loan. Defaults to the loan period of each item's policy.
+ *               notes:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Batch processed, see the per-item results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 borrower:
+ *                   $ref: '#/components/schemas/Borrower'
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       barcode:
+ *                         type: string
+ *                       success:
+ *                         type: boolean
+ *                       lending:
+ *                         $ref: '#/components/schemas/LendingRecord'
+ *                       error:
+ *                         type: string
+ *                       violations:
+ *                         type: array
+ *                         items:
+ *                           $ref: '#/components/schemas/LoanPolicyViolation'
+ *                 succeeded:
+ *                   type: integer
+ *                 failed:
+ *                   type: integer
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Borrower not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LENDINGS_CREATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const body = await request.json();
+    const { memberId, borrowerId, barcodes, dueDate, notes } = body;
+
+    if (!memberId && !borrowerId) {
+      return NextResponse.json(
+        { error: 'Member ID or Borrower ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (borrowerId && !ObjectId.isValid(borrowerId)) {
+      return NextResponse.json(
+        { error: 'Invalid Borrower ID' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(barcodes) ||
+      barcodes.length === 0 ||
+      barcodes.some((b) => typeof b !== 'string' || !b.trim())
+    ) {
+      return NextResponse.json(
+        { error: 'At least one barcode is required' },
+        { status: 400 }
+      );
+    }
+
+    if (barcodes.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_SIZE} items` },
+        { status: 400 }
+      );
+    }
+
+    if (dueDate && Number.isNaN(new Date(dueDate).getTime())) {
+      return NextResponse.json({ error: 'Invalid Due Date' }, { status: 400 });
+    }
+
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne(
+        borrowerId
+          ? { _id: new ObjectId(borrowerId) }
+          : { memberId: String(memberId).trim() }
+      );
+    if (!borrower) {
+      return NextResponse.json(
+        { error: 'Borrower not found' },
+        { status: 404 }
+      );
+    }
+
+    // Items are lent one at a time so each sees the loans created before it
+    const results = [];
+    for (const barcode of barcodes as string[]) {
+      const item = await findItemByBarcode(barcode);
+      if (!item) {
+        results.push({ barcode, success: false, error: 'Item not found' });
+        continue;
+      }
+
+      const outcome = await lendBook({
+        book: item.book,
+        borrower,
+        copyId: item.copy?._id,
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        notes,
+      });
+
+      if ('failure' in outcome) {
+        const { status, ...failure } = outcome.failure;
+        results.push({
+          barcode,
+          success: false,
+          book: { title: item.book.title },
+          ...failure,
+        });
+        continue;
+      }
+
+      await recordAudit(request, {
+        action: 'CREATE_LENDING',
+        targetType: 'lending',
+        targetId: outcome.lending._id,
+        after: outcome.lending,
+        details: { barcode, batch: true },
+      });
+      results.push({
+        barcode,
+        success: true,
+        book: { title: item.book.title, author: item.book.author },
+        copy: { barcode: outcome.copy.barcode },
+        lending: {
+          ...outcome.lending,
+          _id: outcome.lending._id.toString(),
+        },
+      });
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    return NextResponse.json({
+      borrower: { ...borrower, _id: borrower._id.toString() },
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    });
+  } catch (error) {
+    console.error('Error creating batch lendings:', error);
+    return NextResponse.json(
+      { error: 'Failed to create lending records' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Borrower, LendingRecord } from '@/lib/models';
+import { findItemByBarcode } from '@/lib/circulation';
+
+/**
+ * @swagger
+ * /api/lendings/lookup:
+ *   get:
+ *     tags: [Lendings]
+ *     summary: Find the open loan for a scanned item
+ *     description: Resolves a copy barcode, or the book ID of a book with a single copy on loan, to its open lending record for check-in.
+ *     parameters:
+ *       - in: query
+ *         name: barcode
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: A copy barcode or book ID.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Open loan found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LendingRecord'
+ *       400:
+ *         description: Barcode is required
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Item not found or not on loan
+ *       409:
+ *         description: Several copies of the book are on loan, scan the copy barcode
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.LENDINGS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const barcode = searchParams.get('barcode')?.trim();
+
+    if (!barcode) {
+      return NextResponse.json(
+        { error: 'Barcode is required' },
+        { status: 400 }
+      );
+    }
+
+    const item = await findItemByBarcode(barcode);
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const db = await getDatabase();
+    const openLendings = await db
+      .collection<LendingRecord>('lendings')
+      .find({
+        bookId: item.book._id,
+        status: { $in: ['borrowed', 'overdue'] },
+        ...(item.copy && { copyId: item.copy._id }),
+      })
+      .limit(2)
+      .toArray();
+
+    if (openLendings.length === 0) {
+      return NextResponse.json(
+        { error: `${item.book.title} is not on loan` },
+        { status: 404 }
+      );
+    }
+
+    if (openLendings.length > 1) {
+      return NextResponse.json(
+        {
+          error:
+            'Several copies of this book are on loan, scan the copy barcode',
+        },
+        { status: 409 }
+      );
+    }
+
+    const [lending] = openLendings;
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: lending.borrowerId });
+
+    return NextResponse.json({
+      ...lending,
+      _id: lending._id.toString(),
+      book: {
+        _id: item.book._id.toString(),
+        title: item.book.title,
+        author: item.book.author,
+      },
+      borrower: borrower && {
+        _id: borrower._id.toString(),
+        name: borrower.name,
+        memberId: borrower.memberId,
+      },
+      copy: item.copy && { barcode: item.copy.barcode },
+    });
+  } catch (error) {
+    console.error('Error looking up lending:', error);
+    return NextResponse.json(
+      { error: 'Failed to look up lending' },
+      { status: 500 }
+    );
+  }
+}
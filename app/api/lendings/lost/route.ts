@@ -0,0 +1,143 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { LendingRecord } from '@/lib/models';
+import { ensureCopies, markCopyMissing, syncCopyCounts } from '@/lib/copies';
+import { accrueOverdueFine, chargeReplacementCost } from '@/lib/fines';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/lendings/lost:
+ *   post:
+ *     tags: [Lendings]
+ *     summary: Report a lent book as lost
+ *     description: Closes an active loan as 'lost', records the lent copy as missing and charges the borrower the book's replacement cost. Any overdue fine accrued up to now is closed as well.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lendingId
+ *             properties:
+ *               lendingId:
+ *                 type: string
+ *                 description: The ID of the lending record to report lost.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan closed as lost
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LendingRecord'
+ *       400:
+ *         description: Invalid input or loan no longer active
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Lending record not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LENDINGS_UPDATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const { lendingId } = await request.json();
+
+    if (!lendingId || !ObjectId.isValid(lendingId)) {
+      return NextResponse.json(
+        { error: 'Invalid Lending ID' },
+        { status: 400 }
+      );
+    }
+
+    const lendingObjectId = new ObjectId(lendingId);
+    const lendingRecord = await db
+      .collection<LendingRecord>('lendings')
+      .findOne({ _id: lendingObjectId });
+
+    if (!lendingRecord) {
+      return NextResponse.json(
+        { error: 'Lending record not found' },
+        { status: 404 }
+      );
+    }
+
+    // Loans made before copies were tracked get matched to a copy first
+    if (!lendingRecord.copyId) {
+      await ensureCopies(lendingRecord.bookId);
+    }
+
+    const lostAt = new Date();
+    const result = await db
+      .collection<LendingRecord>('lendings')
+      .findOneAndUpdate(
+        { _id: lendingObjectId, status: { $in: ['borrowed', 'overdue'] } },
+        { $set: { status: 'lost', lostAt, updatedAt: lostAt } },
+        { returnDocument: 'after' }
+      );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Loan is no longer active' },
+        { status: 400 }
+      );
+    }
+
+    const copy = result.copyId ? await markCopyMissing(result.copyId) : null;
+    await syncCopyCounts(result.bookId);
+
+    const user = await getCurrentUser(request);
+    const overdueFine = await accrueOverdueFine(result, {
+      until: lostAt,
+      close: true,
+    });
+    const lostCharge = await chargeReplacementCost(result, 'lost', user?._id);
+    await recordAudit(request, {
+      action: 'MARK_LENDING_LOST',
+      targetType: 'lending',
+      targetId: lendingObjectId,
+      before: lendingRecord,
+      after: result,
+      actor: user,
+    });
+
+    return NextResponse.json({
+      ...result,
+      _id: result._id.toString(),
+      copy: copy && { ...copy, _id: copy._id.toString() },
+      fines: [overdueFine, lostCharge]
+        .filter(Boolean)
+        .map((fine) => ({ ...fine, _id: fine!._id?.toString() })),
+    });
+  } catch (error) {
+    console.error('Error reporting lost book:', error);
+    return NextResponse.json(
+      { error: 'Failed to report lost book' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { LendingRecord } from '@/lib/models';
+import { renewLending } from '@/lib/circulation';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/lendings/renew:
+ *   post:
+ *     tags: [Lendings]
+ *     summary: Renew a loan
+ *     description: Pushes the due date of an active loan out by the loan period of the applicable loan policy and records the renewal on the lending record. Refused when the loan is overdue past the grace limit, has used its maximum renewals, or other borrowers hold the book.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lendingId
+ *             properties:
+ *               lendingId:
+ *                 type: string
+ *                 description: The ID of the lending record to renew.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan renewed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LendingRecord'
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Lending record not found
+ *       409:
+ *         description: Renewal refused by the renewal policy
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LENDINGS_UPDATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const body = await request.json();
+    const { lendingId } = body;
+
+    if (!lendingId) {
+      return NextResponse.json(
+        { error: 'Lending ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ObjectId.isValid(lendingId)) {
+      return NextResponse.json(
+        { error: 'Invalid Lending ID' },
+        { status: 400 }
+      );
+    }
+
+    const lendingObjectId = new ObjectId(lendingId);
+    const lendingRecord = await db
+      .collection<LendingRecord>('lendings')
+      .findOne({ _id: lendingObjectId });
+
+    if (!lendingRecord) {
+      return NextResponse.json(
+        { error: 'Lending record not found' },
+        { status: 404 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    const outcome = await renewLending(lendingRecord, user);
+    if ('failure' in outcome) {
+      const { error, code, status } = outcome.failure;
+      return NextResponse.json({ error, code }, { status });
+    }
+    const result = outcome.lending;
+
+    await recordAudit(request, {
+      action: 'RENEW_LENDING',
+      targetType: 'lending',
+      targetId: lendingObjectId,
+      before: lendingRecord,
+      after: result,
+      actor: user,
+    });
+
+    return NextResponse.json({
+      ...result,
+      _id: result._id.toString(),
+    });
+  } catch (error) {
+    console.error('Error renewing loan:', error);
+    return NextResponse.json(
+      { error: 'Failed to renew loan' },
+      { status: 500 }
+    );
+  }
+}
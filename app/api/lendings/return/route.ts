@@ -4,9 +4,22 @@ export const revalidate = 0;
 import { type NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
-import { authMiddleware, requirePermission } from '@/lib/middleware';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
-import type { LendingRecord, Book } from '@/lib/models';
+import type { LendingRecord } from '@/lib/models';
+import { releaseHeldCopy } from '@/lib/reservations';
+import {
+  COPY_CONDITIONS,
+  checkInCopy,
+  ensureCopies,
+  syncCopyCounts,
+} from '@/lib/copies';
+import { accrueOverdueFine, chargeReplacementCost } from '@/lib/fines';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * @swagger
@@ -14,7 +27,7 @@ import type { LendingRecord, Book } from '@/lib/models';
  *   post:
  *     tags: [Lendings]
  *     summary: Mark a book as returned
- *     description: Updates a lending record to 'returned' status and increments available book copies.
+ *     description: Updates a lending record to 'returned' status and puts the lent copy back on the shelf, where it is set aside for the oldest hold on the book. Copies returned damaged are sent for repair and the borrower is charged the book's replacement cost. Late returns close the loan's overdue fine. The book's counters are recomputed from its copies.
  *     requestBody:
  *       required: true
  *       content:
@@ -27,6 +40,10 @@ import type { LendingRecord, Book } from '@/lib/models';
  *               lendingId:
  *                 type: string
  *                 description: The ID of the lending record to mark as returned.
+ *               condition:
+ *                 type: string
+ *                 enum: [new, good, fair, poor, damaged]
+ *                 description: The condition the copy came back in.
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -59,7 +76,7 @@ export async function POST(request: NextRequest) {
 
     const db = await getDatabase();
     const body = await request.json();
-    const { lendingId } = body;
+    const { lendingId, condition } = body;
 
     if (!lendingId) {
       return NextResponse.json(
@@ -75,6 +92,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (condition && !COPY_CONDITIONS.includes(condition)) {
+      return NextResponse.json(
+        { error: 'Invalid copy condition' },
+        { status: 400 }
+      );
+    }
+
     const lendingObjectId = new ObjectId(lendingId);
 
     const lendingRecord = await db
@@ -95,37 +119,78 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (lendingRecord.status === 'lost') {
+      return NextResponse.json(
+        { error: 'Book was reported lost' },
+        { status: 400 }
+      );
+    }
+
+    // Loans made before copies were tracked get matched to a copy first
+    if (!lendingRecord.copyId) {
+      await ensureCopies(lendingRecord.bookId);
+    }
+
     const result = await db
       .collection<LendingRecord>('lendings')
       .findOneAndUpdate(
-        { _id: lendingObjectId },
+        { _id: lendingObjectId, status: { $in: ['borrowed', 'overdue'] } },
         {
           $set: {
             status: 'returned',
             returnDate: new Date(),
+            ...(condition && { returnCondition: condition }),
             updatedAt: new Date(),
           },
         },
-        { returnDocument: 'after' }
+        { returnDocument: 'after', includeResultMetadata: true }
       );
 
     if (!result.value) {
       return NextResponse.json(
-        { error: 'Failed to update lending record' },
-        { status: 500 }
+        { error: 'Book already returned' },
+        { status: 400 }
       );
     }
 
-    await db
-      .collection<Book>('books')
-      .updateOne(
-        { _id: lendingRecord.bookId },
-        { $inc: { availableCopies: 1 } }
-      );
+    const copy = result.value.copyId
+      ? await checkInCopy(result.value.copyId, condition)
+      : null;
+
+    // Only a copy back on the shelf can be handed to the next hold
+    let promotedReservation = null;
+    if (copy?.status === 'on_shelf') {
+      promotedReservation = await releaseHeldCopy(lendingRecord.bookId);
+    } else {
+      await syncCopyCounts(lendingRecord.bookId);
+    }
+
+    const user = await getCurrentUser(request);
+    const overdueFine = await accrueOverdueFine(result.value, {
+      until: result.value.returnDate,
+      close: true,
+    });
+    const damageCharge =
+      condition === 'damaged'
+        ? await chargeReplacementCost(result.value, 'damaged', user?._id)
+        : null;
+    await recordAudit(request, {
+      action: 'RETURN_LENDING',
+      targetType: 'lending',
+      targetId: lendingObjectId,
+      before: lendingRecord,
+      after: result.value,
+      actor: user,
+    });
 
     return NextResponse.json({
       ...result.value,
       _id: result.value._id.toString(),
+      copy: copy && { ...copy, _id: copy._id.toString() },
+      fines: [overdueFine, damageCharge]
+        .filter(Boolean)
+        .map((fine) => ({ ...fine, _id: fine!._id?.toString() })),
+      heldForReservation: promotedReservation?._id?.toString(),
     });
   } catch (error) {
     console.error('Error returning book:', error);
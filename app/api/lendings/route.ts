@@ -7,6 +7,8 @@ import { ObjectId } from 'mongodb';
 import { authMiddleware, requirePermission } from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import type { LendingRecord, Book, Borrower } from '@/lib/models';
+import { lendBook } from '@/lib/circulation';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * @swagger
@@ -32,7 +34,7 @@ import type { LendingRecord, Book, Borrower } from '@/lib/models';
  *         name: status
  *         schema:
  *           type: string
- *           enum: [borrowed, returned, overdue]
+ *           enum: [borrowed, returned, overdue, lost]
  *         description: Filter lendings by status.
  *     security:
  *       - bearerAuth: []
@@ -59,7 +61,7 @@ import type { LendingRecord, Book, Borrower } from '@/lib/models';
  *   post:
  *     tags: [Lendings]
  *     summary: Create a new lending record
- *     description: Record a new book borrowing event.
+ *     description: Record a new book borrowing event. The loan must satisfy the loan policy for the borrower's role and the book's category. A borrower whose hold is ready for pickup receives the copy set aside for them. A specific copy can be lent by passing its ID, otherwise any copy on the shelf is used.
  *     requestBody:
  *       required: true
  *       content:
@@ -69,7 +71,6 @@ import type { LendingRecord, Book, Borrower } from '@/lib/models';
  *             required:
  *               - bookId
  *               - borrowerId
- *               - dueDate
  *             properties:
  *               bookId:
  *                 type: string
@@ -77,10 +78,13 @@ import type { LendingRecord, Book, Borrower } from '@/lib/models';
  *               borrowerId:
  *                 type: string
  *                 description: The ID of the borrower.
+ *               copyId:
+ *                 type: string
+ *                 description: The ID of the physical copy being lent.
  *               dueDate:
  *                 type: string
  *                 format: date
- *                 description: The date the book is due to be returned.
+ *                 description: The date the book is due to be returned. Defaults to the loan period of the applicable policy.
  *               notes:
  *                 type: string
  *                 description: Optional notes for the lending record.
@@ -95,12 +99,29 @@ import type { LendingRecord, Book, Borrower } from '@/lib/models';
  *               $ref: '#/components/schemas/LendingRecord'
  *       400:
  *         description: Invalid input or book not available
+ *       409:
+ *         description: The requested copy is not on the shelf
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden
  *       404:
  *         description: Book or borrower not found
+ *       422:
+ *         description: Loan violates the loan policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 violations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LoanPolicyViolation'
+ *                 policy:
+ *                   $ref: '#/components/schemas/LoanPolicy'
  *       500:
  *         description: Internal server error
  */
@@ -123,14 +144,9 @@ export async function GET(request: NextRequest) {
     const query: any = {};
     if (
       statusFilter &&
-      ['borrowed', 'returned', 'overdue'].includes(statusFilter)
+      ['borrowed', 'returned', 'overdue', 'lost'].includes(statusFilter)
     ) {
-      if (statusFilter === 'overdue') {
-        query.status = 'borrowed';
-        query.dueDate = { $lt: new Date() };
-      } else {
-        query.status = statusFilter;
-      }
+      query.status = statusFilter;
     }
 
     const pipeline = [
@@ -156,6 +172,15 @@ export async function GET(request: NextRequest) {
         },
       },
       { $unwind: { path: '$borrower', preserveNullAndEmptyArrays: true } },
+      {
+        $lookup: {
+          from: 'book_copies',
+          localField: 'copyId',
+          foreignField: '_id',
+          as: 'copy',
+        },
+      },
+      { $unwind: { path: '$copy', preserveNullAndEmptyArrays: true } },
       {
         $project: {
           _id: { $toString: '$_id' },
@@ -166,6 +191,8 @@ export async function GET(request: NextRequest) {
           returnDate: 1,
           status: 1,
           notes: 1,
+          renewalCount: 1,
+          renewals: 1,
           createdAt: 1,
           updatedAt: 1,
           'book._id': { $toString: '$book._id' },
@@ -174,6 +201,10 @@ export async function GET(request: NextRequest) {
           'borrower._id': { $toString: '$borrower._id' },
           'borrower.name': '$borrower.name',
           'borrower.role': '$borrower.role',
+          copyId: { $toString: '$copyId' },
+          'copy.barcode': '$copy.barcode',
+          'copy.condition': '$copy.condition',
+          returnCondition: 1,
         },
       },
     ];
@@ -208,15 +239,19 @@ export async function POST(request: NextRequest) {
 
     const db = await getDatabase();
     const body = await request.json();
-    const { bookId, borrowerId, dueDate, notes } = body;
+    const { bookId, borrowerId, copyId, dueDate, notes } = body;
 
-    if (!bookId || !borrowerId || !dueDate) {
+    if (!bookId || !borrowerId) {
       return NextResponse.json(
-        { error: 'Book ID, Borrower ID, and Due Date are required' },
+        { error: 'Book ID and Borrower ID are required' },
         { status: 400 }
       );
     }
 
+    if (dueDate && Number.isNaN(new Date(dueDate).getTime())) {
+      return NextResponse.json({ error: 'Invalid Due Date' }, { status: 400 });
+    }
+
     if (!ObjectId.isValid(bookId) || !ObjectId.isValid(borrowerId)) {
       return NextResponse.json(
         { error: 'Invalid Book ID or Borrower ID' },
@@ -224,6 +259,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (copyId && !ObjectId.isValid(copyId)) {
+      return NextResponse.json({ error: 'Invalid Copy ID' }, { status: 400 });
+    }
+
     const bookObjectId = new ObjectId(bookId);
     const borrowerObjectId = new ObjectId(borrowerId);
 
@@ -233,12 +272,6 @@ export async function POST(request: NextRequest) {
     if (!book) {
       return NextResponse.json({ error: 'Book not found' }, { status: 404 });
     }
-    if (book.availableCopies <= 0) {
-      return NextResponse.json(
-        { error: 'No available copies of this book' },
-        { status: 400 }
-      );
-    }
 
     const borrower = await db
       .collection<Borrower>('borrowers')
@@ -250,27 +283,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const newLending: LendingRecord = {
-      bookId: bookObjectId,
-      borrowerId: borrowerObjectId,
-      borrowDate: new Date(),
-      dueDate: new Date(dueDate),
-      status: 'borrowed',
-      notes: notes || '',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    const result = await db
-      .collection<LendingRecord>('lendings')
-      .insertOne(newLending);
-
-    await db
-      .collection<Book>('books')
-      .updateOne({ _id: bookObjectId }, { $inc: { availableCopies: -1 } });
+    const outcome = await lendBook({
+      book,
+      borrower,
+      copyId: copyId && new ObjectId(copyId),
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      notes,
+    });
+    if ('failure' in outcome) {
+      const { status, ...failure } = outcome.failure;
+      return NextResponse.json(failure, { status });
+    }
 
+    const { lending, copy } = outcome;
+    await recordAudit(request, {
+      action: 'CREATE_LENDING',
+      targetType: 'lending',
+      targetId: lending._id,
+      after: lending,
+    });
     return NextResponse.json(
-      { ...newLending, _id: result.insertedId.toString() },
+      {
+        ...lending,
+        _id: lending._id.toString(),
+        copy: { ...copy, _id: copy._id.toString() },
+      },
       { status: 201 }
     );
   } catch (error) {
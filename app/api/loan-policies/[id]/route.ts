@@ -0,0 +1,292 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { LoanPolicy } from '@/lib/models';
+import { validateLoanPolicy } from '@/lib/validators';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/loan-policies/{id}:
+ *   get:
+ *     tags: [Loan Policies]
+ *     summary: Get a loan policy by ID
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the loan policy to retrieve
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan policy retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanPolicy'
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Loan policy not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags: [Loan Policies]
+ *     summary: Update a loan policy
+ *     description: Update a loan policy. Supports partial updates.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the loan policy to update
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoanPolicy'
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan policy updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanPolicy'
+ *       400:
+ *         description: Invalid input or a policy for this role and category already exists
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Loan policy not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Loan Policies]
+ *     summary: Delete a loan policy
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the loan policy to delete
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan policy deleted successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Loan policy not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LOAN_POLICIES_READ
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Loan Policy ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const policy = await db
+      .collection<LoanPolicy>('loan_policies')
+      .findOne({ _id: new ObjectId(id) });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Loan policy not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...policy, _id: policy._id.toString() });
+  } catch (error) {
+    console.error('Error fetching loan policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch loan policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LOAN_POLICIES_UPDATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Loan Policy ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const { _id, createdAt, updatedAt, ...updateData } = await request.json();
+    const { valid, errors } = validateLoanPolicy(updateData, {
+      partial: true,
+    });
+
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const objectId = new ObjectId(id);
+    const existingPolicy = await db
+      .collection<LoanPolicy>('loan_policies')
+      .findOne({ _id: objectId });
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: 'Loan policy not found' },
+        { status: 404 }
+      );
+    }
+
+    const conflictingPolicy = await db
+      .collection<LoanPolicy>('loan_policies')
+      .findOne({
+        _id: { $ne: objectId },
+        borrowerRole: updateData.borrowerRole ?? existingPolicy.borrowerRole,
+        bookCategory: updateData.bookCategory ?? existingPolicy.bookCategory,
+      });
+    if (conflictingPolicy) {
+      return NextResponse.json(
+        {
+          error: 'A policy for this borrower role and category already exists',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await db
+      .collection<LoanPolicy>('loan_policies')
+      .findOneAndUpdate(
+        { _id: objectId },
+        { $set: { ...updateData, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Loan policy not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'UPDATE_LOAN_POLICY',
+      targetType: 'loan_policy',
+      targetId: objectId,
+      before: existingPolicy,
+      after: result,
+    });
+
+    return NextResponse.json({ ...result, _id: result._id.toString() });
+  } catch (error) {
+    console.error('Error updating loan policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update loan policy' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LOAN_POLICIES_DELETE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Loan Policy ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const policy = await db
+      .collection<LoanPolicy>('loan_policies')
+      .findOneAndDelete({ _id: new ObjectId(id) });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Loan policy not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'DELETE_LOAN_POLICY',
+      targetType: 'loan_policy',
+      targetId: policy._id,
+      before: policy,
+    });
+
+    return NextResponse.json({ message: 'Loan policy deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting loan policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete loan policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book, Borrower } from '@/lib/models';
+import { evaluateLoan } from '@/lib/loanPolicies';
+import { checkFineBlock } from '@/lib/fines';
+
+/**
+ * @swagger
+ * /api/loan-policies/resolve:
+ *   get:
+ *     tags: [Loan Policies]
+ *     summary: Preview the policy for a loan
+ *     description: Resolve the loan policy that applies to a borrower and book, the default due date it implies, and any rules the loan would break.
+ *     parameters:
+ *       - in: query
+ *         name: bookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: borrowerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Policy resolved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 policy:
+ *                   $ref: '#/components/schemas/LoanPolicy'
+ *                 defaultDueDate:
+ *                   type: string
+ *                   format: date-time
+ *                 violations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LoanPolicyViolation'
+ *       400:
+ *         description: Invalid Book ID or Borrower ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Book or borrower not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.LENDINGS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const bookId = searchParams.get('bookId');
+    const borrowerId = searchParams.get('borrowerId');
+
+    if (
+      !bookId ||
+      !borrowerId ||
+      !ObjectId.isValid(bookId) ||
+      !ObjectId.isValid(borrowerId)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID or Borrower ID' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const book = await db
+      .collection<Book>('books')
+      .findOne({ _id: new ObjectId(bookId) });
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: new ObjectId(borrowerId) });
+    if (!borrower) {
+      return NextResponse.json(
+        { error: 'Borrower not found' },
+        { status: 404 }
+      );
+    }
+
+    const { policy, defaultDueDate, violations } = await evaluateLoan(
+      book,
+      borrower
+    );
+    const fineBlock = await checkFineBlock(borrower);
+    if (fineBlock) violations.push(fineBlock);
+
+    return NextResponse.json({
+      policy: { ...policy, _id: policy._id?.toString() },
+      defaultDueDate,
+      violations,
+    });
+  } catch (error) {
+    console.error('Error resolving loan policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve loan policy' },
+      { status: 500 }
+    );
+  }
+}
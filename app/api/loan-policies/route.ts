@@ -0,0 +1,171 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { LoanPolicy } from '@/lib/models';
+import { validateLoanPolicy } from '@/lib/validators';
+import { DEFAULT_LOAN_POLICY } from '@/lib/loanPolicies';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/loan-policies:
+ *   get:
+ *     tags: [Loan Policies]
+ *     summary: Get all loan policies
+ *     description: Retrieve every stored loan policy along with the built-in default that applies when none matches.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan policies retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 policies:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LoanPolicy'
+ *                 defaultPolicy:
+ *                   $ref: '#/components/schemas/LoanPolicy'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Loan Policies]
+ *     summary: Create a loan policy
+ *     description: Add a policy for a borrower role and book category. Use '*' to match any role or category.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoanPolicy'
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Loan policy created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoanPolicy'
+ *       400:
+ *         description: Invalid input or a policy for this role and category already exists
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LOAN_POLICIES_READ
+    )(request);
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const policies = await db
+      .collection<LoanPolicy>('loan_policies')
+      .find({})
+      .sort({ borrowerRole: 1, bookCategory: 1 })
+      .toArray();
+
+    return NextResponse.json({
+      policies: policies.map((p) => ({ ...p, _id: p._id.toString() })),
+      defaultPolicy: DEFAULT_LOAN_POLICY,
+    });
+  } catch (error) {
+    console.error('Error fetching loan policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch loan policies' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LOAN_POLICIES_CREATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const body = await request.json();
+    const { valid, errors } = validateLoanPolicy(body);
+
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const existingPolicy = await db
+      .collection<LoanPolicy>('loan_policies')
+      .findOne({
+        borrowerRole: body.borrowerRole,
+        bookCategory: body.bookCategory,
+      });
+    if (existingPolicy) {
+      return NextResponse.json(
+        {
+          error: 'A policy for this borrower role and category already exists',
+        },
+        { status: 400 }
+      );
+    }
+
+    const newPolicy: LoanPolicy = {
+      name: body.name.trim(),
+      borrowerRole: body.borrowerRole,
+      bookCategory: body.bookCategory,
+      loanPeriodDays: body.loanPeriodDays,
+      maxConcurrentLoans: body.maxConcurrentLoans,
+      maxRenewals: body.maxRenewals,
+      referenceOnly: body.referenceOnly ?? false,
+      ...(body.finePerDay != null && { finePerDay: body.finePerDay }),
+      ...(body.maxFine != null && { maxFine: body.maxFine }),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await db
+      .collection<LoanPolicy>('loan_policies')
+      .insertOne(newPolicy);
+    await recordAudit(request, {
+      action: 'CREATE_LOAN_POLICY',
+      targetType: 'loan_policy',
+      targetId: result.insertedId,
+      after: newPolicy,
+    });
+
+    return NextResponse.json(
+      { ...newPolicy, _id: result.insertedId.toString() },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating loan policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create loan policy' },
+      { status: 500 }
+    );
+  }
+}
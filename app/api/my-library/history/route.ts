@@ -0,0 +1,81 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import {
+  NOT_LINKED_ERROR,
+  getBorrowerLoans,
+  getLinkedBorrower,
+} from '@/lib/my-library';
+
+/**
+ * @swagger
+ * /api/my-library/history:
+ *   get:
+ *     tags: [My Library]
+ *     summary: Your past loans
+ *     description: Returned and lost loans of the borrower record linked to your account, most recent first.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 loans:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LendingRecord'
+ *                 total:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No borrower record is linked to your account
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const borrower = await getLinkedBorrower(await getCurrentUser(request));
+    if (!borrower) {
+      return NextResponse.json({ error: NOT_LINKED_ERROR }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Number.parseInt(searchParams.get('page') || '1');
+    const limit = Number.parseInt(searchParams.get('limit') || '10');
+
+    const { loans, total } = await getBorrowerLoans(
+      borrower._id,
+      ['returned', 'lost'],
+      { page, limit }
+    );
+
+    return NextResponse.json({ loans, total });
+  } catch (error) {
+    console.error('Error fetching loan history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch loan history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import {
+  API_TOKEN_ERROR,
+  NOT_LINKED_ERROR,
+  getLinkedBorrower,
+} from '@/lib/my-library';
+import { getBearerApiToken } from '@/lib/api-tokens';
+import { cancelReservation } from '@/lib/reservations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/my-library/holds/{id}:
+ *   delete:
+ *     tags: [My Library]
+ *     summary: Cancel one of your holds
+ *     description: Cancels an active hold of the borrower record linked to your account. A copy set aside for it goes to the next borrower in line.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Hold cancelled successfully
+ *       400:
+ *         description: Invalid hold ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot be used here
+ *       404:
+ *         description: Active hold not found, or no borrower record is linked to your account
+ *       500:
+ *         description: Internal server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json({ error: API_TOKEN_ERROR }, { status: 403 });
+    }
+
+    const borrower = await getLinkedBorrower(await getCurrentUser(request));
+    if (!borrower) {
+      return NextResponse.json({ error: NOT_LINKED_ERROR }, { status: 404 });
+    }
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Reservation ID format' },
+        { status: 400 }
+      );
+    }
+
+    const cancelled = await cancelReservation(params.id, borrower._id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Active hold not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'CANCEL_RESERVATION',
+      targetType: 'reservation',
+      targetId: cancelled._id,
+      before: cancelled,
+      after: { ...cancelled, status: 'cancelled', cancelledAt: new Date() },
+      details: { selfService: true },
+    });
+
+    return NextResponse.json({ message: 'Hold cancelled successfully' });
+  } catch (error) {
+    console.error('Error cancelling hold:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel hold' },
+      { status: 500 }
+    );
+  }
+}
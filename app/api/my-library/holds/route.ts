@@ -0,0 +1,124 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import type { Book } from '@/lib/models';
+import {
+  API_TOKEN_ERROR,
+  NOT_LINKED_ERROR,
+  getLinkedBorrower,
+} from '@/lib/my-library';
+import { getBearerApiToken } from '@/lib/api-tokens';
+import { placeHold } from '@/lib/circulation';
+import { getQueuePosition } from '@/lib/reservations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/my-library/holds:
+ *   post:
+ *     tags: [My Library]
+ *     summary: Request a book
+ *     description: Places a hold on a book for the borrower record linked to your account. When a copy is on the shelf it is set aside for you to pick up, otherwise you join the queue.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookId
+ *             properties:
+ *               bookId:
+ *                 type: string
+ *                 format: objectId
+ *               notes:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Hold placed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Reservation'
+ *       400:
+ *         description: Invalid input, or you already hold or have the book
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot be used here
+ *       404:
+ *         description: Book not found, or no borrower record is linked to your account
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json({ error: API_TOKEN_ERROR }, { status: 403 });
+    }
+
+    const borrower = await getLinkedBorrower(await getCurrentUser(request));
+    if (!borrower) {
+      return NextResponse.json({ error: NOT_LINKED_ERROR }, { status: 404 });
+    }
+
+    const { bookId, notes } = await request.json();
+    if (!bookId || !ObjectId.isValid(bookId)) {
+      return NextResponse.json({ error: 'Invalid Book ID' }, { status: 400 });
+    }
+
+    const db = await getDatabase();
+    const book = await db
+      .collection<Book>('books')
+      .findOne({ _id: new ObjectId(bookId) });
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const outcome = await placeHold({
+      book,
+      borrower,
+      notes,
+      setAsideIfAvailable: true,
+    });
+    if ('failure' in outcome) {
+      const { error, status } = outcome.failure;
+      return NextResponse.json({ error }, { status });
+    }
+    const reservation = outcome.reservation;
+
+    await recordAudit(request, {
+      action: 'CREATE_RESERVATION',
+      targetType: 'reservation',
+      targetId: reservation._id,
+      after: reservation,
+      details: { selfService: true },
+    });
+
+    return NextResponse.json(
+      {
+        ...reservation,
+        _id: reservation._id.toString(),
+        bookId: reservation.bookId.toString(),
+        borrowerId: reservation.borrowerId.toString(),
+        queuePosition: await getQueuePosition(reservation),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error placing hold:', error);
+    return NextResponse.json(
+      { error: 'Failed to place hold' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import type { LendingRecord } from '@/lib/models';
+import {
+  API_TOKEN_ERROR,
+  NOT_LINKED_ERROR,
+  getLinkedBorrower,
+} from '@/lib/my-library';
+import { getBearerApiToken } from '@/lib/api-tokens';
+import { renewLending } from '@/lib/circulation';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/my-library/loans/{id}/renew:
+ *   post:
+ *     tags: [My Library]
+ *     summary: Renew one of your loans
+ *     description: Renews a loan of the borrower record linked to your account, under the same renewal rules the lending desk applies.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loan renewed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LendingRecord'
+ *       400:
+ *         description: Invalid lending ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot be used here
+ *       404:
+ *         description: Loan not found, or no borrower record is linked to your account
+ *       409:
+ *         description: Renewal refused by the renewal policy
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json({ error: API_TOKEN_ERROR }, { status: 403 });
+    }
+
+    const user = await getCurrentUser(request);
+    const borrower = await getLinkedBorrower(user);
+    if (!borrower) {
+      return NextResponse.json({ error: NOT_LINKED_ERROR }, { status: 404 });
+    }
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Lending ID' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const lendingRecord = await db
+      .collection<LendingRecord>('lendings')
+      .findOne({ _id: new ObjectId(params.id), borrowerId: borrower._id });
+    if (!lendingRecord) {
+      return NextResponse.json({ error: 'Loan not found' }, { status: 404 });
+    }
+
+    const outcome = await renewLending(lendingRecord, user);
+    if ('failure' in outcome) {
+      const { error, code, status } = outcome.failure;
+      return NextResponse.json({ error, code }, { status });
+    }
+
+    await recordAudit(request, {
+      action: 'RENEW_LENDING',
+      targetType: 'lending',
+      targetId: lendingRecord._id,
+      before: lendingRecord,
+      after: outcome.lending,
+      details: { selfService: true },
+      actor: user,
+    });
+
+    return NextResponse.json({
+      ...outcome.lending,
+      _id: outcome.lending._id.toString(),
+    });
+  } catch (error) {
+    console.error('Error renewing loan:', error);
+    return NextResponse.json(
+      { error: 'Failed to renew loan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import {
+  getBorrowerHolds,
+  getBorrowerLoans,
+  getLinkedBorrower,
+} from '@/lib/my-library';
+import { getFineBalance } from '@/lib/fines';
+import { expireReservations } from '@/lib/reservations';
+
+/**
+ * @swagger
+ * /api/my-library:
+ *   get:
+ *     tags: [My Library]
+ *     summary: Your loans, holds and fines
+ *     description: The current loans, active holds and fine balance of the borrower record linked to your account. `borrower` is null when no record is linked.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Your library account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 borrower:
+ *                   $ref: '#/components/schemas/Borrower'
+ *                 loans:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LendingRecord'
+ *                 holds:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Reservation'
+ *                 fineBalance:
+ *                   type: number
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const borrower = await getLinkedBorrower(await getCurrentUser(request));
+    if (!borrower) {
+      return NextResponse.json({
+        borrower: null,
+        loans: [],
+        holds: [],
+        fineBalance: 0,
+      });
+    }
+
+    // Keep the queue accurate even if the background service is not running
+    await expireReservations();
+
+    const [{ loans }, holds, fineBalance] = await Promise.all([
+      getBorrowerLoans(borrower._id, ['borrowed', 'overdue']),
+      getBorrowerHolds(borrower._id),
+      getFineBalance(borrower._id),
+    ]);
+
+    return NextResponse.json({
+      borrower: { ...borrower, _id: borrower._id.toString() },
+      loans,
+      holds,
+      fineBalance,
+    });
+  } catch (error) {
+    console.error('Error fetching library account:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch your library account' },
+      { status: 500 }
+    );
+  }
+}
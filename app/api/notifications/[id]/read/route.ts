@@ -0,0 +1,86 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { markNotificationAsRead } from '@/lib/notifications';
+
+/**
+ * @swagger
+ * /api/notifications/{id}/read:
+ *   put:
+ *     tags: [Notifications]
+ *     summary: Mark a notification as read
+ *     description: Mark a single notification belonging to the signed-in user as read.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the notification to mark as read
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Notification not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_UPDATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Notification ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const updated = await markNotificationAsRead(id, user._id);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Notification marked as read' });
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark notification as read' },
+      { status: 500 }
+    );
+  }
+}
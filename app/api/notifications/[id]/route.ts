@@ -0,0 +1,172 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Notification } from '@/lib/models';
+import { deleteNotificationById } from '@/lib/notifications';
+
+/**
+ * @swagger
+ * /api/notifications/{id}:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: Get a notification by ID
+ *     description: Retrieve a single notification belonging to the signed-in user.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the notification to retrieve
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Notification'
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Notification not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Notifications]
+ *     summary: Delete a notification
+ *     description: Delete a notification belonging to the signed-in user.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the notification to delete
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification deleted successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Notification not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_READ
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Notification ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const db = await getDatabase();
+    const notification = await db
+      .collection<Notification>('notifications')
+      .findOne({ _id: new ObjectId(id), userId: user._id });
+
+    if (!notification) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...notification,
+      _id: notification._id?.toString(),
+      userId: notification.userId?.toString(),
+      lendingId: notification.lendingId?.toString(),
+      bookId: notification.bookId?.toString(),
+    });
+  } catch (error) {
+    console.error('Error fetching notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_DELETE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Notification ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const deleted = await deleteNotificationById(id, user._id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Notification deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete notification' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import {
+  deleteNotifications,
+  markNotificationsAsRead,
+} from '@/lib/notifications';
+
+/**
+ * @swagger
+ * /api/notifications/bulk:
+ *   post:
+ *     tags: [Notifications]
+ *     summary: Bulk update notifications
+ *     description: Mark several of the signed-in user's notifications as read, or delete them, in one call.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *               - ids
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [read, delete]
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 action:
+ *                   type: string
+ *                 affectedCount:
+ *                   type: integer
+ *       400:
+ *         description: Invalid action or notification IDs
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const body = await request.json();
+    const { action, ids } = body;
+
+    if (action !== 'read' && action !== 'delete') {
+      return NextResponse.json(
+        { error: "Action must be either 'read' or 'delete'" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(ids) ||
+      ids.length === 0 ||
+      !ids.every((id) => ObjectId.isValid(id))
+    ) {
+      return NextResponse.json(
+        { error: 'A non-empty array of valid notification IDs is required' },
+        { status: 400 }
+      );
+    }
+
+    const permissionError = await requirePermission(
+      action === 'read'
+        ? PERMISSIONS.NOTIFICATIONS_UPDATE
+        : PERMISSIONS.NOTIFICATIONS_DELETE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const affectedCount =
+      action === 'read'
+        ? await markNotificationsAsRead(user._id, { notificationIds: ids })
+        : await deleteNotifications(user._id, ids);
+
+    return NextResponse.json({ action, affectedCount });
+  } catch (error) {
+    console.error('Error applying bulk notification action:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Notification } from '@/lib/models';
+import {
+  NOTIFICATION_TYPES,
+  markNotificationsAsRead,
+} from '@/lib/notifications';
+
+/**
+ * @swagger
+ * /api/notifications/mark-all-read:
+ *   put:
+ *     tags: [Notifications]
+ *     summary: Mark all notifications as read
+ *     description: Mark every unread notification of the signed-in user as read, optionally only those of one type.
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [info, warning, error, success, overdue_reminder, book_available, system_alert]
+ *         description: Only mark notifications of this type.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 updatedCount:
+ *                   type: integer
+ *       400:
+ *         description: Invalid notification type
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_UPDATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { searchParams } = new URL(request.url);
+    const typeFilter = searchParams.get('type') as Notification['type'] | null;
+    if (typeFilter && !NOTIFICATION_TYPES.includes(typeFilter)) {
+      return NextResponse.json(
+        { error: 'Invalid notification type' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const updatedCount = await markNotificationsAsRead(user._id, {
+      ...(typeFilter && { type: typeFilter }),
+    });
+
+    return NextResponse.json({
+      message: 'All notifications marked as read',
+      updatedCount,
+    });
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark all notifications as read' },
+      { status: 500 }
+    );
+  }
+}
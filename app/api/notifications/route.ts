@@ -0,0 +1,292 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Notification, User } from '@/lib/models';
+import {
+  NOTIFICATION_TYPES,
+  createNotification,
+  getUnreadNotificationCount,
+} from '@/lib/notifications';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: Get the current user's notifications
+ *     description: Retrieve the signed-in user's notifications, newest first, with pagination and optional type/read filters.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Number of items per page.
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [info, warning, error, success, overdue_reminder, book_available, system_alert]
+ *         description: Filter notifications by type.
+ *       - in: query
+ *         name: read
+ *         schema:
+ *           type: boolean
+ *         description: Filter notifications by read state.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 total:
+ *                   type: integer
+ *                 unreadCount:
+ *                   type: integer
+ *       400:
+ *         description: Invalid notification type
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Notifications]
+ *     summary: Create a notification
+ *     description: Create a notification for a user. Defaults to the signed-in user when no userId is given.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *               - type
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: The ID of the user to notify.
+ *               message:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [info, warning, error, success, overdue_reminder, book_available, system_alert]
+ *               lendingId:
+ *                 type: string
+ *               bookId:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Notification created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Notification'
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_READ
+    )(request);
+    if (permissionError) return permissionError;
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const db = await getDatabase();
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(
+      Number.parseInt(searchParams.get('page') || '1') || 1,
+      1
+    );
+    const limit = Math.min(
+      Math.max(Number.parseInt(searchParams.get('limit') || '20') || 20, 1),
+      100
+    );
+    const typeFilter = searchParams.get('type');
+    const readFilter = searchParams.get('read');
+
+    const query: any = { userId: user._id };
+    if (typeFilter) {
+      if (!NOTIFICATION_TYPES.includes(typeFilter as Notification['type'])) {
+        return NextResponse.json(
+          { error: 'Invalid notification type' },
+          { status: 400 }
+        );
+      }
+      query.type = typeFilter;
+    }
+    if (readFilter === 'true' || readFilter === 'false') {
+      query.read = readFilter === 'true';
+    }
+
+    const notifications = await db
+      .collection<Notification>('notifications')
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .toArray();
+
+    const total = await db
+      .collection<Notification>('notifications')
+      .countDocuments(query);
+    const unreadCount = await getUnreadNotificationCount(user._id);
+
+    return NextResponse.json({
+      notifications: notifications.map((n) => ({
+        ...n,
+        _id: n._id?.toString(),
+        userId: n.userId?.toString(),
+        lendingId: n.lendingId?.toString(),
+        bookId: n.bookId?.toString(),
+      })),
+      total,
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_CREATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const body = await request.json();
+    const { userId, message, type, lendingId, bookId } = body;
+
+    if (!message || !type) {
+      return NextResponse.json(
+        { error: 'Message and type are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!NOTIFICATION_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: 'Invalid notification type' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (userId && !ObjectId.isValid(userId)) ||
+      (lendingId && !ObjectId.isValid(lendingId)) ||
+      (bookId && !ObjectId.isValid(bookId))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid User, Lending or Book ID' },
+        { status: 400 }
+      );
+    }
+
+    let recipientId: ObjectId | string | undefined;
+    if (userId) {
+      const db = await getDatabase();
+      const recipient = await db
+        .collection<User>('users')
+        .findOne({ _id: new ObjectId(userId) });
+      recipientId = recipient?._id;
+    } else {
+      recipientId = (await getCurrentUser(request))?._id;
+    }
+
+    if (!recipientId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const notification = await createNotification(
+      recipientId,
+      message,
+      type,
+      lendingId,
+      bookId
+    );
+
+    if (!notification) {
+      return NextResponse.json(
+        { error: 'Failed to create notification' },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'CREATE_NOTIFICATION',
+      targetType: 'notification',
+      targetId: notification._id,
+      after: notification,
+    });
+
+    return NextResponse.json(
+      {
+        ...notification,
+        _id: notification._id?.toString(),
+        userId: notification.userId.toString(),
+        lendingId: notification.lendingId?.toString(),
+        bookId: notification.bookId?.toString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to create notification' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { getUnreadNotificationCount } from '@/lib/notifications';
+
+/**
+ * @swagger
+ * /api/notifications/unread-count:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: Get the unread notification count
+ *     description: Return the number of unread notifications of the signed-in user.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread count retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 unreadCount:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.NOTIFICATIONS_READ
+    )(request);
+    if (permissionError) return permissionError;
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const unreadCount = await getUnreadNotificationCount(user._id);
+
+    return NextResponse.json({ unreadCount });
+  } catch (error) {
+    console.error('Error fetching unread notification count:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch unread notification count' },
+      { status: 500 }
+    );
+  }
+}
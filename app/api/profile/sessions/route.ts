@@ -0,0 +1,64 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import { getBearerApiToken } from '@/lib/api-tokens';
+import { revokeSessions } from '@/lib/sessions';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/profile/sessions:
+ *   delete:
+ *     tags: [Profile]
+ *     summary: Sign out all devices
+ *     description: Ends every signed-in session of your account, including the current one. Your API tokens keep working.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions signed out
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot sign out sessions
+ *       500:
+ *         description: Internal server error
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request, {
+      allowTwoFactorSetup: true,
+    });
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json(
+        { error: 'API tokens cannot sign out sessions' },
+        { status: 403 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await revokeSessions(user._id);
+    await recordAudit(request, {
+      action: 'REVOKE_SESSIONS',
+      targetType: 'user',
+      targetId: user._id,
+      actor: user,
+    });
+
+    return NextResponse.json({ message: 'Signed out of all devices' });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out of all devices' },
+      { status: 500 }
+    );
+  }
+}
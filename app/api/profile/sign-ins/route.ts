@@ -0,0 +1,60 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import { getSignInHistory } from '@/lib/login-attempts';
+
+/**
+ * @swagger
+ * /api/profile/sign-ins:
+ *   get:
+ *     tags: [Profile]
+ *     summary: List your recent sign-ins
+ *     description: The last 50 successful and failed sign-ins to your account, with the IP address and user agent of each.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sign-in history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 signIns:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LoginAttempt'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request, {
+      allowTwoFactorSetup: true,
+    });
+    if (authError) return authError;
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const signIns = await getSignInHistory(user._id);
+    return NextResponse.json({
+      signIns: signIns.map(({ userId, ...signIn }) => ({
+        ...signIn,
+        _id: signIn._id.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching sign-in history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sign-in history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import type { ApiToken } from '@/lib/models';
+import { getBearerApiToken, serializeApiToken } from '@/lib/api-tokens';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/profile/tokens/{id}:
+ *   delete:
+ *     tags: [Profile]
+ *     summary: Revoke an API token
+ *     description: Revokes one of your personal access tokens. It stops working immediately.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Token revoked successfully
+ *       400:
+ *         description: Invalid token ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage API tokens
+ *       404:
+ *         description: Token not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json(
+        { error: 'API tokens cannot manage API tokens' },
+        { status: 403 }
+      );
+    }
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Token ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const db = await getDatabase();
+    const token = await db.collection<ApiToken>('api_tokens').findOneAndUpdate(
+      {
+        _id: new ObjectId(params.id),
+        userId: new ObjectId(user._id),
+        revokedAt: null,
+      },
+      { $set: { revokedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!token) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+    }
+
+    await recordAudit(request, {
+      action: 'REVOKE_API_TOKEN',
+      targetType: 'api_token',
+      targetId: token._id,
+      details: { name: token.name, prefix: token.prefix },
+      actor: user,
+    });
+
+    return NextResponse.json({
+      message: 'Token revoked successfully',
+      token: serializeApiToken(token),
+    });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,217 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  authMiddleware,
+  getCurrentUser,
+  getUserPermissions,
+} from '@/lib/middleware';
+import type { ApiToken } from '@/lib/models';
+import { validateApiToken } from '@/lib/validators';
+import {
+  generateToken,
+  getBearerApiToken,
+  serializeApiToken,
+} from '@/lib/api-tokens';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/profile/tokens:
+ *   get:
+ *     tags: [Profile]
+ *     summary: List your API tokens
+ *     description: Lists the signed-in user's personal access tokens that have not been revoked, including expired ones.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tokens:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiToken'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage API tokens
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Profile]
+ *     summary: Create an API token
+ *     description: Creates a personal access token for scripts and integrations. Send it as `Authorization Bearer lms_...`. The token is only returned once, and can only use the listed scopes while you still hold them.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *               - expiresInDays
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Nightly circulation export
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [books:read, lendings:read]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Token created, the `token` field holds the only copy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiToken'
+ *                 - type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *       400:
+ *         description: Invalid input, or scopes you do not hold yourself
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage API tokens
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json(
+        { error: 'API tokens cannot manage API tokens' },
+        { status: 403 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const db = await getDatabase();
+    const tokens = await db
+      .collection<ApiToken>('api_tokens')
+      .find({ userId: new ObjectId(user._id), revokedAt: null })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return NextResponse.json({ tokens: tokens.map(serializeApiToken) });
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json(
+        { error: 'API tokens cannot manage API tokens' },
+        { status: 403 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { valid, errors } = validateApiToken(body);
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const scopes = Array.from(new Set<string>(body.scopes));
+    const userPermissions = await getUserPermissions(request);
+    const notHeld = scopes.filter((scope) => !userPermissions.includes(scope));
+    if (notHeld.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: {
+            scopes: `You do not have these permissions: ${notHeld.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, tokenHash, prefix } = generateToken();
+    const now = new Date();
+    const newToken: ApiToken = {
+      userId: new ObjectId(user._id),
+      name: body.name.trim(),
+      tokenHash,
+      prefix,
+      scopes,
+      expiresAt: new Date(
+        now.getTime() + body.expiresInDays * 24 * 60 * 60 * 1000
+      ),
+      lastUsedAt: null,
+      lastUsedIp: null,
+      useCount: 0,
+      revokedAt: null,
+      createdAt: now,
+    };
+
+    const db = await getDatabase();
+    const result = await db
+      .collection<ApiToken>('api_tokens')
+      .insertOne(newToken);
+    await recordAudit(request, {
+      action: 'CREATE_API_TOKEN',
+      targetType: 'api_token',
+      targetId: result.insertedId,
+      after: serializeApiToken(newToken),
+      actor: user,
+    });
+
+    return NextResponse.json(
+      {
+        ...serializeApiToken({ ...newToken, _id: result.insertedId }),
+        token,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import { getBearerApiToken } from '@/lib/api-tokens';
+import { regenerateRecoveryCodes, verifySecondFactor } from '@/lib/two-factor';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/profile/two-factor/recovery-codes:
+ *   post:
+ *     tags: [Profile]
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all of your recovery codes. The old codes stop working and the new ones are only shown once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: An authenticator or recovery code
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Invalid code, or two-factor authentication is not enabled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage two-factor authentication
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    if (getBearerApiToken(request)) {
+      return NextResponse.json(
+        { error: 'API tokens cannot manage two-factor authentication' },
+        { status: 403 }
+      );
+    }
+
+    const user = await getCurrentUser(request);
+    if (!user?._id) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!user.twoFactor?.enabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user);
+    await recordAudit(request, {
+      action: 'REGENERATE_RECOVERY_CODES',
+      targetType: 'user',
+      targetId: user._id,
+      actor: user,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate recovery codes' },
+      { status: 500 }
+    );
+  }
+}
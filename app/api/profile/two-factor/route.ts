@@ -0,0 +1,301 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, getCurrentUser } from '@/lib/middleware';
+import { getBearerApiToken } from '@/lib/api-tokens';
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorSummary,
+  roleRequiresTwoFactor,
+  startEnrollment,
+  verifySecondFactor,
+} from '@/lib/two-factor';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/profile/two-factor:
+ *   get:
+ *     tags: [Profile]
+ *     summary: Get your two-factor status
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 enabled:
+ *                   type: boolean
+ *                 enabledAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 recoveryCodesRemaining:
+ *                   type: integer
+ *                 required:
+ *                   type: boolean
+ *                   description: Whether your role requires two-factor authentication
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage two-factor authentication
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Profile]
+ *     summary: Start two-factor enrollment
+ *     description: Creates a new authenticator secret and returns it with an otpauth URL and a QR code. It takes effect once confirmed with a code.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                 otpauthUrl:
+ *                   type: string
+ *                 qrCode:
+ *                   type: string
+ *                   description: PNG data URL of the otpauth URL
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage two-factor authentication
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags: [Profile]
+ *     summary: Confirm two-factor enrollment
+ *     description: Turns on two-factor authentication once a code from the authenticator app matches, and returns one-time recovery codes. They are only shown once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Invalid code, or no enrollment in progress
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: API tokens cannot manage two-factor authentication
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Profile]
+ *     summary: Turn off two-factor authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: An authenticator or recovery code
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication turned off
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Your role requires two-factor authentication
+ *       500:
+ *         description: Internal server error
+ */
+async function authenticate(request: NextRequest) {
+  const authError = await authMiddleware(request, {
+    allowTwoFactorSetup: true,
+  });
+  if (authError) return { error: authError };
+
+  if (getBearerApiToken(request)) {
+    return {
+      error: NextResponse.json(
+        { error: 'API tokens cannot manage two-factor authentication' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const user = await getCurrentUser(request);
+  if (!user?._id) {
+    return {
+      error: NextResponse.json({ error: 'User not found' }, { status: 404 }),
+    };
+  }
+  return { user };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await authenticate(request);
+    if (error) return error;
+
+    return NextResponse.json({
+      ...getTwoFactorSummary(user),
+      required: await roleRequiresTwoFactor(user.role),
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await authenticate(request);
+    if (error) return error;
+
+    if (user.twoFactor?.enabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await startEnrollment(user));
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    return NextResponse.json(
+      { error: 'Failed to start two-factor enrollment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await authenticate(request);
+    if (error) return error;
+
+    const { code } = await request.json();
+    if (user.twoFactor?.enabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+    if (!user.twoFactor?.pendingSecret) {
+      return NextResponse.json(
+        { error: 'Start enrollment before confirming it' },
+        { status: 400 }
+      );
+    }
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Code is required' }, { status: 400 });
+    }
+
+    const recoveryCodes = await confirmEnrollment(user, code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'ENABLE_TWO_FACTOR',
+      targetType: 'user',
+      targetId: user._id,
+      actor: user,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm two-factor enrollment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await authenticate(request);
+    if (error) return error;
+
+    if (!user.twoFactor?.enabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+    if (await roleRequiresTwoFactor(user.role)) {
+      return NextResponse.json(
+        { error: 'Your role requires two-factor authentication' },
+        { status: 403 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user._id!);
+    await recordAudit(request, {
+      action: 'DISABLE_TWO_FACTOR',
+      targetType: 'user',
+      targetId: user._id,
+      actor: user,
+    });
+
+    return NextResponse.json({
+      message: 'Two-factor authentication turned off',
+    });
+  } catch (error) {
+    console.error('Error turning off two-factor authentication:', error);
+    return NextResponse.json(
+      { error: 'Failed to turn off two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
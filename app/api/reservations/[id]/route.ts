@@ -0,0 +1,179 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Reservation } from '@/lib/models';
+import {
+  ACTIVE_RESERVATION_STATUSES,
+  cancelReservation,
+  getQueuePosition,
+} from '@/lib/reservations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/reservations/{id}:
+ *   get:
+ *     tags: [Reservations]
+ *     summary: Get a hold by ID
+ *     description: Retrieve a single hold with its current queue position.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the hold to retrieve
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Hold retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Reservation'
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Hold not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Reservations]
+ *     summary: Cancel a hold
+ *     description: Cancel a pending or ready hold. A copy set aside for a ready hold passes to the next borrower in the queue.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the hold to cancel
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Hold cancelled successfully
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Active hold not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.LENDINGS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Reservation ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const reservation = await db
+      .collection<Reservation>('reservations')
+      .findOne({ _id: new ObjectId(id) });
+
+    if (!reservation) {
+      return NextResponse.json(
+        { error: 'Reservation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...reservation,
+      _id: reservation._id.toString(),
+      bookId: reservation.bookId.toString(),
+      borrowerId: reservation.borrowerId.toString(),
+      lendingId: reservation.lendingId?.toString(),
+      queuePosition: ACTIVE_RESERVATION_STATUSES.includes(reservation.status)
+        ? await getQueuePosition(reservation)
+        : undefined,
+    });
+  } catch (error) {
+    console.error('Error fetching reservation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reservation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LENDINGS_UPDATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Reservation ID format' },
+        { status: 400 }
+      );
+    }
+
+    const cancelled = await cancelReservation(id);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Active reservation not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'CANCEL_RESERVATION',
+      targetType: 'reservation',
+      targetId: cancelled._id,
+      before: cancelled,
+      after: {
+        ...cancelled,
+        status: 'cancelled',
+        cancelledAt: new Date(),
+      },
+    });
+
+    return NextResponse.json({ message: 'Reservation cancelled successfully' });
+  } catch (error) {
+    console.error('Error cancelling reservation:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel reservation' },
+      { status: 500 }
+    );
+  }
+}
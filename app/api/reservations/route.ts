@@ -0,0 +1,308 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book, Borrower, Reservation } from '@/lib/models';
+import {
+  ACTIVE_RESERVATION_STATUSES,
+  expireReservations,
+  getQueuePosition,
+} from '@/lib/reservations';
+import { recordAudit } from '@/lib/audit';
+import { placeHold } from '@/lib/circulation';
+
+const RESERVATION_STATUSES: Reservation['status'][] = [
+  'pending',
+  'ready',
+  'fulfilled',
+  'cancelled',
+  'expired',
+];
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   get:
+ *     tags: [Reservations]
+ *     summary: Get book holds
+ *     description: Retrieve holds with their queue position. Returns active (pending and ready) holds unless a status is given.
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *         description: Number of items per page.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, ready, fulfilled, cancelled, expired]
+ *         description: Filter holds by status.
+ *       - in: query
+ *         name: bookId
+ *         schema:
+ *           type: string
+ *         description: Only return holds on this book.
+ *       - in: query
+ *         name: borrowerId
+ *         schema:
+ *           type: string
+ *         description: Only return holds placed by this borrower.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Holds retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reservations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Reservation'
+ *                 total:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Reservations]
+ *     summary: Place a hold on a book
+ *     description: Add a borrower to the hold queue of a book that has no available copies.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookId
+ *               - borrowerId
+ *             properties:
+ *               bookId:
+ *                 type: string
+ *               borrowerId:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Hold placed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Reservation'
+ *       400:
+ *         description: Invalid input, copies available or hold already placed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Book or borrower not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.LENDINGS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    // Keep the queue accurate even if the background service is not running
+    await expireReservations();
+
+    const db = await getDatabase();
+    const { searchParams } = new URL(request.url);
+    const page = Number.parseInt(searchParams.get('page') || '1');
+    const limit = Number.parseInt(searchParams.get('limit') || '10');
+    const statusFilter = searchParams.get('status');
+    const bookId = searchParams.get('bookId');
+    const borrowerId = searchParams.get('borrowerId');
+
+    const query: any = {
+      status: { $in: ACTIVE_RESERVATION_STATUSES },
+    };
+    if (
+      statusFilter &&
+      RESERVATION_STATUSES.includes(statusFilter as Reservation['status'])
+    ) {
+      query.status = statusFilter;
+    }
+    if (bookId && ObjectId.isValid(bookId)) {
+      query.bookId = new ObjectId(bookId);
+    }
+    if (borrowerId && ObjectId.isValid(borrowerId)) {
+      query.borrowerId = new ObjectId(borrowerId);
+    }
+
+    const reservations = await db
+      .collection<Reservation>('reservations')
+      .aggregate<Reservation>([
+        { $match: query },
+        { $sort: { createdAt: 1 } },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+        {
+          $lookup: {
+            from: 'books',
+            localField: 'bookId',
+            foreignField: '_id',
+            as: 'book',
+          },
+        },
+        { $unwind: { path: '$book', preserveNullAndEmptyArrays: true } },
+        {
+          $lookup: {
+            from: 'borrowers',
+            localField: 'borrowerId',
+            foreignField: '_id',
+            as: 'borrower',
+          },
+        },
+        { $unwind: { path: '$borrower', preserveNullAndEmptyArrays: true } },
+      ])
+      .toArray();
+
+    const total = await db
+      .collection<Reservation>('reservations')
+      .countDocuments(query);
+
+    const withPositions = await Promise.all(
+      reservations.map(async (r) => ({
+        ...r,
+        _id: r._id?.toString(),
+        bookId: r.bookId.toString(),
+        borrowerId: r.borrowerId.toString(),
+        lendingId: r.lendingId?.toString(),
+        queuePosition: ACTIVE_RESERVATION_STATUSES.includes(r.status)
+          ? await getQueuePosition(r)
+          : undefined,
+        book: r.book && {
+          _id: r.book._id?.toString(),
+          title: r.book.title,
+          author: r.book.author,
+          bookId: r.book.bookId,
+        },
+        borrower: r.borrower && {
+          _id: r.borrower._id?.toString(),
+          name: r.borrower.name,
+          memberId: r.borrower.memberId,
+        },
+      }))
+    );
+
+    return NextResponse.json({ reservations: withPositions, total });
+  } catch (error) {
+    console.error('Error fetching reservations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reservations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(
+      PERMISSIONS.LENDINGS_CREATE
+    )(request);
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const body = await request.json();
+    const { bookId, borrowerId, notes } = body;
+
+    if (!bookId || !borrowerId) {
+      return NextResponse.json(
+        { error: 'Book ID and Borrower ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ObjectId.isValid(bookId) || !ObjectId.isValid(borrowerId)) {
+      return NextResponse.json(
+        { error: 'Invalid Book ID or Borrower ID' },
+        { status: 400 }
+      );
+    }
+
+    const bookObjectId = new ObjectId(bookId);
+    const borrowerObjectId = new ObjectId(borrowerId);
+
+    const book = await db
+      .collection<Book>('books')
+      .findOne({ _id: bookObjectId });
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const borrower = await db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: borrowerObjectId });
+    if (!borrower) {
+      return NextResponse.json(
+        { error: 'Borrower not found' },
+        { status: 404 }
+      );
+    }
+
+    const outcome = await placeHold({ book, borrower, notes });
+    if ('failure' in outcome) {
+      const { error, status } = outcome.failure;
+      return NextResponse.json({ error }, { status });
+    }
+    const newReservation = outcome.reservation;
+
+    await recordAudit(request, {
+      action: 'CREATE_RESERVATION',
+      targetType: 'reservation',
+      targetId: newReservation._id,
+      after: newReservation,
+    });
+
+    const queuePosition = await getQueuePosition(newReservation);
+
+    return NextResponse.json(
+      {
+        ...newReservation,
+        _id: newReservation._id.toString(),
+        bookId,
+        borrowerId,
+        queuePosition,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating reservation:', error);
+    return NextResponse.json(
+      { error: 'Failed to create reservation' },
+      { status: 500 }
+    );
+  }
+}
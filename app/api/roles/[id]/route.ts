@@ -0,0 +1,367 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS, SUPER_ADMIN_ROLE } from '@/lib/auth';
+import type { Role, User } from '@/lib/models';
+import { validateRole } from '@/lib/validators';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   get:
+ *     tags: [Roles]
+ *     summary: Get a role
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Invalid role ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Role not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags: [Roles]
+ *     summary: Update a role
+ *     description: Changes a role's name, description or permissions. Users holding the role get the new permissions on their next request. Built-in roles cannot be renamed, and Super Admin always keeps every permission.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               requireTwoFactor:
+ *                 type: boolean
+ *               passwordMaxAgeDays:
+ *                 type: integer
+ *                 nullable: true
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Invalid input, or a change not allowed on a built-in role
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Role not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     tags: [Roles]
+ *     summary: Delete a role
+ *     description: Deletes a custom role. Roles still assigned to users and built-in roles cannot be deleted.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: objectId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role deleted successfully
+ *       400:
+ *         description: Built-in roles cannot be deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: Role is still assigned to users
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.ROLES_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Role ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const role = await db
+      .collection<Role>('roles')
+      .findOne({ _id: new ObjectId(params.id) });
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    const userCount = await db
+      .collection<User>('users')
+      .countDocuments({ role: role.name });
+
+    return NextResponse.json({
+      ...role,
+      _id: role._id.toString(),
+      userCount,
+    });
+  } catch (error) {
+    console.error('Error fetching role:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.ROLES_UPDATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Role ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { _id, builtIn, userCount, createdAt, updatedAt, ...updateData } =
+      await request.json();
+    const { valid, errors } = validateRole(updateData, { partial: true });
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const objectId = new ObjectId(params.id);
+    const existingRole = await db
+      .collection<Role>('roles')
+      .findOne({ _id: objectId });
+    if (!existingRole) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    const name = updateData.name?.trim() ?? existingRole.name;
+    const renamed = name !== existingRole.name;
+    if (renamed && existingRole.builtIn) {
+      return NextResponse.json(
+        { error: 'Built-in roles cannot be renamed' },
+        { status: 400 }
+      );
+    }
+    if (
+      existingRole.name === SUPER_ADMIN_ROLE &&
+      updateData.permissions !== undefined
+    ) {
+      return NextResponse.json(
+        { error: `${SUPER_ADMIN_ROLE} always has every permission` },
+        { status: 400 }
+      );
+    }
+
+    if (renamed) {
+      const conflictingRole = await db
+        .collection<Role>('roles')
+        .findOne(
+          { _id: { $ne: objectId }, name },
+          { collation: { locale: 'en', strength: 2 } }
+        );
+      if (conflictingRole) {
+        return NextResponse.json(
+          { error: 'A role with this name already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await db.collection<Role>('roles').findOneAndUpdate(
+      { _id: objectId },
+      {
+        $set: {
+          name,
+          ...(updateData.description !== undefined && {
+            description: updateData.description.trim(),
+          }),
+          ...(updateData.permissions && {
+            permissions: Array.from(new Set<string>(updateData.permissions)),
+          }),
+          ...(updateData.requireTwoFactor !== undefined && {
+            requireTwoFactor: updateData.requireTwoFactor,
+          }),
+          ...(updateData.passwordMaxAgeDays !== undefined && {
+            passwordMaxAgeDays: updateData.passwordMaxAgeDays,
+          }),
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: 'after' }
+    );
+    if (!result) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    // Users are linked to their role by name
+    if (renamed) {
+      await db
+        .collection<User>('users')
+        .updateMany(
+          { role: existingRole.name },
+          { $set: { role: name, updatedAt: new Date() } }
+        );
+    }
+
+    await recordAudit(request, {
+      action: 'UPDATE_ROLE',
+      targetType: 'role',
+      targetId: objectId,
+      before: existingRole,
+      after: result,
+    });
+
+    const count = await db
+      .collection<User>('users')
+      .countDocuments({ role: result.name });
+
+    return NextResponse.json({
+      ...result,
+      _id: result._id.toString(),
+      userCount: count,
+    });
+  } catch (error) {
+    console.error('Error updating role:', error);
+    return NextResponse.json(
+      { error: 'Failed to update role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.ROLES_DELETE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid Role ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const objectId = new ObjectId(params.id);
+    const role = await db.collection<Role>('roles').findOne({ _id: objectId });
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    if (role.builtIn) {
+      return NextResponse.json(
+        { error: 'Built-in roles cannot be deleted' },
+        { status: 400 }
+      );
+    }
+
+    const userCount = await db
+      .collection<User>('users')
+      .countDocuments({ role: role.name });
+    if (userCount > 0) {
+      return NextResponse.json(
+        {
+          error: 'Role is still assigned to users, reassign them first',
+          userCount,
+        },
+        { status: 409 }
+      );
+    }
+
+    await db.collection<Role>('roles').deleteOne({ _id: objectId });
+    await recordAudit(request, {
+      action: 'DELETE_ROLE',
+      targetType: 'role',
+      targetId: objectId,
+      before: role,
+    });
+
+    return NextResponse.json({ message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting role:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete role' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Role, User } from '@/lib/models';
+import { validateRole } from '@/lib/validators';
+import { getRoles } from '@/lib/roles';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /api/roles:
+ *   get:
+ *     tags: [Roles]
+ *     summary: List roles
+ *     description: Lists the built-in and custom roles with the permissions each grants and how many users hold it.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 roles:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Role'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Roles]
+ *     summary: Create a role
+ *     description: Adds a custom role, such as Paralegal or Records Clerk, that users can then be assigned.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [dashboard:read, cases:read, documents:read]
+ *               requireTwoFactor:
+ *                 type: boolean
+ *                 description: Users with this role must set up two-factor authentication
+ *               passwordMaxAgeDays:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Days before passwords of users with this role expire, null for never
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Role created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Role'
+ *       400:
+ *         description: Invalid input or a role with this name already exists
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.ROLES_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const [roles, counts] = await Promise.all([
+      getRoles(),
+      db
+        .collection<User>('users')
+        .aggregate<{ _id: string; count: number }>([
+          { $group: { _id: '$role', count: { $sum: 1 } } },
+        ])
+        .toArray(),
+    ]);
+
+    return NextResponse.json({
+      roles: roles.map((role) => ({
+        ...role,
+        _id: role._id.toString(),
+        userCount: counts.find((c) => c._id === role.name)?.count ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch roles' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.ROLES_CREATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const body = await request.json();
+    const { valid, errors } = validateRole(body);
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Also seeds the built-in roles so their names are taken
+    await getRoles();
+
+    const db = await getDatabase();
+    const name = body.name.trim();
+    const existingRole = await db
+      .collection<Role>('roles')
+      .findOne({ name }, { collation: { locale: 'en', strength: 2 } });
+    if (existingRole) {
+      return NextResponse.json(
+        { error: 'A role with this name already exists' },
+        { status: 400 }
+      );
+    }
+
+    const newRole: Role = {
+      name,
+      description: body.description?.trim() || undefined,
+      permissions: Array.from(new Set<string>(body.permissions)),
+      requireTwoFactor: body.requireTwoFactor === true,
+      passwordMaxAgeDays: body.passwordMaxAgeDays ?? null,
+      builtIn: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await db.collection<Role>('roles').insertOne(newRole);
+    await recordAudit(request, {
+      action: 'CREATE_ROLE',
+      targetType: 'role',
+      targetId: result.insertedId,
+      after: newRole,
+    });
+
+    return NextResponse.json(
+      { ...newRole, _id: result.insertedId.toString(), userCount: 0 },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating role:', error);
+    return NextResponse.json(
+      { error: 'Failed to create role' },
+      { status: 500 }
+    );
+  }
+}
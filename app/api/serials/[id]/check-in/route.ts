@@ -0,0 +1,320 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type WithId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Book, Serial, SerialIssue } from '@/lib/models';
+import { validateSerialIssue } from '@/lib/validators';
+import { COPY_CONDITIONS } from '@/lib/copies';
+import {
+  catalogueIssue,
+  getIssueBookId,
+  getIssueLabel,
+  scheduleIssues,
+} from '@/lib/serials';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /serials/{id}/check-in:
+ *   post:
+ *     tags: [Serials]
+ *     summary: Check in a part of a serial
+ *     description: >
+ *       Record the arrival of an expected part, given by issueId or by its
+ *       volume and part number, or of a part that arrived unannounced. The part
+ *       is catalogued as a book of its own with its copies on the shelf, so it
+ *       can be lent through the usual lending flow. Law report parts are given
+ *       their citation. The serial's next expected parts are then scheduled.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               issueId:
+ *                 type: string
+ *                 description: The expected part that arrived.
+ *               volume:
+ *                 type: integer
+ *               part:
+ *                 type: integer
+ *                 description: Required without issueId.
+ *               year:
+ *                 type: integer
+ *                 description: Defaults to the year the part was expected, or received.
+ *               receivedDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to today.
+ *               copies:
+ *                 type: integer
+ *                 description: Copies received. Defaults to the serial's copies per part.
+ *               condition:
+ *                 type: string
+ *                 enum: [new, good, fair, poor, damaged]
+ *               notes:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Part checked in and catalogued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 issue:
+ *                   $ref: '#/components/schemas/SerialIssue'
+ *                 book:
+ *                   $ref: '#/components/schemas/Book'
+ *       400:
+ *         description: Invalid input, part already received or book ID already in use
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Serial or part not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_CREATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Serial ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const serial = await db
+      .collection<Serial>('serials')
+      .findOne({ _id: new ObjectId(id) });
+    if (!serial) {
+      return NextResponse.json({ error: 'Serial not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (
+      body.receivedDate &&
+      Number.isNaN(new Date(body.receivedDate).getTime())
+    ) {
+      return NextResponse.json(
+        { error: 'Received date must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const issues = db.collection<SerialIssue>('serial_issues');
+    let issue: SerialIssue | null;
+
+    if (body.issueId) {
+      if (!ObjectId.isValid(body.issueId)) {
+        return NextResponse.json(
+          { error: 'Invalid Issue ID format' },
+          { status: 400 }
+        );
+      }
+      issue = await issues.findOne({
+        _id: new ObjectId(body.issueId),
+        serialId: serial._id,
+      });
+      if (!issue) {
+        return NextResponse.json({ error: 'Part not found' }, { status: 404 });
+      }
+    } else {
+      const { valid, errors } = validateSerialIssue({
+        volume: body.volume,
+        part: body.part,
+        year: body.year,
+        notes: body.notes,
+      });
+      if (!valid) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: errors },
+          { status: 400 }
+        );
+      }
+      issue = await issues.findOne({
+        serialId: serial._id,
+        part: body.part,
+        volume: body.volume != null ? body.volume : { $exists: false },
+      });
+    }
+
+    if (issue?.status === 'received') {
+      return NextResponse.json(
+        { error: `${getIssueLabel(serial, issue)} has already been received` },
+        { status: 400 }
+      );
+    }
+
+    const copies = body.copies ?? serial.copiesPerIssue;
+    if (!Number.isInteger(copies) || copies < 1 || copies > 100) {
+      return NextResponse.json(
+        { error: 'Copies must be a whole number from 1 to 100' },
+        { status: 400 }
+      );
+    }
+    if (body.condition && !COPY_CONDITIONS.includes(body.condition)) {
+      return NextResponse.json(
+        { error: `Condition must be one of ${COPY_CONDITIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const receivedDate = body.receivedDate
+      ? new Date(body.receivedDate)
+      : new Date();
+    const numbering = {
+      volume: issue ? issue.volume : body.volume ?? undefined,
+      part: issue ? issue.part : body.part,
+      year:
+        issue?.year ??
+        (Number.isInteger(body.year) ? body.year : receivedDate.getFullYear()),
+    };
+
+    const bookId = getIssueBookId(serial, numbering);
+    const existingBook = await db.collection<Book>('books').findOne({ bookId });
+    if (existingBook) {
+      return NextResponse.json(
+        { error: `A book with ID ${bookId} already exists` },
+        { status: 400 }
+      );
+    }
+
+    // The part is marked received before it is catalogued, and only the
+    // check-in whose update matched goes on, so two check-ins of the same
+    // part at once cannot both catalogue it
+    const received: Partial<SerialIssue> = {
+      status: 'received',
+      receivedDate,
+      ...(body.notes && { notes: body.notes }),
+      updatedAt: new Date(),
+    };
+    let receivedIssue: WithId<SerialIssue> | null;
+    if (issue) {
+      receivedIssue = await issues.findOneAndUpdate(
+        { _id: issue._id, status: { $ne: 'received' } },
+        { $set: received },
+        { returnDocument: 'after' }
+      );
+    } else {
+      // Parts that arrive unannounced are added as they come
+      const newIssue: SerialIssue = {
+        serialId: serial._id,
+        ...(numbering.volume != null && { volume: numbering.volume }),
+        part: numbering.part,
+        year: numbering.year,
+        status: 'received',
+        receivedDate,
+        ...(body.notes && { notes: body.notes }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      try {
+        const result = await issues.insertOne(newIssue);
+        receivedIssue = { ...newIssue, _id: result.insertedId };
+      } catch (error) {
+        // The unique index on the part's numbering caught a concurrent check-in
+        if ((error as { code?: number }).code !== 11000) throw error;
+        receivedIssue = null;
+      }
+    }
+    if (!receivedIssue) {
+      return NextResponse.json(
+        {
+          error: `${getIssueLabel(
+            serial,
+            numbering
+          )} has already been received`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let book: WithId<Book>;
+    try {
+      book = await catalogueIssue(serial, numbering, copies, {
+        acquisitionDate: receivedDate,
+        ...(body.condition && { condition: body.condition }),
+      });
+    } catch (error) {
+      // Put the part back as it was, so the check-in can be tried again
+      if (issue) {
+        const { _id, ...previous } = issue;
+        await issues.replaceOne({ _id: receivedIssue._id }, previous);
+      } else {
+        await issues.deleteOne({ _id: receivedIssue._id });
+      }
+      throw error;
+    }
+
+    receivedIssue.bookId = book._id;
+    await issues.updateOne(
+      { _id: receivedIssue._id },
+      { $set: { bookId: book._id } }
+    );
+
+    await recordAudit(request, {
+      action: 'CREATE_BOOK',
+      targetType: 'book',
+      targetId: book._id,
+      after: book,
+      details: { source: 'serial' },
+    });
+    await recordAudit(request, {
+      action: 'RECEIVE_SERIAL_ISSUE',
+      targetType: 'serial_issue',
+      targetId: receivedIssue._id,
+      before: issue,
+      after: receivedIssue,
+    });
+    await scheduleIssues(serial);
+
+    return NextResponse.json(
+      {
+        issue: {
+          ...receivedIssue,
+          _id: receivedIssue._id?.toString(),
+          serialId: serial._id.toString(),
+          bookId: book._id.toString(),
+          label: getIssueLabel(serial, receivedIssue),
+        },
+        book: { ...book, _id: book._id.toString() },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error checking in serial part:', error);
+    return NextResponse.json(
+      { error: 'Failed to check in part' },
+      { status: 500 }
+    );
+  }
+}
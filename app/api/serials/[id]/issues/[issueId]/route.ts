@@ -0,0 +1,184 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Serial, SerialIssue } from '@/lib/models';
+import { validateSerialIssue } from '@/lib/validators';
+import { getIssueLabel } from '@/lib/serials';
+import { recordAudit } from '@/lib/audit';
+
+// Statuses a part can be given by hand, arrival being recorded by check-in
+const OUTSTANDING_STATUSES: SerialIssue['status'][] = [
+  'expected',
+  'claimed',
+  'not_published',
+];
+
+/**
+ * @swagger
+ * /serials/{id}/issues/{issueId}:
+ *   patch:
+ *     tags: [Serials]
+ *     summary: Update a part of a serial
+ *     description: Claim a late or missing part from the publisher, record that it will not be published, or change when it is expected. Received parts only take notes; their copies are managed through the book they were catalogued as.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: issueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [expected, claimed, not_published]
+ *               expectedDate:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Part updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SerialIssue'
+ *       400:
+ *         description: Invalid input or part already received
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Serial or part not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; issueId: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_UPDATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id, issueId } = params;
+    if (!ObjectId.isValid(id) || !ObjectId.isValid(issueId)) {
+      return NextResponse.json(
+        { error: 'Invalid Serial or Issue ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const serial = await db
+      .collection<Serial>('serials')
+      .findOne({ _id: new ObjectId(id) });
+    const issue = await db
+      .collection<SerialIssue>('serial_issues')
+      .findOne({ _id: new ObjectId(issueId), serialId: new ObjectId(id) });
+    if (!serial || !issue) {
+      return NextResponse.json({ error: 'Part not found' }, { status: 404 });
+    }
+
+    const { status, expectedDate, notes } = await request.json();
+    const { valid, errors } = validateSerialIssue({
+      part: issue.part,
+      expectedDate,
+      notes,
+    });
+    if (status !== undefined && !OUTSTANDING_STATUSES.includes(status)) {
+      errors.status = `Status must be one of ${OUTSTANDING_STATUSES.join(
+        ', '
+      )}`;
+    }
+    if (!valid || errors.status) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    if (
+      issue.status === 'received' &&
+      (status !== undefined || expectedDate !== undefined)
+    ) {
+      return NextResponse.json(
+        {
+          error: `${getIssueLabel(
+            serial,
+            issue
+          )} has been received; manage its copies from the book instead`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const update: Partial<SerialIssue> = {
+      ...(status !== undefined && { status }),
+      ...(status === 'claimed' &&
+        issue.status !== 'claimed' && { claimedAt: new Date() }),
+      ...(expectedDate !== undefined && {
+        expectedDate: new Date(expectedDate),
+      }),
+      ...(notes !== undefined && { notes }),
+      updatedAt: new Date(),
+    };
+
+    const result = await db
+      .collection<SerialIssue>('serial_issues')
+      .findOneAndUpdate(
+        { _id: issue._id },
+        { $set: update },
+        { returnDocument: 'after' }
+      );
+    if (!result) {
+      return NextResponse.json({ error: 'Part not found' }, { status: 404 });
+    }
+
+    await recordAudit(request, {
+      action:
+        status === 'claimed' ? 'CLAIM_SERIAL_ISSUE' : 'UPDATE_SERIAL_ISSUE',
+      targetType: 'serial_issue',
+      targetId: issue._id,
+      before: issue,
+      after: result,
+    });
+
+    return NextResponse.json({
+      ...result,
+      _id: result._id.toString(),
+      serialId: result.serialId.toString(),
+      bookId: result.bookId?.toString(),
+      label: getIssueLabel(serial, result),
+    });
+  } catch (error) {
+    console.error('Error updating serial part:', error);
+    return NextResponse.json(
+      { error: 'Failed to update part' },
+      { status: 500 }
+    );
+  }
+}
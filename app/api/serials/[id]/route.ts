@@ -0,0 +1,244 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Serial, SerialIssue } from '@/lib/models';
+import { validateSerial } from '@/lib/validators';
+import { describeIssues, getHoldings, scheduleIssues } from '@/lib/serials';
+import { normalizeSeries } from '@/lib/citations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /serials/{id}:
+ *   get:
+ *     tags: [Serials]
+ *     summary: Get a serial with its parts
+ *     description: Retrieve a serial, its holdings statement and every part expected or received, in order. Expected parts are shown as late once past the grace period, and as missing once a later part has arrived.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Serial retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 serial:
+ *                   $ref: '#/components/schemas/Serial'
+ *                 issues:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SerialIssue'
+ *       400:
+ *         description: Invalid Serial ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Serial not found
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     tags: [Serials]
+ *     summary: Update a serial
+ *     description: Update a serial's details or schedule. The code cannot change once parts have been catalogued under it. Ceasing a serial stops further parts being expected.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Serial'
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Serial updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Serial'
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Serial not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Serial ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const serial = await db
+      .collection<Serial>('serials')
+      .findOne({ _id: new ObjectId(id) });
+    if (!serial) {
+      return NextResponse.json({ error: 'Serial not found' }, { status: 404 });
+    }
+
+    await scheduleIssues(serial);
+    const issues = await db
+      .collection<SerialIssue>('serial_issues')
+      .find({ serialId: serial._id })
+      .toArray();
+
+    return NextResponse.json({
+      serial: {
+        ...serial,
+        _id: serial._id.toString(),
+        holdings: getHoldings(serial, issues),
+      },
+      issues: describeIssues(serial, issues).map((issue) => ({
+        ...issue,
+        _id: issue._id.toString(),
+        serialId: issue.serialId.toString(),
+        bookId: issue.bookId?.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching serial:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch serial' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_UPDATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const { id } = params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid Serial ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const { _id, createdAt, updatedAt, holdings, ...updateData } =
+      await request.json();
+    const { valid, errors } = validateSerial(updateData, { partial: true });
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const objectId = new ObjectId(id);
+    const existingSerial = await db
+      .collection<Serial>('serials')
+      .findOne({ _id: objectId });
+    if (!existingSerial) {
+      return NextResponse.json({ error: 'Serial not found' }, { status: 404 });
+    }
+
+    // Received parts are catalogued under book IDs made from the code
+    if (updateData.code !== undefined) {
+      updateData.code = updateData.code.toUpperCase();
+    }
+    if (updateData.code && updateData.code !== existingSerial.code) {
+      const received = await db
+        .collection<SerialIssue>('serial_issues')
+        .countDocuments({ serialId: objectId, status: 'received' });
+      if (received > 0) {
+        return NextResponse.json(
+          { error: 'The code cannot change once parts have been received' },
+          { status: 400 }
+        );
+      }
+      const conflictingSerial = await db
+        .collection<Serial>('serials')
+        .findOne({ _id: { $ne: objectId }, code: updateData.code });
+      if (conflictingSerial) {
+        return NextResponse.json(
+          { error: 'A serial with this code already exists' },
+          { status: 400 }
+        );
+      }
+    }
+    if (updateData.series) {
+      updateData.series =
+        normalizeSeries(updateData.series) || updateData.series.trim();
+    }
+
+    const result = await db
+      .collection<Serial>('serials')
+      .findOneAndUpdate(
+        { _id: objectId },
+        { $set: { ...updateData, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+
+    if (!result) {
+      return NextResponse.json({ error: 'Serial not found' }, { status: 404 });
+    }
+
+    await recordAudit(request, {
+      action: 'UPDATE_SERIAL',
+      targetType: 'serial',
+      targetId: objectId,
+      before: existingSerial,
+      after: result,
+    });
+
+    return NextResponse.json({ ...result, _id: result._id.toString() });
+  } catch (error) {
+    console.error('Error updating serial:', error);
+    return NextResponse.json(
+      { error: 'Failed to update serial' },
+      { status: 500 }
+    );
+  }
+}
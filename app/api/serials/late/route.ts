@@ -0,0 +1,113 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Serial, SerialIssue } from '@/lib/models';
+import { describeIssues, scheduleIssues } from '@/lib/serials';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @swagger
+ * /serials/late:
+ *   get:
+ *     tags: [Serials]
+ *     summary: Get late and missing parts
+ *     description: List the parts of active serials that are past their expected date and grace period, or missing because a later part has arrived, along with parts already claimed from the publisher. Oldest first.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Outstanding parts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 issues:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/SerialIssue'
+ *                       - type: object
+ *                         properties:
+ *                           serial:
+ *                             $ref: '#/components/schemas/Serial'
+ *                           daysLate:
+ *                             type: integer
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const serials = await db
+      .collection<Serial>('serials')
+      .find({ status: 'active' })
+      .toArray();
+    for (const serial of serials) {
+      await scheduleIssues(serial);
+    }
+
+    const issues = await db
+      .collection<SerialIssue>('serial_issues')
+      .find({ serialId: { $in: serials.map((serial) => serial._id) } })
+      .toArray();
+
+    const now = new Date();
+    const outstanding = serials.flatMap((serial) =>
+      describeIssues(
+        serial,
+        issues.filter(
+          (issue) => issue.serialId.toString() === serial._id.toString()
+        ),
+        now
+      )
+        .filter((issue) => ['late', 'missing', 'claimed'].includes(issue.state))
+        .map((issue) => ({
+          ...issue,
+          _id: issue._id.toString(),
+          serialId: serial._id.toString(),
+          serial: {
+            _id: serial._id.toString(),
+            title: serial.title,
+            code: serial.code,
+            publisher: serial.publisher,
+          },
+          daysLate: issue.expectedDate
+            ? Math.max(
+                Math.floor(
+                  (now.getTime() - new Date(issue.expectedDate).getTime()) /
+                    DAY_MS
+                ),
+                0
+              )
+            : 0,
+        }))
+    );
+    outstanding.sort((a, b) => b.daysLate - a.daysLate);
+
+    return NextResponse.json({ issues: outstanding });
+  } catch (error) {
+    console.error('Error fetching late serial parts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch late parts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,227 @@
+/** @format */
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { type NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import type { Serial, SerialIssue } from '@/lib/models';
+import { validateSerial, validateSerialIssue } from '@/lib/validators';
+import { getHoldings, scheduleIssues } from '@/lib/serials';
+import { normalizeSeries } from '@/lib/citations';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * @swagger
+ * /serials:
+ *   get:
+ *     tags: [Serials]
+ *     summary: Get all serials
+ *     description: List the journals and law report series with their holdings statements. The parts each active serial is next expected to publish are scheduled first.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Serials retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 serials:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Serial'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     tags: [Serials]
+ *     summary: Create a serial
+ *     description: Add a journal or law report series. Give the first part it is expected to publish to start its schedule; otherwise parts are expected from the first one checked in. Irregular serials are never expected.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/Serial'
+ *               - type: object
+ *                 required: [title, category, code, shelfLocation, frequency]
+ *                 properties:
+ *                   firstIssue:
+ *                     type: object
+ *                     required: [part, expectedDate]
+ *                     properties:
+ *                       volume:
+ *                         type: integer
+ *                       part:
+ *                         type: integer
+ *                       expectedDate:
+ *                         type: string
+ *                         format: date
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Serial created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Serial'
+ *       400:
+ *         description: Invalid input or code already in use
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_READ)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const serials = await db
+      .collection<Serial>('serials')
+      .find({})
+      .sort({ title: 1 })
+      .toArray();
+    for (const serial of serials) {
+      await scheduleIssues(serial);
+    }
+
+    const issues = await db
+      .collection<SerialIssue>('serial_issues')
+      .find({ serialId: { $in: serials.map((serial) => serial._id) } })
+      .toArray();
+
+    return NextResponse.json({
+      serials: serials.map((serial) => ({
+        ...serial,
+        _id: serial._id.toString(),
+        holdings: getHoldings(
+          serial,
+          issues.filter(
+            (issue) => issue.serialId.toString() === serial._id.toString()
+          )
+        ),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching serials:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch serials' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = await authMiddleware(request);
+    if (authError) return authError;
+
+    const permissionError = await requirePermission(PERMISSIONS.BOOKS_CREATE)(
+      request
+    );
+    if (permissionError) return permissionError;
+
+    const db = await getDatabase();
+    const { firstIssue, ...body } = await request.json();
+    const { valid, errors } = validateSerial(body);
+    if (firstIssue) {
+      const issueValidation = validateSerialIssue(firstIssue);
+      if (!firstIssue.expectedDate) {
+        issueValidation.errors.expectedDate = 'Expected date is required';
+      }
+      Object.entries(issueValidation.errors).forEach(([field, message]) => {
+        errors[`firstIssue.${field}`] = message;
+      });
+    }
+
+    if (!valid || Object.keys(errors).length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const code = body.code.toUpperCase();
+    const existingSerial = await db
+      .collection<Serial>('serials')
+      .findOne({ code });
+    if (existingSerial) {
+      return NextResponse.json(
+        { error: 'A serial with this code already exists' },
+        { status: 400 }
+      );
+    }
+
+    const newSerial: Serial = {
+      title: body.title.trim(),
+      category: body.category,
+      code,
+      ...(body.series && {
+        series: normalizeSeries(body.series) || body.series.trim(),
+      }),
+      ...(body.publisher && { publisher: body.publisher.trim() }),
+      ...(body.issn && { issn: body.issn.trim() }),
+      shelfLocation: body.shelfLocation.trim(),
+      frequency: body.frequency,
+      ...(body.issuesPerVolume != null && {
+        issuesPerVolume: body.issuesPerVolume,
+      }),
+      restartPartNumbers: body.restartPartNumbers ?? false,
+      graceDays: body.graceDays ?? 14,
+      copiesPerIssue: body.copiesPerIssue ?? 1,
+      status: body.status ?? 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await db.collection<Serial>('serials').insertOne(newSerial);
+    if (firstIssue) {
+      const expectedDate = new Date(firstIssue.expectedDate);
+      await db.collection<SerialIssue>('serial_issues').insertOne({
+        serialId: result.insertedId,
+        ...(firstIssue.volume != null && { volume: firstIssue.volume }),
+        part: firstIssue.part,
+        year: expectedDate.getFullYear(),
+        status: 'expected',
+        expectedDate,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await scheduleIssues({ ...newSerial, _id: result.insertedId });
+    }
+
+    await recordAudit(request, {
+      action: 'CREATE_SERIAL',
+      targetType: 'serial',
+      targetId: result.insertedId,
+      after: newSerial,
+    });
+
+    return NextResponse.json(
+      { ...newSerial, _id: result.insertedId.toString() },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating serial:', error);
+    return NextResponse.json(
+      { error: 'Failed to create serial' },
+      { status: 500 }
+    );
+  }
+}
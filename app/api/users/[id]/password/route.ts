@@ -2,16 +2,32 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { authMiddleware } from '@/lib/middleware';
-import { hashPassword, verifyPassword } from '@/lib/auth';
+import {
+  authMiddleware,
+  getCurrentUser,
+  getUserPermissions,
+} from '@/lib/middleware';
+import { PERMISSIONS, verifyPassword } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import { revokeSessions } from '@/lib/sessions';
+import {
+  checkNewPassword,
+  hashNewPassword,
+  passwordPolicyError,
+} from '@/lib/passwords';
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const authResponse = await authMiddleware(request);
+    // Also the way out for users whose password has expired
+    const authResponse = await authMiddleware(request, {
+      allowTwoFactorSetup: true,
+      allowPasswordChange: true,
+    });
     if (authResponse) return authResponse;
 
     const db = await getDatabase();
@@ -27,34 +43,39 @@ export async function PUT(
       );
     }
 
-    if (newPassword.length < 8) {
+    if (!ObjectId.isValid(id)) {
       return NextResponse.json(
-        { error: 'Password must be at least 8 characters' },
+        { error: 'Invalid user ID format' },
         { status: 400 }
       );
     }
 
     const user = await db
-      .collection('users')
+      .collection<User>('users')
       .findOne({ _id: new ObjectId(id) });
 
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Check if requester is admin
-    const isAdmin = request.user?.role === 'admin';
+    // Admins can set anyone's password, everyone else only their own
+    const isAdmin = (await getUserPermissions(request)).includes(
+      PERMISSIONS.USERS_UPDATE
+    );
+    const isSelf =
+      (await getCurrentUser(request))?._id?.toString() === user._id.toString();
 
     // Authorization check
-    if (!isAdmin && request.user?.id !== id) {
+    if (!isAdmin && !isSelf) {
       return NextResponse.json(
         { error: 'You can only update your own password' },
         { status: 403 }
       );
     }
 
-    // Password verification for non-admin or admin changing their own password
-    if (!isAdmin || (isAdmin && request.user?.id === id)) {
+    // Password verification for anyone changing their own password. Accounts
+    // created through single sign-on have none to verify yet.
+    if (isSelf && user.password) {
       if (!currentPassword) {
         return NextResponse.json(
           { error: 'Current password is required' },
@@ -75,7 +96,7 @@ export async function PUT(
     }
 
     // Additional confirmation for admin changing another user's password
-    if (isAdmin && request.user?.id !== id && adminOverride !== true) {
+    if (!isSelf && adminOverride !== true) {
       return NextResponse.json(
         {
           error:
@@ -86,20 +107,29 @@ export async function PUT(
       );
     }
 
-    // Hash and update the new password
-    const hashedPassword = await hashPassword(newPassword);
+    const violations = await checkNewPassword(newPassword, user);
+    if (violations.length > 0) {
+      return passwordPolicyError(violations);
+    }
 
     await db.collection('users').updateOne(
-      { _id: user._id },
+      { _id: new ObjectId(user._id) },
       {
         $set: {
-          password: hashedPassword,
+          ...(await hashNewPassword(newPassword, user)),
           updatedAt: new Date(),
           resetToken: null,
           resetTokenExpires: null,
         },
       }
     );
+    // Whoever knew the old password is signed out too
+    await revokeSessions(user._id);
+    await recordAudit(request, {
+      action: 'CHANGE_PASSWORD',
+      targetType: 'user',
+      targetId: user._id,
+    });
 
     return NextResponse.json(
       { message: 'Password updated successfully' },
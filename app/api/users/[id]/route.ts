@@ -2,16 +2,33 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { authMiddleware, requirePermission } from '@/lib/middleware';
+import {
+  authMiddleware,
+  getCurrentUser,
+  getUserPermissions,
+  requirePermission,
+} from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
-
-interface AuthenticatedRequest extends NextRequest {
-  user?: {
-    id: string;
-    permissions: string[];
-  };
-}
+import { recordAudit } from '@/lib/audit';
+import { getRoleByName } from '@/lib/roles';
+import { getTwoFactorSummary } from '@/lib/two-factor';
+import { revokeSessions } from '@/lib/sessions';
+import { revokeApiTokens } from '@/lib/api-tokens';
+import type { User } from '@/lib/models';
+
+// Fields users can change on their own profile. Passwords, two-factor and
+// sign-in state have routes of their own and are never set here.
+const PROFILE_FIELDS: (keyof User)[] = ['name', 'image'];
+
+// Fields only admins can change: who the account is and what it can access
+const ACCOUNT_FIELDS: (keyof User)[] = [
+  'email',
+  'role',
+  'permissions',
+  'status',
+  'borrowerId',
+];
 
 export async function GET(
   request: NextRequest,
@@ -22,7 +39,8 @@ export async function GET(
     if (authResponse) return authResponse;
 
     // Users can view their own profile, admins can view any
-    const isSelf = request.user?.id === params.id;
+    const isSelf =
+      (await getCurrentUser(request))?._id?.toString() === params.id;
     if (!isSelf) {
       const permissionResponse = await requirePermission(
         PERMISSIONS.USERS_READ
@@ -49,11 +67,19 @@ export async function GET(
     }
 
     // Remove sensitive data
-    const { password, resetToken, resetTokenExpires, ...userData } = user;
+    const {
+      password,
+      passwordHistory,
+      resetToken,
+      resetTokenExpires,
+      twoFactor,
+      ...userData
+    } = user;
 
     return NextResponse.json({
       ...userData,
       _id: userData._id.toString(),
+      twoFactor: getTwoFactorSummary({ twoFactor }),
     });
   } catch (error) {
     console.error('Error fetching user:', error);
@@ -73,7 +99,8 @@ export async function PUT(
     if (authResponse) return authResponse;
 
     // Users can update their own profile, admins can update any
-    const isSelf = request.user?.id === params.id;
+    const isSelf =
+      (await getCurrentUser(request))?._id?.toString() === params.id;
     if (!isSelf) {
       const permissionResponse = await requirePermission(
         PERMISSIONS.USERS_UPDATE
@@ -83,9 +110,7 @@ export async function PUT(
 
     const db = await getDatabase();
     const { id } = params;
-    const updateData = await request.json();
-
-    console.log(`Attempting to update user ${id} with data:`, updateData);
+    const body = await request.json();
 
     if (!ObjectId.isValid(id)) {
       return NextResponse.json(
@@ -94,18 +119,61 @@ export async function PUT(
       );
     }
 
-    // Non-admins can't change their role or permissions
+    // Non-admins can only change their own profile
+    const canManageUsers = (await getUserPermissions(request)).includes(
+      PERMISSIONS.USERS_UPDATE
+    );
+    const allowedFields = canManageUsers
+      ? [...PROFILE_FIELDS, ...ACCOUNT_FIELDS]
+      : PROFILE_FIELDS;
+    const updateData: Partial<User> = {};
+    allowedFields.forEach((field) => {
+      if (body[field] !== undefined) {
+        (updateData as Record<string, unknown>)[field] = body[field];
+      }
+    });
+
     if (
-      !isSelf &&
-      !(request as AuthenticatedRequest).user?.permissions.includes(
-        PERMISSIONS.USERS_UPDATE
-      )
+      updateData.role !== undefined &&
+      !(await getRoleByName(updateData.role))
     ) {
-      delete updateData.role;
-      delete updateData.permissions;
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
     }
 
-    const updatePayload: any = {
+    // Admins link the account to a borrower record, or unlink it with null
+    if (updateData.borrowerId !== undefined) {
+      if (updateData.borrowerId === null || updateData.borrowerId === '') {
+        updateData.borrowerId = null;
+      } else if (!ObjectId.isValid(updateData.borrowerId)) {
+        return NextResponse.json(
+          { error: 'Invalid borrower ID format' },
+          { status: 400 }
+        );
+      } else {
+        const borrowerId = new ObjectId(updateData.borrowerId);
+        if (!(await db.collection('borrowers').findOne({ _id: borrowerId }))) {
+          return NextResponse.json(
+            { error: 'Borrower not found' },
+            { status: 400 }
+          );
+        }
+        const linkedUser = await db.collection('users').findOne({
+          borrowerId,
+          _id: { $ne: new ObjectId(id) },
+        });
+        if (linkedUser) {
+          return NextResponse.json(
+            {
+              error: `Borrower is already linked to ${linkedUser.email}`,
+            },
+            { status: 400 }
+          );
+        }
+        updateData.borrowerId = borrowerId;
+      }
+    }
+
+    const updatePayload: Partial<User> = {
       ...updateData,
       updatedAt: new Date(),
     };
@@ -120,6 +188,14 @@ export async function PUT(
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    // A new email has not been proved to belong to the user
+    if (
+      updatePayload.email !== undefined &&
+      updatePayload.email !== existingUser.email
+    ) {
+      updatePayload.emailVerifiedAt = null;
+    }
+
     // Perform the update
     const updateResult = await db
       .collection('users')
@@ -148,14 +224,44 @@ export async function PUT(
       );
     }
 
+    // A demoted or deactivated user must not keep access in open sessions
+    const deactivated =
+      existingUser.status !== 'inactive' && updatedUser.status === 'inactive';
+    const accessChanged =
+      existingUser.role !== updatedUser.role ||
+      JSON.stringify(existingUser.permissions ?? []) !==
+        JSON.stringify(updatedUser.permissions ?? []) ||
+      deactivated;
+    if (accessChanged) {
+      await revokeSessions(updatedUser._id);
+    }
+    if (deactivated) {
+      await revokeApiTokens(updatedUser._id);
+    }
+
+    await recordAudit(request, {
+      action: 'UPDATE_USER',
+      targetType: 'user',
+      targetId: updatedUser._id,
+      before: existingUser,
+      after: updatedUser,
+    });
+
     // Remove sensitive data
-    const { password, resetToken, resetTokenExpires, ...userData } =
-      updatedUser;
+    const {
+      password,
+      passwordHistory,
+      resetToken,
+      resetTokenExpires,
+      twoFactor,
+      ...userData
+    } = updatedUser;
 
     console.log(`Successfully updated user ${id}`);
     return NextResponse.json({
       ...userData,
       _id: userData._id.toString(),
+      twoFactor: getTwoFactorSummary({ twoFactor }),
     });
   } catch (error) {
     console.error('Error updating user:', error);
@@ -193,21 +299,28 @@ export async function DELETE(
     }
 
     // Prevent deleting self
-    if (request.user?.id === id) {
+    if ((await getCurrentUser(request))?._id?.toString() === id) {
       return NextResponse.json(
         { error: 'You cannot delete your own account' },
         { status: 400 }
       );
     }
 
-    const result = await db
+    const deletedUser = await db
       .collection('users')
-      .deleteOne({ _id: new ObjectId(id) });
+      .findOneAndDelete({ _id: new ObjectId(id) });
 
-    if (result.deletedCount === 0) {
+    if (!deletedUser) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      action: 'DELETE_USER',
+      targetType: 'user',
+      targetId: deletedUser._id,
+      before: deletedUser,
+    });
+
     return NextResponse.json(
       { message: 'User deleted successfully' },
       { status: 200 }
@@ -0,0 +1,57 @@
+/** @format */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import { revokeSessions } from '@/lib/sessions';
+
+// Sign a user out of every device (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.USERS_UPDATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const user = await db
+      .collection<User>('users')
+      .findOne({ _id: new ObjectId(params.id) });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await revokeSessions(user._id);
+    await recordAudit(request, {
+      action: 'REVOKE_SESSIONS',
+      targetType: 'user',
+      targetId: user._id,
+      details: { email: user.email },
+    });
+
+    return NextResponse.json({ message: 'User signed out of all devices' });
+  } catch (error) {
+    console.error('Error revoking user sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign user out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/** @format */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import { disableTwoFactor } from '@/lib/two-factor';
+
+// Reset a user's 2FA enrollment, e.g. after a lost phone (admin only).
+// If their role requires 2FA they are asked to enroll again on next sign-in.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.USERS_UPDATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const user = await db
+      .collection<User>('users')
+      .findOne({ _id: new ObjectId(params.id) });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!user.twoFactor?.enabled) {
+      return NextResponse.json(
+        { error: 'User has not enabled two-factor authentication' },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user._id);
+    await recordAudit(request, {
+      action: 'RESET_TWO_FACTOR',
+      targetType: 'user',
+      targetId: user._id,
+      details: { email: user.email },
+    });
+
+    return NextResponse.json({
+      message: 'Two-factor authentication reset successfully',
+    });
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/** @format */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+
+// Unlock an account locked by failed sign-ins and clear its failures (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.USERS_UPDATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const user = await db
+      .collection<User>('users')
+      .findOneAndUpdate(
+        { _id: new ObjectId(params.id) },
+        { $set: { lockedUntil: null, failedLoginsClearedAt: new Date() } }
+      );
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await recordAudit(request, {
+      action: 'UNLOCK_USER',
+      targetType: 'user',
+      targetId: user._id,
+      details: { email: user.email, lockedUntil: user.lockedUntil ?? null },
+    });
+
+    return NextResponse.json({ message: 'User unlocked successfully' });
+  } catch (error) {
+    console.error('Error unlocking user:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock user' },
+      { status: 500 }
+    );
+  }
+}
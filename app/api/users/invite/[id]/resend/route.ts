@@ -0,0 +1,87 @@
+/** @format */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import {
+  MAX_INVITATION_DAYS,
+  parseInvitationDays,
+  resendInvitation,
+  serializeInvitation,
+} from '@/lib/invitations';
+
+// Send a pending or expired invitation again with a new token (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.USERS_CREATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid invitation ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { expiresInDays } = await request.json().catch(() => ({}));
+    const days = parseInvitationDays(expiresInDays);
+    if (days === null) {
+      return NextResponse.json(
+        {
+          error: `Expiry must be between 1 and ${MAX_INVITATION_DAYS} days`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const user = await db
+      .collection<User>('users')
+      .findOne({ _id: new ObjectId(params.id) });
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedUser = await resendInvitation(user, days);
+    if (!updatedUser) {
+      return NextResponse.json(
+        { error: 'This invitation has already been accepted' },
+        { status: 400 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'RESEND_INVITATION',
+      targetType: 'user',
+      targetId: updatedUser._id,
+      before: user,
+      after: updatedUser,
+    });
+
+    return NextResponse.json({
+      message: 'Invitation sent again',
+      invitation: serializeInvitation(updatedUser),
+    });
+  } catch (error) {
+    console.error('Error resending invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to resend invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/** @format */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { authMiddleware, requirePermission } from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+
+// Revoke an invitation that has not been accepted, removing the invited user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.USERS_CREATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { error: 'Invalid invitation ID format' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const revokedUser = await db.collection<User>('users').findOneAndDelete({
+      _id: new ObjectId(params.id),
+      invitationToken: { $ne: null },
+    });
+    if (!revokedUser) {
+      return NextResponse.json(
+        { error: 'Invitation not found or already accepted' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'REVOKE_INVITATION',
+      targetType: 'user',
+      targetId: revokedUser._id,
+      before: revokedUser,
+    });
+
+    return NextResponse.json({ message: 'Invitation revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { hashPassword } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  checkNewPassword,
+  hashNewPassword,
+  passwordPolicyError,
+} from '@/lib/passwords';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,13 +21,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (password.length < 8) {
-      return NextResponse.json(
-        { error: 'Password must be at least 8 characters' },
-        { status: 400 }
-      );
-    }
-
     const user = await db.collection('users').findOne({
       invitationToken: token,
       invitationExpires: { $gt: new Date() },
@@ -35,21 +33,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Hash password
-    const hashedPassword = await hashPassword(password);
+    const violations = await checkNewPassword(password, null, {
+      email: user.email,
+      name,
+    });
+    if (violations.length > 0) {
+      return passwordPolicyError(violations);
+    }
 
     await db.collection('users').updateOne(
       { _id: user._id },
       {
         $set: {
           name,
-          password: hashedPassword,
+          ...(await hashNewPassword(password)),
           updatedAt: new Date(),
           invitationToken: null,
           invitationExpires: null,
+          invitationAcceptedAt: new Date(),
+          // The invitation link was emailed to them
+          emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+          // Older invitations did not record when they were sent
+          invitedAt: user.invitedAt ?? user.createdAt,
         },
       }
     );
+    await recordAudit(request, {
+      action: 'ACCEPT_INVITATION',
+      targetType: 'user',
+      targetId: user._id,
+      details: { email: user.email, role: user.role },
+      actor: { _id: user._id, name, email: user.email },
+    });
 
     return NextResponse.json(
       { message: 'Account setup complete. You can now log in.' },
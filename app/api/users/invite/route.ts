@@ -1,11 +1,76 @@
 /** @format */
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { authMiddleware, requirePermission } from '@/lib/middleware';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
 import { PERMISSIONS } from '@/lib/auth';
-import { sendInvitationEmail } from '@/lib/email';
-import { generateRandomToken } from '@/lib/utils';
+import { isValidEmail } from '@/lib/utils';
+import { recordAudit } from '@/lib/audit';
+import { getRoleByName } from '@/lib/roles';
+import type { User } from '@/lib/models';
+import {
+  MAX_BULK_INVITES,
+  MAX_INVITATION_DAYS,
+  createInvitation,
+  invitationStatusFilter,
+  parseEmailList,
+  parseInvitationDays,
+  serializeInvitation,
+} from '@/lib/invitations';
 
+// List invitations, optionally by status (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await authMiddleware(request);
+    if (authResponse) return authResponse;
+
+    const permissionResponse = await requirePermission(
+      PERMISSIONS.USERS_CREATE
+    )(request);
+    if (permissionResponse) return permissionResponse;
+
+    const db = await getDatabase();
+    const { searchParams } = new URL(request.url);
+
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '10');
+    const search = searchParams.get('search') || '';
+
+    const query = invitationStatusFilter(searchParams.get('status'));
+    if (search) {
+      query.email = { $regex: search, $options: 'i' };
+    }
+
+    const [users, total] = await Promise.all([
+      db
+        .collection<User>('users')
+        .find(query)
+        .sort({ invitedAt: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      db.collection<User>('users').countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      invitations: users.map(serializeInvitation),
+      total,
+      page,
+      limit,
+    });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+// Invite one user by `email`, or several from a pasted `emails` list
 export async function POST(request: NextRequest) {
   try {
     const authResponse = await authMiddleware(request);
@@ -17,42 +82,116 @@ export async function POST(request: NextRequest) {
     if (permissionResponse) return permissionResponse;
 
     const db = await getDatabase();
-    const { email, role } = await request.json();
+    const { email, emails, role, expiresInDays } = await request.json();
 
-    if (!email || !role) {
+    const addresses = parseEmailList(emails ?? email ?? '');
+    if (!addresses.length || !role) {
       return NextResponse.json(
         { error: 'Email and role are required' },
         { status: 400 }
       );
     }
 
-    // Check if user already exists
-    const existingUser = await db.collection('users').findOne({ email });
-    if (existingUser) {
+    if (addresses.length > MAX_BULK_INVITES) {
       return NextResponse.json(
-        { error: 'User with this email already exists' },
+        { error: `At most ${MAX_BULK_INVITES} emails can be invited at once` },
         { status: 400 }
       );
     }
 
-    // Create invitation token
-    const invitationToken = generateRandomToken(32);
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-    await db.collection('users').insertOne({
-      email,
-      role,
-      invitationToken,
-      invitationExpires: expiresAt,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
+    const days = parseInvitationDays(expiresInDays);
+    if (days === null) {
+      return NextResponse.json(
+        {
+          error: `Expiry must be between 1 and ${MAX_INVITATION_DAYS} days`,
+        },
+        { status: 400 }
+      );
+    }
 
-    // Send invitation email
-    await sendInvitationEmail(email, invitationToken);
+    if (!(await getRoleByName(role))) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
+    }
+
+    const invitedBy = await getCurrentUser(request);
+    const invited: string[] = [];
+    const skipped: { email: string; reason: string }[] = [];
+    const failed: { email: string; reason: string }[] = [];
+
+    for (const address of addresses) {
+      if (!isValidEmail(address)) {
+        skipped.push({ email: address, reason: 'Invalid email format' });
+        continue;
+      }
+
+      // Check if user already exists
+      const existingUser = await db
+        .collection<User>('users')
+        .findOne({ email: address });
+      if (existingUser) {
+        skipped.push({
+          email: address,
+          reason: 'User with this email already exists',
+        });
+        continue;
+      }
+
+      // One address failing must not lose the invitations already sent
+      try {
+        const invitedUser = await createInvitation(
+          { email: address, role },
+          days,
+          invitedBy
+        );
+        await recordAudit(request, {
+          action: 'INVITE_USER',
+          targetType: 'user',
+          targetId: invitedUser._id,
+          after: invitedUser,
+        });
+        invited.push(address);
+      } catch (error) {
+        console.error(`Error inviting ${address}:`, error);
+        failed.push({
+          email: address,
+          reason: 'The invitation email could not be sent',
+        });
+        await recordAudit(request, {
+          action: 'INVITE_USER_FAILED',
+          targetType: 'user',
+          details: {
+            email: address,
+            role,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+        });
+      }
+    }
+
+    if (!invited.length) {
+      return NextResponse.json(
+        {
+          error:
+            skipped.length + failed.length === 1
+              ? [...skipped, ...failed][0].reason
+              : 'None of the emails could be invited',
+          skipped,
+          failed,
+        },
+        { status: failed.length ? 502 : 400 }
+      );
+    }
 
     return NextResponse.json(
-      { message: 'Invitation sent successfully' },
+      {
+        message:
+          invited.length === 1
+            ? 'Invitation sent successfully'
+            : `${invited.length} invitations sent`,
+        invited,
+        skipped,
+        failed,
+      },
       { status: 200 }
     );
   } catch (error) {
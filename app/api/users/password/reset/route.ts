@@ -4,6 +4,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
 import { sendEmail } from '@/lib/email';
 import { generateRandomToken } from '@/lib/utils';
+import { recordAudit } from '@/lib/audit';
+import {
+  countRecentAttempts,
+  formatRetryAfter,
+  getRequestInfo,
+  recordAttempt,
+  RESET_REQUESTS_PER_EMAIL,
+  RESET_REQUESTS_PER_IP,
+} from '@/lib/login-attempts';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,7 +23,46 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Email is required' }, { status: 400 });
     }
 
+    // Limits reset emails whether or not the account exists, so the limit
+    // reveals nothing either
+    const requestInfo = getRequestInfo(request.headers, request.ip);
+    const [byEmail, byIp] = await Promise.all([
+      countRecentAttempts({ kind: 'password_reset', email }, 60),
+      requestInfo.ip
+        ? countRecentAttempts(
+            { kind: 'password_reset', ip: requestInfo.ip },
+            60
+          )
+        : { count: 0, retryAfter: 0 },
+    ]);
+    const limited =
+      byEmail.count >= RESET_REQUESTS_PER_EMAIL
+        ? byEmail
+        : byIp.count >= RESET_REQUESTS_PER_IP
+        ? byIp
+        : null;
+    if (limited) {
+      return NextResponse.json(
+        {
+          error: `Too many reset requests. Try again in ${formatRetryAfter(
+            limited.retryAfter
+          )}.`,
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(limited.retryAfter) },
+        }
+      );
+    }
+
     const user = await db.collection('users').findOne({ email });
+    await recordAttempt({
+      kind: 'password_reset',
+      email,
+      userId: user?._id ?? null,
+      success: true,
+      ...requestInfo,
+    });
 
     // Don't reveal if user exists or not
     if (!user) {
@@ -40,6 +88,12 @@ export async function POST(request: NextRequest) {
         },
       }
     );
+    await recordAudit(request, {
+      action: 'REQUEST_PASSWORD_RESET',
+      targetType: 'user',
+      targetId: user._id,
+      actor: null,
+    });
 
     // Send reset email
     const resetLink = `${process.env.NEXTAUTH_URL}/auth/reset-password?token=${resetToken}`;
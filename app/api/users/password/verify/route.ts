@@ -2,8 +2,22 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { hashPassword } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
+import type { User } from '@/lib/models';
+import { recordAudit } from '@/lib/audit';
+import {
+  checkNewPassword,
+  hashNewPassword,
+  passwordPolicyError,
+} from '@/lib/passwords';
+import {
+  ATTEMPT_WINDOW_MINUTES,
+  countRecentAttempts,
+  formatRetryAfter,
+  getRequestInfo,
+  recordAttempt,
+  RESET_TOKEN_FAILURES_PER_IP,
+} from '@/lib/login-attempts';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,17 +31,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (newPassword.length < 8) {
-      return NextResponse.json(
-        { error: 'Password must be at least 8 characters' },
-        { status: 400 }
+    // Stops reset tokens being guessed
+    const requestInfo = getRequestInfo(request.headers, request.ip);
+    if (requestInfo.ip) {
+      const failures = await countRecentAttempts(
+        { kind: 'password_reset_verify', ip: requestInfo.ip, success: false },
+        ATTEMPT_WINDOW_MINUTES
       );
+      if (failures.count >= RESET_TOKEN_FAILURES_PER_IP) {
+        return NextResponse.json(
+          {
+            error: `Too many invalid reset links. Try again in ${formatRetryAfter(
+              failures.retryAfter
+            )}.`,
+          },
+          {
+            status: 429,
+            headers: { 'Retry-After': String(failures.retryAfter) },
+          }
+        );
+      }
     }
 
-    const user = await db.collection('users').findOne({
+    const user = await db.collection<User>('users').findOne({
       resetToken: token,
       resetTokenExpires: { $gt: new Date() },
     });
+    await recordAttempt({
+      kind: 'password_reset_verify',
+      email: user?.email ?? null,
+      userId: user?._id ?? null,
+      success: !!user,
+      reason: user ? null : 'invalid_token',
+      ...requestInfo,
+    });
 
     if (!user) {
       return NextResponse.json(
@@ -36,20 +73,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Hash and update the new password
-    const hashedPassword = await hashPassword(newPassword);
+    // Checked once the token is known to be good, so it can't be used to
+    // probe password history
+    const violations = await checkNewPassword(newPassword, user);
+    if (violations.length > 0) {
+      return passwordPolicyError(violations);
+    }
 
     await db.collection('users').updateOne(
-      { _id: user._id },
+      { _id: new ObjectId(user._id) },
       {
         $set: {
-          password: hashedPassword,
+          ...(await hashNewPassword(newPassword, user)),
           updatedAt: new Date(),
           resetToken: null,
           resetTokenExpires: null,
+          lockedUntil: null,
+          failedLoginsClearedAt: new Date(),
+          // The reset link was emailed to them
+          emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
         },
+        // Sessions opened with the old password are signed out
+        $inc: { sessionVersion: 1 },
       }
     );
+    await recordAudit(request, {
+      action: 'RESET_PASSWORD',
+      targetType: 'user',
+      targetId: user._id,
+      actor: { _id: user._id, name: user.name, email: user.email },
+    });
 
     return NextResponse.json(
       { message: 'Password reset successfully' },
@@ -2,16 +2,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
-import { authMiddleware, requirePermission } from '@/lib/middleware';
-import { PERMISSIONS, ROLE_PERMISSIONS } from '@/lib/auth';
+import {
+  authMiddleware,
+  getCurrentUser,
+  requirePermission,
+} from '@/lib/middleware';
+import { PERMISSIONS } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
 import { sendEmail } from '@/lib/email';
-import {
-  generateRandomPassword,
-  generateRandomToken,
-  isValidEmail,
-} from '@/lib/utils';
-import { hashPassword } from '@/lib/auth';
+import { generateRandomPassword, isValidEmail } from '@/lib/utils';
+import { hashNewPassword } from '@/lib/passwords';
+import { recordAudit } from '@/lib/audit';
+import { getRoleByName } from '@/lib/roles';
+import type { TwoFactor } from '@/lib/models';
+import { DEFAULT_INVITATION_DAYS, createInvitation } from '@/lib/invitations';
 
 interface User {
   _id: ObjectId;
@@ -24,6 +28,9 @@ interface User {
   resetTokenExpires?: Date;
   invitationToken?: string;
   invitationExpires?: Date;
+  twoFactor?: TwoFactor;
+  lockedUntil?: Date | null;
+  borrowerId?: ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -74,6 +81,12 @@ export async function GET(request: NextRequest) {
         email: user.email,
         name: user.name,
         role: user.role,
+        twoFactorEnabled: !!user.twoFactor?.enabled,
+        borrowerId: user.borrowerId?.toString() ?? null,
+        lockedUntil:
+          user.lockedUntil && user.lockedUntil > new Date()
+            ? user.lockedUntil
+            : null,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       })),
@@ -127,60 +140,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Set permissions based on role
-    let permissions: string[] = [];
-    switch (role) {
-      case 'Super Admin':
-        permissions = ROLE_PERMISSIONS.SUPER_ADMIN_PERMISSIONS;
-        break;
-      case 'Admin':
-        permissions = ROLE_PERMISSIONS.ADMIN_PERMISSIONS;
-        break;
-      case 'Librarian':
-        permissions = ROLE_PERMISSIONS.LIBRARIAN_PERMISSIONS;
-        break;
-      default:
-        permissions = ROLE_PERMISSIONS.DEFAULT_USER_PERMISSIONS;
+    if (!(await getRoleByName(role))) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
     }
 
-    if (sendInvitation) {
-      // Create invitation flow
-      const invitationToken = generateRandomToken();
-      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-      const newUser = {
-        email,
-        name,
-        role,
-        permissions,
-        invitationToken,
-        invitationExpires: expiresAt,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      await db.collection<User>('users').insertOne(newUser);
+    // Permissions come from the role, this holds extra grants only
+    const permissions: string[] = [];
 
-      // Send invitation email
-      const invitationLink = `${process.env.NEXTAUTH_URL}/auth/invite?token=${invitationToken}`;
-      await sendEmail({
-        to: email,
-        subject: `You've been invited to ${
-          process.env.APP_NAME || 'the system'
-        }`,
-        html: `
-          <div style="font-family: Arial, sans-serif; line-height: 1.6;">
-            <h2>You've been invited!</h2>
-            <p>Hello${name ? ` ${name}` : ''},</p>
-            <p>You've been invited to join ${
-              process.env.APP_NAME || 'our system'
-            } as a ${role}.</p>
-            <p>Please click the link below to complete your registration:</p>
-            <p><a href="${invitationLink}" style="background-color: #2563eb; color: white; padding: 10px 15px; text-decoration: none; border-radius: 4px; display: inline-block;">Complete Registration</a></p>
-            <p>This link will expire in 24 hours.</p>
-            <p>If you didn't request this, you can safely ignore this email.</p>
-          </div>
-        `,
+    if (sendInvitation) {
+      const invitedUser = await createInvitation(
+        { email, name, role },
+        DEFAULT_INVITATION_DAYS,
+        await getCurrentUser(request)
+      );
+      await recordAudit(request, {
+        action: 'INVITE_USER',
+        targetType: 'user',
+        targetId: invitedUser._id,
+        after: invitedUser,
       });
 
       return NextResponse.json(
@@ -190,19 +167,23 @@ export async function POST(request: NextRequest) {
     } else {
       // Create user directly (for admin creating accounts)
       const temporaryPassword = generateRandomPassword();
-      const hashedPassword = await hashPassword(temporaryPassword);
-
       const newUser = {
         email,
         name,
         role,
         permissions,
-        password: hashedPassword,
+        ...(await hashNewPassword(temporaryPassword)),
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      await db.collection<User>('users').insertOne(newUser);
+      const result = await db.collection<User>('users').insertOne(newUser);
+      await recordAudit(request, {
+        action: 'CREATE_USER',
+        targetType: 'user',
+        targetId: result.insertedId,
+        after: newUser,
+      });
 
       // Send welcome email with temporary password
       await sendEmail({
@@ -0,0 +1,424 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  Select,
+  DatePicker,
+  Space,
+  message,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Descriptions,
+} from 'antd';
+import { AuditOutlined, DownloadOutlined } from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { AuditLog } from '@/lib/models';
+import { PERMISSIONS } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs, { type Dayjs } from 'dayjs';
+
+const { Content } = Layout;
+const { Title, Text } = Typography;
+const { RangePicker } = DatePicker;
+
+interface AuditFilters {
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  actor?: string;
+  range?: [Dayjs | null, Dayjs | null] | null;
+}
+
+const TARGET_TYPES = [
+  { value: 'book', label: 'Book' },
+  { value: 'book_copy', label: 'Book Copy' },
+  { value: 'borrower', label: 'Borrower' },
+  { value: 'lending', label: 'Lending' },
+  { value: 'reservation', label: 'Reservation' },
+  { value: 'loan_policy', label: 'Loan Policy' },
+  { value: 'fine', label: 'Fine' },
+  { value: 'case', label: 'Case' },
+  { value: 'reminder', label: 'Reminder' },
+  { value: 'document', label: 'Document' },
+  { value: 'user', label: 'User' },
+  { value: 'role', label: 'Role' },
+  { value: 'api_token', label: 'API Token' },
+  { value: 'notification', label: 'Notification' },
+];
+
+const PAGE_SIZE = 20;
+
+const actionColor = (action: string) => {
+  if (action.startsWith('CREATE') || action.startsWith('REGISTER'))
+    return 'green';
+  if (action.startsWith('DELETE') || action.startsWith('CANCEL')) return 'red';
+  if (action.startsWith('UPDATE')) return 'blue';
+  return 'purple';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return <Text type='secondary'>(none)</Text>;
+  if (typeof value === 'string') return value;
+  return <code className='text-xs'>{JSON.stringify(value)}</code>;
+};
+
+const buildQuery = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+  if (filters.action) params.set('action', filters.action);
+  if (filters.targetType) params.set('targetType', filters.targetType);
+  if (filters.targetId?.trim()) params.set('targetId', filters.targetId.trim());
+  if (filters.actor?.trim()) params.set('actor', filters.actor.trim());
+  if (filters.range?.[0]) {
+    params.set('from', filters.range[0].startOf('day').toISOString());
+  }
+  if (filters.range?.[1]) {
+    params.set('to', filters.range[1].endOf('day').toISOString());
+  }
+  return params;
+};
+
+export default function AuditLogsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actions, setActions] = useState<string[]>([]);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const fetchLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = buildQuery(filters);
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/audit-logs?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch audit log');
+      }
+
+      setLogs(data.logs);
+      setTotal(data.total);
+      setActions(data.actions);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to load the audit log'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  const canReadAudit =
+    session?.user?.permissions?.includes(PERMISSIONS.AUDIT_READ) || false;
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated' && canReadAudit) {
+      fetchLogs();
+    }
+  }, [status, router, canReadAudit, fetchLogs]);
+
+  const updateFilters = (changes: Partial<AuditFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const params = buildQuery(filters);
+      params.set('format', 'csv');
+
+      const response = await fetch(`/api/audit-logs?${params}`);
+      if (!response.ok) throw new Error('Failed to export audit log');
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${dayjs().format('YYYY-MM-DD')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      message.error('Failed to export the audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const columns: ColumnsType<AuditLog> = [
+    {
+      title: 'When',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY HH:mm:ss'),
+    },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      key: 'action',
+      render: (action: string) => (
+        <Tag color={actionColor(action)}>{action}</Tag>
+      ),
+    },
+    {
+      title: 'Target',
+      key: 'target',
+      render: (_, record) => (
+        <div>
+          <Text className='capitalize'>
+            {record.targetType.replace('_', ' ')}
+          </Text>
+          {record.targetId && (
+            <div className='text-xs text-gray-500'>
+              {record.targetId as string}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'User',
+      key: 'actor',
+      render: (_, record) =>
+        record.actorName || record.actorEmail ? (
+          <div>
+            <Text>{record.actorName || record.actorEmail}</Text>
+            {record.actorName && (
+              <div className='text-xs text-gray-500'>{record.actorEmail}</div>
+            )}
+          </div>
+        ) : (
+          <Text type='secondary'>System</Text>
+        ),
+    },
+    {
+      title: 'Changes',
+      key: 'changes',
+      render: (_, record) => {
+        const changes = record.details?.changes;
+        if (!changes) return '-';
+        return changes.length === 0 ? (
+          <Text type='secondary'>No field changes</Text>
+        ) : (
+          <Text>{changes.map((change) => change.field).join(', ')}</Text>
+        );
+      },
+    },
+    {
+      title: 'IP Address',
+      dataIndex: 'ip',
+      key: 'ip',
+      render: (ip?: string) => ip || '-',
+    },
+  ];
+
+  const renderDetails = (record: AuditLog) => {
+    const { oldValues, newValues, changes, ...extra } = record.details || {};
+    const snapshot = newValues || oldValues;
+
+    return (
+      <div className='space-y-4'>
+        {changes && changes.length > 0 && (
+          <Table
+            size='small'
+            pagination={false}
+            rowKey='field'
+            dataSource={changes}
+            columns={[
+              { title: 'Field', dataIndex: 'field', key: 'field' },
+              {
+                title: 'Before',
+                dataIndex: 'from',
+                key: 'from',
+                render: formatValue,
+              },
+              {
+                title: 'After',
+                dataIndex: 'to',
+                key: 'to',
+                render: formatValue,
+              },
+            ]}
+          />
+        )}
+        {!changes && snapshot && (
+          <Descriptions
+            size='small'
+            column={1}
+            bordered
+            title={newValues ? 'Created with' : 'Deleted record'}
+          >
+            {Object.entries(snapshot).map(([field, value]) => (
+              <Descriptions.Item key={field} label={field}>
+                {formatValue(value)}
+              </Descriptions.Item>
+            ))}
+          </Descriptions>
+        )}
+        {Object.keys(extra).length > 0 && (
+          <Descriptions size='small' column={1} bordered>
+            {Object.entries(extra).map(([field, value]) => (
+              <Descriptions.Item key={field} label={field}>
+                {formatValue(value)}
+              </Descriptions.Item>
+            ))}
+          </Descriptions>
+        )}
+        {record.userAgent && (
+          <Text type='secondary' className='text-xs block'>
+            {record.userAgent}
+          </Text>
+        )}
+      </div>
+    );
+  };
+
+  if (!canReadAudit) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Audit Log' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<AuditOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to view the audit log
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Audit Log' />
+        <Content className='p-4 md:p-6'>
+          <Card
+            className='rounded-lg shadow-sm border-0'
+            bodyStyle={{ padding: 0 }}
+          >
+            <div className='p-4 border-b border-gray-200 space-y-4'>
+              <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex items-center gap-2'>
+                  <AuditOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Audit Log
+                  </Title>
+                </div>
+                <Button
+                  icon={<DownloadOutlined />}
+                  onClick={handleExport}
+                  loading={exporting}
+                >
+                  Export CSV
+                </Button>
+              </div>
+              <Space wrap>
+                <Select
+                  allowClear
+                  showSearch
+                  placeholder='Action'
+                  className='min-w-[200px]'
+                  value={filters.action}
+                  onChange={(action) => updateFilters({ action })}
+                  options={actions.map((action) => ({
+                    value: action,
+                    label: action,
+                  }))}
+                />
+                <Select
+                  allowClear
+                  placeholder='Target type'
+                  className='min-w-[160px]'
+                  value={filters.targetType}
+                  onChange={(targetType) => updateFilters({ targetType })}
+                  options={TARGET_TYPES}
+                />
+                <Input.Search
+                  allowClear
+                  placeholder='Target ID'
+                  onSearch={(targetId) => updateFilters({ targetId })}
+                  className='w-56'
+                />
+                <Input.Search
+                  allowClear
+                  placeholder='User name or email'
+                  onSearch={(actor) => updateFilters({ actor })}
+                  className='w-56'
+                />
+                <RangePicker
+                  value={filters.range}
+                  onChange={(range) => updateFilters({ range })}
+                />
+              </Space>
+            </div>
+            <Table
+              columns={columns}
+              dataSource={logs}
+              loading={loading}
+              rowKey={(record) => record._id as string}
+              expandable={{ expandedRowRender: renderDetails }}
+              pagination={{
+                current: page,
+                pageSize: PAGE_SIZE,
+                total,
+                showSizeChanger: false,
+                onChange: setPage,
+              }}
+              scroll={{ x: 'max-content' }}
+              className='w-full'
+              locale={{
+                emptyText: <Empty description='No audit log entries' />,
+              }}
+            />
+          </Card>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
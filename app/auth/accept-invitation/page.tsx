@@ -16,6 +16,10 @@ import {
 } from 'antd';
 import { LockOutlined, UserOutlined, MailOutlined } from '@ant-design/icons';
 import Link from 'next/link';
+import PasswordRequirements, {
+  passwordPolicyRule,
+  usePasswordPolicy,
+} from '@/components/PasswordRequirements';
 
 const { Title, Text } = Typography;
 
@@ -28,6 +32,9 @@ export default function AcceptInvitationPage() {
   const [success, setSuccess] = useState(false);
 
   const token = searchParams.get('token');
+  const policy = usePasswordPolicy();
+  const password = Form.useWatch('password', form);
+  const name = Form.useWatch('name', form);
 
   const onFinish = async (values: any) => {
     try {
@@ -166,9 +173,10 @@ export default function AcceptInvitationPage() {
           <Form.Item
             name='password'
             label='Password'
+            dependencies={['name']}
             rules={[
               { required: true, message: 'Please input your password!' },
-              //   { min: 8, message: 'Password must be at least 8 characters' },
+              passwordPolicyRule(policy, { name }),
             ]}
             hasFeedback
           >
@@ -179,6 +187,12 @@ export default function AcceptInvitationPage() {
             />
           </Form.Item>
 
+          <PasswordRequirements
+            policy={policy}
+            password={password}
+            context={{ name }}
+          />
+
           <Form.Item
             name='confirm'
             label='Confirm Password'
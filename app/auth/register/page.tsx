@@ -8,6 +8,10 @@ import { useRouter } from 'next/navigation';
 import { Button, Form, Input, Typography, Card, Alert, Spin } from 'antd';
 import { UserOutlined, MailOutlined, LockOutlined } from '@ant-design/icons';
 import Link from 'next/link';
+import PasswordRequirements, {
+  passwordPolicyRule,
+  usePasswordPolicy,
+} from '@/components/PasswordRequirements';
 
 const { Title, Text } = Typography;
 // export const dynamic = 'force-dynamic';
@@ -17,6 +21,11 @@ export default function RegisterPage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const router = useRouter();
+  const [form] = Form.useForm();
+  const policy = usePasswordPolicy();
+  const password = Form.useWatch('password', form);
+  const name = Form.useWatch('name', form);
+  const email = Form.useWatch('email', form);
 
   const onFinish = async (values: any) => {
     setLoading(true);
@@ -88,6 +97,7 @@ export default function RegisterPage() {
         )}
 
         <Form
+          form={form}
           name='register'
           initialValues={{ remember: true }}
           onFinish={onFinish}
@@ -124,7 +134,11 @@ export default function RegisterPage() {
 
           <Form.Item
             name='password'
-            rules={[{ required: true, message: 'Please input your Password!' }]}
+            dependencies={['name', 'email']}
+            rules={[
+              { required: true, message: 'Please input your Password!' },
+              passwordPolicyRule(policy, { name, email }),
+            ]}
             hasFeedback
           >
             <Input.Password
@@ -136,6 +150,12 @@ export default function RegisterPage() {
             />
           </Form.Item>
 
+          <PasswordRequirements
+            policy={policy}
+            password={password}
+            context={{ name, email }}
+          />
+
           <Form.Item
             name='confirm'
             dependencies={['password']}
@@ -6,12 +6,19 @@ import { useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Form, Input, Button, message, Card, Typography } from 'antd';
 import { LockOutlined } from '@ant-design/icons';
+import PasswordRequirements, {
+  passwordPolicyRule,
+  usePasswordPolicy,
+} from '@/components/PasswordRequirements';
 
 export default function ResetPasswordPage() {
   const [loading, setLoading] = useState(false);
   const router = useRouter();
   const searchParams = useSearchParams();
   const token = searchParams.get('token');
+  const [form] = Form.useForm();
+  const policy = usePasswordPolicy();
+  const newPassword = Form.useWatch('newPassword', form);
 
   const onFinish = async (values: { newPassword: string }) => {
     if (!token) {
@@ -21,7 +28,7 @@ export default function ResetPasswordPage() {
 
     try {
       setLoading(true);
-      const response = await fetch('/api/users/password/reset/verify', {
+      const response = await fetch('/api/users/password/verify', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -53,13 +60,18 @@ export default function ResetPasswordPage() {
           Reset Your Password
         </Typography.Title>
 
-        <Form name='reset_password' onFinish={onFinish} layout='vertical'>
+        <Form
+          form={form}
+          name='reset_password'
+          onFinish={onFinish}
+          layout='vertical'
+        >
           <Form.Item
             name='newPassword'
             label='New Password'
             rules={[
               { required: true, message: 'Please input your new password!' },
-              { min: 8, message: 'Password must be at least 8 characters' },
+              passwordPolicyRule(policy),
             ]}
           >
             <Input.Password
@@ -68,6 +80,12 @@ export default function ResetPasswordPage() {
             />
           </Form.Item>
 
+          <PasswordRequirements
+            policy={policy}
+            password={newPassword}
+            showHistory
+          />
+
           <Form.Item
             name='confirm'
             label='Confirm Password'
@@ -3,39 +3,127 @@
 'use client';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
-import { useState } from 'react';
-import { signIn } from 'next-auth/react';
-import { useRouter } from 'next/navigation';
-import { Button, Form, Input, Typography, Card, Alert, Spin } from 'antd';
-import { MailOutlined, LockOutlined } from '@ant-design/icons';
+import { useEffect, useState } from 'react';
+import {
+  type ClientSafeProvider,
+  getProviders,
+  getSession,
+  signIn,
+} from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  Button,
+  Form,
+  Input,
+  Typography,
+  Card,
+  Alert,
+  Spin,
+  Divider,
+} from 'antd';
+import {
+  MailOutlined,
+  LockOutlined,
+  SafetyOutlined,
+  LoginOutlined,
+} from '@ant-design/icons';
 import Link from 'next/link';
+import {
+  SSO_ACCOUNT_INACTIVE,
+  SSO_ACCOUNT_LOCKED,
+  SSO_ACCOUNT_MISMATCH,
+  SSO_EMAIL_MISSING,
+  SSO_EMAIL_UNVERIFIED,
+  SSO_NO_ACCOUNT,
+  SSO_THROTTLED,
+  TWO_FACTOR_INVALID,
+  TWO_FACTOR_REQUIRED,
+} from '@/lib/auth';
 
 const { Title, Text } = Typography;
 // export const dynamic = 'force-dynamic';
 
+// Errors NextAuth redirects back here with after a failed SSO sign-in
+const SSO_ERRORS: Record<string, string> = {
+  [SSO_NO_ACCOUNT]:
+    'There is no account for you yet. Ask an administrator to invite you.',
+  [SSO_EMAIL_MISSING]:
+    'Your identity provider did not share a verified email address.',
+  [SSO_ACCOUNT_MISMATCH]:
+    'Your email address belongs to an account linked to a different identity.',
+  [SSO_ACCOUNT_INACTIVE]:
+    'This account has been deactivated. Ask an administrator to reactivate it.',
+  [SSO_EMAIL_UNVERIFIED]:
+    'Your identity provider has not verified your email address, so it cannot be linked to your account. Sign in with your password instead.',
+  [SSO_ACCOUNT_LOCKED]:
+    'This account is locked after too many failed sign-ins. Try again later or ask an administrator to unlock it.',
+  [SSO_THROTTLED]: 'Too many failed sign-ins. Try again later.',
+  OAuthSignin: 'Single sign-on could not be started. Try again later.',
+  OAuthCallback: 'Single sign-on failed. Try again or use your password.',
+  Callback: 'Single sign-on failed. Try again or use your password.',
+  AccessDenied: 'You are not allowed to sign in.',
+};
+
 export default function SignInPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set once the password is accepted and a 2FA code is needed
+  const [credentials, setCredentials] = useState<{
+    email: string;
+    password: string;
+  } | null>(null);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const [ssoProvider, setSsoProvider] = useState<ClientSafeProvider | null>(
+    null
+  );
+
+  useEffect(() => {
+    getProviders().then((providers) => setSsoProvider(providers?.oidc ?? null));
+  }, []);
 
-  const onFinish = async (values: any) => {
+  useEffect(() => {
+    const code = searchParams.get('error');
+    if (code && SSO_ERRORS[code]) setError(SSO_ERRORS[code]);
+  }, [searchParams]);
+
+  const submit = async (values: {
+    email: string;
+    password: string;
+    code?: string;
+  }) => {
     setLoading(true);
     setError(null);
     const result = await signIn('credentials', {
       redirect: false,
       email: values.email,
       password: values.password,
+      code: values.code || '',
     });
 
-    if (result?.error) {
+    if (result?.error === TWO_FACTOR_REQUIRED) {
+      setCredentials({ email: values.email, password: values.password });
+    } else if (result?.error === TWO_FACTOR_INVALID) {
+      setError('Invalid authentication code');
+    } else if (result?.error) {
       setError(result.error);
     } else {
-      router.push('/');
-      console.log(result);
+      const session = await getSession();
+      router.push(
+        session?.user?.twoFactorSetupRequired ||
+          session?.user?.passwordChangeRequired
+          ? '/profile'
+          : '/'
+      );
     }
     setLoading(false);
   };
 
+  const onFinish = (values: any) => submit(values);
+
+  const onCodeFinish = (values: { code: string }) =>
+    credentials && submit({ ...credentials, code: values.code });
+
   return (
     <div className='min-h-screen flex items-center justify-center bg-gray-100 p-4'>
       <Card className='w-full max-w-md rounded-lg shadow-lg p-6'>
@@ -43,7 +131,11 @@ export default function SignInPage() {
           <Title level={2} className='text-gray-800'>
             Welcome Back
           </Title>
-          <Text className='text-gray-600'>Sign in to your account</Text>
+          <Text className='text-gray-600'>
+            {credentials
+              ? 'Enter the code from your authenticator app'
+              : 'Sign in to your account'}
+          </Text>
         </div>
 
         {error && (
@@ -58,53 +150,109 @@ export default function SignInPage() {
           />
         )}
 
-        <Form
-          name='login'
-          initialValues={{ remember: true }}
-          onFinish={onFinish}
-          layout='vertical'
-        >
-          <Form.Item
-            name='email'
-            rules={[
-              { required: true, message: 'Please input your Email!' },
-              { type: 'email', message: 'Invalid email format!' },
-            ]}
-          >
-            <Input
-              prefix={
-                <MailOutlined className='site-form-item-icon text-gray-400' />
-              }
-              placeholder='Email'
-              size='large'
-            />
-          </Form.Item>
-
-          <Form.Item
-            name='password'
-            rules={[{ required: true, message: 'Please input your Password!' }]}
-          >
-            <Input.Password
-              prefix={
-                <LockOutlined className='site-form-item-icon text-gray-400' />
-              }
-              placeholder='Password'
-              size='large'
-            />
-          </Form.Item>
-
-          <Form.Item>
+        {credentials ? (
+          <Form name='two-factor' onFinish={onCodeFinish} layout='vertical'>
+            <Form.Item
+              name='code'
+              extra='Lost your phone? Enter one of your recovery codes instead.'
+              rules={[{ required: true, message: 'Please input your code!' }]}
+            >
+              <Input
+                prefix={<SafetyOutlined className='text-gray-400' />}
+                placeholder='123456'
+                size='large'
+                autoComplete='one-time-code'
+                autoFocus
+              />
+            </Form.Item>
+
+            <Form.Item>
+              <Button
+                type='primary'
+                htmlType='submit'
+                className='w-full bg-blue-600 hover:bg-blue-700 border-blue-600 hover:border-blue-700'
+                size='large'
+                loading={loading}
+              >
+                Verify
+              </Button>
+            </Form.Item>
             <Button
-              type='primary'
-              htmlType='submit'
-              className='w-full bg-blue-600 hover:bg-blue-700 border-blue-600 hover:border-blue-700'
-              size='large'
-              loading={loading}
+              type='link'
+              className='w-full'
+              onClick={() => {
+                setCredentials(null);
+                setError(null);
+              }}
             >
-              {loading ? <Spin size='small' /> : 'Log in'}
+              Back to sign in
             </Button>
-          </Form.Item>
-        </Form>
+          </Form>
+        ) : (
+          <Form
+            name='login'
+            initialValues={{ remember: true }}
+            onFinish={onFinish}
+            layout='vertical'
+          >
+            <Form.Item
+              name='email'
+              rules={[
+                { required: true, message: 'Please input your Email!' },
+                { type: 'email', message: 'Invalid email format!' },
+              ]}
+            >
+              <Input
+                prefix={
+                  <MailOutlined className='site-form-item-icon text-gray-400' />
+                }
+                placeholder='Email'
+                size='large'
+              />
+            </Form.Item>
+
+            <Form.Item
+              name='password'
+              rules={[
+                { required: true, message: 'Please input your Password!' },
+              ]}
+            >
+              <Input.Password
+                prefix={
+                  <LockOutlined className='site-form-item-icon text-gray-400' />
+                }
+                placeholder='Password'
+                size='large'
+              />
+            </Form.Item>
+
+            <Form.Item>
+              <Button
+                type='primary'
+                htmlType='submit'
+                className='w-full bg-blue-600 hover:bg-blue-700 border-blue-600 hover:border-blue-700'
+                size='large'
+                loading={loading}
+              >
+                {loading ? <Spin size='small' /> : 'Log in'}
+              </Button>
+            </Form.Item>
+
+            {ssoProvider && (
+              <>
+                <Divider plain>or</Divider>
+                <Button
+                  icon={<LoginOutlined />}
+                  className='w-full'
+                  size='large'
+                  onClick={() => signIn(ssoProvider.id, { callbackUrl: '/' })}
+                >
+                  Sign in with {ssoProvider.name}
+                </Button>
+              </>
+            )}
+          </Form>
+        )}
 
         <div className='text-center mt-6'>
           <Text className='text-gray-600'>
@@ -23,6 +23,10 @@ import {
   Empty,
   Tooltip,
   Alert,
+  DatePicker,
+  InputNumber,
+  Dropdown,
+  AutoComplete,
 } from 'antd';
 import {
   PlusOutlined,
@@ -31,14 +35,28 @@ import {
   BookOutlined,
   SearchOutlined,
   CopyOutlined,
+  ClockCircleOutlined,
+  BarcodeOutlined,
+  ImportOutlined,
+  ExportOutlined,
+  DownOutlined,
 } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
+import MarcImportModal from '@/components/MarcImportModal';
+import BulkImportModal from '@/components/BulkImportModal';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
-import type { Book } from '@/lib/models';
+import type { Book, BookCopy, Borrower } from '@/lib/models';
 import { PERMISSIONS } from '@/lib/auth';
+import {
+  CITATION_CATEGORIES,
+  LAW_REPORT_SERIES,
+  formatCitation,
+  parseCitation,
+} from '@/lib/citations';
 import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
 
 const { Content } = Layout;
 const { Title, Text } = Typography;
@@ -62,6 +80,7 @@ export default function BooksPage() {
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingBook, setEditingBook] = useState<Book | null>(null);
   const [form] = Form.useForm();
+  const formCategory = Form.useWatch('category', form);
   const [pagination, setPagination] = useState({
     current: 1,
     pageSize: 10,
@@ -69,6 +88,22 @@ export default function BooksPage() {
   });
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [holdBook, setHoldBook] = useState<Book | null>(null);
+  const [borrowersList, setBorrowersList] = useState<Borrower[]>([]);
+  const [holdForm] = Form.useForm();
+  const [copiesBook, setCopiesBook] = useState<Book | null>(null);
+  const [copies, setCopies] = useState<
+    (BookCopy & {
+      currentLoan?: { dueDate: string; borrower?: { name: string } };
+    })[]
+  >([]);
+  const [copiesLoading, setCopiesLoading] = useState(false);
+  const [copyForm] = Form.useForm();
+  const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
+  const [importType, setImportType] = useState<'spreadsheet' | 'marc' | null>(
+    null
+  );
+  const [exporting, setExporting] = useState(false);
 
   const bookCategories: BookCategory[] = [
     'Textbook',
@@ -86,6 +121,27 @@ export default function BooksPage() {
     Journal: 'magenta',
     Reference: 'orange',
   };
+  const copyStatusLabels: Record<BookCopy['status'], string> = {
+    on_shelf: 'On Shelf',
+    on_loan: 'On Loan',
+    missing: 'Missing',
+    withdrawn: 'Withdrawn',
+    in_repair: 'In Repair',
+  };
+  const copyStatusColors: Record<BookCopy['status'], string> = {
+    on_shelf: 'green',
+    on_loan: 'blue',
+    missing: 'red',
+    withdrawn: 'default',
+    in_repair: 'orange',
+  };
+  const copyConditions: BookCopy['condition'][] = [
+    'new',
+    'good',
+    'fair',
+    'poor',
+    'damaged',
+  ];
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -133,6 +189,25 @@ export default function BooksPage() {
     setIsModalVisible(true);
   };
 
+  // Fills the citation fields from a citation pasted as written
+  const handlePasteCitation = (text: string) => {
+    if (!text.trim()) return;
+    const citation = parseCitation(text);
+    if (!citation) {
+      message.warning('That citation was not recognised');
+      return;
+    }
+    form.setFieldsValue({
+      citation: {
+        year: null,
+        volume: null,
+        part: null,
+        page: null,
+        ...citation,
+      },
+    });
+  };
+
   const handleDeleteBook = async (id: string) => {
     try {
       const response = await fetch(`/api/books/${id}`, {
@@ -155,15 +230,23 @@ export default function BooksPage() {
   const handleModalOk = async () => {
     try {
       const values = await form.validateFields();
+      // Empty citation fields are left out, and a cleared citation removed
+      const citation =
+        CITATION_CATEGORIES.includes(values.category) && values.citation?.series
+          ? Object.fromEntries(
+              Object.entries(values.citation).filter(
+                ([, value]) => value != null && value !== ''
+              )
+            )
+          : null;
+      // Copy counters of existing books are managed through their copies
       const payload = {
         ...values,
-        totalCopies: Number(values.totalCopies),
-        availableCopies: editingBook
-          ? Number(values.availableCopies)
-          : Number(values.totalCopies),
+        ...(!editingBook && { totalCopies: Number(values.totalCopies) }),
         keywords: values.keywords
           ? values.keywords.split(',').map((k: string) => k.trim())
           : [],
+        citation: citation ?? (editingBook ? null : undefined),
       };
 
       const response = editingBook
@@ -195,6 +278,139 @@ export default function BooksPage() {
     }
   };
 
+  const handlePlaceHold = async (book: Book) => {
+    setHoldBook(book);
+    holdForm.resetFields();
+    if (borrowersList.length > 0) return;
+
+    try {
+      const response = await fetch('/api/borrowers/list');
+      const data = await response.json();
+      if (response.ok) {
+        setBorrowersList(
+          data.map((b: Borrower) => ({ ...b, _id: b._id?.toString() }))
+        );
+      } else {
+        message.error(data.error || 'Failed to fetch borrowers');
+      }
+    } catch (err) {
+      message.error('Failed to fetch borrowers');
+    }
+  };
+
+  const handleHoldSubmit = async (values: any) => {
+    if (!holdBook) return;
+
+    try {
+      const response = await fetch('/api/reservations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bookId: holdBook._id,
+          borrowerId: values.borrowerId,
+          notes: values.notes,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to place hold');
+      }
+
+      message.success(`Hold placed - position ${data.queuePosition} in queue`);
+      setHoldBook(null);
+      fetchBooks();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to place hold'
+      );
+    }
+  };
+
+  const fetchCopies = async (book: Book) => {
+    setCopiesLoading(true);
+    try {
+      const response = await fetch(`/api/books/${book._id}/copies`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch copies');
+      }
+      setCopies(data.copies);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to fetch copies'
+      );
+    } finally {
+      setCopiesLoading(false);
+    }
+  };
+
+  const handleManageCopies = (book: Book) => {
+    setCopiesBook(book);
+    setCopies([]);
+    copyForm.resetFields();
+    fetchCopies(book);
+  };
+
+  const handleCloseCopies = () => {
+    setCopiesBook(null);
+    fetchBooks();
+  };
+
+  const handleAddCopy = async (values: any) => {
+    if (!copiesBook) return;
+
+    try {
+      const response = await fetch(`/api/books/${copiesBook._id}/copies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...values,
+          barcode: values.barcode || undefined,
+          acquisitionDate: values.acquisitionDate?.toISOString(),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add copy');
+      }
+
+      message.success(`Copy ${data.copies[0].barcode} added`);
+      copyForm.resetFields();
+      fetchCopies(copiesBook);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to add copy');
+    }
+  };
+
+  const handleUpdateCopy = async (
+    copy: BookCopy,
+    changes: Partial<Pick<BookCopy, 'status' | 'condition'>>
+  ) => {
+    if (!copiesBook) return;
+
+    try {
+      const response = await fetch(
+        `/api/books/${copiesBook._id}/copies/${copy._id}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(changes),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update copy');
+      }
+
+      message.success(`Copy ${copy.barcode} updated`);
+      fetchCopies(copiesBook);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to update copy'
+      );
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     message.success('Copied to clipboard');
@@ -242,7 +458,16 @@ export default function BooksPage() {
       dataIndex: 'title',
       key: 'title',
       sorter: (a, b) => a.title.localeCompare(b.title),
-      render: (text: string) => <Text strong>{text}</Text>,
+      render: (text: string, record) => (
+        <div>
+          <Text strong>{text}</Text>
+          {record.citation && (
+            <div className='text-xs text-gray-500'>
+              {formatCitation(record.citation)}
+            </div>
+          )}
+        </div>
+      ),
     },
     {
       title: 'Author',
@@ -307,6 +532,14 @@ export default function BooksPage() {
               }}
             />
           </Tooltip>
+          {!!record.holdCount && (
+            <Tooltip title='Borrowers in Hold Queue'>
+              <Badge
+                count={record.holdCount}
+                style={{ backgroundColor: '#fa8c16' }}
+              />
+            </Tooltip>
+          )}
         </div>
       ),
       sorter: (a, b) => a.availableCopies - b.availableCopies,
@@ -325,9 +558,36 @@ export default function BooksPage() {
       title: 'Actions',
       key: 'actions',
       fixed: 'right',
-      width: 120,
+      width: 150,
       render: (_: any, record: Book) => (
         <Space size='middle'>
+          {record.availableCopies <= 0 &&
+            session?.user?.permissions?.includes(
+              PERMISSIONS.LENDINGS_CREATE
+            ) && (
+              <Tooltip title='Place Hold'>
+                <Button
+                  type='text'
+                  icon={<ClockCircleOutlined />}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handlePlaceHold(record);
+                  }}
+                  className='text-orange-500 hover:text-orange-700'
+                />
+              </Tooltip>
+            )}
+          <Tooltip title='Copies'>
+            <Button
+              type='text'
+              icon={<BarcodeOutlined />}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleManageCopies(record);
+              }}
+              className='text-gray-600 hover:text-gray-800'
+            />
+          </Tooltip>
           {session?.user?.permissions?.includes(PERMISSIONS.BOOKS_UPDATE) && (
             <Tooltip title='Edit'>
               <Button
@@ -366,6 +626,36 @@ export default function BooksPage() {
     },
   ];
 
+  // Downloads the books matching the search and category filters
+  const handleExport = async (format: 'csv' | 'xlsx' | 'marcxml') => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams();
+      if (searchQuery) params.set('search', searchQuery);
+      categoryFilter.forEach((category) => params.append('category', category));
+      if (format !== 'marcxml') params.set('format', format);
+
+      const url =
+        format === 'marcxml' ? '/api/books/marc/export' : '/api/books/export';
+      const response = await fetch(`${url}?${params}`);
+      if (!response.ok) throw new Error('Failed to export books');
+
+      const blobUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download =
+        format === 'marcxml'
+          ? `catalogue-${dayjs().format('YYYY-MM-DD')}.xml`
+          : `books-${dayjs().format('YYYY-MM-DD')}.${format}`;
+      link.click();
+      URL.revokeObjectURL(blobUrl);
+    } catch (err) {
+      message.error('Failed to export books');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   if (status === 'loading') {
     return (
       <div className='min-h-screen flex justify-center items-center'>
@@ -382,6 +672,88 @@ export default function BooksPage() {
     session?.user?.permissions?.includes(PERMISSIONS.BOOKS_READ) || false;
   const canCreateBooks =
     session?.user?.permissions?.includes(PERMISSIONS.BOOKS_CREATE) || false;
+  const canUpdateBooks =
+    session?.user?.permissions?.includes(PERMISSIONS.BOOKS_UPDATE) || false;
+
+  const copyColumns: ColumnsType<(typeof copies)[number]> = [
+    {
+      title: 'Barcode',
+      dataIndex: 'barcode',
+      key: 'barcode',
+      render: (barcode: string) => (
+        <Tag color='blue' className='font-mono'>
+          {barcode}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (copyStatus: BookCopy['status'], record) =>
+        canUpdateBooks && copyStatus !== 'on_loan' ? (
+          <Select
+            size='small'
+            value={copyStatus}
+            className='min-w-[110px]'
+            onChange={(value) => handleUpdateCopy(record, { status: value })}
+          >
+            {(Object.keys(copyStatusLabels) as BookCopy['status'][])
+              .filter((s) => s !== 'on_loan')
+              .map((s) => (
+                <Option key={s} value={s}>
+                  {copyStatusLabels[s]}
+                </Option>
+              ))}
+          </Select>
+        ) : (
+          <Tag color={copyStatusColors[copyStatus]}>
+            {copyStatusLabels[copyStatus]}
+          </Tag>
+        ),
+    },
+    {
+      title: 'Condition',
+      dataIndex: 'condition',
+      key: 'condition',
+      render: (condition: BookCopy['condition'], record) =>
+        canUpdateBooks ? (
+          <Select
+            size='small'
+            value={condition}
+            className='min-w-[100px]'
+            onChange={(value) => handleUpdateCopy(record, { condition: value })}
+          >
+            {copyConditions.map((c) => (
+              <Option key={c} value={c}>
+                <span className='capitalize'>{c}</span>
+              </Option>
+            ))}
+          </Select>
+        ) : (
+          <span className='capitalize'>{condition}</span>
+        ),
+    },
+    {
+      title: 'Acquired',
+      dataIndex: 'acquisitionDate',
+      key: 'acquisitionDate',
+      render: (date: string) => (date ? dayjs(date).format('YYYY-MM-DD') : '-'),
+    },
+    {
+      title: 'Current Loan',
+      key: 'currentLoan',
+      render: (_: any, record) =>
+        record.currentLoan ? (
+          <Text>
+            {record.currentLoan.borrower?.name} &middot; due{' '}
+            {dayjs(record.currentLoan.dueDate).format('YYYY-MM-DD')}
+          </Text>
+        ) : (
+          '-'
+        ),
+    },
+  ];
 
   if (!canReadBooks) {
     return (
@@ -431,12 +803,52 @@ export default function BooksPage() {
                 </div>
                 <div className='flex flex-col sm:flex-row gap-3'>
                   <Input
-                    placeholder='Search books...'
+                    placeholder='Search books or paste a citation...'
                     prefix={<SearchOutlined />}
                     allowClear
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className='w-full sm:w-64'
                   />
+                  <Dropdown
+                    menu={{
+                      items: [
+                        { key: 'csv', label: 'CSV' },
+                        { key: 'xlsx', label: 'Excel' },
+                        { key: 'marcxml', label: 'MARCXML' },
+                      ],
+                      onClick: ({ key }) =>
+                        handleExport(key as 'csv' | 'xlsx' | 'marcxml'),
+                    }}
+                  >
+                    <Button
+                      icon={<ExportOutlined />}
+                      loading={exporting}
+                      className='w-full sm:w-auto'
+                    >
+                      Export <DownOutlined />
+                    </Button>
+                  </Dropdown>
+                  {canCreateBooks && (
+                    <Dropdown
+                      menu={{
+                        items: [
+                          { key: 'spreadsheet', label: 'CSV or Excel' },
+                          ...(canUpdateBooks
+                            ? [{ key: 'marc', label: 'MARC records' }]
+                            : []),
+                        ],
+                        onClick: ({ key }) =>
+                          setImportType(key as 'spreadsheet' | 'marc'),
+                      }}
+                    >
+                      <Button
+                        icon={<ImportOutlined />}
+                        className='w-full sm:w-auto'
+                      >
+                        Import <DownOutlined />
+                      </Button>
+                    </Dropdown>
+                  )}
                   {canCreateBooks && (
                     <Button
                       type='primary'
@@ -507,6 +919,9 @@ export default function BooksPage() {
                     });
                   },
                 }}
+                onChange={(_, filters) =>
+                  setCategoryFilter((filters.category as string[]) || [])
+                }
                 scroll={{ x: 'max-content' }}
                 className='w-full'
                 onRow={(record) => ({
@@ -595,6 +1010,55 @@ export default function BooksPage() {
                   ))}
                 </Select>
               </Form.Item>
+              {CITATION_CATEGORIES.includes(formCategory) && (
+                <>
+                  <Form.Item
+                    label='Citation'
+                    extra='Paste a citation such as (2019) 8 NWLR (Pt. 1675) 1 to fill in its parts'
+                  >
+                    <Input.Search
+                      placeholder='Paste a citation'
+                      enterButton='Fill'
+                      onSearch={handlePasteCitation}
+                    />
+                  </Form.Item>
+                  <div className='grid grid-cols-2 sm:grid-cols-5 gap-x-3'>
+                    <Form.Item
+                      name={['citation', 'series']}
+                      label='Series'
+                      className='col-span-2 sm:col-span-1'
+                    >
+                      <AutoComplete
+                        placeholder='NWLR'
+                        options={LAW_REPORT_SERIES.map((series) => ({
+                          value: series,
+                        }))}
+                        filterOption={(input, option) =>
+                          !!option?.value
+                            .toLowerCase()
+                            .startsWith(input.toLowerCase())
+                        }
+                      />
+                    </Form.Item>
+                    <Form.Item name={['citation', 'year']} label='Year'>
+                      <InputNumber
+                        min={1800}
+                        precision={0}
+                        className='w-full'
+                      />
+                    </Form.Item>
+                    <Form.Item name={['citation', 'volume']} label='Volume'>
+                      <InputNumber min={1} precision={0} className='w-full' />
+                    </Form.Item>
+                    <Form.Item name={['citation', 'part']} label='Part'>
+                      <InputNumber min={1} precision={0} className='w-full' />
+                    </Form.Item>
+                    <Form.Item name={['citation', 'page']} label='First Page'>
+                      <InputNumber min={1} precision={0} className='w-full' />
+                    </Form.Item>
+                  </div>
+                </>
+              )}
               <Form.Item
                 name='isbn'
                 label='ISBN'
@@ -607,36 +1071,17 @@ export default function BooksPage() {
               >
                 <Input placeholder='e.g., 978-3-16-148410-0' />
               </Form.Item>
-              <Form.Item
-                name='totalCopies'
-                label='Total Copies'
-                rules={[
-                  { required: true, message: 'Please input total copies!' },
-                  // { type: 'number', min: 1, message: 'Must be at least 1' },
-                ]}
-              >
-                <Input type='number' min={1} />
-              </Form.Item>
-              {editingBook && (
+              {!editingBook && (
                 <Form.Item
-                  name='availableCopies'
-                  label='Available Copies'
+                  name='totalCopies'
+                  label='Total Copies'
+                  extra='A copy with its own barcode is created for each'
                   rules={[
-                    {
-                      required: true,
-                      message: 'Please input available copies!',
-                    },
-                    {
-                      type: 'number',
-                      min: 0,
-                      max: form.getFieldValue('totalCopies'),
-                      message: `Must be between 0 and ${form.getFieldValue(
-                        'totalCopies'
-                      )}`,
-                    },
+                    { required: true, message: 'Please input total copies!' },
+                    // { type: 'number', min: 1, message: 'Must be at least 1' },
                   ]}
                 >
-                  <Input type='number' />
+                  <Input type='number' min={1} />
                 </Form.Item>
               )}
               <Form.Item
@@ -651,6 +1096,13 @@ export default function BooksPage() {
               >
                 <Input placeholder='e.g., A12-B3' />
               </Form.Item>
+              <Form.Item
+                name='replacementCost'
+                label='Replacement Cost'
+                extra='Charged to the borrower when a copy is lost or damaged'
+              >
+                <InputNumber min={0} step={100} className='w-full' />
+              </Form.Item>
               <Form.Item name='keywords' label='Keywords (comma-separated)'>
                 <Input.TextArea
                   rows={2}
@@ -659,6 +1111,138 @@ export default function BooksPage() {
               </Form.Item>
             </Form>
           </Modal>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <ClockCircleOutlined className='text-orange-500' />
+                Place Hold{holdBook ? `: ${holdBook.title}` : ''}
+              </div>
+            }
+            open={!!holdBook}
+            onCancel={() => setHoldBook(null)}
+            footer={null}
+            destroyOnClose
+          >
+            {!!holdBook?.holdCount && (
+              <Alert
+                type='info'
+                showIcon
+                className='mb-4'
+                message={`${holdBook.holdCount} borrower(s) already waiting for this book`}
+              />
+            )}
+            <Form form={holdForm} layout='vertical' onFinish={handleHoldSubmit}>
+              <Form.Item
+                name='borrowerId'
+                label='Borrower'
+                rules={[
+                  { required: true, message: 'Please select a borrower' },
+                ]}
+              >
+                <Select
+                  placeholder='Select a borrower'
+                  showSearch
+                  optionFilterProp='children'
+                  filterOption={(input, option) =>
+                    (option?.children as unknown as string)
+                      .toLowerCase()
+                      .includes(input.toLowerCase())
+                  }
+                >
+                  {borrowersList.map((borrower) => (
+                    <Option
+                      key={borrower._id?.toString()}
+                      value={borrower._id?.toString()}
+                    >
+                      {borrower.name}
+                    </Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              <Form.Item name='notes' label='Notes'>
+                <Input.TextArea rows={2} />
+              </Form.Item>
+              <Form.Item>
+                <Button type='primary' htmlType='submit' className='w-full'>
+                  Place Hold
+                </Button>
+              </Form.Item>
+            </Form>
+          </Modal>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <BarcodeOutlined className='text-blue-500' />
+                Copies{copiesBook ? `: ${copiesBook.title}` : ''}
+              </div>
+            }
+            open={!!copiesBook}
+            onCancel={handleCloseCopies}
+            footer={null}
+            width={900}
+            destroyOnClose
+          >
+            <Table
+              columns={copyColumns}
+              dataSource={copies}
+              loading={copiesLoading}
+              rowKey='_id'
+              pagination={false}
+              size='small'
+              scroll={{ x: 'max-content' }}
+            />
+            {canUpdateBooks && (
+              <Form
+                form={copyForm}
+                layout='inline'
+                onFinish={handleAddCopy}
+                className='mt-4 gap-y-2'
+                initialValues={{ condition: 'new' }}
+              >
+                <Form.Item name='barcode'>
+                  <Input placeholder='Barcode (auto if empty)' />
+                </Form.Item>
+                <Form.Item name='condition'>
+                  <Select className='min-w-[110px]'>
+                    {copyConditions.map((condition) => (
+                      <Option key={condition} value={condition}>
+                        <span className='capitalize'>{condition}</span>
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+                <Form.Item name='acquisitionDate'>
+                  <DatePicker placeholder='Acquired on' />
+                </Form.Item>
+                <Form.Item>
+                  <Button
+                    type='primary'
+                    htmlType='submit'
+                    icon={<PlusOutlined />}
+                  >
+                    Add Copy
+                  </Button>
+                </Form.Item>
+              </Form>
+            )}
+          </Modal>
+
+          <MarcImportModal
+            open={importType === 'marc'}
+            onClose={() => setImportType(null)}
+            onImported={fetchBooks}
+          />
+
+          <BulkImportModal
+            open={importType === 'spreadsheet'}
+            title='Import Books'
+            endpoint='/api/books/import'
+            itemLabel='books'
+            onClose={() => setImportType(null)}
+            onImported={fetchBooks}
+          />
         </Content>
       </Layout>
     </Layout>
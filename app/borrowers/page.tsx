@@ -23,6 +23,7 @@ import {
   Empty,
   Tooltip,
   Alert,
+  Dropdown,
 } from 'antd';
 import {
   PlusOutlined,
@@ -34,14 +35,19 @@ import {
   IdcardOutlined,
   SearchOutlined,
   CopyOutlined,
+  ImportOutlined,
+  ExportOutlined,
+  DownOutlined,
 } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
+import BulkImportModal from '@/components/BulkImportModal';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import type { Borrower } from '@/lib/models';
 import { PERMISSIONS } from '@/lib/auth';
 import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
 
 const { Content } = Layout;
 const { Option } = Select;
@@ -64,6 +70,9 @@ export default function BorrowersPage() {
   });
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [roleFilter, setRoleFilter] = useState<string[]>([]);
+  const [isImportVisible, setIsImportVisible] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   const borrowerRoles: BorrowerRole[] = [
     'Intern',
@@ -332,6 +341,30 @@ export default function BorrowersPage() {
     },
   ];
 
+  // Downloads the borrowers matching the search and role filters
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ format });
+      if (searchQuery) params.set('search', searchQuery);
+      roleFilter.forEach((role) => params.append('role', role));
+
+      const response = await fetch(`/api/borrowers/export?${params}`);
+      if (!response.ok) throw new Error('Failed to export borrowers');
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `borrowers-${dayjs().format('YYYY-MM-DD')}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      message.error('Failed to export borrowers');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   if (status === 'loading') {
     return (
       <div className='min-h-screen flex justify-center items-center'>
@@ -403,6 +436,32 @@ export default function BorrowersPage() {
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className='w-full sm:w-64'
                   />
+                  <Dropdown
+                    menu={{
+                      items: [
+                        { key: 'csv', label: 'CSV' },
+                        { key: 'xlsx', label: 'Excel' },
+                      ],
+                      onClick: ({ key }) => handleExport(key as 'csv' | 'xlsx'),
+                    }}
+                  >
+                    <Button
+                      icon={<ExportOutlined />}
+                      loading={exporting}
+                      className='w-full sm:w-auto'
+                    >
+                      Export <DownOutlined />
+                    </Button>
+                  </Dropdown>
+                  {canCreateBorrowers && (
+                    <Button
+                      icon={<ImportOutlined />}
+                      onClick={() => setIsImportVisible(true)}
+                      className='w-full sm:w-auto'
+                    >
+                      Import
+                    </Button>
+                  )}
                   {canCreateBorrowers && (
                     <Button
                       type='primary'
@@ -473,6 +532,9 @@ export default function BorrowersPage() {
                     });
                   },
                 }}
+                onChange={(_, filters) =>
+                  setRoleFilter((filters.role as string[]) || [])
+                }
                 scroll={{ x: 'max-content' }}
                 className='w-full'
                 onRow={(record) => ({
@@ -584,6 +646,15 @@ export default function BorrowersPage() {
               </Form.Item>
             </Form>
           </Modal>
+
+          <BulkImportModal
+            open={isImportVisible}
+            title='Import Borrowers'
+            endpoint='/api/borrowers/import'
+            itemLabel='borrowers'
+            onClose={() => setIsImportVisible(false)}
+            onImported={fetchBorrowers}
+          />
         </Content>
       </Layout>
     </Layout>
@@ -31,6 +31,9 @@ import {
   Alert,
   Tabs,
   Badge,
+  Timeline,
+  Dropdown,
+  InputNumber,
 } from 'antd';
 import {
   FolderOutlined,
@@ -45,10 +48,13 @@ import {
   CheckCircleOutlined,
   SignatureOutlined,
   NotificationOutlined,
+  ReloadOutlined,
+  StopOutlined,
+  UndoOutlined,
 } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
-import type { Case, Document, User } from '@/lib/models';
+import type { Case, Document, Reminder, User } from '@/lib/models';
 import dayjs from 'dayjs';
 import type { ColumnsType } from 'antd/es/table';
 import { PERMISSIONS } from '@/lib/auth';
@@ -65,6 +71,41 @@ const { TabPane } = Tabs;
 
 type DocumentType = 'text' | 'pdf' | 'image' | 'word' | 'other';
 
+const REMINDER_COLORS: Record<Reminder['status'], string> = {
+  pending: 'blue',
+  sent: 'green',
+  failed: 'red',
+  done: 'gray',
+  snoozed: 'orange',
+  cancelled: 'gray',
+};
+
+const LEAD_DAY_OPTIONS = [
+  { value: 30, label: '30 days before' },
+  { value: 14, label: '14 days before' },
+  { value: 7, label: '7 days before' },
+  { value: 3, label: '3 days before' },
+  { value: 1, label: '1 day before' },
+  { value: 0, label: 'On the day' },
+];
+
+const describeRecurrence = ({
+  frequency,
+  interval = 1,
+  until,
+}: NonNullable<Reminder['recurrence']>) => {
+  const unit = frequency === 'weekly' ? 'week' : 'month';
+  return `Repeats every ${interval > 1 ? `${interval} ${unit}s` : unit}${
+    until ? ` until ${dayjs(until).format('MMM D, YYYY')}` : ''
+  }`;
+};
+
+const SNOOZE_OPTIONS = [
+  { key: '1h', label: '1 hour', amount: 1, unit: 'hour' },
+  { key: '1d', label: '1 day', amount: 1, unit: 'day' },
+  { key: '1w', label: '1 week', amount: 1, unit: 'week' },
+] as const;
+
 export default function CaseDetailsPage({
   params,
 }: {
@@ -85,6 +126,9 @@ export default function CaseDetailsPage({
   const [sendEmailModalVisible, setSendEmailModalVisible] = useState(false);
   const [signatureModalVisible, setSignatureModalVisible] = useState(false);
   const [reminderModalVisible, setReminderModalVisible] = useState(false);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loadingReminders, setLoadingReminders] = useState(true);
+  const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
   const [selectedDocumentForEmail, setSelectedDocumentForEmail] = useState<
     string | null
   >(null);
@@ -120,6 +164,7 @@ export default function CaseDetailsPage({
     } else if (status === 'authenticated') {
       fetchCaseDetails();
       fetchDocuments();
+      fetchReminders();
       fetchUsers();
     }
   }, [status, router, caseId]);
@@ -160,6 +205,23 @@ export default function CaseDetailsPage({
     }
   };
 
+  const fetchReminders = async () => {
+    setLoadingReminders(true);
+    try {
+      const response = await fetch(`/api/cases/reminders?caseId=${caseId}`);
+      const data = await response.json();
+      if (response.ok) {
+        setReminders(data);
+      } else {
+        message.error(data.error || 'Failed to fetch reminders');
+      }
+    } catch (error) {
+      message.error('Failed to fetch reminders');
+    } finally {
+      setLoadingReminders(false);
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       const response = await fetch('/api/users');
@@ -398,36 +460,136 @@ export default function CaseDetailsPage({
   };
 
   const handleSetReminder = () => {
+    setEditingReminder(null);
     reminderForm.resetFields();
+    reminderForm.setFieldsValue({
+      assignees: currentCase?.assignedTo ? [currentCase.assignedTo] : [],
+      leadDays: [0],
+      repeat: 'none',
+      interval: 1,
+    });
+    setReminderModalVisible(true);
+  };
+
+  const handleEditReminder = (reminder: Reminder) => {
+    setEditingReminder(reminder);
+    reminderForm.setFieldsValue({
+      title: reminder.title,
+      date: dayjs(reminder.dueDate),
+      message: reminder.message,
+      assignees: reminder.assignees,
+      leadDays: reminder.leadDays?.length ? reminder.leadDays : [0],
+      repeat: reminder.recurrence?.frequency || 'none',
+      interval: reminder.recurrence?.interval || 1,
+      until: reminder.recurrence?.until && dayjs(reminder.recurrence.until),
+    });
     setReminderModalVisible(true);
   };
 
   const handleReminderSubmit = async (values: {
-    date: Date;
+    title?: string;
+    date: dayjs.Dayjs;
     message: string;
+    assignees: string[];
+    leadDays: number[];
+    repeat: 'none' | 'weekly' | 'monthly';
+    interval?: number;
+    until?: dayjs.Dayjs;
   }) => {
+    const reminder = {
+      title: values.title,
+      dueDate: values.date.toISOString(),
+      message: values.message,
+      assignees: values.assignees,
+      leadDays: values.leadDays,
+      recurrence:
+        values.repeat === 'none'
+          ? null
+          : {
+              frequency: values.repeat,
+              interval: values.interval || 1,
+              until: values.until?.endOf('day').toISOString(),
+            },
+    };
+
     try {
-      const response = await fetch('/api/cases/reminders', {
-        method: 'POST',
+      const response = editingReminder
+        ? await fetch(`/api/cases/reminders/${editingReminder._id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(reminder),
+          })
+        : await fetch('/api/cases/reminders', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ caseId, ...reminder }),
+          });
+
+      if (response.ok) {
+        message.success(
+          `Reminder ${editingReminder ? 'updated' : 'set'} successfully!`
+        );
+        setReminderModalVisible(false);
+        setEditingReminder(null);
+        fetchReminders();
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save reminder');
+      }
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Failed to save reminder'
+      );
+    }
+  };
+
+  const handleReminderAction = async (
+    reminder: Reminder,
+    action: 'snooze' | 'done' | 'cancel' | 'reopen' | 'retry',
+    snoozedUntil?: dayjs.Dayjs
+  ) => {
+    try {
+      const response = await fetch(`/api/cases/reminders/${reminder._id}`, {
+        method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          caseId,
-          dueDate: values.date,
-          message: values.message,
-          assignedTo: currentCase?.assignedTo,
+          action,
+          snoozedUntil: snoozedUntil?.toISOString(),
         }),
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update reminder');
+      }
+
+      if (action === 'retry' && data.status === 'failed') {
+        message.error(`Reminder could not be sent: ${data.errorMessage}`);
+      } else {
+        message.success('Reminder updated successfully!');
+      }
+      fetchReminders();
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Failed to update reminder'
+      );
+    }
+  };
 
+  const handleDeleteReminder = async (id: string) => {
+    try {
+      const response = await fetch(`/api/cases/reminders/${id}`, {
+        method: 'DELETE',
+      });
       if (response.ok) {
-        message.success('Reminder set successfully!');
-        setReminderModalVisible(false);
+        message.success('Reminder deleted successfully!');
+        fetchReminders();
       } else {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to set reminder');
+        throw new Error(errorData.error || 'Failed to delete reminder');
       }
     } catch (error) {
       message.error(
-        error instanceof Error ? error.message : 'Failed to set reminder'
+        error instanceof Error ? error.message : 'Failed to delete reminder'
       );
     }
   };
@@ -647,6 +809,172 @@ export default function CaseDetailsPage({
   const canDeleteDocuments =
     session?.user?.permissions?.includes(PERMISSIONS.DOCUMENTS_DELETE) || false;
 
+  const failedReminderCount = reminders.filter(
+    (reminder) => reminder.status === 'failed'
+  ).length;
+
+  const reminderTimelineItems = reminders.map((reminder) => {
+    const isClosed =
+      reminder.status === 'done' || reminder.status === 'cancelled';
+
+    return {
+      key: reminder._id as string,
+      color: REMINDER_COLORS[reminder.status],
+      label: dayjs(reminder.dueDate).format('MMM D, YYYY HH:mm'),
+      children: (
+        <div className='space-y-1'>
+          <div className='flex flex-wrap items-center gap-2'>
+            <Text strong delete={reminder.status === 'cancelled'}>
+              {reminder.title || 'Reminder'}
+            </Text>
+            <Tag
+              color={REMINDER_COLORS[reminder.status]}
+              className='capitalize'
+            >
+              {reminder.status}
+            </Tag>
+          </div>
+          <div>{reminder.message}</div>
+          {(reminder.recurrence || (reminder.leadDays?.length ?? 0) > 1) && (
+            <Space wrap size={4}>
+              {reminder.recurrence && (
+                <Tag icon={<ReloadOutlined />}>
+                  {describeRecurrence(reminder.recurrence)}
+                </Tag>
+              )}
+              {reminder.leadDays?.map((days) => (
+                <Tag key={days}>
+                  {days > 0 ? `${days}d before` : 'On the day'}
+                </Tag>
+              ))}
+            </Space>
+          )}
+          <Text type='secondary' className='block text-xs'>
+            To:{' '}
+            {reminder.assigneeUsers?.map((user) => user.name).join(', ') ||
+              'No assignees'}
+            {reminder.status === 'snoozed' &&
+              reminder.snoozedUntil &&
+              ` · Snoozed until ${dayjs(reminder.snoozedUntil).format(
+                'MMM D, YYYY HH:mm'
+              )}`}
+            {reminder.sentAt &&
+              ` · Last sent ${dayjs(reminder.sentAt).format(
+                'MMM D, YYYY HH:mm'
+              )}`}
+            {reminder.nextSendAt &&
+              !isClosed &&
+              ` · Next notice ${dayjs(reminder.nextSendAt).format(
+                'MMM D, YYYY HH:mm'
+              )}`}
+            {reminder.completedAt &&
+              ` · Completed ${dayjs(reminder.completedAt).format(
+                'MMM D, YYYY HH:mm'
+              )}`}
+          </Text>
+          {reminder.status === 'failed' && (
+            <Alert
+              type='error'
+              showIcon
+              message={`Sending failed${
+                reminder.failedAt
+                  ? ` on ${dayjs(reminder.failedAt).format(
+                      'MMM D, YYYY HH:mm'
+                    )}`
+                  : ''
+              }`}
+              description={reminder.errorMessage}
+            />
+          )}
+          {canUpdateCases && (
+            <Space wrap size='small' className='pt-1'>
+              {(reminder.status === 'failed' || reminder.status === 'sent') && (
+                <Button
+                  size='small'
+                  icon={<ReloadOutlined />}
+                  onClick={() => handleReminderAction(reminder, 'retry')}
+                >
+                  {reminder.status === 'failed' ? 'Retry' : 'Resend'}
+                </Button>
+              )}
+              {!isClosed && (
+                <>
+                  <Button
+                    size='small'
+                    icon={<CheckCircleOutlined />}
+                    onClick={() => handleReminderAction(reminder, 'done')}
+                  >
+                    Done
+                  </Button>
+                  <Dropdown
+                    trigger={['click']}
+                    menu={{
+                      items: SNOOZE_OPTIONS.map(({ key, label }) => ({
+                        key,
+                        label,
+                      })),
+                      onClick: ({ key }) => {
+                        const option = SNOOZE_OPTIONS.find(
+                          (item) => item.key === key
+                        );
+                        if (option) {
+                          handleReminderAction(
+                            reminder,
+                            'snooze',
+                            dayjs().add(option.amount, option.unit)
+                          );
+                        }
+                      },
+                    }}
+                  >
+                    <Button size='small' icon={<ClockCircleOutlined />}>
+                      Snooze
+                    </Button>
+                  </Dropdown>
+                  <Button
+                    size='small'
+                    icon={<EditOutlined />}
+                    onClick={() => handleEditReminder(reminder)}
+                  >
+                    Edit
+                  </Button>
+                  <Popconfirm
+                    title='Cancel this reminder?'
+                    onConfirm={() => handleReminderAction(reminder, 'cancel')}
+                    okText='Yes'
+                    cancelText='No'
+                  >
+                    <Button size='small' icon={<StopOutlined />}>
+                      Cancel
+                    </Button>
+                  </Popconfirm>
+                </>
+              )}
+              {isClosed && (
+                <Button
+                  size='small'
+                  icon={<UndoOutlined />}
+                  onClick={() => handleReminderAction(reminder, 'reopen')}
+                >
+                  Reopen
+                </Button>
+              )}
+              <Popconfirm
+                title='Confirm Delete'
+                description='Are you sure you want to delete this reminder?'
+                onConfirm={() => handleDeleteReminder(reminder._id as string)}
+                okText='Yes'
+                cancelText='No'
+              >
+                <Button size='small' icon={<DeleteOutlined />} danger />
+              </Popconfirm>
+            </Space>
+          )}
+        </div>
+      ),
+    };
+  });
+
   if (!canReadCases || !currentCase) {
     return (
       <Layout className='min-h-screen bg-gray-50'>
@@ -796,6 +1124,32 @@ export default function CaseDetailsPage({
                       }}
                     />
                   </TabPane>
+                  <TabPane
+                    tab={
+                      <Badge
+                        count={failedReminderCount}
+                        size='small'
+                        offset={[8, 0]}
+                      >
+                        Deadlines
+                      </Badge>
+                    }
+                    key='deadlines'
+                  >
+                    {loadingReminders ? (
+                      <div className='flex justify-center p-8'>
+                        <Spin />
+                      </div>
+                    ) : reminders.length > 0 ? (
+                      <Timeline
+                        mode='left'
+                        className='mt-4'
+                        items={reminderTimelineItems}
+                      />
+                    ) : (
+                      <Empty description='No deadlines or reminders set' />
+                    )}
+                  </TabPane>
                   <TabPane tab='Activity' key='activity'>
                     <Steps direction='vertical' current={1} className='mt-4'>
                       <Step
@@ -1089,17 +1443,20 @@ export default function CaseDetailsPage({
           <Modal
             title={
               <div className='flex items-center gap-2'>
-                <ClockCircleOutlined className='text-blue-500' /> Set Case
-                Reminder
+                <ClockCircleOutlined className='text-blue-500' />{' '}
+                {editingReminder ? 'Edit Case Reminder' : 'Set Case Reminder'}
               </div>
             }
             open={reminderModalVisible}
-            onCancel={() => setReminderModalVisible(false)}
+            onCancel={() => {
+              setReminderModalVisible(false);
+              setEditingReminder(null);
+            }}
             footer={null}
             destroyOnClose
           >
             <Alert
-              message='This will send an email reminder to the assigned lawyer on the specified date.'
+              message='This will email each assignee at the chosen times before the deadline, and before every later occurrence if it repeats.'
               type='info'
               showIcon
               className='mb-4'
@@ -1109,18 +1466,89 @@ export default function CaseDetailsPage({
               layout='vertical'
               onFinish={handleReminderSubmit}
             >
+              <Form.Item name='title' label='Deadline'>
+                <Input placeholder='e.g., File statement of defence' />
+              </Form.Item>
               <Form.Item
                 name='date'
                 label='Reminder Date'
                 rules={[{ required: true, message: 'Please select a date' }]}
               >
                 <DatePicker
+                  showTime={{ format: 'HH:mm' }}
+                  format='MMM D, YYYY HH:mm'
                   style={{ width: '100%' }}
                   disabledDate={(current) =>
                     current && current < dayjs().startOf('day')
                   }
                 />
               </Form.Item>
+              <Form.Item
+                name='assignees'
+                label='Assignees'
+                rules={[
+                  {
+                    required: true,
+                    message: 'Please select at least one user',
+                  },
+                ]}
+              >
+                <Select
+                  mode='multiple'
+                  placeholder='Select who to remind'
+                  optionFilterProp='children'
+                >
+                  {users.map((user) => (
+                    <Option key={user._id as string} value={user._id}>
+                      {user.name} ({user.role})
+                    </Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              <Form.Item
+                name='leadDays'
+                label='Send Notices'
+                rules={[
+                  { required: true, message: 'Please choose when to notify' },
+                ]}
+              >
+                <Select
+                  mode='multiple'
+                  placeholder='When to notify before the deadline'
+                  options={LEAD_DAY_OPTIONS}
+                />
+              </Form.Item>
+              <Row gutter={16}>
+                <Col span={8}>
+                  <Form.Item name='repeat' label='Repeats'>
+                    <Select
+                      options={[
+                        { value: 'none', label: 'Does not repeat' },
+                        { value: 'weekly', label: 'Weekly' },
+                        { value: 'monthly', label: 'Monthly' },
+                      ]}
+                    />
+                  </Form.Item>
+                </Col>
+                <Form.Item noStyle dependencies={['repeat']}>
+                  {({ getFieldValue }) =>
+                    getFieldValue('repeat') !== 'none' && (
+                      <>
+                        <Col span={6}>
+                          <Form.Item name='interval' label='Every'>
+                            <InputNumber min={1} max={52} className='w-full' />
+                          </Form.Item>
+                        </Col>
+                        <Col span={10}>
+                          <Form.Item name='until' label='Until (optional)'>
+                            <DatePicker style={{ width: '100%' }} />
+                          </Form.Item>
+                        </Col>
+                      </>
+                    )
+                  }
+                </Form.Item>
+              </Row>
               <Form.Item
                 name='message'
                 label='Reminder Message'
@@ -1130,7 +1558,7 @@ export default function CaseDetailsPage({
               </Form.Item>
               <Form.Item>
                 <Button type='primary' htmlType='submit' className='w-full'>
-                  Set Reminder
+                  {editingReminder ? 'Update Reminder' : 'Set Reminder'}
                 </Button>
               </Form.Item>
             </Form>
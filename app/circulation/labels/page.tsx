@@ -0,0 +1,347 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  Space,
+  message,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Tabs,
+  Switch,
+} from 'antd';
+import {
+  PrinterOutlined,
+  SearchOutlined,
+  TagsOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import ScanLabel from '@/components/ScanLabel';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { Book, BookCopy, Borrower } from '@/lib/models';
+import { PERMISSIONS } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+
+const { Content } = Layout;
+const { Title, Text } = Typography;
+
+type LabelSource = 'books' | 'borrowers';
+
+interface Label {
+  code: string;
+  title: string;
+  subtitle?: string;
+}
+
+export default function LabelsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [source, setSource] = useState<LabelSource>('books');
+  const [books, setBooks] = useState<Book[]>([]);
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedBooks, setSelectedBooks] = useState<Book[]>([]);
+  const [selectedBorrowers, setSelectedBorrowers] = useState<Borrower[]>([]);
+  const [perCopy, setPerCopy] = useState(true);
+  const [labels, setLabels] = useState<Label[]>([]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated') {
+      fetchBooks();
+    }
+  }, [status, router, searchQuery]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && source === 'borrowers') {
+      fetchBorrowers();
+    }
+  }, [status, source]);
+
+  const fetchBooks = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '100', search: searchQuery });
+      const response = await fetch(`/api/books?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch books');
+
+      const data = await response.json();
+      setBooks(data.books.map((b: Book) => ({ ...b, _id: b._id?.toString() })));
+    } catch (error) {
+      message.error('Failed to load books');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBorrowers = async () => {
+    if (borrowers.length > 0) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/borrowers/list');
+      if (!response.ok) throw new Error('Failed to fetch borrowers');
+
+      const data = await response.json();
+      setBorrowers(
+        data.map((b: Borrower) => ({ ...b, _id: b._id?.toString() }))
+      );
+    } catch (error) {
+      message.error('Failed to load borrowers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const buildLabels = async () => {
+    if (source === 'borrowers') {
+      return selectedBorrowers.map((b) => ({
+        code: b.memberId,
+        title: b.name,
+        subtitle: b.role,
+      }));
+    }
+
+    if (!perCopy) {
+      return selectedBooks.map((b) => ({
+        code: b.bookId,
+        title: b.title,
+        subtitle: b.shelfLocation,
+      }));
+    }
+
+    const bookLabels: Label[] = [];
+    for (const book of selectedBooks) {
+      const response = await fetch(`/api/books/${book._id}/copies`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch copies of ${book.title}`);
+      }
+      const data = await response.json();
+      data.copies
+        .filter((c: BookCopy) => c.status !== 'withdrawn')
+        .forEach((c: BookCopy) =>
+          bookLabels.push({
+            code: c.barcode,
+            title: book.title,
+            subtitle: book.shelfLocation,
+          })
+        );
+    }
+    return bookLabels;
+  };
+
+  const handlePrint = async () => {
+    setLoading(true);
+    try {
+      const built = await buildLabels();
+      if (built.length === 0) {
+        message.warning('Select at least one item to print labels for');
+        return;
+      }
+      setLabels(built);
+      // Wait for the labels to render their codes before printing
+      setTimeout(() => window.print(), 500);
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Failed to build labels'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const bookColumns: ColumnsType<Book> = [
+    { title: 'Book ID', dataIndex: 'bookId', key: 'bookId' },
+    { title: 'Title', dataIndex: 'title', key: 'title' },
+    { title: 'Copies', dataIndex: 'totalCopies', key: 'totalCopies' },
+    { title: 'Shelf', dataIndex: 'shelfLocation', key: 'shelfLocation' },
+  ];
+
+  const borrowerColumns: ColumnsType<Borrower> = [
+    { title: 'Member ID', dataIndex: 'memberId', key: 'memberId' },
+    { title: 'Name', dataIndex: 'name', key: 'name' },
+    { title: 'Role', dataIndex: 'role', key: 'role' },
+  ];
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const canReadBooks =
+    session?.user?.permissions?.includes(PERMISSIONS.BOOKS_READ) || false;
+  const canReadBorrowers =
+    session?.user?.permissions?.includes(PERMISSIONS.BORROWERS_READ) || false;
+
+  if (!canReadBooks && !canReadBorrowers) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Print Labels' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<TagsOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to print labels
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  const selectedCount =
+    source === 'books' ? selectedBooks.length : selectedBorrowers.length;
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Print Labels' />
+        <Content className='p-4 md:p-6'>
+          <Card className='rounded-lg shadow-sm border-0'>
+            <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+              <div className='flex items-center gap-2'>
+                <TagsOutlined className='text-blue-500 text-xl' />
+                <Title level={4} className='m-0'>
+                  Barcode & QR Labels
+                </Title>
+              </div>
+              <Space wrap>
+                {source === 'books' && (
+                  <Space>
+                    <Switch checked={perCopy} onChange={setPerCopy} />
+                    <Text>One label per copy</Text>
+                  </Space>
+                )}
+                <Button
+                  type='primary'
+                  icon={<PrinterOutlined />}
+                  onClick={handlePrint}
+                  loading={loading}
+                  disabled={selectedCount === 0}
+                >
+                  Print {selectedCount ? `(${selectedCount})` : ''}
+                </Button>
+              </Space>
+            </div>
+
+            <Tabs
+              activeKey={source}
+              onChange={(key) => setSource(key as LabelSource)}
+              items={[
+                ...(canReadBooks
+                  ? [
+                      {
+                        key: 'books',
+                        label: 'Books',
+                        children: (
+                          <>
+                            <Input
+                              placeholder='Search by title or author...'
+                              prefix={<SearchOutlined />}
+                              allowClear
+                              onChange={(e) => setSearchQuery(e.target.value)}
+                              className='mb-4 sm:w-64'
+                            />
+                            <Table
+                              columns={bookColumns}
+                              dataSource={books}
+                              loading={loading}
+                              rowKey='_id'
+                              size='small'
+                              rowSelection={{
+                                preserveSelectedRowKeys: true,
+                                selectedRowKeys: selectedBooks.map(
+                                  (b) => b._id as string
+                                ),
+                                onChange: (_, rows) =>
+                                  setSelectedBooks(rows.filter(Boolean)),
+                              }}
+                            />
+                          </>
+                        ),
+                      },
+                    ]
+                  : []),
+                ...(canReadBorrowers
+                  ? [
+                      {
+                        key: 'borrowers',
+                        label: 'Borrowers',
+                        children: (
+                          <Table
+                            columns={borrowerColumns}
+                            dataSource={borrowers}
+                            loading={loading}
+                            rowKey='_id'
+                            size='small'
+                            rowSelection={{
+                              selectedRowKeys: selectedBorrowers.map(
+                                (b) => b._id as string
+                              ),
+                              onChange: (_, rows) => setSelectedBorrowers(rows),
+                            }}
+                          />
+                        ),
+                      },
+                    ]
+                  : []),
+              ]}
+            />
+          </Card>
+
+          {labels.length > 0 && (
+            <Card
+              className='rounded-lg shadow-sm border-0 mt-4'
+              title='Label Sheet'
+            >
+              <div
+                className='print-area'
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+                  gap: 8,
+                }}
+              >
+                {labels.map((label) => (
+                  <ScanLabel key={label.code} {...label} />
+                ))}
+              </div>
+            </Card>
+          )}
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
@@ -0,0 +1,606 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect, useRef } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  Select,
+  Space,
+  message,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Alert,
+  DatePicker,
+  Segmented,
+  Descriptions,
+  type InputRef,
+} from 'antd';
+import {
+  ScanOutlined,
+  UserOutlined,
+  DeleteOutlined,
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  PrinterOutlined,
+  LoginOutlined,
+  LogoutOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { BookCopy, Borrower, LoanPolicyViolation } from '@/lib/models';
+import { PERMISSIONS } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+
+const { Content } = Layout;
+const { Option } = Select;
+const { Title, Text } = Typography;
+
+type DeskMode = 'checkout' | 'checkin';
+
+interface ActiveLoan {
+  _id: string;
+  dueDate: string;
+  status: string;
+  book?: { title: string };
+  copy?: { barcode: string };
+}
+
+interface CheckoutResult {
+  barcode: string;
+  success: boolean;
+  error?: string;
+  violations?: LoanPolicyViolation[];
+  book?: { title: string };
+  copy?: { barcode: string };
+  lending?: { dueDate: string };
+}
+
+interface CheckinResult {
+  barcode: string;
+  success: boolean;
+  error?: string;
+  title?: string;
+  borrowerName?: string;
+  copyStatus?: BookCopy['status'];
+  heldForReservation?: boolean;
+  returnedAt: string;
+}
+
+export default function CirculationDeskPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [mode, setMode] = useState<DeskMode>('checkout');
+  const [borrower, setBorrower] = useState<Borrower | null>(null);
+  const [activeLoans, setActiveLoans] = useState<ActiveLoan[]>([]);
+  const [memberInput, setMemberInput] = useState('');
+  const [itemInput, setItemInput] = useState('');
+  const [scannedItems, setScannedItems] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState<dayjs.Dayjs | null>(null);
+  const [checkoutResults, setCheckoutResults] = useState<CheckoutResult[]>([]);
+  const [checkinInput, setCheckinInput] = useState('');
+  const [checkinCondition, setCheckinCondition] = useState<
+    BookCopy['condition'] | undefined
+  >();
+  const [checkinResults, setCheckinResults] = useState<CheckinResult[]>([]);
+  const [busy, setBusy] = useState(false);
+  const memberRef = useRef<InputRef>(null);
+  const itemRef = useRef<InputRef>(null);
+  const checkinRef = useRef<InputRef>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (
+      status === 'authenticated' &&
+      !session?.user?.permissions?.includes(PERMISSIONS.LENDINGS_CREATE)
+    ) {
+      setMode('checkin');
+    }
+  }, [status, session]);
+
+  // Keep the cursor in the field the next scan belongs to
+  useEffect(() => {
+    if (mode === 'checkin') {
+      checkinRef.current?.focus();
+    } else if (borrower) {
+      itemRef.current?.focus();
+    } else {
+      memberRef.current?.focus();
+    }
+  }, [mode, borrower]);
+
+  const resetCheckout = () => {
+    setBorrower(null);
+    setActiveLoans([]);
+    setMemberInput('');
+    setItemInput('');
+    setScannedItems([]);
+    setDueDate(null);
+    setCheckoutResults([]);
+  };
+
+  const handleMemberScan = async () => {
+    const memberId = memberInput.trim();
+    if (!memberId) return;
+
+    setBusy(true);
+    try {
+      const response = await fetch(
+        `/api/borrowers/member/${encodeURIComponent(memberId)}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Borrower not found');
+      }
+
+      setBorrower(data.borrower);
+      setActiveLoans(data.activeLoans);
+      setCheckoutResults([]);
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Borrower not found'
+      );
+      setMemberInput('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleItemScan = () => {
+    const barcode = itemInput.trim();
+    setItemInput('');
+    if (!barcode) return;
+
+    if (scannedItems.includes(barcode)) {
+      message.warning(`${barcode} has already been scanned`);
+      return;
+    }
+    setScannedItems((prev) => [...prev, barcode]);
+  };
+
+  const handleCheckout = async () => {
+    if (!borrower || scannedItems.length === 0) return;
+
+    setBusy(true);
+    try {
+      const response = await fetch('/api/lendings/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          borrowerId: borrower._id,
+          barcodes: scannedItems,
+          dueDate: dueDate?.toISOString(),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Checkout failed');
+      }
+
+      setCheckoutResults(data.results);
+      setScannedItems(
+        data.results
+          .filter((r: CheckoutResult) => !r.success)
+          .map((r: CheckoutResult) => r.barcode)
+      );
+      if (data.failed === 0) {
+        message.success(`${data.succeeded} item(s) checked out`);
+      } else {
+        message.warning(
+          `${data.succeeded} item(s) checked out, ${data.failed} failed`
+        );
+      }
+
+      const refreshed = await fetch(
+        `/api/borrowers/member/${encodeURIComponent(borrower.memberId)}`
+      );
+      if (refreshed.ok) {
+        setActiveLoans((await refreshed.json()).activeLoans);
+      }
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Checkout failed');
+    } finally {
+      setBusy(false);
+      itemRef.current?.focus();
+    }
+  };
+
+  const handleCheckinScan = async () => {
+    const barcode = checkinInput.trim();
+    setCheckinInput('');
+    if (!barcode) return;
+
+    setBusy(true);
+    const logResult = (result: Omit<CheckinResult, 'returnedAt'>) =>
+      setCheckinResults((prev) => [
+        { ...result, returnedAt: new Date().toISOString() },
+        ...prev,
+      ]);
+
+    try {
+      const lookup = await fetch(
+        `/api/lendings/lookup?barcode=${encodeURIComponent(barcode)}`
+      );
+      const lending = await lookup.json();
+      if (!lookup.ok) {
+        throw new Error(lending.error || 'No open loan for this item');
+      }
+
+      const response = await fetch('/api/lendings/return', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lendingId: lending._id,
+          condition: checkinCondition,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to return item');
+      }
+
+      logResult({
+        barcode,
+        success: true,
+        title: lending.book?.title,
+        borrowerName: lending.borrower?.name,
+        copyStatus: result.copy?.status,
+        heldForReservation: !!result.heldForReservation,
+      });
+      setCheckinCondition(undefined);
+    } catch (error) {
+      logResult({
+        barcode,
+        success: false,
+        error: error instanceof Error ? error.message : 'Check-in failed',
+      });
+    } finally {
+      setBusy(false);
+      checkinRef.current?.focus();
+    }
+  };
+
+  const checkoutColumns: ColumnsType<CheckoutResult> = [
+    {
+      title: 'Barcode',
+      dataIndex: 'barcode',
+      key: 'barcode',
+      render: (barcode: string) => <Text code>{barcode}</Text>,
+    },
+    {
+      title: 'Item',
+      key: 'item',
+      render: (_, record) => record.book?.title || '-',
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      render: (_, record) =>
+        record.success ? (
+          <Tag icon={<CheckCircleOutlined />} color='success'>
+            Due {dayjs(record.lending?.dueDate).format('MMM D, YYYY')}
+          </Tag>
+        ) : (
+          <Space direction='vertical' size={0}>
+            <Tag icon={<CloseCircleOutlined />} color='error'>
+              {record.error}
+            </Tag>
+            {record.violations?.map((v) => (
+              <Text key={v.code} type='danger' className='text-xs'>
+                {v.message}
+              </Text>
+            ))}
+          </Space>
+        ),
+    },
+  ];
+
+  const checkinColumns: ColumnsType<CheckinResult> = [
+    {
+      title: 'Time',
+      dataIndex: 'returnedAt',
+      key: 'returnedAt',
+      render: (date: string) => dayjs(date).format('HH:mm:ss'),
+    },
+    {
+      title: 'Barcode',
+      dataIndex: 'barcode',
+      key: 'barcode',
+      render: (barcode: string) => <Text code>{barcode}</Text>,
+    },
+    {
+      title: 'Item',
+      key: 'item',
+      render: (_, record) =>
+        record.success ? (
+          <Space direction='vertical' size={0}>
+            <Text strong>{record.title}</Text>
+            <Text type='secondary'>from {record.borrowerName}</Text>
+          </Space>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      render: (_, record) => {
+        if (!record.success) {
+          return (
+            <Tag icon={<CloseCircleOutlined />} color='error'>
+              {record.error}
+            </Tag>
+          );
+        }
+        if (record.copyStatus === 'in_repair') {
+          return <Tag color='orange'>Returned, sent for repair</Tag>;
+        }
+        if (record.heldForReservation) {
+          return <Tag color='purple'>Returned, place on hold shelf</Tag>;
+        }
+        return (
+          <Tag icon={<CheckCircleOutlined />} color='success'>
+            Returned, reshelve
+          </Tag>
+        );
+      },
+    },
+  ];
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const canCreateLendings =
+    session?.user?.permissions?.includes(PERMISSIONS.LENDINGS_CREATE) || false;
+  const canUpdateLendings =
+    session?.user?.permissions?.includes(PERMISSIONS.LENDINGS_UPDATE) || false;
+
+  if (!canCreateLendings && !canUpdateLendings) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Circulation Desk' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<ScanOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to check items in or out
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Circulation Desk' />
+        <Content className='p-4 md:p-6'>
+          <Card className='rounded-lg shadow-sm border-0'>
+            <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4'>
+              <div className='flex items-center gap-2'>
+                <ScanOutlined className='text-blue-500 text-xl' />
+                <Title level={4} className='m-0'>
+                  Circulation Desk
+                </Title>
+              </div>
+              <Space>
+                <Segmented
+                  value={mode}
+                  onChange={(value) => setMode(value as DeskMode)}
+                  options={[
+                    {
+                      label: 'Check Out',
+                      value: 'checkout',
+                      icon: <LogoutOutlined />,
+                      disabled: !canCreateLendings,
+                    },
+                    {
+                      label: 'Check In',
+                      value: 'checkin',
+                      icon: <LoginOutlined />,
+                      disabled: !canUpdateLendings,
+                    },
+                  ]}
+                />
+                <Button
+                  icon={<PrinterOutlined />}
+                  onClick={() => router.push('/circulation/labels')}
+                >
+                  Print Labels
+                </Button>
+              </Space>
+            </div>
+
+            {mode === 'checkout' ? (
+              <div className='space-y-4'>
+                {!borrower ? (
+                  <Input
+                    ref={memberRef}
+                    size='large'
+                    prefix={<UserOutlined />}
+                    placeholder='Scan or type the borrower member ID, then press Enter'
+                    value={memberInput}
+                    onChange={(e) => setMemberInput(e.target.value)}
+                    onPressEnter={handleMemberScan}
+                    disabled={busy}
+                  />
+                ) : (
+                  <>
+                    <Descriptions
+                      bordered
+                      size='small'
+                      column={{ xs: 1, sm: 2, md: 4 }}
+                      extra={
+                        <Button onClick={resetCheckout}>Next Borrower</Button>
+                      }
+                      title={borrower.name}
+                    >
+                      <Descriptions.Item label='Member ID'>
+                        {borrower.memberId}
+                      </Descriptions.Item>
+                      <Descriptions.Item label='Role'>
+                        {borrower.role}
+                      </Descriptions.Item>
+                      <Descriptions.Item label='Open Loans'>
+                        {activeLoans.length}
+                      </Descriptions.Item>
+                      <Descriptions.Item label='Overdue'>
+                        {
+                          activeLoans.filter((l) =>
+                            dayjs(l.dueDate).isBefore(dayjs(), 'day')
+                          ).length
+                        }
+                      </Descriptions.Item>
+                    </Descriptions>
+
+                    <div className='flex flex-col sm:flex-row gap-3'>
+                      <Input
+                        ref={itemRef}
+                        size='large'
+                        prefix={<ScanOutlined />}
+                        placeholder='Scan a copy barcode or book ID, then press Enter'
+                        value={itemInput}
+                        onChange={(e) => setItemInput(e.target.value)}
+                        onPressEnter={handleItemScan}
+                        disabled={busy}
+                      />
+                      <DatePicker
+                        size='large'
+                        placeholder='Due date (policy default)'
+                        value={dueDate}
+                        onChange={setDueDate}
+                        disabledDate={(d) => d.isBefore(dayjs(), 'day')}
+                      />
+                    </div>
+
+                    {scannedItems.length > 0 && (
+                      <Card size='small' title='Scanned Items'>
+                        <Space wrap>
+                          {scannedItems.map((barcode) => (
+                            <Tag
+                              key={barcode}
+                              closable
+                              closeIcon={<DeleteOutlined />}
+                              onClose={() =>
+                                setScannedItems((prev) =>
+                                  prev.filter((b) => b !== barcode)
+                                )
+                              }
+                              className='font-mono'
+                            >
+                              {barcode}
+                            </Tag>
+                          ))}
+                        </Space>
+                        <Button
+                          type='primary'
+                          block
+                          className='mt-4'
+                          loading={busy}
+                          onClick={handleCheckout}
+                        >
+                          Check Out {scannedItems.length} Item(s)
+                        </Button>
+                      </Card>
+                    )}
+
+                    {checkoutResults.length > 0 && (
+                      <Table
+                        columns={checkoutColumns}
+                        dataSource={checkoutResults}
+                        rowKey='barcode'
+                        pagination={false}
+                        size='small'
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            ) : (
+              <div className='space-y-4'>
+                <Alert
+                  type='info'
+                  showIcon
+                  message='Scan each returned item. The open loan is found and returned automatically.'
+                />
+                <div className='flex flex-col sm:flex-row gap-3'>
+                  <Input
+                    ref={checkinRef}
+                    size='large'
+                    prefix={<ScanOutlined />}
+                    placeholder='Scan a copy barcode or book ID, then press Enter'
+                    value={checkinInput}
+                    onChange={(e) => setCheckinInput(e.target.value)}
+                    onPressEnter={handleCheckinScan}
+                    disabled={busy}
+                  />
+                  <Select
+                    size='large'
+                    allowClear
+                    placeholder='Condition (next item)'
+                    className='sm:w-56'
+                    value={checkinCondition}
+                    onChange={setCheckinCondition}
+                  >
+                    <Option value='good'>Good</Option>
+                    <Option value='fair'>Fair</Option>
+                    <Option value='poor'>Poor</Option>
+                    <Option value='damaged'>Damaged (send for repair)</Option>
+                  </Select>
+                </div>
+                <Table
+                  columns={checkinColumns}
+                  dataSource={checkinResults}
+                  rowKey='returnedAt'
+                  pagination={{ pageSize: 20 }}
+                  size='small'
+                  locale={{
+                    emptyText: <Empty description='No items checked in yet' />,
+                  }}
+                />
+              </div>
+            )}
+          </Card>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
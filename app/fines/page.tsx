@@ -0,0 +1,458 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  InputNumber,
+  Space,
+  Modal,
+  Form,
+  message,
+  Popconfirm,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Alert,
+  Statistic,
+} from 'antd';
+import {
+  WalletOutlined,
+  FileSearchOutlined,
+  DollarOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { Borrower, FineLedgerEntry } from '@/lib/models';
+import { PERMISSIONS } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+
+const { Content } = Layout;
+const { Title, Text } = Typography;
+
+interface FineBalance {
+  borrower: Borrower;
+  balance: number;
+  blocked: boolean;
+  lastActivity?: string;
+}
+
+interface Ledger {
+  balance: number;
+  limit: number;
+  blocked: boolean;
+  entries: FineLedgerEntry[];
+}
+
+const ENTRY_COLORS: Record<FineLedgerEntry['type'], string> = {
+  overdue: 'orange',
+  lost: 'volcano',
+  damaged: 'magenta',
+  payment: 'green',
+  waiver: 'blue',
+};
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+export default function FinesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [balances, setBalances] = useState<FineBalance[]>([]);
+  const [limit, setLimit] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedBorrower, setSelectedBorrower] = useState<Borrower | null>(
+    null
+  );
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const [paymentForm] = Form.useForm();
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated') {
+      fetchBalances();
+    }
+  }, [status, router]);
+
+  const fetchBalances = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/fines');
+      if (!response.ok) throw new Error('Failed to fetch fines');
+
+      const data = await response.json();
+      setBalances(data.balances);
+      setLimit(data.limit);
+    } catch (err) {
+      message.error('Failed to load fines');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLedger = async (borrower: Borrower) => {
+    setLedgerLoading(true);
+    try {
+      const response = await fetch(`/api/borrowers/${borrower._id}/fines`);
+      if (!response.ok) throw new Error('Failed to fetch ledger');
+
+      setLedger(await response.json());
+    } catch (err) {
+      message.error('Failed to load the fines ledger');
+    } finally {
+      setLedgerLoading(false);
+    }
+  };
+
+  const openLedger = (borrower: Borrower) => {
+    setSelectedBorrower(borrower);
+    setLedger(null);
+    paymentForm.resetFields();
+    fetchLedger(borrower);
+  };
+
+  const refresh = () => {
+    if (selectedBorrower) fetchLedger(selectedBorrower);
+    fetchBalances();
+  };
+
+  const handleRecordPayment = async (values: {
+    amount: number;
+    description?: string;
+  }) => {
+    if (!selectedBorrower) return;
+
+    try {
+      const response = await fetch(
+        `/api/borrowers/${selectedBorrower._id}/fines`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(values),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record payment');
+      }
+
+      message.success('Payment recorded');
+      paymentForm.resetFields();
+      refresh();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to record payment'
+      );
+    }
+  };
+
+  const handleWaive = async (entryId: string) => {
+    try {
+      const response = await fetch(`/api/fines/${entryId}/waive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to waive charge');
+      }
+
+      message.success(`Waived ${formatAmount(-data.amount)}`);
+      refresh();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to waive charge'
+      );
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const canReadFines =
+    session?.user?.permissions?.includes(PERMISSIONS.FINES_READ) || false;
+  const canRecordPayments =
+    session?.user?.permissions?.includes(PERMISSIONS.FINES_CREATE) || false;
+  const canWaiveFines =
+    session?.user?.permissions?.includes(PERMISSIONS.FINES_WAIVE) || false;
+
+  const columns: ColumnsType<FineBalance> = [
+    {
+      title: 'Borrower',
+      dataIndex: ['borrower', 'name'],
+      key: 'name',
+      render: (name: string, record) => (
+        <div>
+          <Text strong>{name}</Text>
+          <div className='text-xs text-gray-500'>
+            {record.borrower.memberId} · {record.borrower.role}
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: 'Balance',
+      dataIndex: 'balance',
+      key: 'balance',
+      render: (balance: number) => <Text strong>{formatAmount(balance)}</Text>,
+    },
+    {
+      title: 'Status',
+      dataIndex: 'blocked',
+      key: 'blocked',
+      render: (blocked: boolean) =>
+        blocked ? (
+          <Tag color='red'>Blocked from borrowing</Tag>
+        ) : (
+          <Tag>Owing</Tag>
+        ),
+    },
+    {
+      title: 'Last Activity',
+      dataIndex: 'lastActivity',
+      key: 'lastActivity',
+      render: (date?: string) =>
+        date ? dayjs(date).format('MMM D, YYYY') : '-',
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Button
+          icon={<FileSearchOutlined />}
+          onClick={() => openLedger(record.borrower)}
+        >
+          Ledger
+        </Button>
+      ),
+    },
+  ];
+
+  const ledgerColumns: ColumnsType<FineLedgerEntry> = [
+    {
+      title: 'Date',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY'),
+    },
+    {
+      title: 'Type',
+      dataIndex: 'type',
+      key: 'type',
+      render: (type: FineLedgerEntry['type'], record) => (
+        <Space size={4}>
+          <Tag color={ENTRY_COLORS[type]} className='capitalize'>
+            {type}
+          </Tag>
+          {record.accruing && <Tag color='gold'>Accruing</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+    },
+    {
+      title: 'Amount',
+      dataIndex: 'amount',
+      key: 'amount',
+      align: 'right',
+      render: (amount: number) => (
+        <Text type={amount < 0 ? 'success' : undefined}>
+          {formatAmount(amount)}
+        </Text>
+      ),
+    },
+    ...(canWaiveFines
+      ? [
+          {
+            title: '',
+            key: 'waive',
+            render: (_: unknown, record: FineLedgerEntry) =>
+              record.amount > 0 && (
+                <Popconfirm
+                  title='Waive this charge?'
+                  onConfirm={() => handleWaive(record._id as string)}
+                  okText='Yes'
+                  cancelText='No'
+                >
+                  <Button size='small'>Waive</Button>
+                </Popconfirm>
+              ),
+          },
+        ]
+      : []),
+  ];
+
+  if (!canReadFines) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Fines' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<WalletOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to view fines
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Fines' />
+        <Content className='p-4 md:p-6'>
+          <Card
+            className='rounded-lg shadow-sm border-0'
+            bodyStyle={{ padding: 0 }}
+          >
+            <div className='p-4 border-b border-gray-200'>
+              <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex items-center gap-2'>
+                  <WalletOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Outstanding Fines
+                  </Title>
+                </div>
+                {limit !== null && (
+                  <Text type='secondary'>
+                    Borrowers owing more than {formatAmount(limit)} cannot
+                    borrow
+                  </Text>
+                )}
+              </div>
+            </div>
+            <Table
+              columns={columns}
+              dataSource={balances}
+              loading={loading}
+              rowKey={(record) => record.borrower._id as string}
+              scroll={{ x: 'max-content' }}
+              className='w-full'
+              locale={{
+                emptyText: <Empty description='No outstanding fines' />,
+              }}
+            />
+          </Card>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <WalletOutlined className='text-blue-500' />
+                Fines Ledger
+                {selectedBorrower ? `: ${selectedBorrower.name}` : ''}
+              </div>
+            }
+            open={!!selectedBorrower}
+            onCancel={() => setSelectedBorrower(null)}
+            footer={null}
+            width={800}
+            destroyOnClose
+          >
+            {ledgerLoading && !ledger ? (
+              <div className='flex justify-center p-8'>
+                <Spin />
+              </div>
+            ) : (
+              ledger && (
+                <div className='space-y-4'>
+                  <Statistic
+                    title='Outstanding Balance'
+                    value={ledger.balance}
+                    precision={2}
+                  />
+                  {ledger.blocked && (
+                    <Alert
+                      type='error'
+                      showIcon
+                      message={`Blocked from new loans until the balance is at most ${formatAmount(
+                        ledger.limit
+                      )}`}
+                    />
+                  )}
+                  {canRecordPayments && ledger.balance > 0 && (
+                    <Form
+                      form={paymentForm}
+                      layout='inline'
+                      onFinish={handleRecordPayment}
+                    >
+                      <Form.Item
+                        name='amount'
+                        rules={[{ required: true, message: 'Enter an amount' }]}
+                      >
+                        <InputNumber
+                          min={0.01}
+                          max={ledger.balance}
+                          placeholder='Amount'
+                        />
+                      </Form.Item>
+                      <Form.Item name='description'>
+                        <Input placeholder='Reference (optional)' />
+                      </Form.Item>
+                      <Form.Item>
+                        <Button
+                          type='primary'
+                          htmlType='submit'
+                          icon={<DollarOutlined />}
+                        >
+                          Record Payment
+                        </Button>
+                      </Form.Item>
+                    </Form>
+                  )}
+                  <Table
+                    columns={ledgerColumns}
+                    dataSource={ledger.entries}
+                    loading={ledgerLoading}
+                    rowKey='_id'
+                    size='small'
+                    pagination={{ pageSize: 8 }}
+                    scroll={{ x: 'max-content' }}
+                  />
+                </div>
+              )
+            )}
+          </Modal>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
@@ -14,6 +14,7 @@ import {
   Tag,
   Empty,
   Badge,
+  Timeline,
 } from 'antd';
 import { HistoryOutlined } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
@@ -27,7 +28,7 @@ import { PERMISSIONS } from '@/lib/auth';
 const { Content } = Layout;
 const { Title, Text } = Typography;
 
-type LendingStatus = 'borrowed' | 'returned' | 'overdue';
+type LendingStatus = 'borrowed' | 'returned' | 'overdue' | 'lost';
 // export const dynamic = 'force-dynamic';
 export default function LendingHistoryPage() {
   const { data: session, status } = useSession();
@@ -90,13 +91,18 @@ export default function LendingHistoryPage() {
     let displayStatus = status;
     let color = 'blue';
 
-    if (status === 'borrowed' && dayjs(dueDate).isBefore(dayjs(), 'day')) {
+    if (
+      status === 'overdue' ||
+      (status === 'borrowed' && dayjs(dueDate).isBefore(dayjs(), 'day'))
+    ) {
       displayStatus = 'overdue';
       color = 'red';
     } else if (status === 'returned') {
       color = 'green';
     } else if (status === 'borrowed') {
       color = 'orange';
+    } else if (status === 'lost') {
+      color = 'volcano';
     }
 
     return (
@@ -106,6 +112,25 @@ export default function LendingHistoryPage() {
     );
   };
 
+  const renderRenewals = (record: LendingRecord) => (
+    <Timeline
+      className='mt-4 mb-0'
+      items={(record.renewals || []).map((renewal) => ({
+        color: 'purple',
+        children: (
+          <Text>
+            Renewed on {dayjs(renewal.renewedAt).format('MMM D, YYYY')}: due
+            date moved from{' '}
+            {dayjs(renewal.previousDueDate).format('MMM D, YYYY')} to{' '}
+            <Text strong>
+              {dayjs(renewal.newDueDate).format('MMM D, YYYY')}
+            </Text>
+          </Text>
+        ),
+      }))}
+    />
+  );
+
   const columns = [
     {
       title: 'Book Title',
@@ -139,6 +164,14 @@ export default function LendingHistoryPage() {
       sorter: (a: any, b: any) =>
         dayjs(a.dueDate).unix() - dayjs(b.dueDate).unix(),
     },
+    {
+      title: 'Renewals',
+      dataIndex: 'renewalCount',
+      key: 'renewalCount',
+      render: (count?: number) =>
+        count ? <Tag color='purple'>{count}</Tag> : '-',
+      sorter: (a: any, b: any) => (a.renewalCount || 0) - (b.renewalCount || 0),
+    },
     {
       title: 'Return Date',
       dataIndex: 'returnDate',
@@ -165,7 +198,7 @@ export default function LendingHistoryPage() {
         return (
           <Badge
             status={
-              currentStatus === 'overdue'
+              currentStatus === 'overdue' || currentStatus === 'lost'
                 ? 'error'
                 : currentStatus === 'returned'
                 ? 'success'
@@ -179,6 +212,7 @@ export default function LendingHistoryPage() {
         { text: 'Borrowed', value: 'borrowed' },
         { text: 'Returned', value: 'returned' },
         { text: 'Overdue', value: 'overdue' },
+        { text: 'Lost', value: 'lost' },
       ],
       onFilter: (value: any, record: any) => {
         const currentStatus =
@@ -297,6 +331,10 @@ export default function LendingHistoryPage() {
                 }}
                 scroll={{ x: 'max-content' }}
                 className='w-full'
+                expandable={{
+                  expandedRowRender: renderRenewals,
+                  rowExpandable: (record) => !!record.renewals?.length,
+                }}
                 rowClassName={(record) => {
                   const status =
                     record.status === 'borrowed' &&
@@ -0,0 +1,568 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  Select,
+  Modal,
+  Form,
+  Space,
+  message,
+  Popconfirm,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Tooltip,
+  Alert,
+} from 'antd';
+import {
+  MailOutlined,
+  PlusOutlined,
+  SendOutlined,
+  StopOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { Invitation, InvitationStatus, Role } from '@/lib/models';
+import { PERMISSIONS, ROLE_PERMISSIONS } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+
+const { Content } = Layout;
+const { Title, Text } = Typography;
+const { TextArea } = Input;
+
+const PAGE_SIZE = 20;
+
+const STATUS_COLORS: Record<InvitationStatus, string> = {
+  pending: 'blue',
+  accepted: 'green',
+  expired: 'default',
+};
+
+const EXPIRY_OPTIONS = [
+  { value: 1, label: '1 day' },
+  { value: 3, label: '3 days' },
+  { value: 7, label: '7 days' },
+  { value: 14, label: '14 days' },
+  { value: 30, label: '30 days' },
+];
+
+interface InviteResult {
+  invited: string[];
+  skipped: { email: string; reason: string }[];
+  failed: { email: string; reason: string }[];
+}
+
+export default function InvitationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus>();
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [roleNames, setRoleNames] = useState<string[]>(
+    Object.keys(ROLE_PERMISSIONS)
+  );
+  const [inviteModalVisible, setInviteModalVisible] = useState(false);
+  const [resending, setResending] = useState<Invitation | null>(null);
+  const [resendDays, setResendDays] = useState(7);
+  const [submitting, setSubmitting] = useState(false);
+  const [inviteResult, setInviteResult] = useState<InviteResult | null>(null);
+  const [form] = Form.useForm();
+
+  const canInvite =
+    session?.user?.permissions?.includes(PERMISSIONS.USERS_CREATE) || false;
+
+  const fetchInvitations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (statusFilter) params.set('status', statusFilter);
+      if (search.trim()) params.set('search', search.trim());
+
+      const response = await fetch(`/api/users/invite?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch invitations');
+      }
+
+      setInvitations(data.invitations);
+      setTotal(data.total);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to load invitations'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, search]);
+
+  // Users without access to roles still get the built-in ones to pick from
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/roles');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setRoleNames(data.roles.map((role: Role) => role.name));
+    } catch (err) {
+      console.error('Failed to load roles:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated' && canInvite) {
+      fetchInvitations();
+    }
+  }, [status, router, canInvite, fetchInvitations]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && canInvite) {
+      fetchRoles();
+    }
+  }, [status, canInvite]);
+
+  const handleInvite = async () => {
+    try {
+      const values = await form.validateFields();
+      setSubmitting(true);
+      const response = await fetch('/api/users/invite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+      const data = await response.json();
+      if (!response.ok && !data.skipped) {
+        throw new Error(data.error || 'Failed to send invitations');
+      }
+
+      setInviteModalVisible(false);
+      setInviteResult({
+        invited: data.invited || [],
+        skipped: data.skipped,
+        failed: data.failed || [],
+      });
+      fetchInvitations();
+    } catch (err) {
+      if (err instanceof Error) message.error(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!resending) return;
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/users/invite/${resending._id}/resend`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ expiresInDays: resendDays }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resend invitation');
+      }
+
+      message.success(`Invitation sent again to ${resending.email}`);
+      setResending(null);
+      fetchInvitations();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to resend invitation'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const response = await fetch(`/api/users/invite/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to revoke invitation');
+      }
+
+      message.success('Invitation revoked');
+      fetchInvitations();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to revoke invitation'
+      );
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const columns: ColumnsType<Invitation> = [
+    {
+      title: 'Email',
+      dataIndex: 'email',
+      key: 'email',
+      render: (email: string, record) => (
+        <div>
+          <Text strong>{email}</Text>
+          {record.name && (
+            <div className='text-xs text-gray-500'>{record.name}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Role',
+      dataIndex: 'role',
+      key: 'role',
+      render: (role: string) => <Tag>{role}</Tag>,
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (invitationStatus: InvitationStatus) => (
+        <Tag color={STATUS_COLORS[invitationStatus]} className='capitalize'>
+          {invitationStatus}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Invited',
+      key: 'invitedAt',
+      render: (_, record) => (
+        <div>
+          {record.invitedAt
+            ? dayjs(record.invitedAt).format('MMM D, YYYY HH:mm')
+            : '-'}
+          {record.invitedByName && (
+            <div className='text-xs text-gray-500'>
+              by {record.invitedByName}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Expires / Accepted',
+      key: 'expiresAt',
+      render: (_, record) =>
+        record.status === 'accepted' ? (
+          record.acceptedAt ? (
+            dayjs(record.acceptedAt).format('MMM D, YYYY HH:mm')
+          ) : (
+            <Text type='secondary'>Accepted</Text>
+          )
+        ) : record.expiresAt ? (
+          <Tooltip title={dayjs(record.expiresAt).format('MMM D, YYYY HH:mm')}>
+            <Text type={record.status === 'expired' ? 'danger' : undefined}>
+              {record.status === 'expired' ? 'Expired ' : 'Expires '}
+              {dayjs(record.expiresAt).format('MMM D, YYYY')}
+            </Text>
+          </Tooltip>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) =>
+        record.status === 'accepted' ? null : (
+          <Space>
+            <Tooltip title='Resend with a new link'>
+              <Button
+                type='text'
+                icon={<SendOutlined />}
+                onClick={() => {
+                  setResendDays(7);
+                  setResending(record);
+                }}
+                className='text-blue-500 hover:text-blue-700'
+              />
+            </Tooltip>
+            <Tooltip title='Revoke'>
+              <Popconfirm
+                title={`Revoke the invitation for ${record.email}?`}
+                description='The invitation link stops working and the pending user is removed.'
+                onConfirm={() => handleRevoke(record._id)}
+                okText='Revoke'
+                cancelText='Cancel'
+                placement='left'
+              >
+                <Button type='text' danger icon={<StopOutlined />} />
+              </Popconfirm>
+            </Tooltip>
+          </Space>
+        ),
+    },
+  ];
+
+  if (!canInvite) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Invitations' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<MailOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to manage invitations
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Invitations' />
+        <Content className='p-4 md:p-6'>
+          <Card
+            className='rounded-lg shadow-sm border-0'
+            bodyStyle={{ padding: 0 }}
+          >
+            <div className='p-4 border-b border-gray-200 space-y-4'>
+              <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex items-center gap-2'>
+                  <MailOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Invitations
+                  </Title>
+                </div>
+                <Button
+                  type='primary'
+                  icon={<PlusOutlined />}
+                  onClick={() => {
+                    form.resetFields();
+                    setInviteModalVisible(true);
+                  }}
+                >
+                  Invite Users
+                </Button>
+              </div>
+              <Space wrap>
+                <Select
+                  allowClear
+                  placeholder='Status'
+                  className='min-w-[160px]'
+                  value={statusFilter}
+                  onChange={(value) => {
+                    setStatusFilter(value);
+                    setPage(1);
+                  }}
+                  options={[
+                    { value: 'pending', label: 'Pending' },
+                    { value: 'accepted', label: 'Accepted' },
+                    { value: 'expired', label: 'Expired' },
+                  ]}
+                />
+                <Input.Search
+                  allowClear
+                  placeholder='Search by email'
+                  onSearch={(value) => {
+                    setSearch(value);
+                    setPage(1);
+                  }}
+                  className='w-64'
+                />
+              </Space>
+            </div>
+            <Table
+              columns={columns}
+              dataSource={invitations}
+              loading={loading}
+              rowKey='_id'
+              pagination={{
+                current: page,
+                pageSize: PAGE_SIZE,
+                total,
+                showSizeChanger: false,
+                onChange: setPage,
+              }}
+              scroll={{ x: 'max-content' }}
+              className='w-full'
+              locale={{ emptyText: <Empty description='No invitations' /> }}
+            />
+          </Card>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <MailOutlined className='text-blue-500' />
+                Invite Users
+              </div>
+            }
+            open={inviteModalVisible}
+            onOk={handleInvite}
+            okText='Send Invitations'
+            onCancel={() => setInviteModalVisible(false)}
+            confirmLoading={submitting}
+            width={600}
+            destroyOnClose
+          >
+            <Form
+              form={form}
+              layout='vertical'
+              className='mt-4'
+              initialValues={{ expiresInDays: 7 }}
+            >
+              <Form.Item
+                name='emails'
+                label='Emails'
+                extra='Paste one or more addresses, separated by commas or new lines'
+                rules={[
+                  {
+                    required: true,
+                    message: 'Please enter at least one email',
+                  },
+                ]}
+              >
+                <TextArea
+                  rows={5}
+                  placeholder={'ada@example.com\ngrace@example.com'}
+                />
+              </Form.Item>
+              <Form.Item
+                name='role'
+                label='Role'
+                rules={[{ required: true, message: 'Please select a role!' }]}
+              >
+                <Select
+                  placeholder='Select a role'
+                  options={roleNames.map((role) => ({
+                    value: role,
+                    label: role,
+                  }))}
+                />
+              </Form.Item>
+              <Form.Item name='expiresInDays' label='Link expires after'>
+                <Select options={EXPIRY_OPTIONS} />
+              </Form.Item>
+            </Form>
+          </Modal>
+
+          <Modal
+            title={`Resend invitation to ${resending?.email}`}
+            open={!!resending}
+            onOk={handleResend}
+            okText='Resend'
+            onCancel={() => setResending(null)}
+            confirmLoading={submitting}
+            destroyOnClose
+          >
+            <Space direction='vertical' className='w-full'>
+              <Text>
+                A new link is emailed and the previous one stops working.
+              </Text>
+              <Select
+                className='w-full'
+                value={resendDays}
+                onChange={setResendDays}
+                options={EXPIRY_OPTIONS.map((option) => ({
+                  ...option,
+                  label: `Expires after ${option.label}`,
+                }))}
+              />
+            </Space>
+          </Modal>
+
+          <Modal
+            title='Invitations sent'
+            open={!!inviteResult}
+            onOk={() => setInviteResult(null)}
+            onCancel={() => setInviteResult(null)}
+            cancelButtonProps={{ style: { display: 'none' } }}
+            okText='Done'
+          >
+            {inviteResult && (
+              <Space direction='vertical' className='w-full'>
+                <Text>
+                  {inviteResult.invited.length} invitation
+                  {inviteResult.invited.length === 1 ? '' : 's'} sent.
+                </Text>
+                {inviteResult.failed.length > 0 && (
+                  <Alert
+                    type='error'
+                    showIcon
+                    message={`${inviteResult.failed.length} failed, invite them again later`}
+                    description={
+                      <ul className='m-0 pl-4'>
+                        {inviteResult.failed.map(({ email, reason }) => (
+                          <li key={email}>
+                            {email}: {reason}
+                          </li>
+                        ))}
+                      </ul>
+                    }
+                  />
+                )}
+                {inviteResult.skipped.length > 0 && (
+                  <Alert
+                    type='warning'
+                    showIcon
+                    message={`${inviteResult.skipped.length} skipped`}
+                    description={
+                      <ul className='m-0 pl-4'>
+                        {inviteResult.skipped.map(({ email, reason }) => (
+                          <li key={email}>
+                            {email}: {reason}
+                          </li>
+                        ))}
+                      </ul>
+                    }
+                  />
+                )}
+              </Space>
+            )}
+          </Modal>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
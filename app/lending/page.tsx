@@ -26,16 +26,30 @@ import {
   Card,
   Badge,
   Empty,
+  Alert,
 } from 'antd';
 import {
   SwapOutlined,
   CheckCircleOutlined,
   PlusOutlined,
   MailOutlined,
+  ClockCircleOutlined,
+  StopOutlined,
+  ReloadOutlined,
+  WarningOutlined,
 } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
-import type { LendingRecord, Book, Borrower } from '@/lib/models';
+import type {
+  LendingRecord,
+  Book,
+  BookCopy,
+  Borrower,
+  FineLedgerEntry,
+  LoanPolicy,
+  LoanPolicyViolation,
+  Reservation,
+} from '@/lib/models';
 import dayjs from 'dayjs';
 import type { ColumnsType } from 'antd/es/table';
 import { PERMISSIONS } from '@/lib/auth';
@@ -44,7 +58,7 @@ const { Content } = Layout;
 const { Option } = Select;
 const { Title, Text } = Typography;
 
-type LendingStatus = 'borrowed' | 'returned' | 'overdue';
+type LendingStatus = LendingRecord['status'];
 
 export default function LendingPage() {
   const { data: session, status } = useSession();
@@ -60,6 +74,16 @@ export default function LendingPage() {
     null
   );
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [reservationsLoading, setReservationsLoading] = useState(false);
+  const [shelfCopies, setShelfCopies] = useState<BookCopy[]>([]);
+  const [returnCondition, setReturnCondition] = useState<
+    BookCopy['condition'] | undefined
+  >();
+  const [policyPreview, setPolicyPreview] = useState<{
+    policy: LoanPolicy;
+    violations: LoanPolicyViolation[];
+  } | null>(null);
   const [pagination, setPagination] = useState({
     current: 1,
     pageSize: 10,
@@ -67,7 +91,12 @@ export default function LendingPage() {
   });
   const [form] = Form.useForm();
 
-  const lendingStatuses: LendingStatus[] = ['borrowed', 'returned', 'overdue'];
+  const lendingStatuses: LendingStatus[] = [
+    'borrowed',
+    'returned',
+    'overdue',
+    'lost',
+  ];
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -76,6 +105,7 @@ export default function LendingPage() {
       fetchLendings();
       fetchAvailableBooks();
       fetchBorrowersList();
+      fetchReservations();
     }
   }, [status, router, statusFilter, pagination.current, pagination.pageSize]);
 
@@ -149,6 +179,57 @@ export default function LendingPage() {
     }
   };
 
+  const fetchReservations = async () => {
+    setReservationsLoading(true);
+    try {
+      const response = await fetch('/api/reservations?limit=100');
+      const data = await response.json();
+      if (response.ok) {
+        setReservations(data.reservations);
+      } else {
+        message.error(data.error || 'Failed to fetch holds');
+      }
+    } catch (error) {
+      message.error('Failed to fetch holds');
+    } finally {
+      setReservationsLoading(false);
+    }
+  };
+
+  const handleCancelReservation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/reservations/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel hold');
+      }
+      message.success('Hold cancelled');
+      fetchReservations();
+      fetchAvailableBooks();
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Failed to cancel hold'
+      );
+    }
+  };
+
+  const handleCheckoutReservation = (reservation: Reservation) => {
+    // The held copy is not counted as available, so add it to the options
+    if (
+      reservation.book &&
+      !availableBooks.some((b) => b._id === reservation.bookId)
+    ) {
+      setAvailableBooks((prev) => [...prev, reservation.book as Book]);
+    }
+    form.setFieldsValue({
+      bookId: reservation.bookId,
+      borrowerId: reservation.borrowerId,
+    });
+    setModalVisible(true);
+  };
+
   const handleNotifyOverdue = async () => {
     setNotifying(true);
     try {
@@ -163,8 +244,8 @@ export default function LendingPage() {
             `Sent overdue notifications to ${result.notifiedCount} borrowers (${result.totalOverdue} total overdue)`
           );
         } else if (result.totalOverdue > 0) {
-          message.warning(
-            `Found ${result.totalOverdue} overdue books but couldn't send notifications (missing emails?)`
+          message.info(
+            `No new reminders were due for the ${result.totalOverdue} overdue books`
           );
         } else {
           message.info('No overdue books found');
@@ -183,6 +264,48 @@ export default function LendingPage() {
     }
   };
 
+  const fetchShelfCopies = async (bookId: string) => {
+    setShelfCopies([]);
+    try {
+      const response = await fetch(`/api/books/${bookId}/copies`);
+      const data = await response.json();
+      if (response.ok) {
+        setShelfCopies(
+          data.copies.filter((c: BookCopy) => c.status === 'on_shelf')
+        );
+      }
+    } catch (error) {
+      console.error('Error fetching copies:', error);
+    }
+  };
+
+  const handleLendingValuesChange = async (changed: any, values: any) => {
+    if ('bookId' in changed) {
+      form.setFieldsValue({ copyId: undefined });
+      if (values.bookId) fetchShelfCopies(values.bookId);
+    }
+    if (!('bookId' in changed) && !('borrowerId' in changed)) return;
+    if (!values.bookId || !values.borrowerId) {
+      setPolicyPreview(null);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({
+        bookId: values.bookId,
+        borrowerId: values.borrowerId,
+      });
+      const response = await fetch(`/api/loan-policies/resolve?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        setPolicyPreview({ policy: data.policy, violations: data.violations });
+        form.setFieldsValue({ dueDate: dayjs(data.defaultDueDate) });
+      }
+    } catch (error) {
+      setPolicyPreview(null);
+    }
+  };
+
   const handleBorrowSubmit = async (values: any) => {
     try {
       const response = await fetch('/api/lendings', {
@@ -191,7 +314,8 @@ export default function LendingPage() {
         body: JSON.stringify({
           bookId: values.bookId,
           borrowerId: values.borrowerId,
-          dueDate: values.dueDate.toISOString(),
+          copyId: values.copyId,
+          dueDate: values.dueDate?.toISOString(),
           notes: values.notes,
         }),
       });
@@ -199,11 +323,19 @@ export default function LendingPage() {
       if (response.ok) {
         message.success('Book borrowed successfully!');
         setModalVisible(false);
+        setPolicyPreview(null);
         form.resetFields();
         fetchLendings();
         fetchAvailableBooks();
+        fetchReservations();
       } else {
         const errorData = await response.json();
+        if (errorData.violations) {
+          setPolicyPreview({
+            policy: errorData.policy,
+            violations: errorData.violations,
+          });
+        }
         throw new Error(errorData.error || 'Failed to borrow book');
       }
     } catch (error) {
@@ -220,15 +352,28 @@ export default function LendingPage() {
       const response = await fetch('/api/lendings/return', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ lendingId: selectedLendingId }),
+        body: JSON.stringify({
+          lendingId: selectedLendingId,
+          condition: returnCondition,
+        }),
       });
 
       if (response.ok) {
-        message.success('Book returned successfully!');
+        const result = await response.json();
+        message.success(
+          result.copy?.status === 'in_repair'
+            ? `Book returned, copy ${result.copy.barcode} sent for repair`
+            : result.heldForReservation
+            ? 'Book returned and set aside for the next hold in the queue'
+            : 'Book returned successfully!'
+        );
+        notifyFinesCharged(result.fines);
         setReturnModalVisible(false);
         setSelectedLendingId(null);
+        setReturnCondition(undefined);
         fetchLendings();
         fetchAvailableBooks();
+        fetchReservations();
       } else {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to return book');
@@ -240,17 +385,79 @@ export default function LendingPage() {
     }
   };
 
+  const notifyFinesCharged = (fines: FineLedgerEntry[] = []) => {
+    const total = fines.reduce((sum, fine) => sum + fine.amount, 0);
+    if (total > 0) {
+      message.warning(
+        `Borrower charged ${total.toFixed(2)} in fines (${fines
+          .map((fine) => fine.type)
+          .join(', ')})`
+      );
+    }
+  };
+
+  const handleReportLost = async (lendingId: string) => {
+    try {
+      const response = await fetch('/api/lendings/lost', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lendingId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to report book lost');
+      }
+
+      message.success('Book reported lost');
+      notifyFinesCharged(data.fines);
+      fetchLendings();
+      fetchAvailableBooks();
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Failed to report book lost'
+      );
+    }
+  };
+
+  const handleRenewLending = async (lendingId: string) => {
+    try {
+      const response = await fetch('/api/lendings/renew', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lendingId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to renew loan');
+      }
+
+      message.success(
+        `Loan renewed until ${dayjs(data.dueDate).format('MMM D, YYYY')}`
+      );
+      fetchLendings();
+    } catch (error) {
+      message.error(
+        error instanceof Error ? error.message : 'Failed to renew loan'
+      );
+    }
+  };
+
   const getStatusTag = (status: string, dueDate: Date | string) => {
     let displayStatus = status;
     let color = 'blue';
 
-    if (status === 'borrowed' && dayjs(dueDate).isBefore(dayjs(), 'day')) {
+    if (
+      status === 'overdue' ||
+      (status === 'borrowed' && dayjs(dueDate).isBefore(dayjs(), 'day'))
+    ) {
       displayStatus = 'overdue';
       color = 'red';
     } else if (status === 'returned') {
       color = 'green';
     } else if (status === 'borrowed') {
       color = 'orange';
+    } else if (status === 'lost') {
+      color = 'volcano';
     }
 
     return (
@@ -265,7 +472,16 @@ export default function LendingPage() {
       title: 'Book Title',
       dataIndex: ['book', 'title'],
       key: 'bookTitle',
-      render: (text: string) => <Text strong>{text}</Text>,
+      render: (text: string, record: LendingRecord) => (
+        <Space direction='vertical' size={0}>
+          <Text strong>{text}</Text>
+          {record.copy?.barcode && (
+            <Text type='secondary' className='font-mono text-xs'>
+              {record.copy.barcode}
+            </Text>
+          )}
+        </Space>
+      ),
       sorter: (a, b) =>
         (a.book?.title || '').localeCompare(b.book?.title || ''),
     },
@@ -288,7 +504,14 @@ export default function LendingPage() {
       title: 'Due Date',
       dataIndex: 'dueDate',
       key: 'dueDate',
-      render: (date: string) => dayjs(date).format('MMM D, YYYY'),
+      render: (date: string, record: LendingRecord) => (
+        <Space>
+          {dayjs(date).format('MMM D, YYYY')}
+          {!!record.renewalCount && (
+            <Tag color='purple'>Renewed x{record.renewalCount}</Tag>
+          )}
+        </Space>
+      ),
       sorter: (a, b) => dayjs(a.dueDate).unix() - dayjs(b.dueDate).unix(),
     },
     {
@@ -313,7 +536,7 @@ export default function LendingPage() {
     {
       title: 'Actions',
       key: 'actions',
-      width: 150,
+      width: 300,
       render: (record: LendingRecord) => {
         const currentStatus =
           record.status === 'borrowed' &&
@@ -323,6 +546,34 @@ export default function LendingPage() {
 
         return (
           <Space size='middle'>
+            {(currentStatus === 'borrowed' || currentStatus === 'overdue') &&
+              canUpdateLendings && (
+                <Popconfirm
+                  title='Renew Loan'
+                  description='Extend the due date of this loan?'
+                  onConfirm={() => handleRenewLending(record._id as string)}
+                  okText='Yes'
+                  cancelText='No'
+                  placement='left'
+                >
+                  <Button icon={<ReloadOutlined />}>Renew</Button>
+                </Popconfirm>
+              )}
+            {(currentStatus === 'borrowed' || currentStatus === 'overdue') &&
+              canUpdateLendings && (
+                <Popconfirm
+                  title='Report Lost'
+                  description="Close this loan as lost and charge the book's replacement cost?"
+                  onConfirm={() => handleReportLost(record._id as string)}
+                  okText='Yes'
+                  cancelText='No'
+                  placement='left'
+                >
+                  <Button danger icon={<WarningOutlined />}>
+                    Lost
+                  </Button>
+                </Popconfirm>
+              )}
             {currentStatus === 'borrowed' || currentStatus === 'overdue' ? (
               <Popconfirm
                 title='Confirm Return'
@@ -349,7 +600,7 @@ export default function LendingPage() {
                 disabled
                 className='text-gray-400'
               >
-                Returned
+                {currentStatus === 'lost' ? 'Lost' : 'Returned'}
               </Button>
             )}
           </Space>
@@ -358,6 +609,81 @@ export default function LendingPage() {
     },
   ];
 
+  const reservationColumns: ColumnsType<Reservation> = [
+    {
+      title: 'Queue',
+      dataIndex: 'queuePosition',
+      key: 'queuePosition',
+      width: 90,
+      render: (position: number) =>
+        position === 0 ? (
+          <Tag color='green'>Ready</Tag>
+        ) : (
+          <Tag color='orange'>#{position}</Tag>
+        ),
+    },
+    {
+      title: 'Book Title',
+      dataIndex: ['book', 'title'],
+      key: 'bookTitle',
+      render: (text: string) => <Text strong>{text}</Text>,
+    },
+    {
+      title: 'Borrower',
+      dataIndex: ['borrower', 'name'],
+      key: 'borrowerName',
+    },
+    {
+      title: 'Placed',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY'),
+    },
+    {
+      title: 'Pick Up By',
+      dataIndex: 'pickupBy',
+      key: 'pickupBy',
+      render: (date?: string) =>
+        date ? (
+          dayjs(date).format('MMM D, YYYY')
+        ) : (
+          <Text type='secondary'>-</Text>
+        ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 220,
+      render: (record: Reservation) => (
+        <Space size='middle'>
+          {record.status === 'ready' && canCreateLendings && (
+            <Button
+              type='primary'
+              icon={<SwapOutlined />}
+              onClick={() => handleCheckoutReservation(record)}
+            >
+              Check Out
+            </Button>
+          )}
+          {canUpdateLendings && (
+            <Popconfirm
+              title='Cancel Hold'
+              description='Are you sure you want to cancel this hold?'
+              onConfirm={() => handleCancelReservation(record._id as string)}
+              okText='Yes'
+              cancelText='No'
+              placement='left'
+            >
+              <Button danger icon={<StopOutlined />}>
+                Cancel
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
   if (status === 'loading') {
     return (
       <div className='min-h-screen flex justify-center items-center'>
@@ -491,6 +817,36 @@ export default function LendingPage() {
             />
           </Card>
 
+          <Card
+            className='rounded-lg shadow-sm border-0 mt-6'
+            title={
+              <div className='flex items-center gap-2'>
+                <ClockCircleOutlined className='text-orange-500 text-xl' />
+                <Title level={4} className='m-0'>
+                  Hold Queue
+                </Title>
+                <Badge
+                  count={reservations.length}
+                  style={{ backgroundColor: '#fa8c16' }}
+                />
+              </div>
+            }
+          >
+            <Table
+              columns={reservationColumns}
+              dataSource={reservations}
+              loading={reservationsLoading}
+              rowKey='_id'
+              pagination={false}
+              scroll={{ x: 'max-content' }}
+              className='w-full'
+              locale={{ emptyText: 'No borrowers are waiting for books' }}
+              rowClassName={(record) =>
+                record.status === 'ready' ? 'bg-green-50' : ''
+              }
+            />
+          </Card>
+
           <Modal
             title={
               <div className='flex items-center gap-2'>
@@ -501,12 +857,18 @@ export default function LendingPage() {
             open={modalVisible}
             onCancel={() => {
               setModalVisible(false);
+              setPolicyPreview(null);
               form.resetFields();
             }}
             footer={null}
             destroyOnClose
           >
-            <Form form={form} layout='vertical' onFinish={handleBorrowSubmit}>
+            <Form
+              form={form}
+              layout='vertical'
+              onFinish={handleBorrowSubmit}
+              onValuesChange={handleLendingValuesChange}
+            >
               <Form.Item
                 name='bookId'
                 label='Book'
@@ -553,12 +915,42 @@ export default function LendingPage() {
                   ))}
                 </Select>
               </Form.Item>
+              <Form.Item
+                name='copyId'
+                label='Copy'
+                extra='Leave empty to lend any copy on the shelf'
+              >
+                <Select placeholder='Any copy on the shelf' allowClear>
+                  {shelfCopies.map((copy) => (
+                    <Option key={copy._id as string} value={copy._id}>
+                      {copy.barcode} ({copy.condition})
+                    </Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              {policyPreview && (
+                <Alert
+                  className='mb-4'
+                  showIcon
+                  type={policyPreview.violations.length ? 'error' : 'info'}
+                  message={`Loan policy: ${policyPreview.policy.name}`}
+                  description={
+                    policyPreview.violations.length ? (
+                      <ul className='m-0 pl-4'>
+                        {policyPreview.violations.map((v) => (
+                          <li key={v.code}>{v.message}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      `${policyPreview.policy.loanPeriodDays}-day loan, up to ${policyPreview.policy.maxRenewals} renewal(s)`
+                    )
+                  }
+                />
+              )}
               <Form.Item
                 name='dueDate'
                 label='Due Date'
-                rules={[
-                  { required: true, message: 'Please select a due date' },
-                ]}
+                extra='Defaults to the loan period of the applicable loan policy'
               >
                 <DatePicker className='w-full' />
               </Form.Item>
@@ -596,7 +988,22 @@ export default function LendingPage() {
               </Button>,
             ]}
           >
-            <Text>Are you sure you want to mark this book as returned?</Text>
+            <Space direction='vertical' className='w-full'>
+              <Text>Are you sure you want to mark this book as returned?</Text>
+              <Select
+                placeholder='Condition on return (optional)'
+                allowClear
+                className='w-full'
+                value={returnCondition}
+                onChange={setReturnCondition}
+              >
+                <Option value='new'>New</Option>
+                <Option value='good'>Good</Option>
+                <Option value='fair'>Fair</Option>
+                <Option value='poor'>Poor</Option>
+                <Option value='damaged'>Damaged (send for repair)</Option>
+              </Select>
+            </Space>
           </Modal>
         </Content>
       </Layout>
@@ -0,0 +1,491 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Space,
+  Modal,
+  Form,
+  message,
+  Popconfirm,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Alert,
+  Descriptions,
+} from 'antd';
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  SafetyCertificateOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { LoanPolicy } from '@/lib/models';
+import { PERMISSIONS } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+
+const { Content } = Layout;
+const { Option } = Select;
+const { Title, Text } = Typography;
+
+const ANY = '*';
+
+export default function LoanPoliciesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [policies, setPolicies] = useState<LoanPolicy[]>([]);
+  const [defaultPolicy, setDefaultPolicy] = useState<LoanPolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LoanPolicy | null>(null);
+  const [form] = Form.useForm();
+  const [error, setError] = useState<string | null>(null);
+
+  const borrowerRoles = ['Intern', 'Lawyer', 'Staff', 'Partner', 'Associate'];
+  const bookCategories = [
+    'Textbook',
+    'Statute',
+    'Law Report',
+    'Case Law',
+    'Journal',
+    'Reference',
+  ];
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated') {
+      fetchPolicies();
+    }
+  }, [status, router]);
+
+  const fetchPolicies = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/loan-policies');
+      if (!response.ok) throw new Error('Failed to fetch loan policies');
+
+      const data = await response.json();
+      setPolicies(data.policies);
+      setDefaultPolicy(data.defaultPolicy);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch loan policies'
+      );
+      message.error('Failed to load loan policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddPolicy = () => {
+    setEditingPolicy(null);
+    form.resetFields();
+    setModalVisible(true);
+  };
+
+  const handleEditPolicy = (policy: LoanPolicy) => {
+    setEditingPolicy(policy);
+    form.setFieldsValue(policy);
+    setModalVisible(true);
+  };
+
+  const handleDeletePolicy = async (id: string) => {
+    try {
+      const response = await fetch(`/api/loan-policies/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to delete loan policy');
+
+      setPolicies((prev) => prev.filter((p) => p._id !== id));
+      message.success('Loan policy deleted successfully');
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to delete loan policy'
+      );
+    }
+  };
+
+  const handleModalOk = async () => {
+    try {
+      const values = await form.validateFields();
+      const response = await fetch(
+        editingPolicy
+          ? `/api/loan-policies/${editingPolicy._id}`
+          : '/api/loan-policies',
+        {
+          method: editingPolicy ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          // Empty fine fields fall back to the default rate and no cap
+          body: JSON.stringify({
+            ...values,
+            finePerDay: values.finePerDay ?? null,
+            maxFine: values.maxFine ?? null,
+          }),
+        }
+      );
+
+      if (response.ok) {
+        message.success(
+          editingPolicy
+            ? 'Loan policy updated successfully!'
+            : 'Loan policy added successfully!'
+        );
+        setModalVisible(false);
+        fetchPolicies();
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Operation failed');
+      }
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Operation failed');
+    }
+  };
+
+  const renderScope = (value: string, color: string) =>
+    value === ANY ? <Tag>Any</Tag> : <Tag color={color}>{value}</Tag>;
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const canReadPolicies =
+    session?.user?.permissions?.includes(PERMISSIONS.LOAN_POLICIES_READ) ||
+    false;
+  const canCreatePolicies =
+    session?.user?.permissions?.includes(PERMISSIONS.LOAN_POLICIES_CREATE) ||
+    false;
+  const canUpdatePolicies =
+    session?.user?.permissions?.includes(PERMISSIONS.LOAN_POLICIES_UPDATE) ||
+    false;
+  const canDeletePolicies =
+    session?.user?.permissions?.includes(PERMISSIONS.LOAN_POLICIES_DELETE) ||
+    false;
+
+  const columns: ColumnsType<LoanPolicy> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (text: string) => <Text strong>{text}</Text>,
+    },
+    {
+      title: 'Borrower Role',
+      dataIndex: 'borrowerRole',
+      key: 'borrowerRole',
+      render: (role: string) => renderScope(role, 'purple'),
+    },
+    {
+      title: 'Book Category',
+      dataIndex: 'bookCategory',
+      key: 'bookCategory',
+      render: (category: string) => renderScope(category, 'blue'),
+    },
+    {
+      title: 'Loan Period',
+      dataIndex: 'loanPeriodDays',
+      key: 'loanPeriodDays',
+      render: (days: number, record) =>
+        record.referenceOnly ? '-' : `${days} day(s)`,
+    },
+    {
+      title: 'Max Loans',
+      dataIndex: 'maxConcurrentLoans',
+      key: 'maxConcurrentLoans',
+    },
+    {
+      title: 'Max Renewals',
+      dataIndex: 'maxRenewals',
+      key: 'maxRenewals',
+    },
+    {
+      title: 'Fine / Day',
+      dataIndex: 'finePerDay',
+      key: 'finePerDay',
+      render: (fine: number | null, record) =>
+        fine == null
+          ? 'Default'
+          : `${fine}${
+              record.maxFine != null ? ` (max ${record.maxFine})` : ''
+            }`,
+    },
+    {
+      title: 'Reference Only',
+      dataIndex: 'referenceOnly',
+      key: 'referenceOnly',
+      render: (referenceOnly: boolean) =>
+        referenceOnly ? <Tag color='red'>Yes</Tag> : <Tag>No</Tag>,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Space>
+          {canUpdatePolicies && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => handleEditPolicy(record)}
+            >
+              Edit
+            </Button>
+          )}
+          {canDeletePolicies && (
+            <Popconfirm
+              title='Are you sure you want to delete this policy?'
+              onConfirm={() => handleDeletePolicy(record._id as string)}
+              okText='Yes'
+              cancelText='No'
+            >
+              <Button danger icon={<DeleteOutlined />}>
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  if (!canReadPolicies) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Loan Policies' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={
+                  <SafetyCertificateOutlined className='text-5xl text-gray-300' />
+                }
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to view loan policies
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Loan Policies' />
+        <Content className='p-4 md:p-6'>
+          <Card
+            className='rounded-lg shadow-sm border-0'
+            bodyStyle={{ padding: 0 }}
+          >
+            <div className='p-4 border-b border-gray-200'>
+              <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex items-center gap-2'>
+                  <SafetyCertificateOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Loan Policies
+                  </Title>
+                </div>
+                {canCreatePolicies && (
+                  <Button
+                    type='primary'
+                    icon={<PlusOutlined />}
+                    onClick={handleAddPolicy}
+                    className='w-full sm:w-auto'
+                  >
+                    Add Policy
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {error ? (
+              <Alert
+                message='Error Loading Loan Policies'
+                description={error}
+                type='error'
+                showIcon
+                className='m-4'
+              />
+            ) : loading ? (
+              <div className='text-center py-8'>
+                <Spin size='large' tip='Loading loan policies...' />
+              </div>
+            ) : (
+              <>
+                {defaultPolicy && (
+                  <Descriptions
+                    size='small'
+                    className='p-4'
+                    title='Default policy (applies when no policy matches)'
+                    column={{ xs: 1, sm: 2, lg: 4 }}
+                  >
+                    <Descriptions.Item label='Loan Period'>
+                      {defaultPolicy.loanPeriodDays} day(s)
+                    </Descriptions.Item>
+                    <Descriptions.Item label='Max Loans'>
+                      {defaultPolicy.maxConcurrentLoans}
+                    </Descriptions.Item>
+                    <Descriptions.Item label='Max Renewals'>
+                      {defaultPolicy.maxRenewals}
+                    </Descriptions.Item>
+                    <Descriptions.Item label='Fine per Day'>
+                      {defaultPolicy.finePerDay ?? 0}
+                    </Descriptions.Item>
+                  </Descriptions>
+                )}
+                <Table
+                  columns={columns}
+                  dataSource={policies}
+                  rowKey='_id'
+                  pagination={false}
+                  scroll={{ x: 'max-content' }}
+                  className='w-full'
+                  locale={{
+                    emptyText: (
+                      <Empty description='No loan policies defined yet' />
+                    ),
+                  }}
+                />
+              </>
+            )}
+          </Card>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <SafetyCertificateOutlined className='text-blue-500' />
+                {editingPolicy ? 'Edit Loan Policy' : 'Add Loan Policy'}
+              </div>
+            }
+            open={modalVisible}
+            onOk={handleModalOk}
+            onCancel={() => setModalVisible(false)}
+            width={600}
+            destroyOnClose
+          >
+            <Form
+              form={form}
+              layout='vertical'
+              className='mt-4'
+              initialValues={{
+                borrowerRole: ANY,
+                bookCategory: ANY,
+                loanPeriodDays: 14,
+                maxConcurrentLoans: 5,
+                maxRenewals: 2,
+                referenceOnly: false,
+              }}
+            >
+              <Form.Item
+                name='name'
+                label='Name'
+                rules={[
+                  { required: true, message: 'Please input the policy name!' },
+                ]}
+              >
+                <Input placeholder='e.g., Interns - Law Reports' />
+              </Form.Item>
+              <div className='grid grid-cols-1 sm:grid-cols-2 gap-x-4'>
+                <Form.Item name='borrowerRole' label='Borrower Role'>
+                  <Select>
+                    <Option value={ANY}>Any role</Option>
+                    {borrowerRoles.map((role) => (
+                      <Option key={role} value={role}>
+                        {role}
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+                <Form.Item name='bookCategory' label='Book Category'>
+                  <Select>
+                    <Option value={ANY}>Any category</Option>
+                    {bookCategories.map((category) => (
+                      <Option key={category} value={category}>
+                        {category}
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+                <Form.Item
+                  name='loanPeriodDays'
+                  label='Loan Period (days)'
+                  rules={[{ required: true }]}
+                >
+                  <InputNumber min={1} className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='maxConcurrentLoans'
+                  label='Max Concurrent Loans'
+                  rules={[{ required: true }]}
+                >
+                  <InputNumber min={0} className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='maxRenewals'
+                  label='Max Renewals'
+                  rules={[{ required: true }]}
+                >
+                  <InputNumber min={0} className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='referenceOnly'
+                  label='Reference Only'
+                  valuePropName='checked'
+                >
+                  <Switch />
+                </Form.Item>
+                <Form.Item
+                  name='finePerDay'
+                  label='Fine per Overdue Day'
+                  extra='Leave empty to use the default rate'
+                >
+                  <InputNumber min={0} className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='maxFine'
+                  label='Maximum Fine per Loan'
+                  extra='Leave empty for no cap'
+                >
+                  <InputNumber min={0} className='w-full' />
+                </Form.Item>
+              </div>
+            </Form>
+          </Modal>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
@@ -0,0 +1,499 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Select,
+  Space,
+  message,
+  Popconfirm,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Descriptions,
+  Statistic,
+} from 'antd';
+import {
+  ReadOutlined,
+  ReloadOutlined,
+  BookOutlined,
+  HistoryOutlined,
+  ClockCircleOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { Book, Borrower, LendingRecord, Reservation } from '@/lib/models';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+
+const { Content } = Layout;
+const { Title, Text } = Typography;
+
+const HISTORY_PAGE_SIZE = 10;
+
+interface LibraryAccount {
+  borrower: Borrower | null;
+  loans: LendingRecord[];
+  holds: Reservation[];
+  fineBalance: number;
+}
+
+export default function MyLibraryPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [account, setAccount] = useState<LibraryAccount | null>(null);
+  const [history, setHistory] = useState<LendingRecord[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [bookOptions, setBookOptions] = useState<Book[]>([]);
+  const [searchingBooks, setSearchingBooks] = useState(false);
+  const [selectedBookId, setSelectedBookId] = useState<string>();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchAccount = useCallback(async () => {
+    try {
+      const response = await fetch('/api/my-library');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch your library account');
+      }
+      setAccount(data);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to load your loans'
+      );
+    }
+  }, []);
+
+  const fetchHistory = useCallback(async () => {
+    setHistoryLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: String(historyPage),
+        limit: String(HISTORY_PAGE_SIZE),
+      });
+      const response = await fetch(`/api/my-library/history?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch loan history');
+      }
+      setHistory(data.loans);
+      setHistoryTotal(data.total);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to load loan history'
+      );
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [historyPage]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated') {
+      fetchAccount();
+    }
+  }, [status, router, fetchAccount]);
+
+  useEffect(() => {
+    if (account?.borrower) {
+      fetchHistory();
+    }
+  }, [account?.borrower, fetchHistory]);
+
+  const searchBooks = async (search: string) => {
+    if (!search.trim()) return;
+    setSearchingBooks(true);
+    try {
+      const params = new URLSearchParams({ search, limit: '20' });
+      const response = await fetch(`/api/books?${params}`);
+      if (!response.ok) throw new Error('Failed to search books');
+      setBookOptions((await response.json()).books);
+    } catch (err) {
+      message.error('Failed to search the catalogue');
+    } finally {
+      setSearchingBooks(false);
+    }
+  };
+
+  const handleRenew = async (loan: LendingRecord) => {
+    setBusyId(loan._id as string);
+    try {
+      const response = await fetch(`/api/my-library/loans/${loan._id}/renew`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to renew loan');
+
+      message.success(
+        `Renewed until ${dayjs(data.dueDate).format('MMM D, YYYY')}`
+      );
+      fetchAccount();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to renew');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRequest = async () => {
+    if (!selectedBookId) return;
+    setBusyId(selectedBookId);
+    try {
+      const response = await fetch('/api/my-library/holds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookId: selectedBookId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to request book');
+
+      message.success(
+        data.status === 'ready'
+          ? 'A copy has been set aside for you to pick up'
+          : `You are number ${data.queuePosition} in the queue`
+      );
+      setSelectedBookId(undefined);
+      fetchAccount();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to request book'
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancelHold = async (id: string) => {
+    setBusyId(id);
+    try {
+      const response = await fetch(`/api/my-library/holds/${id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to cancel hold');
+
+      message.success('Hold cancelled');
+      fetchAccount();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to cancel hold'
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (status === 'loading' || (status === 'authenticated' && !account)) {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated' || !account) {
+    return null;
+  }
+
+  const bookColumn = {
+    title: 'Book',
+    key: 'book',
+    render: (_: unknown, record: LendingRecord | Reservation) => (
+      <div>
+        <Text strong>{record.book?.title || 'Unknown book'}</Text>
+        <div className='text-xs text-gray-500'>{record.book?.author}</div>
+      </div>
+    ),
+  };
+
+  const loanColumns: ColumnsType<LendingRecord> = [
+    bookColumn,
+    {
+      title: 'Borrowed',
+      dataIndex: 'borrowDate',
+      key: 'borrowDate',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY'),
+    },
+    {
+      title: 'Due',
+      dataIndex: 'dueDate',
+      key: 'dueDate',
+      render: (date: string, record) =>
+        record.status === 'overdue' || dayjs(date).isBefore(dayjs()) ? (
+          <Tag color='red'>Overdue since {dayjs(date).format('MMM D')}</Tag>
+        ) : (
+          <span>
+            {dayjs(date).format('MMM D, YYYY')}
+            {dayjs(date).diff(dayjs(), 'day') <= 2 && (
+              <Tag color='orange' className='ml-2'>
+                Due soon
+              </Tag>
+            )}
+          </span>
+        ),
+    },
+    {
+      title: 'Renewals',
+      dataIndex: 'renewalCount',
+      key: 'renewalCount',
+      render: (count?: number) => count || 0,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Button
+          icon={<ReloadOutlined />}
+          loading={busyId === record._id}
+          onClick={() => handleRenew(record)}
+        >
+          Renew
+        </Button>
+      ),
+    },
+  ];
+
+  const holdColumns: ColumnsType<Reservation> = [
+    bookColumn,
+    {
+      title: 'Status',
+      key: 'status',
+      render: (_, record) =>
+        record.status === 'ready' ? (
+          <Tag color='green'>
+            Ready for pickup until{' '}
+            {dayjs(record.pickupBy).format('MMM D, YYYY')}
+          </Tag>
+        ) : (
+          <Tag color='blue'>#{record.queuePosition} in queue</Tag>
+        ),
+    },
+    {
+      title: 'Requested',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY'),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Popconfirm
+          title='Cancel this hold?'
+          onConfirm={() => handleCancelHold(record._id as string)}
+          okText='Cancel Hold'
+          cancelText='Keep'
+        >
+          <Button danger loading={busyId === record._id}>
+            Cancel
+          </Button>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  const historyColumns: ColumnsType<LendingRecord> = [
+    bookColumn,
+    {
+      title: 'Borrowed',
+      dataIndex: 'borrowDate',
+      key: 'borrowDate',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY'),
+    },
+    {
+      title: 'Returned',
+      key: 'returnDate',
+      render: (_, record) =>
+        record.status === 'lost' ? (
+          <Tag color='red'>Lost</Tag>
+        ) : record.returnDate ? (
+          dayjs(record.returnDate).format('MMM D, YYYY')
+        ) : (
+          '-'
+        ),
+    },
+  ];
+
+  const { borrower } = account;
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='My Library' />
+        <Content className='p-4 md:p-6 space-y-6'>
+          {!borrower ? (
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<ReadOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      No Library Card Linked
+                    </Title>
+                    <Text type='secondary'>
+                      Your account isn&apos;t linked to a borrower record yet.
+                      Ask a librarian to link one to see your loans here.
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          ) : (
+            <>
+              <Card className='rounded-lg shadow-sm border-0'>
+                <div className='flex flex-col md:flex-row md:items-center justify-between gap-4'>
+                  <div>
+                    <div className='flex items-center gap-2 mb-2'>
+                      <ReadOutlined className='text-blue-500 text-xl' />
+                      <Title level={4} className='m-0'>
+                        {borrower.name}
+                      </Title>
+                    </div>
+                    <Descriptions column={{ xs: 1, sm: 2 }} size='small'>
+                      <Descriptions.Item label='Member ID'>
+                        {borrower.memberId}
+                      </Descriptions.Item>
+                      <Descriptions.Item label='Role'>
+                        {borrower.role}
+                      </Descriptions.Item>
+                    </Descriptions>
+                  </div>
+                  <Space size='large'>
+                    <Statistic title='On Loan' value={account.loans.length} />
+                    <Statistic title='Holds' value={account.holds.length} />
+                    <Statistic
+                      title='Fines Owed'
+                      value={account.fineBalance}
+                      precision={2}
+                      valueStyle={
+                        account.fineBalance > 0 ? { color: '#cf1322' } : {}
+                      }
+                    />
+                  </Space>
+                </div>
+              </Card>
+
+              <Card
+                className='rounded-lg shadow-sm border-0'
+                bodyStyle={{ padding: 0 }}
+              >
+                <div className='p-4 border-b border-gray-200 flex items-center gap-2'>
+                  <BookOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Current Loans
+                  </Title>
+                </div>
+                <Table
+                  columns={loanColumns}
+                  dataSource={account.loans}
+                  rowKey={(record) => record._id as string}
+                  pagination={false}
+                  scroll={{ x: 'max-content' }}
+                  locale={{
+                    emptyText: <Empty description='Nothing on loan' />,
+                  }}
+                />
+              </Card>
+
+              <Card
+                className='rounded-lg shadow-sm border-0'
+                bodyStyle={{ padding: 0 }}
+              >
+                <div className='p-4 border-b border-gray-200 space-y-4'>
+                  <div className='flex items-center gap-2'>
+                    <ClockCircleOutlined className='text-blue-500 text-xl' />
+                    <Title level={4} className='m-0'>
+                      Holds & Requests
+                    </Title>
+                  </div>
+                  <Space wrap>
+                    <Select
+                      showSearch
+                      allowClear
+                      filterOption={false}
+                      placeholder='Search the catalogue to request a book'
+                      className='min-w-[320px]'
+                      value={selectedBookId}
+                      onSearch={searchBooks}
+                      onChange={setSelectedBookId}
+                      loading={searchingBooks}
+                      notFoundContent={
+                        searchingBooks ? <Spin size='small' /> : null
+                      }
+                      options={bookOptions.map((book) => ({
+                        value: book._id as string,
+                        label: `${book.title} by ${book.author} (${
+                          book.availableCopies > 0
+                            ? `${book.availableCopies} available`
+                            : 'all on loan'
+                        })`,
+                      }))}
+                    />
+                    <Button
+                      type='primary'
+                      disabled={!selectedBookId}
+                      loading={!!selectedBookId && busyId === selectedBookId}
+                      onClick={handleRequest}
+                    >
+                      Request
+                    </Button>
+                  </Space>
+                </div>
+                <Table
+                  columns={holdColumns}
+                  dataSource={account.holds}
+                  rowKey={(record) => record._id as string}
+                  pagination={false}
+                  scroll={{ x: 'max-content' }}
+                  locale={{ emptyText: <Empty description='No holds' /> }}
+                />
+              </Card>
+
+              <Card
+                className='rounded-lg shadow-sm border-0'
+                bodyStyle={{ padding: 0 }}
+              >
+                <div className='p-4 border-b border-gray-200 flex items-center gap-2'>
+                  <HistoryOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Loan History
+                  </Title>
+                </div>
+                <Table
+                  columns={historyColumns}
+                  dataSource={history}
+                  loading={historyLoading}
+                  rowKey={(record) => record._id as string}
+                  pagination={{
+                    current: historyPage,
+                    pageSize: HISTORY_PAGE_SIZE,
+                    total: historyTotal,
+                    showSizeChanger: false,
+                    onChange: setHistoryPage,
+                  }}
+                  scroll={{ x: 'max-content' }}
+                  locale={{
+                    emptyText: <Empty description='No past loans' />,
+                  }}
+                />
+              </Card>
+            </>
+          )}
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
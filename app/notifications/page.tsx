@@ -76,7 +76,10 @@ export default function NotificationsPage() {
       );
 
       setNotifications(formattedNotifications);
-      setUnreadCount(formattedNotifications.filter((n: any) => !n.read).length);
+      setUnreadCount(
+        data.unreadCount ??
+          formattedNotifications.filter((n: any) => !n.read).length
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
       message.error('Failed to load notifications');
@@ -0,0 +1,407 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  Select,
+  Modal,
+  Form,
+  message,
+  Popconfirm,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Alert,
+  Descriptions,
+  Tooltip,
+} from 'antd';
+import {
+  PlusOutlined,
+  DeleteOutlined,
+  KeyOutlined,
+  UserOutlined,
+  LogoutOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { signOut, useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { ApiToken, User } from '@/lib/models';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import TwoFactorCard from '@/components/TwoFactorCard';
+import SignInHistoryCard from '@/components/SignInHistoryCard';
+import ChangePasswordCard from '@/components/ChangePasswordCard';
+
+const { Content } = Layout;
+const { Title, Text, Paragraph } = Typography;
+
+const EXPIRY_OPTIONS = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+];
+
+export default function ProfilePage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [form] = Form.useForm();
+
+  // Everything but 2FA enrollment is blocked until it is set up
+  const setupRequired = !!session?.user?.twoFactorSetupRequired;
+  // and everything but a password change once the password has expired
+  const passwordExpired = !!session?.user?.passwordChangeRequired;
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (
+      status === 'authenticated' &&
+      !setupRequired &&
+      !passwordExpired
+    ) {
+      fetchTokens();
+    }
+  }, [status, router, setupRequired, passwordExpired]);
+
+  const fetchTokens = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/profile/tokens');
+      if (!response.ok) throw new Error('Failed to fetch API tokens');
+
+      const data = await response.json();
+      setTokens(data.tokens);
+    } catch (err) {
+      message.error('Failed to load API tokens');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevokeToken = async (id: string) => {
+    try {
+      const response = await fetch(`/api/profile/tokens/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to revoke token');
+
+      setTokens((prev) => prev.filter((t) => t._id !== id));
+      message.success('Token revoked');
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to revoke token'
+      );
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    try {
+      const response = await fetch('/api/profile/sessions', {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to sign out of all devices');
+
+      // This session was revoked too, clear its cookie
+      await signOut({ callbackUrl: '/auth/signin' });
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to sign out of all devices'
+      );
+    }
+  };
+
+  const handleModalOk = async () => {
+    try {
+      const values = await form.validateFields();
+      const response = await fetch('/api/profile/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          data.details
+            ? Object.values(data.details).join(', ')
+            : data.error || 'Failed to create token'
+        );
+      }
+
+      setModalVisible(false);
+      setCreatedToken(data.token);
+      fetchTokens();
+    } catch (err) {
+      if (err instanceof Error) message.error(err.message);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const user = session?.user as User | undefined;
+  const userPermissions = user?.permissions || [];
+
+  const columns: ColumnsType<ApiToken> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record) => (
+        <div>
+          <Text strong>{name}</Text>
+          <div className='text-xs text-gray-500'>
+            <code>{record.prefix}…</code>
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: 'Scopes',
+      dataIndex: 'scopes',
+      key: 'scopes',
+      render: (scopes: string[]) => (
+        <div className='flex flex-wrap gap-1 max-w-md'>
+          {scopes.map((scope) => (
+            <Tag key={scope}>{scope}</Tag>
+          ))}
+        </div>
+      ),
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expiresAt',
+      key: 'expiresAt',
+      render: (date: string | null) =>
+        !date ? (
+          'Never'
+        ) : dayjs(date).isBefore(dayjs()) ? (
+          <Tag color='red'>Expired {dayjs(date).format('MMM D, YYYY')}</Tag>
+        ) : (
+          dayjs(date).format('MMM D, YYYY')
+        ),
+    },
+    {
+      title: 'Last Used',
+      dataIndex: 'lastUsedAt',
+      key: 'lastUsedAt',
+      render: (date: string | null, record) =>
+        date ? (
+          <Tooltip
+            title={`${record.useCount ?? 0} request(s)${
+              record.lastUsedIp ? `, last from ${record.lastUsedIp}` : ''
+            }`}
+          >
+            {dayjs(date).format('MMM D, YYYY HH:mm')}
+          </Tooltip>
+        ) : (
+          <Text type='secondary'>Never</Text>
+        ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Popconfirm
+          title='Revoke this token? Scripts using it will stop working.'
+          onConfirm={() => handleRevokeToken(record._id as string)}
+          okText='Revoke'
+          cancelText='Cancel'
+        >
+          <Button danger icon={<DeleteOutlined />}>
+            Revoke
+          </Button>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Profile' />
+        <Content className='p-4 md:p-6 space-y-6'>
+          <Card className='rounded-lg shadow-sm border-0'>
+            <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4'>
+              <div className='flex items-center gap-2'>
+                <UserOutlined className='text-blue-500 text-xl' />
+                <Title level={4} className='m-0'>
+                  Account
+                </Title>
+              </div>
+              <Popconfirm
+                title='Sign out of all devices?'
+                description='Every browser signed in to your account, including this one, will need to sign in again.'
+                onConfirm={handleSignOutEverywhere}
+                okText='Sign Out'
+                cancelText='Cancel'
+              >
+                <Button icon={<LogoutOutlined />}>Sign Out All Devices</Button>
+              </Popconfirm>
+            </div>
+            <Descriptions column={{ xs: 1, sm: 3 }}>
+              <Descriptions.Item label='Name'>{user?.name}</Descriptions.Item>
+              <Descriptions.Item label='Email'>{user?.email}</Descriptions.Item>
+              <Descriptions.Item label='Role'>{user?.role}</Descriptions.Item>
+            </Descriptions>
+          </Card>
+
+          <ChangePasswordCard />
+
+          {!passwordExpired && <TwoFactorCard />}
+
+          {!passwordExpired && <SignInHistoryCard />}
+
+          {!setupRequired && !passwordExpired && (
+            <Card
+              className='rounded-lg shadow-sm border-0'
+              bodyStyle={{ padding: 0 }}
+            >
+              <div className='p-4 border-b border-gray-200'>
+                <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                  <div>
+                    <div className='flex items-center gap-2'>
+                      <KeyOutlined className='text-blue-500 text-xl' />
+                      <Title level={4} className='m-0'>
+                        API Tokens
+                      </Title>
+                    </div>
+                    <Text type='secondary'>
+                      Personal access tokens let scripts call the API as you.
+                      Send them as <code>Authorization: Bearer lms_…</code>
+                    </Text>
+                  </div>
+                  <Button
+                    type='primary'
+                    icon={<PlusOutlined />}
+                    onClick={() => {
+                      form.resetFields();
+                      setModalVisible(true);
+                    }}
+                    className='w-full sm:w-auto'
+                  >
+                    New Token
+                  </Button>
+                </div>
+              </div>
+              <Table
+                columns={columns}
+                dataSource={tokens}
+                loading={loading}
+                rowKey='_id'
+                pagination={false}
+                scroll={{ x: 'max-content' }}
+                className='w-full'
+                locale={{
+                  emptyText: <Empty description='No API tokens yet' />,
+                }}
+              />
+            </Card>
+          )}
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <KeyOutlined className='text-blue-500' />
+                New API Token
+              </div>
+            }
+            open={modalVisible}
+            onOk={handleModalOk}
+            okText='Create Token'
+            onCancel={() => setModalVisible(false)}
+            destroyOnClose
+          >
+            <Form
+              form={form}
+              layout='vertical'
+              className='mt-4'
+              initialValues={{ expiresInDays: 90 }}
+            >
+              <Form.Item
+                name='name'
+                label='Name'
+                rules={[
+                  { required: true, message: 'Please name the token!' },
+                  { max: 100 },
+                ]}
+              >
+                <Input placeholder='e.g., Nightly circulation export' />
+              </Form.Item>
+              <Form.Item
+                name='scopes'
+                label='Scopes'
+                extra='A token can only use permissions you hold yourself'
+                rules={[
+                  {
+                    required: true,
+                    message: 'Please select at least one scope!',
+                  },
+                ]}
+              >
+                <Select
+                  mode='multiple'
+                  placeholder='e.g., books:read'
+                  options={userPermissions.map((permission) => ({
+                    value: permission,
+                    label: permission,
+                  }))}
+                />
+              </Form.Item>
+              <Form.Item
+                name='expiresInDays'
+                label='Expires after'
+                rules={[{ required: true }]}
+              >
+                <Select options={EXPIRY_OPTIONS} />
+              </Form.Item>
+            </Form>
+          </Modal>
+
+          <Modal
+            title='Copy your new token'
+            open={!!createdToken}
+            onOk={() => setCreatedToken(null)}
+            onCancel={() => setCreatedToken(null)}
+            cancelButtonProps={{ style: { display: 'none' } }}
+            okText='Done'
+          >
+            <Alert
+              type='warning'
+              showIcon
+              className='mb-4'
+              message="This is the only time the token is shown. Store it somewhere safe, it can't be recovered."
+            />
+            <Paragraph copyable className='font-mono break-all'>
+              {createdToken}
+            </Paragraph>
+          </Modal>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
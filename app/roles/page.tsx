@@ -0,0 +1,494 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  Checkbox,
+  Switch,
+  InputNumber,
+  Space,
+  Modal,
+  Form,
+  message,
+  Popconfirm,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Alert,
+} from 'antd';
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  TeamOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { Role } from '@/lib/models';
+import { PERMISSIONS, SUPER_ADMIN_ROLE } from '@/lib/auth';
+import type { ColumnsType } from 'antd/es/table';
+
+const { Content } = Layout;
+const { Title, Text } = Typography;
+
+const ALL_PERMISSIONS: string[] = Object.values(PERMISSIONS);
+
+const GROUP_LABELS: Record<string, string> = {
+  api_docs: 'API Docs',
+  audit: 'Audit Log',
+};
+
+const titleCase = (value: string) =>
+  value
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+// One row per resource, one checkbox per action, e.g. books -> read/create
+const PERMISSION_GROUPS = ALL_PERMISSIONS.reduce<
+  { resource: string; label: string; permissions: string[] }[]
+>((groups, permission) => {
+  const [resource] = permission.split(':');
+  const group = groups.find((g) => g.resource === resource);
+  if (group) {
+    group.permissions.push(permission);
+  } else {
+    groups.push({
+      resource,
+      label: GROUP_LABELS[resource] || titleCase(resource),
+      permissions: [permission],
+    });
+  }
+  return groups;
+}, []);
+
+export default function RolesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [form] = Form.useForm();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated') {
+      fetchRoles();
+    }
+  }, [status, router]);
+
+  const fetchRoles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/roles');
+      if (!response.ok) throw new Error('Failed to fetch roles');
+
+      const data = await response.json();
+      setRoles(data.roles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch roles');
+      message.error('Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isSuperAdmin = editingRole?.name === SUPER_ADMIN_ROLE;
+
+  const handleAddRole = () => {
+    setEditingRole(null);
+    form.resetFields();
+    setModalVisible(true);
+  };
+
+  const handleEditRole = (role: Role) => {
+    setEditingRole(role);
+    form.setFieldsValue({
+      name: role.name,
+      description: role.description,
+      requireTwoFactor: !!role.requireTwoFactor,
+      passwordMaxAgeDays: role.passwordMaxAgeDays ?? null,
+      permissions:
+        role.name === SUPER_ADMIN_ROLE ? ALL_PERMISSIONS : role.permissions,
+    });
+    setModalVisible(true);
+  };
+
+  const handleDeleteRole = async (id: string) => {
+    try {
+      const response = await fetch(`/api/roles/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete role');
+      }
+
+      setRoles((prev) => prev.filter((r) => r._id !== id));
+      message.success('Role deleted successfully');
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to delete role'
+      );
+    }
+  };
+
+  const handleModalOk = async () => {
+    try {
+      const values = await form.validateFields();
+      // Super Admin's permissions are fixed, so only its description is sent
+      const { permissions, ...rest } = values;
+      const response = await fetch(
+        editingRole ? `/api/roles/${editingRole._id}` : '/api/roles',
+        {
+          method: editingRole ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            isSuperAdmin ? rest : { ...rest, permissions: permissions || [] }
+          ),
+        }
+      );
+
+      if (response.ok) {
+        message.success(
+          editingRole
+            ? 'Role updated successfully!'
+            : 'Role added successfully!'
+        );
+        setModalVisible(false);
+        fetchRoles();
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Operation failed');
+      }
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Operation failed');
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const canReadRoles =
+    session?.user?.permissions?.includes(PERMISSIONS.ROLES_READ) || false;
+  const canCreateRoles =
+    session?.user?.permissions?.includes(PERMISSIONS.ROLES_CREATE) || false;
+  const canUpdateRoles =
+    session?.user?.permissions?.includes(PERMISSIONS.ROLES_UPDATE) || false;
+  const canDeleteRoles =
+    session?.user?.permissions?.includes(PERMISSIONS.ROLES_DELETE) || false;
+
+  const columns: ColumnsType<Role> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record) => (
+        <Space>
+          <Text strong>{name}</Text>
+          {record.builtIn && <Tag color='blue'>Built-in</Tag>}
+          {record.requireTwoFactor && <Tag color='gold'>2FA required</Tag>}
+          {record.passwordMaxAgeDays && (
+            <Tag color='purple'>
+              Password expires every {record.passwordMaxAgeDays} days
+            </Tag>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      render: (description?: string) => description || '-',
+    },
+    {
+      title: 'Permissions',
+      dataIndex: 'permissions',
+      key: 'permissions',
+      render: (permissions: string[], record) =>
+        record.name === SUPER_ADMIN_ROLE ? (
+          <Tag color='red'>All</Tag>
+        ) : (
+          `${permissions.length} of ${ALL_PERMISSIONS.length}`
+        ),
+    },
+    {
+      title: 'Users',
+      dataIndex: 'userCount',
+      key: 'userCount',
+      render: (count?: number) => count ?? 0,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Space>
+          {canUpdateRoles && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => handleEditRole(record)}
+            >
+              Edit
+            </Button>
+          )}
+          {canDeleteRoles && !record.builtIn && (
+            <Popconfirm
+              title='Are you sure you want to delete this role?'
+              onConfirm={() => handleDeleteRole(record._id as string)}
+              okText='Yes'
+              cancelText='No'
+              disabled={!!record.userCount}
+            >
+              <Button
+                danger
+                icon={<DeleteOutlined />}
+                disabled={!!record.userCount}
+                title={
+                  record.userCount
+                    ? 'Reassign the users holding this role first'
+                    : undefined
+                }
+              >
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  if (!canReadRoles) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Roles & Permissions' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<TeamOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to view roles
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Roles & Permissions' />
+        <Content className='p-4 md:p-6'>
+          <Card
+            className='rounded-lg shadow-sm border-0'
+            bodyStyle={{ padding: 0 }}
+          >
+            <div className='p-4 border-b border-gray-200'>
+              <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex items-center gap-2'>
+                  <TeamOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Roles & Permissions
+                  </Title>
+                </div>
+                {canCreateRoles && (
+                  <Button
+                    type='primary'
+                    icon={<PlusOutlined />}
+                    onClick={handleAddRole}
+                    className='w-full sm:w-auto'
+                  >
+                    Add Role
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {error ? (
+              <Alert
+                message='Error Loading Roles'
+                description={error}
+                type='error'
+                showIcon
+                className='m-4'
+              />
+            ) : loading ? (
+              <div className='text-center py-8'>
+                <Spin size='large' tip='Loading roles...' />
+              </div>
+            ) : (
+              <Table
+                columns={columns}
+                dataSource={roles}
+                rowKey='_id'
+                pagination={false}
+                scroll={{ x: 'max-content' }}
+                className='w-full'
+                locale={{
+                  emptyText: <Empty description='No roles defined yet' />,
+                }}
+              />
+            )}
+          </Card>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <TeamOutlined className='text-blue-500' />
+                {editingRole ? 'Edit Role' : 'Add Role'}
+              </div>
+            }
+            open={modalVisible}
+            onOk={handleModalOk}
+            onCancel={() => setModalVisible(false)}
+            width={760}
+            destroyOnClose
+          >
+            <Form
+              form={form}
+              layout='vertical'
+              className='mt-4'
+              initialValues={{
+                permissions: [PERMISSIONS.DASHBOARD_READ],
+                requireTwoFactor: false,
+              }}
+            >
+              <Form.Item
+                name='name'
+                label='Name'
+                rules={[
+                  { required: true, message: 'Please input the role name!' },
+                  { min: 2, max: 50 },
+                ]}
+                extra={
+                  editingRole?.builtIn
+                    ? 'Built-in roles cannot be renamed'
+                    : undefined
+                }
+              >
+                <Input
+                  placeholder='e.g., Paralegal'
+                  disabled={editingRole?.builtIn}
+                />
+              </Form.Item>
+
+              <Form.Item name='description' label='Description'>
+                <Input.TextArea rows={2} placeholder='What this role is for' />
+              </Form.Item>
+
+              <Form.Item
+                name='requireTwoFactor'
+                label='Require two-factor authentication'
+                valuePropName='checked'
+                extra='Users with this role must set up an authenticator app before they can continue'
+              >
+                <Switch />
+              </Form.Item>
+
+              <Form.Item
+                name='passwordMaxAgeDays'
+                label='Password expiry'
+                extra='Users with this role must choose a new password once it is this old. Leave empty for passwords that never expire.'
+              >
+                <InputNumber
+                  min={1}
+                  max={3650}
+                  precision={0}
+                  addonAfter='days'
+                  placeholder='Never'
+                  className='w-48'
+                />
+              </Form.Item>
+
+              <div className='flex items-center justify-between mb-2'>
+                <Text strong>Permissions</Text>
+                {!isSuperAdmin && (
+                  <Space>
+                    <Button
+                      size='small'
+                      onClick={() =>
+                        form.setFieldsValue({ permissions: ALL_PERMISSIONS })
+                      }
+                    >
+                      Select all
+                    </Button>
+                    <Button
+                      size='small'
+                      onClick={() => form.setFieldsValue({ permissions: [] })}
+                    >
+                      Clear
+                    </Button>
+                  </Space>
+                )}
+              </div>
+              {isSuperAdmin && (
+                <Alert
+                  type='info'
+                  showIcon
+                  className='mb-2'
+                  message={`${SUPER_ADMIN_ROLE} always has every permission`}
+                />
+              )}
+              <Form.Item name='permissions' noStyle>
+                <Checkbox.Group disabled={isSuperAdmin} className='w-full'>
+                  <div className='w-full border border-gray-200 rounded'>
+                    {PERMISSION_GROUPS.map((group) => (
+                      <div
+                        key={group.resource}
+                        className='flex flex-col sm:flex-row sm:items-center gap-2 px-3 py-2 border-b border-gray-100 last:border-b-0'
+                      >
+                        <Text className='sm:w-40 shrink-0'>{group.label}</Text>
+                        <Space wrap>
+                          {group.permissions.map((permission) => (
+                            <Checkbox key={permission} value={permission}>
+                              {titleCase(permission.split(':')[1])}
+                            </Checkbox>
+                          ))}
+                        </Space>
+                      </div>
+                    ))}
+                  </div>
+                </Checkbox.Group>
+              </Form.Item>
+            </Form>
+          </Modal>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
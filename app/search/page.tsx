@@ -17,20 +17,62 @@ import {
   Alert,
   Tag,
   Empty,
+  Checkbox,
+  Divider,
 } from 'antd';
-import { SearchOutlined } from '@ant-design/icons';
+import { FilterOutlined, SearchOutlined } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
-import type { Book, Borrower } from '@/lib/models';
+import type { Book, BookCitation, Borrower } from '@/lib/models';
 import { PERMISSIONS } from '@/lib/auth';
+import type { BookFacet, BookSearchFilters, FacetCount } from '@/lib/search';
+import { formatCitation } from '@/lib/citations';
 
 const { Content } = Layout;
 const { Option } = Select;
 const { Title, Text } = Typography;
 
 type SearchType = 'books' | 'borrowers';
+
+const facetTitles: Record<BookFacet, string> = {
+  category: 'Category',
+  author: 'Author',
+  availability: 'Availability',
+  shelf: 'Shelf',
+};
+const availabilityLabels: Record<string, string> = {
+  available: 'Available',
+  unavailable: 'All copies out',
+};
+
+/**
+ * Text with the words that start with one of the search terms marked.
+ */
+function Highlight({ text, terms }: { text?: string; terms: string[] }) {
+  if (!text || terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(
+    `\\b(${terms
+      .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|')})`,
+    'gi'
+  );
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className='bg-yellow-200 rounded-sm px-0.5'>
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
 // export const dynamic = 'force-dynamic';
 export default function SearchFilterPage() {
   const { data: session, status } = useSession();
@@ -45,15 +87,13 @@ export default function SearchFilterPage() {
     pageSize: 10,
     total: 0,
   });
-
-  const bookCategories = [
-    'Textbook',
-    'Statute',
-    'Law Report',
-    'Case Law',
-    'Journal',
-    'Reference',
-  ];
+  const [filters, setFilters] = useState<BookSearchFilters>({});
+  const [facets, setFacets] = useState<Record<BookFacet, FacetCount[]> | null>(
+    null
+  );
+  const [terms, setTerms] = useState<string[]>([]);
+  const [correctedQuery, setCorrectedQuery] = useState<string | null>(null);
+  const [citation, setCitation] = useState<BookCitation | null>(null);
 
   const borrowerRoles = ['Intern', 'Lawyer', 'Staff', 'Partner', 'Associate'];
 
@@ -63,14 +103,22 @@ export default function SearchFilterPage() {
     } else if (status === 'authenticated') {
       setSearchResults([]);
       setPagination({ current: 1, pageSize: 10, total: 0 });
+      setFilters({});
+      setFacets(null);
     }
   }, [status, router, searchType]);
 
-  const handleSearch = async (value: string, page = 1, pageSize = 10) => {
+  const handleSearch = async (
+    value: string,
+    page = 1,
+    pageSize = 10,
+    bookFilters = filters
+  ) => {
     setSearchQuery(value);
     if (!value.trim()) {
       setSearchResults([]);
       setPagination((prev) => ({ ...prev, total: 0 }));
+      setFacets(null);
       return;
     }
 
@@ -78,12 +126,22 @@ export default function SearchFilterPage() {
     setError(null);
 
     try {
-      const endpoint = searchType === 'books' ? '/api/books' : '/api/borrowers';
       const params = new URLSearchParams({
         page: page.toString(),
         limit: pageSize.toString(),
-        search: value,
       });
+      if (searchType === 'books') {
+        params.set('q', value);
+        Object.entries(bookFilters).forEach(([facet, values]) =>
+          (values as string[] | undefined)?.forEach((facetValue) =>
+            params.append(facet, facetValue)
+          )
+        );
+      } else {
+        params.set('search', value);
+      }
+      const endpoint =
+        searchType === 'books' ? '/api/books/search' : '/api/borrowers';
 
       const response = await fetch(`${endpoint}?${params.toString()}`);
       if (!response.ok) throw new Error(`Failed to fetch ${searchType}`);
@@ -100,6 +158,12 @@ export default function SearchFilterPage() {
         pageSize,
         total: data.total,
       });
+      if (searchType === 'books') {
+        setFacets(data.facets);
+        setTerms(data.terms);
+        setCorrectedQuery(data.correctedQuery || null);
+        setCitation(data.citation || null);
+      }
     } catch (err) {
       setError(
         err instanceof Error ? err.message : 'An error occurred during search'
@@ -109,6 +173,12 @@ export default function SearchFilterPage() {
     }
   };
 
+  const handleFacetChange = (facet: BookFacet, values: string[]) => {
+    const next = { ...filters, [facet]: values };
+    setFilters(next);
+    handleSearch(searchQuery, 1, pagination.pageSize, next);
+  };
+
   const handleTableChange = (newPagination: any) => {
     setPagination(newPagination);
     handleSearch(searchQuery, newPagination.current, newPagination.pageSize);
@@ -119,20 +189,35 @@ export default function SearchFilterPage() {
       title: 'Book ID',
       dataIndex: 'bookId',
       key: 'bookId',
-      sorter: (a: Book, b: Book) => a.bookId.localeCompare(b.bookId),
+      render: (bookId: string) => <Highlight text={bookId} terms={terms} />,
     },
     {
       title: 'Title',
       dataIndex: 'title',
       key: 'title',
-      sorter: (a: Book, b: Book) => a.title.localeCompare(b.title),
-      render: (text: string) => <Text strong>{text}</Text>,
+      render: (text: string, record: Book) => (
+        <div>
+          <Text strong>
+            <Highlight text={text} terms={terms} />
+          </Text>
+          {record.citation && (
+            <div className='text-xs text-gray-500'>
+              {formatCitation(record.citation)}
+            </div>
+          )}
+          {!!record.keywords?.length && (
+            <div className='text-xs text-gray-500'>
+              <Highlight text={record.keywords.join(', ')} terms={terms} />
+            </div>
+          )}
+        </div>
+      ),
     },
     {
       title: 'Author',
       dataIndex: 'author',
       key: 'author',
-      sorter: (a: Book, b: Book) => a.author.localeCompare(b.author),
+      render: (author: string) => <Highlight text={author} terms={terms} />,
     },
     {
       title: 'Category',
@@ -143,19 +228,17 @@ export default function SearchFilterPage() {
           {category}
         </Tag>
       ),
-      filters: bookCategories.map((cat) => ({ text: cat, value: cat })),
-      onFilter: (value: string, record: Book) => record.category === value,
     },
     {
       title: 'ISBN',
       dataIndex: 'isbn',
       key: 'isbn',
+      render: (isbn: string) => <Highlight text={isbn} terms={terms} />,
     },
     {
       title: 'Available Copies',
       dataIndex: 'availableCopies',
       key: 'availableCopies',
-      sorter: (a: Book, b: Book) => a.availableCopies - b.availableCopies,
       render: (availableCopies: number) => (
         <Tag color={availableCopies > 0 ? 'green' : 'red'}>
           {availableCopies}
@@ -280,6 +363,8 @@ export default function SearchFilterPage() {
                     setSearchResults([]);
                     setSearchQuery('');
                     setPagination({ current: 1, pageSize: 10, total: 0 });
+                    setFilters({});
+                    setFacets(null);
                   }}
                   className='w-full'
                 >
@@ -293,7 +378,7 @@ export default function SearchFilterPage() {
                 <Input.Search
                   placeholder={
                     searchType === 'books'
-                      ? 'Search by title, author, ISBN...'
+                      ? 'Search by title, author, subject, ISBN or citation...'
                       : 'Search by name, email, member ID...'
                   }
                   onSearch={(value) =>
@@ -319,38 +404,112 @@ export default function SearchFilterPage() {
               />
             )}
 
-            {loading && searchResults.length === 0 ? (
-              <div className='text-center py-8'>
-                <Spin size='large' tip='Searching...' />
-              </div>
-            ) : searchResults.length === 0 && searchQuery ? (
-              <Empty
-                description={
-                  <div className='space-y-2'>
-                    <Text strong>No results found</Text>
-                    <Text type='secondary'>Try a different search term</Text>
-                  </div>
+            {searchType === 'books' && correctedQuery && (
+              <Alert
+                type='info'
+                showIcon
+                className='mb-4'
+                message={
+                  <span>
+                    Showing results for <Text strong>{correctedQuery}</Text>{' '}
+                    instead of <Text italic>{searchQuery}</Text>
+                  </span>
                 }
-                className='py-8'
               />
-            ) : (
-              <Table
-                columns={searchType === 'books' ? bookColumns : borrowerColumns}
-                dataSource={searchResults}
-                loading={loading}
-                rowKey='_id'
-                pagination={{
-                  ...pagination,
-                  showSizeChanger: true,
-                  showQuickJumper: true,
-                  showTotal: (total, range) =>
-                    `${range[0]}-${range[1]} of ${total} ${searchType}`,
-                }}
-                onChange={handleTableChange}
-                scroll={{ x: 'max-content' }}
-                className='w-full'
+            )}
+
+            {searchType === 'books' && citation && (
+              <Alert
+                type='info'
+                showIcon
+                className='mb-4'
+                message={
+                  <span>
+                    Showing volumes and cases matching the citation{' '}
+                    <Text strong>{formatCitation(citation)}</Text>
+                  </span>
+                }
               />
             )}
+
+            <Row gutter={[16, 16]}>
+              {searchType === 'books' && facets && (
+                <Col xs={24} lg={6}>
+                  <div className='flex items-center gap-2 mb-2'>
+                    <FilterOutlined className='text-blue-500' />
+                    <Text strong>Refine results</Text>
+                  </div>
+                  {(Object.keys(facetTitles) as BookFacet[]).map((facet) => (
+                    <div key={facet}>
+                      <Divider orientation='left' plain className='my-2'>
+                        {facetTitles[facet]}
+                      </Divider>
+                      {facets[facet].length === 0 ? (
+                        <Text type='secondary' className='text-xs'>
+                          No values
+                        </Text>
+                      ) : (
+                        <Checkbox.Group
+                          className='flex flex-col gap-1'
+                          value={filters[facet] ?? []}
+                          onChange={(values) =>
+                            handleFacetChange(facet, values as string[])
+                          }
+                        >
+                          {facets[facet].map(({ value, count }) => (
+                            <Checkbox key={value} value={value}>
+                              {facet === 'availability'
+                                ? availabilityLabels[value] ?? value
+                                : value}{' '}
+                              <Text type='secondary'>({count})</Text>
+                            </Checkbox>
+                          ))}
+                        </Checkbox.Group>
+                      )}
+                    </div>
+                  ))}
+                </Col>
+              )}
+
+              <Col xs={24} lg={searchType === 'books' && facets ? 18 : 24}>
+                {loading && searchResults.length === 0 ? (
+                  <div className='text-center py-8'>
+                    <Spin size='large' tip='Searching...' />
+                  </div>
+                ) : searchResults.length === 0 && searchQuery ? (
+                  <Empty
+                    description={
+                      <div className='space-y-2'>
+                        <Text strong>No results found</Text>
+                        <Text type='secondary'>
+                          Try a different search term
+                        </Text>
+                      </div>
+                    }
+                    className='py-8'
+                  />
+                ) : (
+                  <Table
+                    columns={
+                      searchType === 'books' ? bookColumns : borrowerColumns
+                    }
+                    dataSource={searchResults}
+                    loading={loading}
+                    rowKey='_id'
+                    pagination={{
+                      ...pagination,
+                      showSizeChanger: true,
+                      showQuickJumper: true,
+                      showTotal: (total, range) =>
+                        `${range[0]}-${range[1]} of ${total} ${searchType}`,
+                    }}
+                    onChange={handleTableChange}
+                    scroll={{ x: 'max-content' }}
+                    className='w-full'
+                  />
+                )}
+              </Col>
+            </Row>
           </Card>
         </Content>
       </Layout>
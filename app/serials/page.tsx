@@ -0,0 +1,986 @@
+/** @format */
+
+'use client';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+import { useState, useEffect } from 'react';
+import {
+  Layout,
+  Table,
+  Button,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Space,
+  Modal,
+  Form,
+  message,
+  Tag,
+  Card,
+  Typography,
+  Spin,
+  Empty,
+  Alert,
+  Descriptions,
+  DatePicker,
+  AutoComplete,
+  Tooltip,
+} from 'antd';
+import {
+  PlusOutlined,
+  EditOutlined,
+  ContainerOutlined,
+  InboxOutlined,
+  UnorderedListOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import Sidebar from '@/components/layout/sidebar';
+import Header from '@/components/layout/header';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import type { Serial, SerialFrequency, SerialIssue } from '@/lib/models';
+import type { IssueState, getHoldings } from '@/lib/serials';
+import { PERMISSIONS } from '@/lib/auth';
+import { LAW_REPORT_SERIES } from '@/lib/citations';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+
+const { Content } = Layout;
+const { Option } = Select;
+const { Title, Text } = Typography;
+
+type SerialRow = Serial & { holdings: ReturnType<typeof getHoldings> };
+type IssueRow = SerialIssue & { label: string; state: IssueState };
+type LateIssueRow = IssueRow & {
+  serial: Pick<Serial, '_id' | 'title' | 'code' | 'publisher'>;
+  daysLate: number;
+};
+
+const frequencies: SerialFrequency[] = [
+  'weekly',
+  'fortnightly',
+  'monthly',
+  'bimonthly',
+  'quarterly',
+  'semiannual',
+  'annual',
+  'irregular',
+];
+
+const stateColors: Record<IssueState, string> = {
+  expected: 'blue',
+  late: 'orange',
+  missing: 'red',
+  received: 'green',
+  claimed: 'purple',
+  not_published: 'default',
+};
+
+const formatDate = (date?: Date | string) =>
+  date ? dayjs(date).format('MMM D, YYYY') : '-';
+
+export default function SerialsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [serials, setSerials] = useState<SerialRow[]>([]);
+  const [lateIssues, setLateIssues] = useState<LateIssueRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingSerial, setEditingSerial] = useState<SerialRow | null>(null);
+  const [form] = Form.useForm();
+  const formCategory = Form.useWatch('category', form);
+  const [openSerial, setOpenSerial] = useState<SerialRow | null>(null);
+  const [issues, setIssues] = useState<IssueRow[]>([]);
+  const [issuesLoading, setIssuesLoading] = useState(false);
+  // The expected part being checked in, or null for one that arrived unannounced
+  const [checkInIssue, setCheckInIssue] = useState<IssueRow | null>(null);
+  const [checkInVisible, setCheckInVisible] = useState(false);
+  const [checkInForm] = Form.useForm();
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    } else if (status === 'authenticated') {
+      fetchSerials();
+    }
+  }, [status, router]);
+
+  const fetchSerials = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [serialsResponse, lateResponse] = await Promise.all([
+        fetch('/api/serials'),
+        fetch('/api/serials/late'),
+      ]);
+      if (!serialsResponse.ok || !lateResponse.ok) {
+        throw new Error('Failed to fetch serials');
+      }
+
+      setSerials((await serialsResponse.json()).serials);
+      setLateIssues((await lateResponse.json()).issues);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch serials');
+      message.error('Failed to load serials');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchIssues = async (serialId: string) => {
+    setIssuesLoading(true);
+    try {
+      const response = await fetch(`/api/serials/${serialId}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load parts');
+
+      setOpenSerial(data.serial);
+      setIssues(data.issues);
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to load parts'
+      );
+    } finally {
+      setIssuesLoading(false);
+    }
+  };
+
+  const handleOpenSerial = (serial: SerialRow) => {
+    setOpenSerial(serial);
+    setIssues([]);
+    fetchIssues(serial._id as string);
+  };
+
+  const handleAddSerial = () => {
+    setEditingSerial(null);
+    form.resetFields();
+    setModalVisible(true);
+  };
+
+  const handleEditSerial = (serial: SerialRow) => {
+    setEditingSerial(serial);
+    form.setFieldsValue(serial);
+    setModalVisible(true);
+  };
+
+  const handleModalOk = async () => {
+    try {
+      const values = await form.validateFields();
+      const { firstIssue, ...serial } = values;
+      const payload = {
+        ...serial,
+        ...(serial.category !== 'Law Report' && { series: undefined }),
+        ...(!editingSerial &&
+          firstIssue?.part && {
+            firstIssue: {
+              ...firstIssue,
+              expectedDate: firstIssue.expectedDate?.toISOString(),
+            },
+          }),
+      };
+
+      const response = await fetch(
+        editingSerial ? `/api/serials/${editingSerial._id}` : '/api/serials',
+        {
+          method: editingSerial ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (response.ok) {
+        message.success(
+          editingSerial
+            ? 'Serial updated successfully!'
+            : 'Serial added successfully!'
+        );
+        setModalVisible(false);
+        fetchSerials();
+      } else {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.details
+            ? Object.values(errorData.details).join('; ')
+            : errorData.error || 'Operation failed'
+        );
+      }
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Operation failed');
+    }
+  };
+
+  const handleCheckIn = (issue: IssueRow | null) => {
+    setCheckInIssue(issue);
+    checkInForm.resetFields();
+    checkInForm.setFieldsValue({
+      receivedDate: dayjs(),
+      copies: openSerial?.copiesPerIssue ?? 1,
+      condition: 'new',
+    });
+    setCheckInVisible(true);
+  };
+
+  const handleCheckInOk = async () => {
+    if (!openSerial) return;
+    try {
+      const values = await checkInForm.validateFields();
+      setSubmitting(true);
+      const response = await fetch(`/api/serials/${openSerial._id}/check-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...values,
+          ...(checkInIssue && { issueId: checkInIssue._id }),
+          receivedDate: values.receivedDate?.toISOString(),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to check in');
+
+      message.success(
+        `${data.issue.label} checked in as ${data.book.bookId}, ready to lend`
+      );
+      setCheckInVisible(false);
+      fetchIssues(openSerial._id as string);
+      fetchSerials();
+    } catch (err) {
+      if (err instanceof Error) message.error(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUpdateIssue = async (
+    serialId: string,
+    issue: IssueRow,
+    update: Partial<SerialIssue>,
+    success: string
+  ) => {
+    try {
+      const response = await fetch(
+        `/api/serials/${serialId}/issues/${issue._id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(update),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update part');
+
+      message.success(success);
+      if (openSerial) fetchIssues(openSerial._id as string);
+      fetchSerials();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to update part'
+      );
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className='min-h-screen flex justify-center items-center'>
+        <Spin size='large' tip='Loading...' />
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return null;
+  }
+
+  const canReadSerials =
+    session?.user?.permissions?.includes(PERMISSIONS.BOOKS_READ) || false;
+  const canCreateSerials =
+    session?.user?.permissions?.includes(PERMISSIONS.BOOKS_CREATE) || false;
+  const canUpdateSerials =
+    session?.user?.permissions?.includes(PERMISSIONS.BOOKS_UPDATE) || false;
+
+  const renderState = (state: IssueState) => (
+    <Tag color={stateColors[state]} className='capitalize'>
+      {state.replace('_', ' ')}
+    </Tag>
+  );
+
+  const columns: ColumnsType<SerialRow> = [
+    {
+      title: 'Title',
+      dataIndex: 'title',
+      key: 'title',
+      render: (text: string, record) => (
+        <div>
+          <Text strong>{text}</Text>
+          <div className='text-xs text-gray-500'>
+            {[record.code, record.publisher, record.issn]
+              .filter(Boolean)
+              .join(' · ')}
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: 'Category',
+      dataIndex: 'category',
+      key: 'category',
+      render: (category: string) => (
+        <Tag color={category === 'Law Report' ? 'purple' : 'cyan'}>
+          {category}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Frequency',
+      dataIndex: 'frequency',
+      key: 'frequency',
+      render: (frequency: string, record) => (
+        <Space size={4}>
+          <span className='capitalize'>{frequency}</span>
+          {record.status === 'ceased' && <Tag>Ceased</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Holdings',
+      key: 'holdings',
+      render: (_, record) => (
+        <div>
+          <Text>{record.holdings.statement}</Text>
+          <div className='text-xs text-gray-500'>
+            {record.holdings.received} part(s) received
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: 'Outstanding',
+      key: 'outstanding',
+      render: (_, record) => {
+        const { late, missing, claimed } = record.holdings;
+        if (!late.length && !missing.length && !claimed.length) {
+          return <Tag color='green'>Up to date</Tag>;
+        }
+        return (
+          <Space size={4} wrap>
+            {!!missing.length && (
+              <Tooltip title={missing.join(', ')}>
+                <Tag color='red'>{missing.length} missing</Tag>
+              </Tooltip>
+            )}
+            {!!late.length && (
+              <Tooltip title={late.join(', ')}>
+                <Tag color='orange'>{late.length} late</Tag>
+              </Tooltip>
+            )}
+            {!!claimed.length && (
+              <Tooltip title={claimed.join(', ')}>
+                <Tag color='purple'>{claimed.length} claimed</Tag>
+              </Tooltip>
+            )}
+          </Space>
+        );
+      },
+    },
+    {
+      title: 'Next Expected',
+      key: 'nextExpected',
+      render: (_, record) =>
+        record.holdings.nextExpected ? (
+          <div>
+            <Text>{record.holdings.nextExpected.label}</Text>
+            <div className='text-xs text-gray-500'>
+              {formatDate(record.holdings.nextExpected.expectedDate)}
+            </div>
+          </div>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) => (
+        <Space>
+          <Button
+            icon={<UnorderedListOutlined />}
+            onClick={() => handleOpenSerial(record)}
+          >
+            Parts
+          </Button>
+          {canUpdateSerials && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => handleEditSerial(record)}
+            >
+              Edit
+            </Button>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  const issueColumns: ColumnsType<IssueRow> = [
+    {
+      title: 'Part',
+      dataIndex: 'label',
+      key: 'label',
+      render: (label: string, record) => (
+        <div>
+          <Text strong>{label}</Text>
+          <div className='text-xs text-gray-500'>{record.year}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'state',
+      key: 'state',
+      render: renderState,
+    },
+    {
+      title: 'Expected',
+      dataIndex: 'expectedDate',
+      key: 'expectedDate',
+      render: (date?: string) => (date ? formatDate(date) : 'Unannounced'),
+    },
+    {
+      title: 'Received',
+      dataIndex: 'receivedDate',
+      key: 'receivedDate',
+      render: (date?: string) => formatDate(date),
+    },
+    {
+      title: 'Notes',
+      dataIndex: 'notes',
+      key: 'notes',
+      render: (notes?: string) =>
+        notes ? <Text type='secondary'>{notes}</Text> : null,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) =>
+        record.status === 'received' ? null : (
+          <Space>
+            {canCreateSerials && (
+              <Button
+                size='small'
+                type='primary'
+                icon={<InboxOutlined />}
+                onClick={() => handleCheckIn(record)}
+              >
+                Check In
+              </Button>
+            )}
+            {canUpdateSerials &&
+              (record.state === 'late' || record.state === 'missing') && (
+                <Button
+                  size='small'
+                  onClick={() =>
+                    handleUpdateIssue(
+                      openSerial!._id as string,
+                      record,
+                      { status: 'claimed' },
+                      `${record.label} marked as claimed`
+                    )
+                  }
+                >
+                  Claim
+                </Button>
+              )}
+            {canUpdateSerials && record.status !== 'not_published' && (
+              <Button
+                size='small'
+                onClick={() =>
+                  handleUpdateIssue(
+                    openSerial!._id as string,
+                    record,
+                    { status: 'not_published' },
+                    `${record.label} marked as not published`
+                  )
+                }
+              >
+                Not Published
+              </Button>
+            )}
+          </Space>
+        ),
+    },
+  ];
+
+  const lateColumns: ColumnsType<LateIssueRow> = [
+    {
+      title: 'Serial',
+      key: 'serial',
+      render: (_, record) => (
+        <div>
+          <Text strong>{record.serial.title}</Text>
+          {record.serial.publisher && (
+            <div className='text-xs text-gray-500'>
+              {record.serial.publisher}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    { title: 'Part', dataIndex: 'label', key: 'label' },
+    {
+      title: 'Status',
+      dataIndex: 'state',
+      key: 'state',
+      render: renderState,
+    },
+    {
+      title: 'Expected',
+      dataIndex: 'expectedDate',
+      key: 'expectedDate',
+      render: (date: string | undefined, record) =>
+        date ? (
+          <div>
+            {formatDate(date)}
+            <div className='text-xs text-gray-500'>
+              {record.daysLate} day(s) ago
+            </div>
+          </div>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      title: 'Claimed',
+      dataIndex: 'claimedAt',
+      key: 'claimedAt',
+      render: (date?: string) => formatDate(date),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, record) =>
+        canUpdateSerials && record.state !== 'claimed' ? (
+          <Button
+            size='small'
+            onClick={() =>
+              handleUpdateIssue(
+                record.serial._id as string,
+                record,
+                { status: 'claimed' },
+                `${record.label} marked as claimed`
+              )
+            }
+          >
+            Claim
+          </Button>
+        ) : null,
+    },
+  ];
+
+  if (!canReadSerials) {
+    return (
+      <Layout className='min-h-screen bg-gray-50'>
+        <Sidebar />
+        <Layout className='ml-0 lg:ml-[250px] transition-all'>
+          <Header title='Serials' />
+          <Content className='p-4 md:p-6'>
+            <Card className='rounded-lg shadow-sm border-0'>
+              <Empty
+                image={<ContainerOutlined className='text-5xl text-gray-300' />}
+                description={
+                  <div className='space-y-2'>
+                    <Title level={4} className='text-gray-600 m-0'>
+                      Access Restricted
+                    </Title>
+                    <Text type='secondary'>
+                      You don't have permission to view serials
+                    </Text>
+                  </div>
+                }
+              />
+            </Card>
+          </Content>
+        </Layout>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout className='min-h-screen bg-gray-50'>
+      <Sidebar />
+      <Layout className='ml-0 lg:ml-[250px] transition-all'>
+        <Header title='Serials' />
+        <Content className='p-4 md:p-6 space-y-6'>
+          <Card
+            className='rounded-lg shadow-sm border-0'
+            bodyStyle={{ padding: 0 }}
+          >
+            <div className='p-4 border-b border-gray-200'>
+              <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+                <div className='flex items-center gap-2'>
+                  <ContainerOutlined className='text-blue-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Journals & Law Report Series
+                  </Title>
+                </div>
+                {canCreateSerials && (
+                  <Button
+                    type='primary'
+                    icon={<PlusOutlined />}
+                    onClick={handleAddSerial}
+                    className='w-full sm:w-auto'
+                  >
+                    Add Serial
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {error ? (
+              <Alert
+                message='Error Loading Serials'
+                description={error}
+                type='error'
+                showIcon
+                className='m-4'
+              />
+            ) : loading ? (
+              <div className='text-center py-8'>
+                <Spin size='large' tip='Loading serials...' />
+              </div>
+            ) : (
+              <Table
+                columns={columns}
+                dataSource={serials}
+                rowKey='_id'
+                pagination={false}
+                scroll={{ x: 'max-content' }}
+                className='w-full'
+                locale={{
+                  emptyText: <Empty description='No serials added yet' />,
+                }}
+              />
+            )}
+          </Card>
+
+          {!loading && !error && lateIssues.length > 0 && (
+            <Card
+              className='rounded-lg shadow-sm border-0'
+              bodyStyle={{ padding: 0 }}
+            >
+              <div className='p-4 border-b border-gray-200'>
+                <div className='flex items-center gap-2'>
+                  <WarningOutlined className='text-orange-500 text-xl' />
+                  <Title level={4} className='m-0'>
+                    Late & Missing Parts
+                  </Title>
+                </div>
+              </div>
+              <Table
+                columns={lateColumns}
+                dataSource={lateIssues}
+                rowKey='_id'
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                scroll={{ x: 'max-content' }}
+                className='w-full'
+              />
+            </Card>
+          )}
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <UnorderedListOutlined className='text-blue-500' />
+                {openSerial?.title}
+              </div>
+            }
+            open={!!openSerial}
+            onCancel={() => setOpenSerial(null)}
+            width={960}
+            footer={
+              canCreateSerials && (
+                <Button
+                  icon={<InboxOutlined />}
+                  onClick={() => handleCheckIn(null)}
+                >
+                  Check In Unexpected Part
+                </Button>
+              )
+            }
+            destroyOnClose
+          >
+            {openSerial && (
+              <Descriptions
+                size='small'
+                className='mb-4'
+                column={{ xs: 1, sm: 2 }}
+              >
+                <Descriptions.Item label='Holdings'>
+                  {openSerial.holdings.statement}
+                </Descriptions.Item>
+                <Descriptions.Item label='Shelf Location'>
+                  {openSerial.shelfLocation}
+                </Descriptions.Item>
+                <Descriptions.Item label='Frequency'>
+                  <span className='capitalize'>{openSerial.frequency}</span>
+                </Descriptions.Item>
+                <Descriptions.Item label='Grace Period'>
+                  {openSerial.graceDays} day(s)
+                </Descriptions.Item>
+              </Descriptions>
+            )}
+            <Table
+              columns={issueColumns}
+              dataSource={[...issues].reverse()}
+              rowKey='_id'
+              size='small'
+              loading={issuesLoading}
+              pagination={{ pageSize: 10, hideOnSinglePage: true }}
+              scroll={{ x: 'max-content' }}
+              locale={{
+                emptyText: (
+                  <Empty description='No parts expected or received yet' />
+                ),
+              }}
+            />
+          </Modal>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <InboxOutlined className='text-blue-500' />
+                Check In{checkInIssue ? `: ${checkInIssue.label}` : ' Part'}
+              </div>
+            }
+            open={checkInVisible}
+            onOk={handleCheckInOk}
+            onCancel={() => setCheckInVisible(false)}
+            confirmLoading={submitting}
+            okText='Check In'
+            destroyOnClose
+          >
+            <Alert
+              type='info'
+              showIcon
+              className='mb-4'
+              message='The part is added to the catalogue with its copies on the shelf, ready to lend.'
+            />
+            <Form form={checkInForm} layout='vertical'>
+              {!checkInIssue && (
+                <div className='grid grid-cols-3 gap-x-4'>
+                  <Form.Item name='volume' label='Volume'>
+                    <InputNumber min={1} precision={0} className='w-full' />
+                  </Form.Item>
+                  <Form.Item
+                    name='part'
+                    label={
+                      openSerial?.category === 'Law Report' ? 'Part' : 'Number'
+                    }
+                    rules={[{ required: true, message: 'Required' }]}
+                  >
+                    <InputNumber min={1} precision={0} className='w-full' />
+                  </Form.Item>
+                  <Form.Item name='year' label='Year'>
+                    <InputNumber min={1800} precision={0} className='w-full' />
+                  </Form.Item>
+                </div>
+              )}
+              <div className='grid grid-cols-1 sm:grid-cols-3 gap-x-4'>
+                <Form.Item
+                  name='receivedDate'
+                  label='Received'
+                  rules={[{ required: true }]}
+                >
+                  <DatePicker className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='copies'
+                  label='Copies'
+                  rules={[{ required: true }]}
+                >
+                  <InputNumber min={1} max={100} className='w-full' />
+                </Form.Item>
+                <Form.Item name='condition' label='Condition'>
+                  <Select>
+                    {['new', 'good', 'fair', 'poor', 'damaged'].map(
+                      (condition) => (
+                        <Option key={condition} value={condition}>
+                          <span className='capitalize'>{condition}</span>
+                        </Option>
+                      )
+                    )}
+                  </Select>
+                </Form.Item>
+              </div>
+              <Form.Item name='notes' label='Notes'>
+                <Input.TextArea rows={2} />
+              </Form.Item>
+            </Form>
+          </Modal>
+
+          <Modal
+            title={
+              <div className='flex items-center gap-2'>
+                <ContainerOutlined className='text-blue-500' />
+                {editingSerial ? 'Edit Serial' : 'Add Serial'}
+              </div>
+            }
+            open={modalVisible}
+            onOk={handleModalOk}
+            onCancel={() => setModalVisible(false)}
+            width={640}
+            destroyOnClose
+          >
+            <Form
+              form={form}
+              layout='vertical'
+              className='mt-4'
+              initialValues={{
+                category: 'Law Report',
+                frequency: 'monthly',
+                graceDays: 14,
+                copiesPerIssue: 1,
+                restartPartNumbers: false,
+                status: 'active',
+              }}
+            >
+              <Form.Item
+                name='title'
+                label='Title'
+                rules={[{ required: true, message: 'Please input the title!' }]}
+              >
+                <Input placeholder='e.g., Nigerian Weekly Law Reports' />
+              </Form.Item>
+              <div className='grid grid-cols-1 sm:grid-cols-2 gap-x-4'>
+                <Form.Item name='category' label='Category'>
+                  <Select>
+                    <Option value='Law Report'>Law Report</Option>
+                    <Option value='Journal'>Journal</Option>
+                  </Select>
+                </Form.Item>
+                <Form.Item
+                  name='code'
+                  label='Code'
+                  extra='Book IDs of parts start with it, e.g. NWLR-1675'
+                  rules={[
+                    { required: true, message: 'Please input a code!' },
+                    {
+                      pattern: /^[A-Za-z0-9-]{1,20}$/,
+                      message: 'Letters, numbers and hyphens only',
+                    },
+                  ]}
+                >
+                  <Input placeholder='e.g., NWLR' />
+                </Form.Item>
+                {formCategory === 'Law Report' && (
+                  <Form.Item
+                    name='series'
+                    label='Citation Series'
+                    extra='Parts are catalogued with this citation'
+                  >
+                    <AutoComplete
+                      placeholder='NWLR'
+                      options={LAW_REPORT_SERIES.map((series) => ({
+                        value: series,
+                      }))}
+                    />
+                  </Form.Item>
+                )}
+                <Form.Item name='publisher' label='Publisher'>
+                  <Input />
+                </Form.Item>
+                <Form.Item name='issn' label='ISSN'>
+                  <Input placeholder='e.g., 0189-4005' />
+                </Form.Item>
+                <Form.Item
+                  name='shelfLocation'
+                  label='Shelf Location'
+                  rules={[
+                    {
+                      required: true,
+                      message: 'Please input the shelf location!',
+                    },
+                  ]}
+                >
+                  <Input placeholder='e.g., LR-01' />
+                </Form.Item>
+                <Form.Item name='frequency' label='Frequency'>
+                  <Select>
+                    {frequencies.map((frequency) => (
+                      <Option key={frequency} value={frequency}>
+                        <span className='capitalize'>{frequency}</span>
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+                <Form.Item
+                  name='graceDays'
+                  label='Grace Period (days)'
+                  extra='How long after the expected date a part is late'
+                >
+                  <InputNumber min={0} max={365} className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='issuesPerVolume'
+                  label='Parts per Volume'
+                  extra='Leave empty if volumes are not numbered'
+                >
+                  <InputNumber min={1} precision={0} className='w-full' />
+                </Form.Item>
+                <Form.Item
+                  name='restartPartNumbers'
+                  label='Number Parts Within Each Volume'
+                  valuePropName='checked'
+                >
+                  <Switch />
+                </Form.Item>
+                <Form.Item name='copiesPerIssue' label='Copies per Part'>
+                  <InputNumber min={1} max={100} className='w-full' />
+                </Form.Item>
+                {editingSerial && (
+                  <Form.Item name='status' label='Status'>
+                    <Select>
+                      <Option value='active'>Active</Option>
+                      <Option value='ceased'>Ceased</Option>
+                    </Select>
+                  </Form.Item>
+                )}
+              </div>
+              {!editingSerial && (
+                <>
+                  <Text strong>First Expected Part</Text>
+                  <div className='text-xs text-gray-500 mb-2'>
+                    Starts the schedule of expected parts. Leave empty to start
+                    from the first part checked in.
+                  </div>
+                  <div className='grid grid-cols-3 gap-x-4'>
+                    <Form.Item name={['firstIssue', 'volume']} label='Volume'>
+                      <InputNumber min={1} precision={0} className='w-full' />
+                    </Form.Item>
+                    <Form.Item name={['firstIssue', 'part']} label='Part'>
+                      <InputNumber min={1} precision={0} className='w-full' />
+                    </Form.Item>
+                    <Form.Item
+                      name={['firstIssue', 'expectedDate']}
+                      label='Expected'
+                      dependencies={[['firstIssue', 'part']]}
+                      rules={[
+                        ({ getFieldValue }) => ({
+                          required: !!getFieldValue(['firstIssue', 'part']),
+                          message: 'Required with a part',
+                        }),
+                      ]}
+                    >
+                      <DatePicker className='w-full' />
+                    </Form.Item>
+                  </div>
+                </>
+              )}
+            </Form>
+          </Modal>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+}
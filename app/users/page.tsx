@@ -33,18 +33,28 @@ import {
   MailOutlined,
   LockOutlined,
   CopyOutlined,
+  SafetyOutlined,
+  UnlockOutlined,
+  LogoutOutlined,
 } from '@ant-design/icons';
 import Sidebar from '@/components/layout/sidebar';
 import Header from '@/components/layout/header';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { PERMISSIONS, ROLE_PERMISSIONS } from '@/lib/auth';
+import type { Borrower, Role } from '@/lib/models';
 
 const { Content } = Layout;
 const { Title, Text } = Typography;
 const { Option } = Select;
 
-type UserRole = 'Super Admin' | 'Admin' | 'Librarian' | 'User';
+// Built-in roles keep their colours, custom roles share one
+const ROLE_COLORS: Record<string, string> = {
+  'Super Admin': 'red',
+  Admin: 'orange',
+  Librarian: 'blue',
+  User: 'green',
+};
 
 export default function UsersPage() {
   const { data: session, status } = useSession();
@@ -55,6 +65,7 @@ export default function UsersPage() {
   const [isInviteModalVisible, setIsInviteModalVisible] = useState(false);
   const [editingUser, setEditingUser] = useState<any | null>(null);
   const [form] = Form.useForm();
+  const formBorrowerId = Form.useWatch('borrowerId', form);
   const [inviteForm] = Form.useForm();
   const [pagination, setPagination] = useState({
     current: 1,
@@ -63,13 +74,21 @@ export default function UsersPage() {
   });
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [roleNames, setRoleNames] = useState<string[]>(
+    Object.keys(ROLE_PERMISSIONS)
+  );
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
 
-  const roleColors: Record<UserRole, string> = {
-    'Super Admin': 'red',
-    Admin: 'orange',
-    Librarian: 'blue',
-    User: 'green',
-  };
+  const canLinkBorrowers =
+    session?.user?.permissions?.includes(PERMISSIONS.BORROWERS_READ) || false;
+
+  // Unverified emails are not linked on sign-in, the admin confirms instead
+  const emailMatch = editingUser?.email
+    ? borrowers.find(
+        (borrower) =>
+          borrower.email?.toLowerCase() === editingUser.email.toLowerCase()
+      )
+    : undefined;
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -79,6 +98,25 @@ export default function UsersPage() {
     }
   }, [status, router, pagination.current, pagination.pageSize, searchQuery]);
 
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchRoles();
+    }
+  }, [status]);
+
+  // Users without access to roles still get the built-in ones to pick from
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/roles');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setRoleNames(data.roles.map((role: Role) => role.name));
+    } catch (err) {
+      console.error('Failed to load roles:', err);
+    }
+  };
+
   const fetchUsers = async () => {
     setLoading(true);
     setError(null);
@@ -113,12 +151,24 @@ export default function UsersPage() {
     setIsInviteModalVisible(true);
   };
 
+  const fetchBorrowers = async () => {
+    try {
+      const response = await fetch('/api/borrowers/list');
+      if (!response.ok) return;
+      setBorrowers(await response.json());
+    } catch (err) {
+      console.error('Failed to load borrowers:', err);
+    }
+  };
+
   const handleEditUser = (user: any) => {
     setEditingUser(user);
     form.setFieldsValue({
       ...user,
+      borrowerId: user.borrowerId || undefined,
       active: user.status === 'active',
     });
+    if (canLinkBorrowers && borrowers.length === 0) fetchBorrowers();
     setIsModalVisible(true);
   };
 
@@ -141,6 +191,61 @@ export default function UsersPage() {
     }
   };
 
+  const handleUnlockUser = async (id: string) => {
+    try {
+      const response = await fetch(`/api/users/${id}/unlock`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to unlock user');
+      }
+      setUsers((prev) =>
+        prev.map((u) => (u._id === id ? { ...u, lockedUntil: null } : u))
+      );
+      message.success('User unlocked');
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to unlock user'
+      );
+    }
+  };
+
+  const handleSignOutUser = async (id: string) => {
+    try {
+      const response = await fetch(`/api/users/${id}/sessions`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to sign user out');
+      }
+      message.success('User signed out of all devices');
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to sign user out'
+      );
+    }
+  };
+
+  const handleResetTwoFactor = async (id: string) => {
+    try {
+      const response = await fetch(`/api/users/${id}/two-factor`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to reset 2FA');
+      }
+      setUsers((prev) =>
+        prev.map((u) => (u._id === id ? { ...u, twoFactorEnabled: false } : u))
+      );
+      message.success('Two-factor authentication reset');
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Failed to reset 2FA');
+    }
+  };
+
   const handleModalOk = async () => {
     try {
       const values = await form.validateFields();
@@ -150,6 +255,10 @@ export default function UsersPage() {
       };
 
       delete payload.active; // Remove the UI-only field
+      // A cleared borrower field unlinks the account
+      if (editingUser && canLinkBorrowers) {
+        payload.borrowerId = values.borrowerId ?? null;
+      }
 
       const response = editingUser
         ? await fetch(`/api/users/${editingUser._id}`, {
@@ -447,28 +556,53 @@ export default function UsersPage() {
       title: 'Role',
       dataIndex: 'role',
       key: 'role',
-      render: (role: UserRole) => (
-        <Tag color={roleColors[role]} className='capitalize'>
+      render: (role: string) => (
+        <Tag color={ROLE_COLORS[role] || 'purple'} className='capitalize'>
           {role}
         </Tag>
       ),
       sorter: (a, b) => a.role.localeCompare(b.role),
-      filters: Object.keys(roleColors).map((role) => ({
+      filters: roleNames.map((role) => ({
         text: role,
         value: role,
       })),
       onFilter: (value, record) => record.role === value,
     },
+    {
+      title: '2FA',
+      dataIndex: 'twoFactorEnabled',
+      key: 'twoFactorEnabled',
+      render: (enabled: boolean) =>
+        enabled ? <Tag color='green'>On</Tag> : <Tag>Off</Tag>,
+      filters: [
+        { text: 'On', value: true },
+        { text: 'Off', value: false },
+      ],
+      onFilter: (value: unknown, record: any) =>
+        !!record.twoFactorEnabled === value,
+    },
     {
       title: 'Status',
       dataIndex: 'status',
       key: 'status',
       render: (
-        status: string = 'inactive' // Add default value here
+        status: string = 'inactive', // Add default value here
+        record: any
       ) => (
-        <Tag color={status === 'active' ? 'green' : 'red'}>
-          {status.toUpperCase()}
-        </Tag>
+        <Space size={4}>
+          <Tag color={status === 'active' ? 'green' : 'red'}>
+            {status.toUpperCase()}
+          </Tag>
+          {record.lockedUntil && (
+            <Tooltip
+              title={`Locked after failed sign-ins until ${new Date(
+                record.lockedUntil
+              ).toLocaleString()}`}
+            >
+              <Tag color='volcano'>LOCKED</Tag>
+            </Tooltip>
+          )}
+        </Space>
       ),
       sorter: (a, b) =>
         (a.status || 'inactive').localeCompare(b.status || 'inactive'),
@@ -490,7 +624,7 @@ export default function UsersPage() {
       title: 'Actions',
       key: 'actions',
       fixed: 'right',
-      width: 180,
+      width: 300,
       render: (_: any, record: any) => (
         <Space size='middle'>
           {session?.user?.permissions?.includes(PERMISSIONS.USERS_UPDATE) && (
@@ -513,6 +647,54 @@ export default function UsersPage() {
               />
             </Tooltip>
           )}
+          {session?.user?.permissions?.includes(PERMISSIONS.USERS_UPDATE) &&
+            record.lockedUntil && (
+              <Tooltip title='Unlock'>
+                <Button
+                  type='text'
+                  icon={<UnlockOutlined />}
+                  onClick={() => handleUnlockUser(record._id)}
+                  className='text-green-600 hover:text-green-800'
+                />
+              </Tooltip>
+            )}
+          {session?.user?.permissions?.includes(PERMISSIONS.USERS_UPDATE) &&
+            record._id !== session?.user?.id && (
+              <Tooltip title='Sign Out Everywhere'>
+                <Popconfirm
+                  title={`Sign ${record.email} out of all devices?`}
+                  onConfirm={() => handleSignOutUser(record._id)}
+                  okText='Sign Out'
+                  cancelText='Cancel'
+                  placement='left'
+                >
+                  <Button
+                    type='text'
+                    icon={<LogoutOutlined />}
+                    className='text-gray-500 hover:text-gray-700'
+                  />
+                </Popconfirm>
+              </Tooltip>
+            )}
+          {session?.user?.permissions?.includes(PERMISSIONS.USERS_UPDATE) &&
+            record.twoFactorEnabled && (
+              <Tooltip title='Reset 2FA'>
+                <Popconfirm
+                  title={`Reset 2FA for ${record.email}?`}
+                  description='They will need to enroll again if their role requires it'
+                  onConfirm={() => handleResetTwoFactor(record._id)}
+                  okText='Reset'
+                  cancelText='Cancel'
+                  placement='left'
+                >
+                  <Button
+                    type='text'
+                    icon={<SafetyOutlined />}
+                    className='text-purple-500 hover:text-purple-700'
+                  />
+                </Popconfirm>
+              </Tooltip>
+            )}
           {session?.user?.permissions?.includes(PERMISSIONS.USERS_DELETE) && (
             <Tooltip title='Delete'>
               <Popconfirm
@@ -767,13 +949,35 @@ export default function UsersPage() {
                 rules={[{ required: true, message: 'Please select a role!' }]}
               >
                 <Select placeholder='Select a role'>
-                  {Object.keys(ROLE_PERMISSIONS).map((role) => (
+                  {roleNames.map((role) => (
                     <Option key={role} value={role}>
                       {role}
                     </Option>
                   ))}
                 </Select>
               </Form.Item>
+              {editingUser && canLinkBorrowers && (
+                <Form.Item
+                  name='borrowerId'
+                  label='Borrower Record'
+                  extra={
+                    !formBorrowerId && emailMatch
+                      ? `${emailMatch.name} (${emailMatch.memberId}) has this user's email. Select them to confirm the link.`
+                      : "Loans and holds of this borrower appear on the user's My Library page"
+                  }
+                >
+                  <Select
+                    allowClear
+                    showSearch
+                    optionFilterProp='label'
+                    placeholder='Not linked'
+                    options={borrowers.map((borrower) => ({
+                      value: borrower._id as string,
+                      label: `${borrower.name} (${borrower.memberId})`,
+                    }))}
+                  />
+                </Form.Item>
+              )}
               {!editingUser && (
                 <Form.Item
                   name='password'
@@ -842,7 +1046,7 @@ export default function UsersPage() {
                 rules={[{ required: true, message: 'Please select a role!' }]}
               >
                 <Select placeholder='Select a role'>
-                  {Object.keys(ROLE_PERMISSIONS).map((role) => (
+                  {roleNames.map((role) => (
                     <Option key={role} value={role}>
                       {role}
                     </Option>
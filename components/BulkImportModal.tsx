@@ -0,0 +1,266 @@
+/** @format */
+
+'use client';
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Modal,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  Upload,
+  message,
+} from 'antd';
+import type { UploadFile } from 'antd/es/upload/interface';
+import type { ColumnsType } from 'antd/es/table';
+import { InboxOutlined } from '@ant-design/icons';
+import type {
+  ColumnMapping,
+  ImportColumn,
+  ImportRowResult,
+} from '@/lib/imports';
+
+const { Text } = Typography;
+
+interface ImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: ColumnMapping;
+  columns: ImportColumn[];
+  missingColumns: string[];
+  summary: { total: number; create: number; error: number };
+  rows: ImportRowResult[];
+}
+
+interface BulkImportModalProps {
+  open: boolean;
+  title: string;
+  endpoint: string; // The import route, e.g. /api/books/import
+  itemLabel: string; // Plural, e.g. books
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function BulkImportModal({
+  open,
+  title,
+  endpoint,
+  itemLabel,
+  onClose,
+  onImported,
+}: BulkImportModalProps) {
+  const [fileList, setFileList] = useState<UploadFile[]>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setFileList([]);
+    setResult(null);
+    onClose();
+  };
+
+  // Checks every row, or imports them all when dryRun is false. The mapping
+  // is left to the server until the preview has been adjusted.
+  const submit = async (dryRun: boolean, mapping?: ColumnMapping) => {
+    const file = fileList[0]?.originFileObj;
+    if (!file) {
+      message.error('Choose a CSV or Excel file first');
+      return;
+    }
+
+    const body = new FormData();
+    body.append('file', file);
+    body.append('dryRun', String(dryRun));
+    if (mapping) body.append('mapping', JSON.stringify(mapping));
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(endpoint, { method: 'POST', body });
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.rows) setResult(data);
+        throw new Error(data.error || `Failed to import ${itemLabel}`);
+      }
+
+      if (dryRun) {
+        setResult(data);
+        return;
+      }
+      message.success(`Imported ${data.summary.create} ${itemLabel}`);
+      onImported();
+      handleClose();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : `Failed to import ${itemLabel}`
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleMappingChange = (field: string, header?: string) => {
+    if (!result) return;
+    submit(true, { ...result.mapping, [field]: header });
+  };
+
+  const columns: ColumnsType<ImportRowResult> = [
+    { title: 'Row', dataIndex: 'row', key: 'row', width: 70 },
+    {
+      title: 'Status',
+      dataIndex: 'action',
+      key: 'action',
+      width: 100,
+      render: (action: ImportRowResult['action']) =>
+        action === 'create' ? (
+          <Tag color='green'>Ready</Tag>
+        ) : (
+          <Tag color='red'>Error</Tag>
+        ),
+    },
+    {
+      title: 'Record',
+      key: 'record',
+      render: (_, row) => (
+        <div>
+          <Text strong>{row.label || '—'}</Text>
+          {row.key && <div className='text-xs text-gray-500'>{row.key}</div>}
+        </div>
+      ),
+    },
+    {
+      title: 'Problems',
+      dataIndex: 'errors',
+      key: 'errors',
+      render: (errors?: string[]) =>
+        errors?.length ? <Text type='danger'>{errors.join('; ')}</Text> : null,
+    },
+  ];
+
+  const canImport =
+    !!result &&
+    result.missingColumns.length === 0 &&
+    result.summary.error === 0 &&
+    result.summary.create > 0;
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onCancel={handleClose}
+      width={result ? 900 : 560}
+      destroyOnClose
+      footer={
+        <Space>
+          <Button onClick={handleClose}>Cancel</Button>
+          {result ? (
+            <>
+              <Button onClick={() => setResult(null)}>Back</Button>
+              <Button
+                type='primary'
+                loading={submitting}
+                disabled={!canImport}
+                onClick={() => submit(false, result.mapping)}
+              >
+                Import {result.summary.create} {itemLabel}
+              </Button>
+            </>
+          ) : (
+            <Button
+              type='primary'
+              loading={submitting}
+              disabled={fileList.length === 0}
+              onClick={() => submit(true)}
+            >
+              Check File
+            </Button>
+          )}
+        </Space>
+      }
+    >
+      {result ? (
+        <>
+          {result.missingColumns.length > 0 ? (
+            <Alert
+              type='error'
+              showIcon
+              className='mb-4'
+              message={`Choose the columns for ${result.missingColumns.join(
+                ', '
+              )}`}
+            />
+          ) : (
+            <Alert
+              type={result.summary.error > 0 ? 'warning' : 'success'}
+              showIcon
+              className='mb-4'
+              message={`${result.summary.total} rows: ${result.summary.create} ready, ${result.summary.error} with errors`}
+              description={
+                result.summary.error > 0
+                  ? 'Nothing will be imported until every row is valid. Fix the rows below in the file and check it again.'
+                  : 'Nothing has been saved yet.'
+              }
+            />
+          )}
+
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 mb-4'>
+            {result.columns.map((column) => (
+              <div key={column.field} className='flex items-center gap-2'>
+                <Text className='w-32 shrink-0'>
+                  {column.label}
+                  {column.required && <Text type='danger'> *</Text>}
+                </Text>
+                <Select
+                  size='small'
+                  className='flex-1'
+                  allowClear
+                  placeholder='Not imported'
+                  value={result.mapping[column.field]}
+                  disabled={submitting}
+                  onChange={(header) =>
+                    handleMappingChange(column.field, header)
+                  }
+                  options={result.headers.map((header) => ({
+                    value: header,
+                    label: header,
+                  }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <Table
+            columns={columns}
+            dataSource={result.rows}
+            rowKey='row'
+            size='small'
+            loading={submitting}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            scroll={{ x: 'max-content' }}
+          />
+        </>
+      ) : (
+        <Upload.Dragger
+          accept='.csv,.xlsx'
+          maxCount={1}
+          fileList={fileList}
+          beforeUpload={() => false}
+          onChange={({ fileList: files }) => setFileList(files.slice(-1))}
+        >
+          <p className='ant-upload-drag-icon'>
+            <InboxOutlined />
+          </p>
+          <p className='ant-upload-text'>
+            Click or drag a CSV or Excel (.xlsx) file here
+          </p>
+          <p className='ant-upload-hint'>
+            The first row must hold the column headers. An export of this list
+            has the columns the import expects.
+          </p>
+        </Upload.Dragger>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,137 @@
+/** @format */
+
+'use client';
+import { useState } from 'react';
+import { Alert, Button, Card, Form, Input, Typography, message } from 'antd';
+import { LockOutlined } from '@ant-design/icons';
+import { signOut, useSession } from 'next-auth/react';
+import PasswordRequirements, {
+  passwordPolicyRule,
+  usePasswordPolicy,
+} from '@/components/PasswordRequirements';
+
+const { Title, Text } = Typography;
+
+export default function ChangePasswordCard() {
+  const { data: session } = useSession();
+  const [form] = Form.useForm();
+  const [submitting, setSubmitting] = useState(false);
+  const policy = usePasswordPolicy();
+  const newPassword = Form.useWatch('newPassword', form);
+  const expired = !!session?.user?.passwordChangeRequired;
+  const context = { name: session?.user?.name, email: session?.user?.email };
+
+  const onFinish = async (values: {
+    currentPassword: string;
+    newPassword: string;
+  }) => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/users/${session?.user?.id}/password`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentPassword: values.currentPassword,
+          newPassword: values.newPassword,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change password');
+      }
+
+      // Changing the password signs out every session, this one included
+      message.success('Password changed, sign in with your new password');
+      await signOut({ callbackUrl: '/auth/signin' });
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to change password'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className='rounded-lg shadow-sm border-0'>
+      <div className='flex items-center gap-2 mb-2'>
+        <LockOutlined className='text-blue-500 text-xl' />
+        <Title level={4} className='m-0'>
+          Password
+        </Title>
+      </div>
+
+      {expired ? (
+        <Alert
+          type='warning'
+          showIcon
+          className='mb-4'
+          message='Your password has expired'
+          description='Your role requires passwords to be changed regularly. Choose a new password to continue.'
+        />
+      ) : (
+        <Text type='secondary' className='block mb-4'>
+          Changing your password signs you out on every device.
+        </Text>
+      )}
+
+      <Form
+        form={form}
+        layout='vertical'
+        onFinish={onFinish}
+        className='max-w-md'
+      >
+        <Form.Item
+          name='currentPassword'
+          label='Current Password'
+          rules={[
+            { required: true, message: 'Please input your current password' },
+          ]}
+        >
+          <Input.Password autoComplete='current-password' />
+        </Form.Item>
+
+        <Form.Item
+          name='newPassword'
+          label='New Password'
+          rules={[
+            { required: true, message: 'Please input a new password' },
+            passwordPolicyRule(policy, context),
+          ]}
+        >
+          <Input.Password autoComplete='new-password' />
+        </Form.Item>
+
+        <PasswordRequirements
+          policy={policy}
+          password={newPassword}
+          context={context}
+          showHistory
+        />
+
+        <Form.Item
+          name='confirm'
+          label='Confirm New Password'
+          dependencies={['newPassword']}
+          rules={[
+            { required: true, message: 'Please confirm your new password' },
+            ({ getFieldValue }) => ({
+              validator(_, value) {
+                if (!value || getFieldValue('newPassword') === value) {
+                  return Promise.resolve();
+                }
+                return Promise.reject(new Error('The passwords do not match'));
+              },
+            }),
+          ]}
+        >
+          <Input.Password autoComplete='new-password' />
+        </Form.Item>
+
+        <Button type='primary' htmlType='submit' loading={submitting}>
+          Change Password
+        </Button>
+      </Form>
+    </Card>
+  );
+}
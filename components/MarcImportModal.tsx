@@ -0,0 +1,305 @@
+/** @format */
+
+'use client';
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  Upload,
+  message,
+} from 'antd';
+import type { UploadFile } from 'antd/es/upload/interface';
+import type { ColumnsType } from 'antd/es/table';
+import { InboxOutlined } from '@ant-design/icons';
+import { BOOK_CATEGORIES } from '@/lib/models';
+
+const { Text } = Typography;
+
+type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+interface ImportRecord {
+  index: number;
+  action: ImportAction;
+  bookId?: string;
+  title?: string;
+  isbn?: string;
+  matchedBy?: 'isbn' | 'bookId';
+  changes?: string[];
+  errors?: string[];
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  summary: Record<ImportAction | 'total', number>;
+  records: ImportRecord[];
+}
+
+const actionLabels: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  skip: 'Unchanged',
+  error: 'Error',
+};
+const actionColors: Record<ImportAction, string> = {
+  create: 'green',
+  update: 'blue',
+  skip: 'default',
+  error: 'red',
+};
+
+interface ImportOptions {
+  defaultCategory: string;
+  defaultShelfLocation?: string;
+  copies: number;
+}
+
+interface MarcImportModalProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function MarcImportModal({
+  open,
+  onClose,
+  onImported,
+}: MarcImportModalProps) {
+  const [form] = Form.useForm();
+  const [fileList, setFileList] = useState<UploadFile[]>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [options, setOptions] = useState<ImportOptions | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const reset = () => {
+    form.resetFields();
+    setFileList([]);
+    setResult(null);
+    setOptions(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  // Runs the import, or only previews it when dryRun is set
+  const submit = async (dryRun: boolean) => {
+    const file = fileList[0]?.originFileObj;
+    if (!file) {
+      message.error('Choose a MARC21 or MARCXML file first');
+      return;
+    }
+
+    // The form is hidden behind the preview, so the import reuses the
+    // options the preview ran with
+    const values: ImportOptions | null = dryRun
+      ? await form.validateFields()
+      : options;
+    if (!values) return;
+    const body = new FormData();
+    body.append('file', file);
+    body.append('dryRun', String(dryRun));
+    body.append('defaultCategory', values.defaultCategory);
+    body.append('defaultShelfLocation', values.defaultShelfLocation || '');
+    body.append('copies', String(values.copies));
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/books/marc/import', {
+        method: 'POST',
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import MARC records');
+      }
+
+      if (dryRun) {
+        setOptions(values);
+        setResult(data);
+        return;
+      }
+      message.success(
+        `Imported ${data.summary.create} new and ${data.summary.update} updated books`
+      );
+      onImported();
+      handleClose();
+    } catch (err) {
+      message.error(
+        err instanceof Error ? err.message : 'Failed to import MARC records'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const columns: ColumnsType<ImportRecord> = [
+    {
+      title: '#',
+      dataIndex: 'index',
+      key: 'index',
+      width: 60,
+      render: (index: number) => index + 1,
+    },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      key: 'action',
+      width: 110,
+      render: (action: ImportAction) => (
+        <Tag color={actionColors[action]}>{actionLabels[action]}</Tag>
+      ),
+    },
+    {
+      title: 'Book',
+      key: 'book',
+      render: (_, record) => (
+        <div>
+          <Text strong>{record.title || 'Untitled'}</Text>
+          <div className='text-xs text-gray-500'>
+            {[record.bookId, record.isbn && `ISBN ${record.isbn}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: 'Details',
+      key: 'details',
+      render: (_, record) =>
+        record.errors?.length ? (
+          <Text type='danger'>{record.errors.join('; ')}</Text>
+        ) : record.action === 'update' ? (
+          <Text type='secondary'>
+            Matched by {record.matchedBy === 'isbn' ? 'ISBN' : 'Book ID'},
+            changes {record.changes?.join(', ')}
+          </Text>
+        ) : record.action === 'skip' ? (
+          <Text type='secondary'>Already in the catalogue</Text>
+        ) : null,
+    },
+  ];
+
+  const importable = result ? result.summary.create + result.summary.update : 0;
+
+  return (
+    <Modal
+      title='Import MARC Records'
+      open={open}
+      onCancel={handleClose}
+      width={result ? 900 : 560}
+      destroyOnClose
+      footer={
+        <Space>
+          <Button onClick={handleClose}>Cancel</Button>
+          {result ? (
+            <>
+              <Button onClick={() => setResult(null)}>Back</Button>
+              <Button
+                type='primary'
+                loading={submitting}
+                disabled={importable === 0}
+                onClick={() => submit(false)}
+              >
+                Import {importable} {importable === 1 ? 'Book' : 'Books'}
+              </Button>
+            </>
+          ) : (
+            <Button
+              type='primary'
+              loading={submitting}
+              disabled={fileList.length === 0}
+              onClick={() => submit(true)}
+            >
+              Preview
+            </Button>
+          )}
+        </Space>
+      }
+    >
+      {result ? (
+        <>
+          <Alert
+            type={result.summary.error > 0 ? 'warning' : 'info'}
+            showIcon
+            className='mb-4'
+            message={`${result.summary.total} records: ${result.summary.create} new, ${result.summary.update} to update, ${result.summary.skip} unchanged, ${result.summary.error} with errors`}
+            description='Nothing has been saved yet. Records with errors are left out of the import.'
+          />
+          <Table
+            columns={columns}
+            dataSource={result.records}
+            rowKey='index'
+            size='small'
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            scroll={{ x: 'max-content' }}
+          />
+        </>
+      ) : (
+        <Form
+          form={form}
+          layout='vertical'
+          initialValues={{ defaultCategory: 'Reference', copies: 1 }}
+        >
+          <Form.Item label='File'>
+            <Upload.Dragger
+              accept='.mrc,.marc,.xml,.dat'
+              maxCount={1}
+              fileList={fileList}
+              beforeUpload={() => false}
+              onChange={({ fileList: files }) => setFileList(files.slice(-1))}
+            >
+              <p className='ant-upload-drag-icon'>
+                <InboxOutlined />
+              </p>
+              <p className='ant-upload-text'>
+                Click or drag a MARC21 (.mrc) or MARCXML (.xml) file here
+              </p>
+              <p className='ant-upload-hint'>
+                Records are matched to existing books by ISBN, then by control
+                number (001)
+              </p>
+            </Upload.Dragger>
+          </Form.Item>
+          <Form.Item
+            name='defaultCategory'
+            label='Category for New Books'
+            tooltip='Used when a record has no 655 genre heading naming a category'
+            rules={[{ required: true, message: 'Please select a category' }]}
+          >
+            <Select
+              options={BOOK_CATEGORIES.map((category) => ({
+                value: category,
+                label: category,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name='defaultShelfLocation'
+            label='Shelf Location for New Books'
+            tooltip='Used when a record has no call number'
+          >
+            <Input placeholder='e.g. Section A, Shelf 3' />
+          </Form.Item>
+          <Form.Item
+            name='copies'
+            label='Copies per New Book'
+            rules={[{ required: true, message: 'Please enter a number' }]}
+          >
+            <InputNumber min={1} max={100} className='w-full' />
+          </Form.Item>
+        </Form>
+      )}
+    </Modal>
+  );
+}
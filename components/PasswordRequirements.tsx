@@ -0,0 +1,93 @@
+/** @format */
+
+'use client';
+import { useState, useEffect } from 'react';
+import { Typography } from 'antd';
+import type { Rule } from 'antd/es/form';
+import {
+  CheckCircleFilled,
+  CloseCircleOutlined,
+  InfoCircleOutlined,
+} from '@ant-design/icons';
+import {
+  type PasswordContext,
+  type PasswordPolicy,
+  getPasswordRules,
+  getPasswordViolations,
+} from '@/lib/password-policy';
+
+const { Text } = Typography;
+
+/**
+ * The server's password policy, null until it has loaded.
+ */
+export function usePasswordPolicy() {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/password-policy')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setPolicy)
+      .catch(() => setPolicy(null));
+  }, []);
+
+  return policy;
+}
+
+/**
+ * Form rule rejecting passwords that break the policy. The checklist shows
+ * which rules, so the message stays short.
+ */
+export const passwordPolicyRule = (
+  policy: PasswordPolicy | null,
+  context?: PasswordContext
+): Rule => ({
+  validator(_, value?: string) {
+    if (!value || !policy) return Promise.resolve();
+    return getPasswordViolations(value, policy, context).length === 0
+      ? Promise.resolve()
+      : Promise.reject(
+          new Error('Password does not meet the requirements below')
+        );
+  },
+});
+
+interface PasswordRequirementsProps {
+  policy: PasswordPolicy | null;
+  password?: string;
+  context?: PasswordContext;
+  // Reuse is only checked once submitted, it is listed for information
+  showHistory?: boolean;
+}
+
+export default function PasswordRequirements({
+  policy,
+  password = '',
+  context,
+  showHistory = false,
+}: PasswordRequirementsProps) {
+  if (!policy) return null;
+
+  return (
+    <ul className='mb-4 space-y-1 text-sm'>
+      {getPasswordRules(password, policy, context).map((rule) => (
+        <li key={rule.key} className='flex items-center gap-2'>
+          {rule.passed ? (
+            <CheckCircleFilled className='text-green-500' />
+          ) : (
+            <CloseCircleOutlined className='text-gray-400' />
+          )}
+          <Text type={rule.passed ? 'success' : 'secondary'}>{rule.label}</Text>
+        </li>
+      ))}
+      {showHistory && policy.historyCount > 0 && (
+        <li className='flex items-center gap-2'>
+          <InfoCircleOutlined className='text-gray-400' />
+          <Text type='secondary'>
+            Not one of your last {policy.historyCount} passwords
+          </Text>
+        </li>
+      )}
+    </ul>
+  );
+}
@@ -0,0 +1,74 @@
+/** @format */
+
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import JsBarcode from 'jsbarcode';
+
+/**
+ * A printable label carrying a code as both a QR code and a Code 128
+ * barcode, so it can be read by camera and handheld scanners alike.
+ */
+const ScanLabel = ({
+  code,
+  title,
+  subtitle,
+}: {
+  code: string;
+  title: string;
+  subtitle?: string;
+}) => {
+  const barcodeRef = useRef<SVGSVGElement>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(code, { margin: 0, width: 96 })
+      .then(setQrDataUrl)
+      .catch((error) =>
+        console.error(`Failed to render QR code for ${code}:`, error)
+      );
+
+    if (barcodeRef.current) {
+      JsBarcode(barcodeRef.current, code, {
+        format: 'CODE128',
+        height: 40,
+        width: 1.5,
+        fontSize: 12,
+        margin: 0,
+      });
+    }
+  }, [code]);
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: 8,
+        border: '1px dashed #d9d9d9',
+        breakInside: 'avoid',
+      }}
+    >
+      {qrDataUrl && <img src={qrDataUrl} alt={code} width={72} height={72} />}
+      <div style={{ minWidth: 0 }}>
+        <div
+          style={{
+            fontWeight: 600,
+            fontSize: 12,
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+          }}
+        >
+          {title}
+        </div>
+        {subtitle && (
+          <div style={{ fontSize: 11, color: '#595959' }}>{subtitle}</div>
+        )}
+        <svg ref={barcodeRef} />
+      </div>
+    </div>
+  );
+};
+
+export default ScanLabel;
@@ -0,0 +1,109 @@
+/** @format */
+
+'use client';
+import { useState, useEffect } from 'react';
+import { Card, Empty, Table, Tag, Tooltip, Typography, message } from 'antd';
+import { HistoryOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { LoginAttempt } from '@/lib/models';
+import dayjs from 'dayjs';
+
+const { Title, Text } = Typography;
+
+const FAILURE_REASONS: Record<string, string> = {
+  bad_password: 'Wrong password',
+  bad_code: 'Wrong 2FA code',
+  throttled: 'Too many attempts',
+  locked: 'Account locked',
+  inactive: 'Account deactivated',
+};
+
+export default function SignInHistoryCard() {
+  const [signIns, setSignIns] = useState<LoginAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSignIns = async () => {
+      try {
+        const response = await fetch('/api/profile/sign-ins');
+        if (!response.ok) throw new Error('Failed to fetch sign-ins');
+        setSignIns((await response.json()).signIns);
+      } catch (err) {
+        message.error('Failed to load sign-in history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSignIns();
+  }, []);
+
+  const columns: ColumnsType<LoginAttempt> = [
+    {
+      title: 'When',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (date: string) => dayjs(date).format('MMM D, YYYY HH:mm'),
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      render: (_, record) =>
+        record.success ? (
+          <span>
+            <Tag color='green'>Success</Tag>
+            {record.newDevice && <Tag color='blue'>New device</Tag>}
+          </span>
+        ) : (
+          <Tag color='red'>
+            {FAILURE_REASONS[record.reason || ''] || 'Failed'}
+          </Tag>
+        ),
+    },
+    {
+      title: 'IP Address',
+      dataIndex: 'ip',
+      key: 'ip',
+      render: (ip?: string | null) => ip || '-',
+    },
+    {
+      title: 'Device',
+      dataIndex: 'userAgent',
+      key: 'userAgent',
+      render: (userAgent?: string | null) =>
+        userAgent ? (
+          <Tooltip title={userAgent}>
+            <Text className='block max-w-xs truncate'>{userAgent}</Text>
+          </Tooltip>
+        ) : (
+          '-'
+        ),
+    },
+  ];
+
+  return (
+    <Card className='rounded-lg shadow-sm border-0' bodyStyle={{ padding: 0 }}>
+      <div className='p-4 border-b border-gray-200'>
+        <div className='flex items-center gap-2'>
+          <HistoryOutlined className='text-blue-500 text-xl' />
+          <Title level={4} className='m-0'>
+            Sign-In History
+          </Title>
+        </div>
+        <Text type='secondary'>
+          If you don&apos;t recognise a sign-in, change your password and let an
+          administrator know.
+        </Text>
+      </div>
+      <Table
+        columns={columns}
+        dataSource={signIns}
+        loading={loading}
+        rowKey={(record) => record._id as string}
+        pagination={{ pageSize: 10, showSizeChanger: false }}
+        scroll={{ x: 'max-content' }}
+        className='w-full'
+        locale={{ emptyText: <Empty description='No sign-ins recorded' /> }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+/** @format */
+
+'use client';
+import { useState, useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Descriptions,
+  Input,
+  Modal,
+  Space,
+  Spin,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { SafetyOutlined } from '@ant-design/icons';
+import { useSession } from 'next-auth/react';
+import dayjs from 'dayjs';
+
+const { Title, Text, Paragraph } = Typography;
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Actions that need a current code before they go through
+type CodeAction = 'disable' | 'regenerate';
+
+export default function TwoFactorCard() {
+  const { update } = useSession();
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/profile/two-factor');
+      if (!response.ok) throw new Error('Failed to fetch 2FA status');
+      setTwoFactor(await response.json());
+    } catch (err) {
+      message.error('Failed to load two-factor status');
+    }
+  };
+
+  const request = async (url: string, method: string, body?: object) => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body && JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Operation failed');
+      return data;
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : 'Operation failed');
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const data = await request('/api/profile/two-factor', 'POST');
+    if (data) {
+      setCode('');
+      setEnrollment(data);
+    }
+  };
+
+  const handleConfirm = async () => {
+    const data = await request('/api/profile/two-factor', 'PUT', { code });
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      // Clears the "set up 2FA" flag on the session
+      await update();
+      fetchStatus();
+    }
+  };
+
+  const handleCodeAction = async () => {
+    const data =
+      codeAction === 'disable'
+        ? await request('/api/profile/two-factor', 'DELETE', { code })
+        : await request('/api/profile/two-factor/recovery-codes', 'POST', {
+            code,
+          });
+    if (!data) return;
+
+    if (codeAction === 'disable') {
+      message.success('Two-factor authentication turned off');
+    } else {
+      setRecoveryCodes(data.recoveryCodes);
+    }
+    setCodeAction(null);
+    fetchStatus();
+  };
+
+  return (
+    <Card className='rounded-lg shadow-sm border-0'>
+      <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4'>
+        <div className='flex items-center gap-2'>
+          <SafetyOutlined className='text-blue-500 text-xl' />
+          <Title level={4} className='m-0'>
+            Two-Factor Authentication
+          </Title>
+          {twoFactor &&
+            (twoFactor.enabled ? <Tag color='green'>On</Tag> : <Tag>Off</Tag>)}
+        </div>
+        {twoFactor && (
+          <Space wrap>
+            {twoFactor.enabled ? (
+              <>
+                <Button
+                  onClick={() => {
+                    setCode('');
+                    setCodeAction('regenerate');
+                  }}
+                >
+                  New Recovery Codes
+                </Button>
+                {!twoFactor.required && (
+                  <Button
+                    danger
+                    onClick={() => {
+                      setCode('');
+                      setCodeAction('disable');
+                    }}
+                  >
+                    Turn Off
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button type='primary' onClick={handleStart} loading={submitting}>
+                Set Up
+              </Button>
+            )}
+          </Space>
+        )}
+      </div>
+
+      {!twoFactor ? (
+        <Spin />
+      ) : twoFactor.enabled ? (
+        <Descriptions column={{ xs: 1, sm: 2 }}>
+          <Descriptions.Item label='Enabled'>
+            {twoFactor.enabledAt
+              ? dayjs(twoFactor.enabledAt).format('MMM D, YYYY')
+              : '-'}
+          </Descriptions.Item>
+          <Descriptions.Item label='Recovery codes left'>
+            {twoFactor.recoveryCodesRemaining}
+          </Descriptions.Item>
+        </Descriptions>
+      ) : twoFactor.required ? (
+        <Alert
+          type='warning'
+          showIcon
+          message='Your role requires two-factor authentication'
+          description='Set it up with an authenticator app to keep using the library system.'
+        />
+      ) : (
+        <Text type='secondary'>
+          Protect your account with a code from an authenticator app such as
+          Google Authenticator or 1Password when you sign in.
+        </Text>
+      )}
+
+      <Modal
+        title='Set up two-factor authentication'
+        open={!!enrollment}
+        onOk={handleConfirm}
+        okText='Verify'
+        okButtonProps={{ disabled: code.trim().length !== 6 }}
+        confirmLoading={submitting}
+        onCancel={() => setEnrollment(null)}
+        destroyOnClose
+      >
+        {enrollment && (
+          <div className='space-y-4'>
+            <Text>
+              Scan this QR code with your authenticator app, then enter the
+              6-digit code it shows.
+            </Text>
+            <div className='flex justify-center'>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={enrollment.qrCode}
+                alt='Authenticator QR code'
+                width={200}
+                height={200}
+              />
+            </div>
+            <div>
+              <Text type='secondary'>Can&apos;t scan it? Enter this key:</Text>
+              <Paragraph copyable className='font-mono break-all'>
+                {enrollment.secret}
+              </Paragraph>
+            </div>
+            <Input
+              placeholder='123456'
+              size='large'
+              maxLength={6}
+              autoComplete='one-time-code'
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onPressEnter={handleConfirm}
+            />
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        title={
+          codeAction === 'disable'
+            ? 'Turn off two-factor authentication'
+            : 'Generate new recovery codes'
+        }
+        open={!!codeAction}
+        onOk={handleCodeAction}
+        okText='Confirm'
+        okButtonProps={{
+          danger: codeAction === 'disable',
+          disabled: !code.trim(),
+        }}
+        confirmLoading={submitting}
+        onCancel={() => setCodeAction(null)}
+        destroyOnClose
+      >
+        <Space direction='vertical' className='w-full'>
+          <Text>
+            {codeAction === 'disable'
+              ? 'Enter a code from your authenticator app, or a recovery code, to turn off two-factor authentication.'
+              : 'Enter a code from your authenticator app. Your current recovery codes will stop working.'}
+          </Text>
+          <Input
+            placeholder='123456'
+            size='large'
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onPressEnter={handleCodeAction}
+          />
+        </Space>
+      </Modal>
+
+      <Modal
+        title='Save your recovery codes'
+        open={!!recoveryCodes}
+        onOk={() => setRecoveryCodes(null)}
+        onCancel={() => setRecoveryCodes(null)}
+        cancelButtonProps={{ style: { display: 'none' } }}
+        okText='Done'
+      >
+        <Alert
+          type='warning'
+          showIcon
+          className='mb-4'
+          message='Each code signs you in once if you lose your phone. They are only shown now, so store them somewhere safe.'
+        />
+        <Paragraph
+          copyable={{ text: recoveryCodes?.join('\n') }}
+          className='font-mono'
+        >
+          <div className='grid grid-cols-2 gap-1'>
+            {recoveryCodes?.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+        </Paragraph>
+      </Modal>
+    </Card>
+  );
+}
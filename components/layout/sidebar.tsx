@@ -15,6 +15,14 @@ import {
   LogoutOutlined,
   SettingOutlined,
   FolderOutlined,
+  SafetyCertificateOutlined,
+  ScanOutlined,
+  WalletOutlined,
+  AuditOutlined,
+  TeamOutlined,
+  MailOutlined,
+  ReadOutlined,
+  ContainerOutlined,
 } from '@ant-design/icons';
 import { usePathname, useRouter } from 'next/navigation';
 import { signOut, useSession } from 'next-auth/react';
@@ -39,6 +47,13 @@ export default function Sidebar() {
       onClick: () => router.push('/'),
       permission: PERMISSIONS.DASHBOARD_READ,
     },
+    {
+      key: '/my-library/',
+      icon: <ReadOutlined className='text-lg' />,
+      label: 'My Library',
+      onClick: () => router.push('/my-library'),
+      permission: 'any',
+    },
     {
       key: '/books/',
       icon: <BookOutlined className='text-lg' />,
@@ -46,6 +61,13 @@ export default function Sidebar() {
       onClick: () => router.push('/books'),
       permission: PERMISSIONS.BOOKS_READ,
     },
+    {
+      key: '/serials/',
+      icon: <ContainerOutlined className='text-lg' />,
+      label: 'Serials',
+      onClick: () => router.push('/serials'),
+      permission: PERMISSIONS.BOOKS_READ,
+    },
     {
       key: '/borrowers/',
       icon: <UserOutlined className='text-lg' />,
@@ -60,6 +82,20 @@ export default function Sidebar() {
       onClick: () => router.push('/lending'),
       permission: PERMISSIONS.LENDINGS_READ,
     },
+    {
+      key: '/circulation/',
+      icon: <ScanOutlined className='text-lg' />,
+      label: 'Circulation Desk',
+      onClick: () => router.push('/circulation'),
+      permission: PERMISSIONS.LENDINGS_READ,
+    },
+    {
+      key: '/fines/',
+      icon: <WalletOutlined className='text-lg' />,
+      label: 'Fines',
+      onClick: () => router.push('/fines'),
+      permission: PERMISSIONS.FINES_READ,
+    },
     {
       key: '/overdue/',
       icon: <ExclamationCircleOutlined className='text-lg' />,
@@ -88,6 +124,27 @@ export default function Sidebar() {
       onClick: () => router.push('/users'),
       permission: PERMISSIONS.USERS_READ,
     },
+    {
+      key: '/invitations/',
+      icon: <MailOutlined className='text-lg' />,
+      label: 'Invitations',
+      onClick: () => router.push('/invitations'),
+      permission: PERMISSIONS.USERS_CREATE,
+    },
+    {
+      key: '/roles/',
+      icon: <TeamOutlined className='text-lg' />,
+      label: 'Roles & Permissions',
+      onClick: () => router.push('/roles'),
+      permission: PERMISSIONS.ROLES_READ,
+    },
+    {
+      key: '/loan-policies/',
+      icon: <SafetyCertificateOutlined className='text-lg' />,
+      label: 'Loan Policies',
+      onClick: () => router.push('/loan-policies'),
+      permission: PERMISSIONS.LOAN_POLICIES_READ,
+    },
     {
       key: '/cases/',
       icon: <FolderOutlined className='text-lg' />,
@@ -95,6 +152,13 @@ export default function Sidebar() {
       onClick: () => router.push('/cases'),
       permission: PERMISSIONS.CASES_READ,
     },
+    {
+      key: '/audit-logs/',
+      icon: <AuditOutlined className='text-lg' />,
+      label: 'Audit Log',
+      onClick: () => router.push('/audit-logs'),
+      permission: PERMISSIONS.AUDIT_READ,
+    },
     {
       key: '/api-docs/',
       icon: <ApiOutlined className='text-lg' />,
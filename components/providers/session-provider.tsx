@@ -5,10 +5,18 @@
 import { SessionProvider } from 'next-auth/react';
 import type React from 'react';
 
+// Re-read the session every few minutes to pick up role and permission
+// changes, and to notice when it has been revoked
+const REFETCH_INTERVAL_SECONDS = 5 * 60;
+
 export default function NextAuthSessionProvider({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  return <SessionProvider>{children}</SessionProvider>;
+  return (
+    <SessionProvider refetchInterval={REFETCH_INTERVAL_SECONDS}>
+      {children}
+    </SessionProvider>
+  );
 }
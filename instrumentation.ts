@@ -0,0 +1,17 @@
+/** @format */
+
+export async function register() {
+  // Background services rely on Node APIs and a long-lived process
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { startReservationService } = await import('@/lib/reservationService');
+  startReservationService();
+
+  const { startOverdueService } = await import('@/lib/overdueService');
+  startOverdueService();
+
+  const { startReminderService } = await import('@/lib/reminderService');
+  startReminderService();
+}
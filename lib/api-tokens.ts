@@ -0,0 +1,110 @@
+/** @format */
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import type { ApiToken, User } from '@/lib/models';
+import { getClientIp } from '@/lib/audit';
+
+export const TOKEN_PREFIX = 'lms_';
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+export interface ApiTokenAuth {
+  token: ApiToken;
+  user: User;
+}
+
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a random token. Only its hash is stored, so the plain value can be
+ * shown to the owner once and never again.
+ */
+export function generateToken() {
+  const token = `${TOKEN_PREFIX}${randomBytes(24).toString('hex')}`;
+  return {
+    token,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+  };
+}
+
+/** The personal access token sent as `Authorization: Bearer lms_...`, if any */
+export function getBearerApiToken(req: NextRequest) {
+  const header = req.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1].startsWith(TOKEN_PREFIX) ? match[1] : null;
+}
+
+// authMiddleware and requirePermission both look the token up, so the result
+// is kept per request to check it and record its use only once
+const lookups = new WeakMap<NextRequest, Promise<ApiTokenAuth | null>>();
+
+/**
+ * Resolves the personal access token on a request to the token and its owner.
+ * Revoked and expired tokens, and tokens whose owner was deleted or
+ * deactivated, resolve to null. Every successful use updates the token's last-used time.
+ */
+export function authenticateApiToken(req: NextRequest) {
+  const raw = getBearerApiToken(req);
+  if (!raw) return Promise.resolve(null);
+
+  let lookup = lookups.get(req);
+  if (!lookup) {
+    lookup = (async () => {
+      const db = await getDatabase();
+      const now = new Date();
+      const token = await db
+        .collection<ApiToken>('api_tokens')
+        .findOneAndUpdate(
+          {
+            tokenHash: hashToken(raw),
+            revokedAt: null,
+            $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+          },
+          {
+            $set: { lastUsedAt: now, lastUsedIp: getClientIp(req) || null },
+            $inc: { useCount: 1 },
+          },
+          { returnDocument: 'after' }
+        );
+      if (!token) return null;
+
+      const user = await db
+        .collection<User>('users')
+        .findOne({ _id: new ObjectId(token.userId) });
+      if (!user || user.status === 'inactive') return null;
+
+      return { token, user };
+    })().catch((error) => {
+      console.error('API token lookup error:', error);
+      return null;
+    });
+    lookups.set(req, lookup);
+  }
+
+  return lookup;
+}
+
+/** Revokes every active token of a user, e.g. when the account is deactivated */
+export async function revokeApiTokens(userId: ObjectId | string) {
+  const db = await getDatabase();
+  await db
+    .collection<ApiToken>('api_tokens')
+    .updateMany(
+      { userId: new ObjectId(userId), revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+}
+
+/** Strips the hash before a token is sent to the client */
+export function serializeApiToken({ tokenHash, ...token }: ApiToken) {
+  return {
+    ...token,
+    _id: token._id?.toString(),
+    userId: token.userId.toString(),
+  };
+}
@@ -0,0 +1,170 @@
+/** @format */
+
+import type { NextRequest } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import { getCurrentUser } from '@/lib/middleware';
+import type { AuditChange, AuditLog, User } from '@/lib/models';
+import { csvCell } from '@/lib/spreadsheet';
+import { getRequestInfo } from '@/lib/login-attempts';
+
+// Never copied into the audit log
+const REDACTED_FIELDS = [
+  'password',
+  'passwordHistory',
+  'resetToken',
+  'invitationToken',
+  'token',
+  'twoFactor',
+];
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = ['_id', 'createdAt', 'updatedAt'];
+
+// Long values such as document bodies and signatures are cut down to this
+const MAX_STRING_LENGTH = 500;
+
+export interface AuditEntry {
+  action: string;
+  targetType: AuditLog['targetType'];
+  targetId?: ObjectId | string | null;
+  before?: object | null;
+  after?: object | null;
+  details?: Record<string, unknown>;
+  // Defaults to the signed-in user, set for sign-up and password flows
+  actor?: Pick<User, '_id' | 'name' | 'email'> | null;
+}
+
+/**
+ * Makes a value safe to store in the audit log: IDs become strings, secrets
+ * are redacted and long strings are truncated.
+ */
+function sanitize(value: unknown): unknown {
+  if (value instanceof ObjectId) return value.toString();
+  if (value instanceof Date || value === null || value === undefined) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(sanitize);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, field]) => [
+        key,
+        REDACTED_FIELDS.includes(key) ? '[redacted]' : sanitize(field),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Lists the top-level fields that differ between two snapshots of a record.
+ */
+export function diffValues(
+  before: Record<string, unknown> = {},
+  after: Record<string, unknown> = {}
+): AuditChange[] {
+  const fields = Object.keys({ ...before, ...after }).filter(
+    (field) => !IGNORED_FIELDS.includes(field)
+  );
+
+  return fields
+    .filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+export function getClientIp(request: NextRequest) {
+  return getRequestInfo(request.headers, request.ip).ip || undefined;
+}
+
+/**
+ * Records a write in the audit log with who made it, from where, and what
+ * changed. Audit failures are logged and never fail the request.
+ */
+export async function recordAudit(request: NextRequest, entry: AuditEntry) {
+  try {
+    const actor =
+      entry.actor !== undefined ? entry.actor : await getCurrentUser(request);
+    const oldValues = entry.before
+      ? (sanitize(entry.before) as Record<string, unknown>)
+      : undefined;
+    const newValues = entry.after
+      ? (sanitize(entry.after) as Record<string, unknown>)
+      : undefined;
+
+    const log: AuditLog = {
+      action: entry.action,
+      targetType: entry.targetType,
+      ...(entry.targetId && {
+        targetId: ObjectId.isValid(entry.targetId)
+          ? new ObjectId(entry.targetId)
+          : entry.targetId,
+      }),
+      ...(actor?._id && {
+        actor: new ObjectId(actor._id),
+        actorName: actor.name,
+        actorEmail: actor.email,
+      }),
+      details: {
+        ...(entry.details &&
+          (sanitize(entry.details) as Record<string, unknown>)),
+        ...(oldValues && { oldValues }),
+        ...(newValues && { newValues }),
+        ...(oldValues &&
+          newValues && { changes: diffValues(oldValues, newValues) }),
+      },
+      ip: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+      timestamp: new Date(),
+    };
+
+    const db = await getDatabase();
+    await db.collection<AuditLog>('audit_logs').insertOne(log);
+  } catch (error) {
+    console.error('Failed to create audit log:', error);
+  }
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'action',
+  'targetType',
+  'targetId',
+  'actorName',
+  'actorEmail',
+  'ip',
+  'changes',
+] as const;
+
+/**
+ * Renders audit log entries as CSV, one row per entry with the changed
+ * fields summarised as `field: from → to`.
+ */
+export function auditLogsToCsv(logs: AuditLog[]) {
+  const rows = logs.map((log) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === 'timestamp') return log.timestamp.toISOString();
+      if (column === 'changes') {
+        return (log.details?.changes ?? [])
+          .map(
+            ({ field, from, to }) =>
+              `${field}: ${JSON.stringify(from) ?? ''} → ${
+                JSON.stringify(to) ?? ''
+              }`
+          )
+          .join('; ');
+      }
+      return log[column]?.toString();
+    })
+      .map(csvCell)
+      .join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -24,6 +24,17 @@ export const PERMISSIONS = {
   LENDINGS_UPDATE: 'lendings:update',
   LENDINGS_DELETE: 'lendings:delete',
 
+  // Loan Policies
+  LOAN_POLICIES_READ: 'loan_policies:read',
+  LOAN_POLICIES_CREATE: 'loan_policies:create',
+  LOAN_POLICIES_UPDATE: 'loan_policies:update',
+  LOAN_POLICIES_DELETE: 'loan_policies:delete',
+
+  // Fines
+  FINES_READ: 'fines:read',
+  FINES_CREATE: 'fines:create',
+  FINES_WAIVE: 'fines:waive',
+
   // Reports
   REPORTS_READ: 'reports:read',
   REPORTS_EXPORT: 'reports:export',
@@ -43,6 +54,15 @@ export const PERMISSIONS = {
   // API Docs
   API_DOCS_READ: 'api_docs:read',
 
+  // Audit Log
+  AUDIT_READ: 'audit:read',
+
+  // Roles
+  ROLES_READ: 'roles:read',
+  ROLES_CREATE: 'roles:create',
+  ROLES_UPDATE: 'roles:update',
+  ROLES_DELETE: 'roles:delete',
+
   // Case Management
   CASES_READ: 'cases:read',
   CASES_CREATE: 'cases:create',
@@ -76,13 +96,29 @@ export const ADMIN_PERMISSIONS: Permission[] = [
   PERMISSIONS.LENDINGS_CREATE,
   PERMISSIONS.LENDINGS_UPDATE,
   PERMISSIONS.LENDINGS_DELETE,
+  PERMISSIONS.LOAN_POLICIES_READ,
+  PERMISSIONS.LOAN_POLICIES_CREATE,
+  PERMISSIONS.LOAN_POLICIES_UPDATE,
+  PERMISSIONS.LOAN_POLICIES_DELETE,
+  PERMISSIONS.FINES_READ,
+  PERMISSIONS.FINES_CREATE,
+  PERMISSIONS.FINES_WAIVE,
   PERMISSIONS.REPORTS_READ,
   PERMISSIONS.REPORTS_EXPORT,
   PERMISSIONS.USERS_READ,
   PERMISSIONS.USERS_CREATE,
   PERMISSIONS.USERS_UPDATE,
   PERMISSIONS.USERS_DELETE,
+  PERMISSIONS.NOTIFICATIONS_READ,
+  PERMISSIONS.NOTIFICATIONS_CREATE,
+  PERMISSIONS.NOTIFICATIONS_UPDATE,
+  PERMISSIONS.NOTIFICATIONS_DELETE,
   PERMISSIONS.API_DOCS_READ,
+  PERMISSIONS.AUDIT_READ,
+  PERMISSIONS.ROLES_READ,
+  PERMISSIONS.ROLES_CREATE,
+  PERMISSIONS.ROLES_UPDATE,
+  PERMISSIONS.ROLES_DELETE,
   PERMISSIONS.CASES_READ,
   PERMISSIONS.CASES_CREATE,
   PERMISSIONS.CASES_UPDATE,
@@ -104,7 +140,13 @@ export const LIBRARIAN_PERMISSIONS: Permission[] = [
   PERMISSIONS.LENDINGS_READ,
   PERMISSIONS.LENDINGS_CREATE,
   PERMISSIONS.LENDINGS_UPDATE,
+  PERMISSIONS.LOAN_POLICIES_READ,
+  PERMISSIONS.FINES_READ,
+  PERMISSIONS.FINES_CREATE,
   PERMISSIONS.REPORTS_READ,
+  PERMISSIONS.NOTIFICATIONS_READ,
+  PERMISSIONS.NOTIFICATIONS_UPDATE,
+  PERMISSIONS.NOTIFICATIONS_DELETE,
   PERMISSIONS.CASES_READ,
   PERMISSIONS.DOCUMENTS_READ,
 ];
@@ -115,6 +157,8 @@ export const DEFAULT_USER_PERMISSIONS: Permission[] = [
   PERMISSIONS.BORROWERS_READ,
   PERMISSIONS.LENDINGS_READ,
   PERMISSIONS.NOTIFICATIONS_READ,
+  PERMISSIONS.NOTIFICATIONS_UPDATE,
+  PERMISSIONS.NOTIFICATIONS_DELETE,
   PERMISSIONS.CASES_READ,
   PERMISSIONS.DOCUMENTS_READ,
 ];
@@ -140,10 +184,27 @@ export async function verifyPassword(
   return await bcrypt.compare(password, hashedPassword);
 }
 
-// Role to permissions mapping
+// Built-in roles, seeded into the roles collection where Admins can change
+// their permissions. Super Admin always has every permission.
+export const SUPER_ADMIN_ROLE = 'Super Admin';
+export const DEFAULT_ROLE = 'User';
+
 export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
   'Super Admin': SUPER_ADMIN_PERMISSIONS,
   Admin: ADMIN_PERMISSIONS,
   Librarian: LIBRARIAN_PERMISSIONS,
   User: DEFAULT_USER_PERMISSIONS,
 };
+
+// Sign-in errors telling the sign-in page to ask for a second factor
+export const TWO_FACTOR_REQUIRED = 'TwoFactorRequired';
+export const TWO_FACTOR_INVALID = 'TwoFactorInvalid';
+
+// Single sign-on refusals, passed back to the sign-in page as error codes
+export const SSO_NO_ACCOUNT = 'SsoNoAccount';
+export const SSO_EMAIL_MISSING = 'SsoEmailMissing';
+export const SSO_ACCOUNT_MISMATCH = 'SsoAccountMismatch';
+export const SSO_ACCOUNT_INACTIVE = 'SsoAccountInactive';
+export const SSO_ACCOUNT_LOCKED = 'SsoAccountLocked';
+export const SSO_THROTTLED = 'SsoThrottled';
+export const SSO_EMAIL_UNVERIFIED = 'SsoEmailUnverified';
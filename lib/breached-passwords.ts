@@ -0,0 +1,268 @@
+/** @format */
+
+// The most common passwords seen in public breach corpora, lowercased. A
+// password matches when it, or it with trailing digits and symbols removed,
+// is on the list, so "Password123!" is caught by "password".
+export const BREACHED_PASSWORDS: string[] = [
+  '123456',
+  '123456789',
+  '12345678',
+  '12345',
+  '1234567',
+  '1234567890',
+  '123123',
+  '111111',
+  '000000',
+  '654321',
+  '666666',
+  '121212',
+  '112233',
+  '123321',
+  '987654321',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'qwe123',
+  'qazwsx',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbnm',
+  'zxcvbn',
+  'abc123',
+  'abcdef',
+  'abcd1234',
+  'aa123456',
+  'a123456',
+  'password',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'pass',
+  'pass123',
+  'password1',
+  'passwort',
+  'letmein',
+  'welcome',
+  'welcome1',
+  'admin',
+  'administrator',
+  'root',
+  'toor',
+  'guest',
+  'user',
+  'login',
+  'test',
+  'test123',
+  'changeme',
+  'default',
+  'secret',
+  'master',
+  'access',
+  'trustno1',
+  'iloveyou',
+  'iloveu',
+  'loveme',
+  'lovely',
+  'love',
+  'monkey',
+  'dragon',
+  'shadow',
+  'sunshine',
+  'princess',
+  'football',
+  'baseball',
+  'basketball',
+  'soccer',
+  'hockey',
+  'superman',
+  'batman',
+  'spiderman',
+  'starwars',
+  'pokemon',
+  'michael',
+  'jennifer',
+  'jessica',
+  'ashley',
+  'daniel',
+  'charlie',
+  'jordan',
+  'thomas',
+  'robert',
+  'matthew',
+  'andrew',
+  'joshua',
+  'hunter',
+  'ranger',
+  'buster',
+  'tigger',
+  'ginger',
+  'pepper',
+  'cookie',
+  'maggie',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'freedom',
+  'whatever',
+  'nothing',
+  'computer',
+  'internet',
+  'samsung',
+  'google',
+  'apple',
+  'microsoft',
+  'killer',
+  'mustang',
+  'ferrari',
+  'harley',
+  'corvette',
+  'mercedes',
+  'chelsea',
+  'arsenal',
+  'liverpool',
+  'barcelona',
+  'yankees',
+  'cowboys',
+  'eagles',
+  'dallas',
+  'london',
+  'chicago',
+  'jesus',
+  'blessed',
+  'angel',
+  'flower',
+  'butterfly',
+  'purple',
+  'orange',
+  'banana',
+  'cheese',
+  'chocolate',
+  'cookies',
+  'hello',
+  'hello123',
+  'hellohello',
+  'helloworld',
+  'money',
+  'golden',
+  'diamond',
+  'silver',
+  'qwerty1',
+  'zaq12wsx',
+  'q1w2e3r4',
+  'q1w2e3r4t5',
+  'asd123',
+  'asdf1234',
+  'asdasd',
+  'qweqwe',
+  'aaaaaa',
+  'abcabc',
+  'azerty',
+  'soleil',
+  'bonjour',
+  'naruto',
+  'lovers',
+  'family',
+  'friends',
+  'forever',
+  'myspace',
+  'facebook',
+  'youtube',
+  'twitter',
+  'linkedin',
+  'monday',
+  'friday',
+  'january',
+  'september',
+  'december',
+  'mother',
+  'father',
+  'sister',
+  'brother',
+  'babygirl',
+  'baby',
+  'sweety',
+  'sweetheart',
+  'honey',
+  'sexy',
+  'hottie',
+  'beautiful',
+  'pretty',
+  'rockyou',
+  'rocky',
+  'tinkerbell',
+  'peanut',
+  'buddy',
+  'snoopy',
+  'scooter',
+  'jasmine',
+  'matrix',
+  'phoenix',
+  'thunder',
+  'soccer1',
+  'player',
+  'gamer',
+  'nintendo',
+  'playstation',
+  'xbox',
+  'minecraft',
+  'fortnite',
+  'qwertyui',
+  'asdfasdf',
+  'zxcvzxcv',
+  'password!',
+  'secure',
+  'security',
+  'library',
+  'librarian',
+  'books',
+  'reading',
+  'student',
+  'teacher',
+  'school',
+  'college',
+  'office',
+  'company',
+  'business',
+  'manager',
+  'support',
+  'service',
+  'system',
+  'server',
+  'database',
+  'network',
+  'oracle',
+  'mysql',
+  'linux',
+  'windows',
+  'temp',
+  'temporary',
+  'newpassword',
+  'mypassword',
+  'yourpassword',
+  'letmein123',
+  'welcome123',
+  'admin123',
+  'root123',
+  'password123',
+  'iloveyou123',
+  '11111111',
+  '22222222',
+  '88888888',
+  '99999999',
+  '00000000',
+  '12341234',
+  '11223344',
+  '147258369',
+  '159753',
+  '7777777',
+  '555555',
+  '1111111',
+  '123654',
+  '102030',
+  '5201314',
+  '31415926',
+];
@@ -0,0 +1,318 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type WithId } from 'mongodb';
+import type {
+  Book,
+  BookCopy,
+  Borrower,
+  LendingRecord,
+  LoanPolicy,
+  LoanPolicyViolation,
+  LoanRenewal,
+  Reservation,
+  User,
+} from '@/lib/models';
+import {
+  ACTIVE_RESERVATION_STATUSES,
+  findHoldConflict,
+  releaseHeldCopy,
+} from '@/lib/reservations';
+import {
+  evaluateLoan,
+  getRenewalPolicy,
+  resolveLoanPolicy,
+} from '@/lib/loanPolicies';
+import { checkOutCopy, ensureCopies, syncCopyCounts } from '@/lib/copies';
+import { accrueOverdueFine, checkFineBlock } from '@/lib/fines';
+import { checkRenewal, getRenewedDueDate } from '@/lib/renewals';
+
+export interface LendingFailure {
+  error: string;
+  status: number; // HTTP status the failure maps to
+  violations?: LoanPolicyViolation[];
+  policy?: LoanPolicy;
+  canReserve?: boolean;
+  code?: string; // Why a renewal was refused
+}
+
+export type LendingOutcome =
+  | { lending: WithId<LendingRecord>; copy: WithId<BookCopy> }
+  | { failure: LendingFailure };
+
+export type RenewalOutcome =
+  | { lending: WithId<LendingRecord> }
+  | { failure: LendingFailure };
+
+export type HoldOutcome =
+  | { reservation: WithId<Reservation> }
+  | { failure: LendingFailure };
+
+/**
+ * Finds the item behind a scanned barcode. Copy barcodes identify a single
+ * volume, while a book's `bookId` matches any of its copies.
+ * @returns The book and, for copy barcodes, the copy, or null when nothing
+ * matches.
+ */
+export async function findItemByBarcode(barcode: string) {
+  const db = await getDatabase();
+  const code = barcode.trim();
+
+  const copy = await db
+    .collection<BookCopy>('book_copies')
+    .findOne({ barcode: code });
+  const book = await db
+    .collection<Book>('books')
+    .findOne(copy ? { _id: copy.bookId } : { bookId: code });
+
+  if (!book) {
+    return null;
+  }
+  return { book, copy: copy || undefined };
+}
+
+/**
+ * Lends a book to a borrower, applying the same rules as the lending desk:
+ * ready holds get their set-aside copy, everyone else needs an available copy,
+ * the loan must satisfy the loan policy, and the borrower must not owe more
+ * than the fines limit. A specific copy is lent when one is given, otherwise
+ * any copy on the shelf.
+ */
+export async function lendBook({
+  book,
+  borrower,
+  copyId,
+  dueDate,
+  notes,
+}: {
+  book: WithId<Book>;
+  borrower: WithId<Borrower>;
+  copyId?: BookCopy['_id'];
+  dueDate?: Date;
+  notes?: string;
+}): Promise<LendingOutcome> {
+  const db = await getDatabase();
+  await ensureCopies(book._id);
+
+  // A ready hold means a copy has already been set aside for this borrower
+  const reservation = await db.collection<Reservation>('reservations').findOne({
+    bookId: book._id,
+    borrowerId: borrower._id,
+    status: { $in: ACTIVE_RESERVATION_STATUSES },
+  });
+  const pickingUpHold = reservation?.status === 'ready';
+
+  const noCopies: LendingOutcome = {
+    failure: {
+      error: 'No available copies of this book',
+      status: 400,
+      canReserve: true,
+    },
+  };
+  const { availableCopies = 0 } =
+    (await db
+      .collection<Book>('books')
+      .findOne({ _id: book._id }, { projection: { availableCopies: 1 } })) ||
+    {};
+  if (!pickingUpHold && availableCopies <= 0) return noCopies;
+
+  const { policy, defaultDueDate, violations } = await evaluateLoan(
+    book,
+    borrower,
+    dueDate
+  );
+  const fineBlock = await checkFineBlock(borrower);
+  if (fineBlock) violations.push(fineBlock);
+  if (violations.length > 0) {
+    return {
+      failure: {
+        error: 'Loan violates the loan policy',
+        status: 422,
+        violations,
+        policy: { ...policy, _id: policy._id?.toString() },
+      },
+    };
+  }
+
+  // The count is taken down in the same update that checks it, so checkouts
+  // running at once cannot both take the last copy or one set aside for a
+  // ready hold. A hold's own copy is already left out of the count.
+  if (!pickingUpHold) {
+    const claimed = await db
+      .collection<Book>('books')
+      .updateOne(
+        { _id: book._id, availableCopies: { $gt: 0 } },
+        { $inc: { availableCopies: -1 } }
+      );
+    if (claimed.modifiedCount === 0) return noCopies;
+  }
+
+  const copy = await checkOutCopy(book._id, copyId);
+  if (!copy) {
+    // Gives back the copy claimed from the count
+    await syncCopyCounts(book._id);
+    return {
+      failure: {
+        error: copyId
+          ? 'The requested copy is not on the shelf'
+          : 'No copies of this book are on the shelf',
+        status: 409,
+      },
+    };
+  }
+
+  const newLending: LendingRecord = {
+    bookId: book._id,
+    borrowerId: borrower._id,
+    copyId: copy._id,
+    borrowDate: new Date(),
+    dueDate: dueDate || defaultDueDate,
+    status: 'borrowed',
+    notes: notes || '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const result = await db
+    .collection<LendingRecord>('lendings')
+    .insertOne(newLending);
+
+  if (reservation) {
+    await db.collection<Reservation>('reservations').updateOne(
+      { _id: reservation._id },
+      {
+        $set: {
+          status: 'fulfilled',
+          fulfilledAt: new Date(),
+          lendingId: result.insertedId,
+          updatedAt: new Date(),
+        },
+      }
+    );
+  }
+
+  await syncCopyCounts(book._id);
+
+  return { lending: { ...newLending, _id: result.insertedId }, copy };
+}
+
+/**
+ * Renews a loan under the renewal rules of its loan policy, recording the
+ * renewal on the lending record.
+ */
+export async function renewLending(
+  lending: WithId<LendingRecord>,
+  renewedBy?: User | null
+): Promise<RenewalOutcome> {
+  const db = await getDatabase();
+  const book = await db
+    .collection<Book>('books')
+    .findOne({ _id: new ObjectId(lending.bookId) });
+  const borrower = await db
+    .collection<Borrower>('borrowers')
+    .findOne({ _id: new ObjectId(lending.borrowerId) });
+  const renewalPolicy = getRenewalPolicy(
+    await resolveLoanPolicy(borrower?.role || '', book?.category || '')
+  );
+
+  const refusal = await checkRenewal(lending, renewalPolicy);
+  if (refusal) {
+    return {
+      failure: { error: refusal.message, code: refusal.code, status: 409 },
+    };
+  }
+
+  const renewal: LoanRenewal = {
+    renewedAt: new Date(),
+    previousDueDate: lending.dueDate,
+    newDueDate: getRenewedDueDate(lending.dueDate, renewalPolicy),
+    ...(renewedBy?._id && { renewedBy: renewedBy._id }),
+  };
+
+  // Matching on the old renewal count guards against concurrent renewals
+  const result = await db
+    .collection<LendingRecord>('lendings')
+    .findOneAndUpdate(
+      {
+        _id: lending._id,
+        renewalCount: lending.renewalCount ?? { $exists: false },
+      },
+      {
+        $set: {
+          dueDate: renewal.newDueDate,
+          status: 'borrowed',
+          updatedAt: new Date(),
+        },
+        $inc: { renewalCount: 1 },
+        $push: { renewals: renewal },
+      },
+      { returnDocument: 'after' }
+    );
+
+  if (!result) {
+    return {
+      failure: {
+        error: 'Loan was modified by another request, please retry',
+        status: 409,
+      },
+    };
+  }
+
+  // A loan renewed inside its grace period keeps the fine it accrued so far
+  await accrueOverdueFine(lending, { close: true });
+
+  return { lending: result };
+}
+
+/**
+ * Places a borrower in the hold queue for a book. With `setAsideIfAvailable`
+ * a book with copies on the shelf gets one set aside for pickup straight
+ * away, otherwise such books must be borrowed at the desk instead.
+ */
+export async function placeHold({
+  book,
+  borrower,
+  notes,
+  setAsideIfAvailable = false,
+}: {
+  book: WithId<Book>;
+  borrower: WithId<Borrower>;
+  notes?: string;
+  setAsideIfAvailable?: boolean;
+}): Promise<HoldOutcome> {
+  if (book.availableCopies > 0 && !setAsideIfAvailable) {
+    return {
+      failure: {
+        error: 'Copies of this book are available to borrow now',
+        status: 400,
+      },
+    };
+  }
+
+  const conflict = await findHoldConflict(book._id, borrower._id);
+  if (conflict) {
+    return { failure: { error: conflict, status: 400 } };
+  }
+
+  const db = await getDatabase();
+  const newReservation: Reservation = {
+    bookId: book._id,
+    borrowerId: borrower._id,
+    status: 'pending',
+    notes: notes || '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const result = await db
+    .collection<Reservation>('reservations')
+    .insertOne(newReservation);
+
+  if (book.availableCopies > 0) {
+    await releaseHeldCopy(book._id);
+  }
+
+  const reservation = await db
+    .collection<Reservation>('reservations')
+    .findOne({ _id: result.insertedId });
+  return { reservation: reservation! };
+}
@@ -0,0 +1,189 @@
+/** @format */
+
+import type { Filter } from 'mongodb';
+import type { Book, BookCitation } from '@/lib/models';
+
+// Citations of Nigerian and English law reports, such as
+// (2019) 8 NWLR (Pt. 1675) 1, [2010] 2 SC 45 or [1932] AC 562. Pasted
+// citations are parsed into their parts so that the catalogue can find the
+// volume, or the case, they point to.
+
+export const CITATION_CATEGORIES = ['Law Report', 'Case Law'];
+
+// Canonical abbreviation of each series the parser recognises
+export const LAW_REPORT_SERIES = [
+  'NWLR',
+  'All NLR',
+  'NLR',
+  'SC',
+  'SCNJ',
+  'SCNLR',
+  'NSCC',
+  'FWLR',
+  'All FWLR',
+  'WRN',
+  'LRCN',
+  'AC',
+  'QB',
+  'KB',
+  'Ch',
+  'WLR',
+  'All ER',
+  "Lloyd's Rep",
+];
+
+// Older or longer forms of a series, by their compacted spelling
+const SERIES_ALIASES: Record<string, string> = {
+  QBD: 'QB',
+  KBD: 'KB',
+  CHD: 'Ch',
+  SCN: 'SCNJ',
+  LLOYDSLR: "Lloyd's Rep",
+  LLOYDSLAWREP: "Lloyd's Rep",
+};
+
+const seriesKey = (text: string) => text.toUpperCase().replace(/[^A-Z]/g, '');
+
+const SERIES_BY_KEY: Record<string, string> = {
+  ...Object.fromEntries(
+    LAW_REPORT_SERIES.map((series) => [seriesKey(series), series])
+  ),
+  ...SERIES_ALIASES,
+};
+
+/**
+ * The canonical abbreviation of a series however it is written, e.g.
+ * "N.W.L.R." or "all e.r.", or undefined for an unknown series.
+ */
+export const normalizeSeries = (text: string) => SERIES_BY_KEY[seriesKey(text)];
+
+// Each known spelling, letters optionally separated by dots, spaces or
+// apostrophes, longest first so that "All NLR" is not read as "NLR"
+const SERIES_PATTERN = Object.keys(SERIES_BY_KEY)
+  .sort((a, b) => b.length - a.length)
+  .map((key) => Array.from(key).join("[.\\s']*"))
+  .join('|');
+
+const CITATION_PATTERN = new RegExp(
+  '(?:^|[^a-z0-9])' +
+    '(?:[\\[(]\\s*(\\d{4})\\s*[\\])]\\s*)?' + // (2019) or [1932]
+    '(?:(\\d{1,4})\\s+)?' + // volume
+    `(${SERIES_PATTERN})\\.?(?![a-z])` +
+    '(?:\\s*\\(?\\s*(?:pt|part)\\.?\\s*(\\d{1,5}|[ivxl]+)\\s*\\)?)?' + // (Pt. 1675)
+    '(?:\\s*,?\\s*(?:p|pg|page)?\\.?\\s*(\\d{1,5}))?', // first page
+  'gi'
+);
+
+const CITATION_FIELDS = ['year', 'volume', 'part', 'page'] as const;
+
+const ROMAN_NUMERALS: Record<string, number> = {
+  i: 1,
+  v: 5,
+  x: 10,
+  l: 50,
+};
+
+// Parts of older Supreme Court reports are numbered I, II, III...
+function readNumber(text: string) {
+  if (/^\d+$/.test(text)) return Number.parseInt(text, 10);
+
+  let total = 0;
+  const digits = text.toLowerCase();
+  for (let i = 0; i < digits.length; i++) {
+    const value = ROMAN_NUMERALS[digits[i]];
+    const next = ROMAN_NUMERALS[digits[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+/**
+ * Finds the first law report citation in the text, which may also hold a
+ * case name such as "Donoghue v Stevenson [1932] AC 562". A series alone is
+ * not a citation: the year, volume or part must say which volume is meant.
+ */
+export function parseCitation(text: string): BookCitation | null {
+  const pattern = new RegExp(CITATION_PATTERN.source, CITATION_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const [, year, volume, series, part, page] = match;
+    if (year || volume || part) {
+      const citation: BookCitation = { series: normalizeSeries(series) };
+      if (year) citation.year = Number.parseInt(year, 10);
+      if (volume) citation.volume = Number.parseInt(volume, 10);
+      if (part) citation.part = readNumber(part);
+      if (page) citation.page = Number.parseInt(page, 10);
+      return citation;
+    }
+    // Allow the next match to start inside this one
+    pattern.lastIndex = match.index + 1;
+  }
+  return null;
+}
+
+/**
+ * A citation as it is usually written: the year in round brackets for
+ * series cited by part, and in square brackets otherwise.
+ */
+export function formatCitation(citation: BookCitation) {
+  const parts: string[] = [];
+  if (citation.year) {
+    parts.push(citation.part ? `(${citation.year})` : `[${citation.year}]`);
+  }
+  if (citation.volume) parts.push(String(citation.volume));
+  parts.push(citation.series);
+  if (citation.part) parts.push(`(Pt. ${citation.part})`);
+  if (citation.page) parts.push(String(citation.page));
+  return parts.join(' ');
+}
+
+/**
+ * A stored citation with the series in its canonical form and anything
+ * other than the citation fields left out.
+ */
+export function normalizeCitation(citation: BookCitation): BookCitation {
+  const normalized: BookCitation = {
+    series: normalizeSeries(citation.series) || citation.series.trim(),
+  };
+  for (const field of CITATION_FIELDS) {
+    if (citation[field] != null) normalized[field] = citation[field];
+  }
+  return normalized;
+}
+
+/**
+ * Books a citation may point to: in the same series, agreeing with every
+ * part of the citation they record, and sharing at least its year, volume
+ * or part. A whole volume recorded without a first page matches any case
+ * cited in it.
+ */
+export function getCitationFilter(citation: BookCitation): Filter<Book> {
+  const agrees = CITATION_FIELDS.filter((field) => citation[field] != null).map(
+    (field) => ({
+      $or: [
+        { [`citation.${field}`]: citation[field] },
+        { [`citation.${field}`]: { $exists: false } },
+      ],
+    })
+  );
+  const identifies = (['year', 'volume', 'part'] as const)
+    .filter((field) => citation[field] != null)
+    .map((field) => ({ [`citation.${field}`]: citation[field] }));
+
+  return {
+    'citation.series': citation.series,
+    $and: [...agrees, { $or: identifies }],
+  } as Filter<Book>;
+}
+
+/**
+ * How closely a book's citation matches the searched one, as an
+ * aggregation expression: one point for each part recorded on both.
+ */
+export const citationScore = (citation: BookCitation) => ({
+  $add: CITATION_FIELDS.filter((field) => citation[field] != null).map(
+    (field) => ({
+      $cond: [{ $eq: [`$citation.${field}`, citation[field]] }, 1, 0],
+    })
+  ),
+});
@@ -0,0 +1,218 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import type { Book, BookCopy, LendingRecord, Reservation } from '@/lib/models';
+
+export const COPY_STATUSES: BookCopy['status'][] = [
+  'on_shelf',
+  'on_loan',
+  'missing',
+  'withdrawn',
+  'in_repair',
+];
+
+export const COPY_CONDITIONS: BookCopy['condition'][] = [
+  'new',
+  'good',
+  'fair',
+  'poor',
+  'damaged',
+];
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
+/**
+ * Recomputes a book's counters from the state of its copies. Withdrawn copies
+ * no longer count towards the holdings, and copies on the shelf that are set
+ * aside for a ready hold are not available to other borrowers.
+ * @returns The updated counters.
+ */
+export async function syncCopyCounts(bookId: string | ObjectId) {
+  const db = await getDatabase();
+  const bookObjectId = toObjectId(bookId);
+
+  const counts = await db
+    .collection<BookCopy>('book_copies')
+    .aggregate<{ _id: BookCopy['status']; count: number }>([
+      { $match: { bookId: bookObjectId } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ])
+    .toArray();
+  const countOf = (status: BookCopy['status']) =>
+    counts.find((c) => c._id === status)?.count || 0;
+
+  const heldCopies = await db
+    .collection<Reservation>('reservations')
+    .countDocuments({ bookId: bookObjectId, status: 'ready' });
+
+  const totalCopies = counts.reduce((sum, c) => sum + c.count, 0);
+  const copyCounts = {
+    totalCopies: totalCopies - countOf('withdrawn'),
+    availableCopies: Math.max(countOf('on_shelf') - heldCopies, 0),
+  };
+
+  await db
+    .collection<Book>('books')
+    .updateOne(
+      { _id: bookObjectId },
+      { $set: { ...copyCounts, updatedAt: new Date() } }
+    );
+
+  return copyCounts;
+}
+
+/**
+ * Adds new copies of a book to the shelf with generated barcodes of the form
+ * `<bookId>-001`. The book's counters are not synced.
+ */
+export async function addCopies(
+  book: Book,
+  count: number,
+  details: Partial<Pick<BookCopy, 'condition' | 'acquisitionDate'>> = {}
+) {
+  const db = await getDatabase();
+  const collection = db.collection<BookCopy>('book_copies');
+  const bookObjectId = toObjectId(book._id!);
+
+  let sequence = await collection.countDocuments({ bookId: bookObjectId });
+  const copies: BookCopy[] = [];
+
+  while (copies.length < count) {
+    sequence++;
+    const barcode = `${book.bookId}-${String(sequence).padStart(3, '0')}`;
+    if (await collection.findOne({ barcode })) {
+      continue;
+    }
+
+    copies.push({
+      bookId: bookObjectId,
+      barcode,
+      condition: details.condition || 'new',
+      status: 'on_shelf',
+      acquisitionDate: details.acquisitionDate || new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  if (copies.length > 0) {
+    await collection.insertMany(copies);
+  }
+  return copies;
+}
+
+/**
+ * Creates copy records for a book catalogued before copies were tracked.
+ * Open loans are matched to the new copies so that the counters stay the
+ * same once they are derived from copy state.
+ */
+export async function ensureCopies(bookId: string | ObjectId) {
+  const db = await getDatabase();
+  const bookObjectId = toObjectId(bookId);
+
+  const hasCopies = await db
+    .collection<BookCopy>('book_copies')
+    .countDocuments({ bookId: bookObjectId }, { limit: 1 });
+  if (hasCopies) {
+    return;
+  }
+
+  const book = await db
+    .collection<Book>('books')
+    .findOne({ _id: bookObjectId });
+  if (!book) {
+    return;
+  }
+
+  const openLendings = await db
+    .collection<LendingRecord>('lendings')
+    .find({
+      bookId: bookObjectId,
+      status: { $in: ['borrowed', 'overdue'] },
+      copyId: { $exists: false },
+    })
+    .toArray();
+
+  const copies = await addCopies(
+    book,
+    Math.max(book.totalCopies, openLendings.length),
+    { condition: 'good' }
+  );
+
+  for (let i = 0; i < openLendings.length; i++) {
+    const copy = await db
+      .collection<BookCopy>('book_copies')
+      .findOneAndUpdate(
+        { barcode: copies[i].barcode },
+        { $set: { status: 'on_loan', updatedAt: new Date() } }
+      );
+    await db
+      .collection<LendingRecord>('lendings')
+      .updateOne({ _id: openLendings[i]._id }, { $set: { copyId: copy!._id } });
+  }
+
+  console.log(
+    `📚 Created ${copies.length} copy records for book ${book.bookId}`
+  );
+  await syncCopyCounts(bookObjectId);
+}
+
+/**
+ * Takes a copy of a book off the shelf for a loan. Picks the requested copy
+ * when one is given, otherwise any copy on the shelf.
+ * @returns The copy that was checked out, or null when none is on the shelf.
+ */
+export async function checkOutCopy(
+  bookId: string | ObjectId,
+  copyId?: string | ObjectId
+) {
+  const db = await getDatabase();
+  return db.collection<BookCopy>('book_copies').findOneAndUpdate(
+    {
+      bookId: toObjectId(bookId),
+      status: 'on_shelf',
+      ...(copyId && { _id: toObjectId(copyId) }),
+    },
+    { $set: { status: 'on_loan', updatedAt: new Date() } },
+    { sort: { barcode: 1 }, returnDocument: 'after' }
+  );
+}
+
+/**
+ * Puts a returned copy back on the shelf, recording the condition it came
+ * back in. Damaged copies are sent for repair instead.
+ * @returns The updated copy, or null when it does not exist.
+ */
+export async function checkInCopy(
+  copyId: string | ObjectId,
+  condition?: BookCopy['condition']
+) {
+  const db = await getDatabase();
+  return db.collection<BookCopy>('book_copies').findOneAndUpdate(
+    { _id: toObjectId(copyId) },
+    {
+      $set: {
+        status: condition === 'damaged' ? 'in_repair' : 'on_shelf',
+        ...(condition && { condition }),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: 'after' }
+  );
+}
+
+/**
+ * Records a lent copy as missing once its borrower reports it lost.
+ */
+export async function markCopyMissing(copyId: string | ObjectId) {
+  const db = await getDatabase();
+  return db
+    .collection<BookCopy>('book_copies')
+    .findOneAndUpdate(
+      { _id: toObjectId(copyId) },
+      { $set: { status: 'missing', updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+}
@@ -14,6 +14,7 @@ export interface OverdueBookNotification {
   author: string;
   dueDate: Date;
   daysOverdue: number;
+  finalNotice?: boolean; // Last reminder before the loan is escalated
 }
 
 export interface DueSoonNotification {
@@ -25,6 +26,21 @@ export interface DueSoonNotification {
   daysUntilDue: number;
 }
 
+export interface BookAvailableNotification {
+  borrowerName: string;
+  borrowerEmail: string;
+  bookTitle: string;
+  author: string;
+  pickupBy: Date;
+}
+
+export interface NewDeviceSignInNotification {
+  userName: string;
+  signedInAt: Date;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
 interface EmailOptions {
   to: string;
   subject: string;
@@ -126,7 +142,8 @@ export async function testEmailConnection() {
 export function generateOverdueEmailHtml(
   borrowerName: string,
   bookTitle: string,
-  dueDate: Date
+  dueDate: Date,
+  daysOverdue?: number
 ): string {
   const formattedDueDate = dueDate.toLocaleDateString('en-US', {
     year: 'numeric',
@@ -139,7 +156,9 @@ export function generateOverdueEmailHtml(
       <h2 style="color: #d9534f;">Overdue Book Reminder</h2>
       <p>Dear ${borrowerName},</p>
       <p>This is a friendly reminder that the book <strong>"${bookTitle}"</strong> that you borrowed is now overdue.</p>
-      <p>It was due on: <strong>${formattedDueDate}</strong></p>
+      <p>It was due on: <strong>${formattedDueDate}</strong>${
+    daysOverdue ? ` (${daysOverdue} day(s) ago)` : ''
+  }</p>
       <p>Please return the book as soon as possible to avoid further charges or restrictions.</p>
       <p>If you have already returned the book, please disregard this email.</p>
       <p>Thank you for your cooperation.</p>
@@ -149,7 +168,11 @@ export function generateOverdueEmailHtml(
   `;
 }
 
-export async function sendInvitationEmail(email: string, token: string) {
+export async function sendInvitationEmail(
+  email: string,
+  token: string,
+  expiresAt?: Date
+) {
   const invitationLink = `${process.env.NEXTAUTH_URL}/auth/accept-invitation?token=${token}`;
 
   const emailOptions = {
@@ -163,7 +186,9 @@ export async function sendInvitationEmail(email: string, token: string) {
         }.</p>
         <p>Please click the link below to complete your registration:</p>
         <p><a href="${invitationLink}" style="background-color: #2563eb; color: white; padding: 10px 15px; text-decoration: none; border-radius: 4px; display: inline-block;">Complete Registration</a></p>
-        <p>This link will expire in 24 hours.</p>
+        <p>This link will expire ${
+          expiresAt ? `on ${expiresAt.toLocaleString()}` : 'in 24 hours'
+        }.</p>
         <p>If you didn't request this, you can safely ignore this email.</p>
       </div>
     `,
@@ -223,11 +248,14 @@ export const emailTemplates = {
   }),
 
   overdueNotification: (data: OverdueBookNotification) => ({
-    subject: `Urgent: Overdue Book Reminder - ${data.bookTitle}`,
+    subject: data.finalNotice
+      ? `Final Notice: Overdue Book - ${data.bookTitle}`
+      : `Urgent: Overdue Book Reminder - ${data.bookTitle}`,
     html: generateOverdueEmailHtml(
       data.borrowerName,
       data.bookTitle,
-      data.dueDate
+      data.dueDate,
+      data.daysOverdue
     ),
   }),
 
@@ -256,4 +284,55 @@ export const emailTemplates = {
       </div>
     `,
   }),
+
+  bookAvailableNotification: (data: BookAvailableNotification) => ({
+    subject: `Your Reserved Book Is Ready for Pickup - ${data.bookTitle}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #86efac; border-radius: 8px; background-color: #f0fdf4;">
+          <h2 style="color: #16a34a;">Your Reserved Book Is Ready!</h2>
+          <p>Dear ${data.borrowerName},</p>
+          <p>A copy of the book you placed on hold has been returned and set aside for you:</p>
+          <ul style="list-style: none; padding: 0;">
+            <li><strong>Book Title:</strong> ${data.bookTitle}</li>
+            <li><strong>Author:</strong> ${data.author}</li>
+            <li><strong>Pick Up By:</strong> ${new Date(
+              data.pickupBy
+            ).toLocaleDateString()}</li>
+          </ul>
+          <p>If the book is not collected by this date, the hold will expire and the copy will be offered to the next person in the queue.</p>
+          <p>Best regards,<br>The Ralph Nwosu & Co. Library Team</p>
+          <hr style="border: none; border-top: 1px solid #86efac; margin: 20px 0;">
+          <p style="font-size: 0.9em; color: #15803d;">This is an automated email, please do not reply.</p>
+        </div>
+      </div>
+    `,
+  }),
+
+  newDeviceSignIn: (data: NewDeviceSignInNotification) => ({
+    subject: 'New sign-in to your Ralph Nwosu & Co. Library account',
+    html: `
+      <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #93c5fd; border-radius: 8px; background-color: #eff6ff;">
+          <h2 style="color: #1d4ed8;">New Sign-In Detected</h2>
+          <p>Dear ${data.userName},</p>
+          <p>Your account was just signed in to from a device we haven't seen before:</p>
+          <ul style="list-style: none; padding: 0;">
+            <li><strong>When:</strong> ${data.signedInAt.toLocaleString()}</li>
+            <li><strong>IP Address:</strong> ${data.ip || 'Unknown'}</li>
+            <li><strong>Device:</strong> ${data.userAgent || 'Unknown'}</li>
+          </ul>
+          <p>If this was you, there's nothing to do. If not, reset your password right away and contact an administrator.</p>
+          <p>You can review recent sign-ins on your profile: <a href="${
+            process.env.NEXTAUTH_URL
+          }/profile" style="color: #2563eb; text-decoration: none;">${
+      process.env.NEXTAUTH_URL
+    }/profile</a></p>
+          <p>Best regards,<br>The Ralph Nwosu & Co. Library Team</p>
+          <hr style="border: none; border-top: 1px solid #93c5fd; margin: 20px 0;">
+          <p style="font-size: 0.9em; color: #1e40af;">This is an automated email, please do not reply.</p>
+        </div>
+      </div>
+    `,
+  }),
 };
@@ -0,0 +1,279 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type WithId } from 'mongodb';
+import type {
+  Book,
+  Borrower,
+  FineLedgerEntry,
+  LendingRecord,
+  LoanPolicyViolation,
+} from '@/lib/models';
+import { DEFAULT_LOAN_POLICY, resolveLoanPolicy } from '@/lib/loanPolicies';
+
+export const CHARGE_TYPES: FineLedgerEntry['type'][] = [
+  'overdue',
+  'lost',
+  'damaged',
+];
+
+// Borrowers owing more than this are blocked from new loans
+export const MAX_OUTSTANDING_FINES = Number.parseFloat(
+  process.env.MAX_OUTSTANDING_FINES || '1000'
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
+// Keeps ledger amounts to whole minor units
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Sums a borrower's ledger. Charges are positive and credits negative, so
+ * the result is what the borrower still owes.
+ */
+export async function getFineBalance(borrowerId: string | ObjectId) {
+  const db = await getDatabase();
+  const [{ balance } = { balance: 0 }] = await db
+    .collection<FineLedgerEntry>('fine_ledger')
+    .aggregate<{ balance: number }>([
+      { $match: { borrowerId: toObjectId(borrowerId) } },
+      { $group: { _id: null, balance: { $sum: '$amount' } } },
+    ])
+    .toArray();
+  return roundAmount(balance);
+}
+
+/**
+ * Checks whether a borrower owes too much in fines to borrow.
+ * @returns The violation blocking new loans, or null when none applies.
+ */
+export async function checkFineBlock(
+  borrower: WithId<Borrower>
+): Promise<LoanPolicyViolation | null> {
+  const balance = await getFineBalance(borrower._id);
+  if (balance <= MAX_OUTSTANDING_FINES) return null;
+
+  return {
+    code: 'OUTSTANDING_FINES',
+    message: `${borrower.name} owes ${balance.toFixed(
+      2
+    )} in fines, above the limit of ${MAX_OUTSTANDING_FINES.toFixed(2)}`,
+  };
+}
+
+export async function getFineLedger(borrowerId: string | ObjectId) {
+  const db = await getDatabase();
+  return db
+    .collection<FineLedgerEntry>('fine_ledger')
+    .find({ borrowerId: toObjectId(borrowerId) })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Brings the overdue charge for a loan up to date using the fine rate of its
+ * loan policy. The charge keeps accruing while the loan is open and is
+ * closed once the loan ends, is renewed, or the charge is waived.
+ * @returns The charge, or null when the loan has not accrued a fine.
+ */
+export async function accrueOverdueFine(
+  lending: WithId<LendingRecord>,
+  { until = new Date(), close = false }: { until?: Date; close?: boolean } = {}
+) {
+  const db = await getDatabase();
+  const ledger = db.collection<FineLedgerEntry>('fine_ledger');
+
+  // Renewals start a new charge against the new due date
+  const chargeFilter = {
+    lendingId: lending._id,
+    type: 'overdue' as const,
+    dueDate: lending.dueDate,
+  };
+  const existing = await ledger.findOne(chargeFilter);
+  if (existing && !existing.accruing) return existing;
+
+  const daysOverdue = Math.floor(
+    (until.getTime() - new Date(lending.dueDate).getTime()) / DAY_MS
+  );
+  if (daysOverdue < 1) return existing;
+
+  const [book, borrower] = await Promise.all([
+    db.collection<Book>('books').findOne({ _id: toObjectId(lending.bookId) }),
+    db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: toObjectId(lending.borrowerId) }),
+  ]);
+  if (!book || !borrower) return existing;
+
+  // Policies created before fines existed fall back to the default rate
+  const policy = await resolveLoanPolicy(borrower.role, book.category);
+  const rate = policy.finePerDay ?? DEFAULT_LOAN_POLICY.finePerDay ?? 0;
+  const amount = roundAmount(
+    Math.min(daysOverdue * rate, policy.maxFine ?? Number.POSITIVE_INFINITY)
+  );
+  if (amount <= 0) return existing;
+
+  return ledger.findOneAndUpdate(
+    chargeFilter,
+    {
+      $set: {
+        amount,
+        daysOverdue,
+        accruing: !close,
+        description: `"${book.title}" ${daysOverdue} day(s) overdue`,
+        updatedAt: new Date(),
+      },
+      $setOnInsert: {
+        borrowerId: toObjectId(lending.borrowerId),
+        bookId: book._id,
+        createdAt: new Date(),
+      },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+}
+
+/**
+ * Updates the overdue charge of every open overdue loan.
+ * @returns The number of charges that were brought up to date.
+ */
+export async function accrueOverdueFines(now = new Date()) {
+  const db = await getDatabase();
+  const lendings = await db
+    .collection<LendingRecord>('lendings')
+    .find({ status: 'overdue' })
+    .toArray();
+
+  let accrued = 0;
+  for (const lending of lendings) {
+    try {
+      if (await accrueOverdueFine(lending, { until: now })) accrued++;
+    } catch (error) {
+      console.error(
+        `❌ Error accruing fine for lending ${lending._id}:`,
+        error
+      );
+    }
+  }
+  return accrued;
+}
+
+/**
+ * Charges a borrower the replacement cost of a lost or damaged book.
+ * @returns The charge, or null when the book has no replacement cost.
+ */
+export async function chargeReplacementCost(
+  lending: WithId<LendingRecord>,
+  type: 'lost' | 'damaged',
+  recordedBy?: string | ObjectId
+) {
+  const db = await getDatabase();
+  const book = await db
+    .collection<Book>('books')
+    .findOne({ _id: toObjectId(lending.bookId) });
+  if (!book?.replacementCost) return null;
+
+  const entry: FineLedgerEntry = {
+    borrowerId: toObjectId(lending.borrowerId),
+    type,
+    amount: roundAmount(book.replacementCost),
+    description: `Replacement cost of ${type} book "${book.title}"`,
+    lendingId: lending._id,
+    bookId: book._id,
+    ...(recordedBy && { recordedBy: toObjectId(recordedBy) }),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const result = await db
+    .collection<FineLedgerEntry>('fine_ledger')
+    .insertOne(entry);
+  return { ...entry, _id: result.insertedId };
+}
+
+export async function recordPayment(
+  borrowerId: string | ObjectId,
+  amount: number,
+  {
+    description,
+    recordedBy,
+  }: { description?: string; recordedBy?: string | ObjectId } = {}
+) {
+  const db = await getDatabase();
+  const entry: FineLedgerEntry = {
+    borrowerId: toObjectId(borrowerId),
+    type: 'payment',
+    amount: -roundAmount(amount),
+    description: description || 'Payment received',
+    ...(recordedBy && { recordedBy: toObjectId(recordedBy) }),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const result = await db
+    .collection<FineLedgerEntry>('fine_ledger')
+    .insertOne(entry);
+  return { ...entry, _id: result.insertedId };
+}
+
+/**
+ * Waives what is left of a charge, never more than the borrower still owes.
+ * Waiving an overdue charge also stops it from accruing further.
+ * @returns The waiver entry, or an error message when there is nothing to
+ * waive.
+ */
+export async function waiveCharge(
+  chargeId: string | ObjectId,
+  {
+    reason,
+    recordedBy,
+  }: { reason?: string; recordedBy?: string | ObjectId } = {}
+): Promise<{ waiver: FineLedgerEntry } | { error: string; status: number }> {
+  const db = await getDatabase();
+  const ledger = db.collection<FineLedgerEntry>('fine_ledger');
+
+  const charge = await ledger.findOne({ _id: toObjectId(chargeId) });
+  if (!charge) {
+    return { error: 'Charge not found', status: 404 };
+  }
+  if (!CHARGE_TYPES.includes(charge.type)) {
+    return { error: 'Only charges can be waived', status: 400 };
+  }
+
+  // Stop accrual first so the amount cannot grow past the waiver
+  if (charge.accruing) {
+    await ledger.updateOne(
+      { _id: charge._id },
+      { $set: { accruing: false, updatedAt: new Date() } }
+    );
+  }
+
+  const [{ waived } = { waived: 0 }] = await ledger
+    .aggregate<{ waived: number }>([
+      { $match: { waivedEntryId: charge._id } },
+      { $group: { _id: null, waived: { $sum: '$amount' } } },
+    ])
+    .toArray();
+
+  const balance = await getFineBalance(charge.borrowerId);
+  const amount = roundAmount(Math.min(charge.amount + waived, balance));
+  if (amount <= 0) {
+    return { error: 'Nothing left to waive on this charge', status: 409 };
+  }
+
+  const waiver: FineLedgerEntry = {
+    borrowerId: charge.borrowerId,
+    type: 'waiver',
+    amount: -amount,
+    description: reason || `Waived: ${charge.description || charge.type}`,
+    lendingId: charge.lendingId,
+    bookId: charge.bookId,
+    waivedEntryId: charge._id,
+    ...(recordedBy && { recordedBy: toObjectId(recordedBy) }),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const result = await ledger.insertOne(waiver);
+  return { waiver: { ...waiver, _id: result.insertedId } };
+}
@@ -0,0 +1,306 @@
+/** @format */
+
+import { NextResponse } from 'next/server';
+import {
+  type SpreadsheetFormat,
+  SPREADSHEET_TYPES,
+  parseSpreadsheet,
+  toCsv,
+  toXlsx,
+} from '@/lib/spreadsheet';
+
+// Bulk import and export of list pages as CSV or Excel. Each entity lists
+// its columns once, so that an export can be edited and imported again.
+
+export interface ImportColumn {
+  field: string;
+  label: string; // Header written by exports
+  required?: boolean;
+  aliases?: string[]; // Other headers recognised on import
+}
+
+// Import field to the spreadsheet header it is read from
+export type ColumnMapping = Record<string, string | undefined>;
+
+export interface ImportRowResult {
+  row: number; // As numbered in the spreadsheet, the header being row 1
+  action: 'create' | 'error';
+  key?: string; // The unique ID of the record the row creates
+  label?: string;
+  errors?: string[];
+}
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  dryRun: boolean;
+}
+
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_IMPORT_ROWS = 5000;
+
+// Separates list values such as keywords within one cell
+export const LIST_SEPARATOR = ';';
+
+export const BOOK_COLUMNS: ImportColumn[] = [
+  { field: 'bookId', label: 'Book ID', required: true, aliases: ['id'] },
+  { field: 'title', label: 'Title', required: true },
+  { field: 'author', label: 'Author', required: true, aliases: ['authors'] },
+  { field: 'category', label: 'Category', required: true, aliases: ['type'] },
+  { field: 'isbn', label: 'ISBN', aliases: ['isbn13', 'isbn10'] },
+  {
+    field: 'totalCopies',
+    label: 'Total Copies',
+    required: true,
+    aliases: ['copies', 'quantity', 'qty'],
+  },
+  {
+    field: 'shelfLocation',
+    label: 'Shelf Location',
+    required: true,
+    aliases: ['shelf', 'location', 'call number'],
+  },
+  { field: 'keywords', label: 'Keywords', aliases: ['subjects', 'tags'] },
+  {
+    field: 'replacementCost',
+    label: 'Replacement Cost',
+    aliases: ['cost', 'price'],
+  },
+];
+
+export const BORROWER_COLUMNS: ImportColumn[] = [
+  {
+    field: 'memberId',
+    label: 'Member ID',
+    required: true,
+    aliases: ['id', 'member number'],
+  },
+  { field: 'name', label: 'Name', required: true, aliases: ['full name'] },
+  { field: 'role', label: 'Role', required: true },
+  {
+    field: 'phone',
+    label: 'Phone',
+    required: true,
+    aliases: ['phone number', 'telephone', 'mobile'],
+  },
+  { field: 'email', label: 'Email', aliases: ['email address', 'e-mail'] },
+];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Matches spreadsheet headers to import fields by field name, label or
+ * alias, ignoring case, spacing and punctuation.
+ */
+export function detectColumnMapping(
+  headers: string[],
+  columns: ImportColumn[]
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const column of columns) {
+    const names = [column.field, column.label, ...(column.aliases ?? [])].map(
+      normalizeHeader
+    );
+    mapping[column.field] = headers.find((header) =>
+      names.includes(normalizeHeader(header))
+    );
+  }
+  return mapping;
+}
+
+/**
+ * Labels of the required columns the mapping leaves out.
+ */
+export const getMissingColumns = (
+  mapping: ColumnMapping,
+  columns: ImportColumn[]
+) =>
+  columns
+    .filter((column) => column.required && !mapping[column.field])
+    .map((column) => column.label);
+
+/**
+ * A spreadsheet row as trimmed values by import field. Unmapped fields and
+ * empty cells are left out.
+ */
+export function readRow(
+  headers: string[],
+  row: string[],
+  mapping: ColumnMapping
+) {
+  const values: Record<string, string> = {};
+  for (const [field, header] of Object.entries(mapping)) {
+    const index = header ? headers.indexOf(header) : -1;
+    const value = index >= 0 ? row[index]?.trim() : '';
+    if (value) values[field] = value;
+  }
+  return values;
+}
+
+export const splitList = (value?: string) =>
+  (value ?? '')
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the uploaded spreadsheet and column mapping of an import request,
+ * or the 400 response explaining why it can't be read.
+ */
+export async function readImportRequest(
+  formData: FormData,
+  columns: ImportColumn[]
+): Promise<ImportSheet | NextResponse> {
+  const file = formData.get('file') as File | null;
+  if (!file || file.size === 0) {
+    return NextResponse.json(
+      { error: 'A CSV or Excel file is required' },
+      { status: 400 }
+    );
+  }
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    return NextResponse.json(
+      { error: 'File size must be less than 10MB' },
+      { status: 400 }
+    );
+  }
+
+  let table: string[][];
+  try {
+    table = parseSpreadsheet(Buffer.from(await file.arrayBuffer()));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'The file could not be read',
+      },
+      { status: 400 }
+    );
+  }
+
+  const [headerRow, ...rows] = table;
+  if (!headerRow || rows.length === 0) {
+    return NextResponse.json(
+      { error: 'The file needs a header row and at least one data row' },
+      { status: 400 }
+    );
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Files can hold at most ${MAX_IMPORT_ROWS} rows` },
+      { status: 400 }
+    );
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  let mapping = detectColumnMapping(headers, columns);
+
+  const requested = formData.get('mapping') as string | null;
+  if (requested) {
+    try {
+      const parsed = JSON.parse(requested);
+      mapping = Object.fromEntries(
+        columns.map((column) => [
+          column.field,
+          headers.includes(parsed[column.field])
+            ? parsed[column.field]
+            : undefined,
+        ])
+      );
+    } catch {
+      return NextResponse.json(
+        { error: 'mapping must be a JSON object of fields to headers' },
+        { status: 400 }
+      );
+    }
+  }
+
+  return {
+    headers,
+    rows,
+    mapping,
+    dryRun: formData.get('dryRun') === 'true',
+  };
+}
+
+/**
+ * Flags rows whose unique ID repeats an earlier row or an existing record.
+ */
+export function checkUniqueKeys(
+  results: ImportRowResult[],
+  existing: Set<string>,
+  label: string
+) {
+  const seen = new Map<string, number>();
+  for (const result of results) {
+    if (!result.key) continue;
+    const errors = result.errors ?? [];
+    if (existing.has(result.key)) {
+      errors.push(`${label} ${result.key} already exists`);
+    } else if (seen.has(result.key)) {
+      errors.push(
+        `${label} ${result.key} is repeated from row ${seen.get(result.key)}`
+      );
+    } else {
+      seen.set(result.key, result.row);
+    }
+    if (errors.length > 0) {
+      result.errors = errors;
+      result.action = 'error';
+    }
+  }
+}
+
+/**
+ * The response body of an import: what each row did, or would do on a
+ * dry run.
+ */
+export function importSummary(
+  sheet: ImportSheet,
+  columns: ImportColumn[],
+  results: ImportRowResult[]
+) {
+  const errors = results.filter((result) => result.action === 'error').length;
+  return {
+    dryRun: sheet.dryRun,
+    headers: sheet.headers,
+    mapping: sheet.mapping,
+    columns,
+    missingColumns: getMissingColumns(sheet.mapping, columns),
+    summary: {
+      total: results.length,
+      create: results.length - errors,
+      error: errors,
+    },
+    rows: results,
+  };
+}
+
+/**
+ * The download response of an export in the requested format, with the
+ * column labels as the header row.
+ */
+export function exportResponse(
+  columns: ImportColumn[],
+  records: Record<string, string | number | null | undefined>[],
+  format: SpreadsheetFormat,
+  name: string
+) {
+  const rows = [
+    columns.map((column) => column.label),
+    ...records.map((record) => columns.map((column) => record[column.field])),
+  ];
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new NextResponse(
+    format === 'xlsx' ? toXlsx(rows, name) : toCsv(rows),
+    {
+      headers: {
+        'Content-Type': SPREADSHEET_TYPES[format],
+        'Content-Disposition': `attachment; filename="${name}-${date}.${format}"`,
+      },
+    }
+  );
+}
@@ -0,0 +1,155 @@
+/** @format */
+
+import { ObjectId, type Filter } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import { sendInvitationEmail } from '@/lib/email';
+import { generateRandomToken } from '@/lib/utils';
+import type { Invitation, InvitationStatus, User } from '@/lib/models';
+
+export const DEFAULT_INVITATION_DAYS = 1;
+export const MAX_INVITATION_DAYS = 30;
+// Emails accepted in one pasted list
+export const MAX_BULK_INVITES = 100;
+
+export const INVITATION_STATUSES: InvitationStatus[] = [
+  'pending',
+  'accepted',
+  'expired',
+];
+
+/** Days until expiry from a request body, or null if out of range */
+export function parseInvitationDays(value: unknown) {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_INVITATION_DAYS;
+  }
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= MAX_INVITATION_DAYS
+    ? days
+    : null;
+}
+
+/** Splits a pasted list of emails on commas, semicolons and whitespace */
+export function parseEmailList(input: string | string[]) {
+  const emails = (Array.isArray(input) ? input.join('\n') : input)
+    .split(/[\s,;]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+  return Array.from(new Set<string>(emails));
+}
+
+export function getInvitationStatus(
+  user: Pick<User, 'invitationToken' | 'invitationExpires'>
+): InvitationStatus {
+  if (!user.invitationToken) return 'accepted';
+  return user.invitationExpires && user.invitationExpires > new Date()
+    ? 'pending'
+    : 'expired';
+}
+
+/**
+ * Users who were invited, narrowed to one status. Invitations sent before
+ * `invitedAt` was recorded only show up while they are still open.
+ */
+export function invitationStatusFilter(status?: string | null): Filter<User> {
+  const now = new Date();
+  switch (status) {
+    case 'pending':
+      return {
+        invitationToken: { $ne: null },
+        invitationExpires: { $gt: now },
+      };
+    case 'expired':
+      return {
+        invitationToken: { $ne: null },
+        invitationExpires: { $not: { $gt: now } },
+      };
+    case 'accepted':
+      return { invitedAt: { $ne: null }, invitationToken: null };
+    default:
+      return {
+        $or: [{ invitedAt: { $ne: null } }, { invitationToken: { $ne: null } }],
+      };
+  }
+}
+
+export function serializeInvitation(user: User): Invitation {
+  return {
+    _id: user._id!.toString(),
+    email: user.email || '',
+    name: user.name ?? null,
+    role: user.role,
+    status: getInvitationStatus(user),
+    invitedAt: user.invitedAt ?? user.createdAt ?? null,
+    invitedByName: user.invitedByName ?? null,
+    expiresAt: user.invitationExpires ?? null,
+    acceptedAt: user.invitationAcceptedAt ?? null,
+  };
+}
+
+const newInvitationToken = (days: number) => ({
+  invitationToken: generateRandomToken(32),
+  invitationExpires: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+});
+
+/**
+ * Creates a user for `email` with an invitation token and emails them the
+ * link. The caller checks the email is free and the role exists. When the
+ * email cannot be sent the user is removed again and the error rethrown, so
+ * the address can simply be invited again.
+ */
+export async function createInvitation(
+  { email, name, role }: { email: string; name?: string | null; role: string },
+  days: number,
+  invitedBy: User | null
+) {
+  const db = await getDatabase();
+  const now = new Date();
+  const invitedUser: User = {
+    email,
+    ...(name ? { name } : {}),
+    role,
+    permissions: [],
+    ...newInvitationToken(days),
+    invitedAt: now,
+    invitedBy: invitedBy?._id ? new ObjectId(invitedBy._id) : null,
+    invitedByName: invitedBy?.name || invitedBy?.email || null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const result = await db.collection<User>('users').insertOne(invitedUser);
+  try {
+    await sendInvitationEmail(
+      email,
+      invitedUser.invitationToken!,
+      invitedUser.invitationExpires!
+    );
+  } catch (error) {
+    await db.collection<User>('users').deleteOne({ _id: result.insertedId });
+    throw error;
+  }
+  return { ...invitedUser, _id: result.insertedId };
+}
+
+/**
+ * Replaces the invitation token of a user who has not accepted yet, so the
+ * old link stops working, and emails them the new one.
+ */
+export async function resendInvitation(user: User, days: number) {
+  const db = await getDatabase();
+  const invitation = newInvitationToken(days);
+  const updated = await db
+    .collection<User>('users')
+    .findOneAndUpdate(
+      { _id: new ObjectId(user._id), invitationToken: { $ne: null } },
+      { $set: { ...invitation, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+  if (!updated) return null;
+
+  await sendInvitationEmail(
+    updated.email!,
+    invitation.invitationToken,
+    invitation.invitationExpires
+  );
+  return updated;
+}
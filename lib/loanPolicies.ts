@@ -0,0 +1,145 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import type {
+  Book,
+  Borrower,
+  LendingRecord,
+  LoanPolicy,
+  LoanPolicyViolation,
+} from '@/lib/models';
+import { DEFAULT_RENEWAL_POLICY, type RenewalPolicy } from '@/lib/renewals';
+
+// Matches every borrower role or book category
+export const ANY = '*';
+
+// Applied when no stored policy matches a borrower role and book category
+export const DEFAULT_LOAN_POLICY: LoanPolicy = {
+  name: 'Default',
+  borrowerRole: ANY,
+  bookCategory: ANY,
+  loanPeriodDays: Number.parseInt(process.env.DEFAULT_LOAN_PERIOD_DAYS || '14'),
+  maxConcurrentLoans: Number.parseInt(
+    process.env.DEFAULT_MAX_CONCURRENT_LOANS || '5'
+  ),
+  maxRenewals: DEFAULT_RENEWAL_POLICY.maxRenewals,
+  referenceOnly: false,
+  finePerDay: Number.parseFloat(process.env.DEFAULT_FINE_PER_DAY || '50'),
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the most specific policy for a borrower role and book category. An
+ * exact match wins over a role-wide policy, which wins over a category-wide
+ * policy, which wins over a catch-all policy.
+ */
+export async function resolveLoanPolicy(
+  borrowerRole: string,
+  bookCategory: string
+): Promise<LoanPolicy> {
+  const db = await getDatabase();
+  const candidates = await db
+    .collection<LoanPolicy>('loan_policies')
+    .find({
+      borrowerRole: { $in: [borrowerRole, ANY] },
+      bookCategory: { $in: [bookCategory, ANY] },
+    })
+    .toArray();
+
+  const specificity = (p: LoanPolicy) =>
+    (p.borrowerRole !== ANY ? 2 : 0) + (p.bookCategory !== ANY ? 1 : 0);
+
+  return (
+    candidates.sort((a, b) => specificity(b) - specificity(a))[0] ||
+    DEFAULT_LOAN_POLICY
+  );
+}
+
+export function getDefaultDueDate(policy: LoanPolicy, from = new Date()) {
+  return new Date(from.getTime() + policy.loanPeriodDays * DAY_MS);
+}
+
+/**
+ * Builds the renewal rules for a loan governed by a policy. Renewals extend
+ * the loan by the policy's loan period.
+ */
+export function getRenewalPolicy(policy: LoanPolicy): RenewalPolicy {
+  return {
+    ...DEFAULT_RENEWAL_POLICY,
+    periodDays: policy.loanPeriodDays,
+    maxRenewals: policy.maxRenewals,
+  };
+}
+
+/**
+ * Checks a prospective loan against the policy for the borrower's role and
+ * the book's category.
+ * @returns The resolved policy, the default due date it implies, and every
+ * rule the loan would break.
+ */
+export async function evaluateLoan(
+  book: Book,
+  borrower: Borrower,
+  requestedDueDate?: Date
+) {
+  const policy = await resolveLoanPolicy(borrower.role, book.category);
+  const defaultDueDate = getDefaultDueDate(policy);
+  const violations: LoanPolicyViolation[] = [];
+
+  if (policy.referenceOnly) {
+    violations.push({
+      code: 'REFERENCE_ONLY',
+      message: `${book.category} items are reference-only for ${borrower.role}s`,
+    });
+  }
+
+  // Category-specific policies limit loans within that category only
+  const db = await getDatabase();
+  const [{ count: activeLoans } = { count: 0 }] = await db
+    .collection<LendingRecord>('lendings')
+    .aggregate<{ count: number }>([
+      {
+        $match: {
+          borrowerId: new ObjectId(borrower._id),
+          status: { $in: ['borrowed', 'overdue'] },
+        },
+      },
+      ...(policy.bookCategory !== ANY
+        ? [
+            {
+              $lookup: {
+                from: 'books',
+                localField: 'bookId',
+                foreignField: '_id',
+                as: 'book',
+              },
+            },
+            { $match: { 'book.category': policy.bookCategory } },
+          ]
+        : []),
+      { $count: 'count' },
+    ])
+    .toArray();
+
+  if (activeLoans >= policy.maxConcurrentLoans) {
+    violations.push({
+      code: 'MAX_CONCURRENT_LOANS',
+      message: `${borrower.name} already has ${activeLoans} of ${policy.maxConcurrentLoans} allowed loans`,
+    });
+  }
+
+  // Allow the whole last day of the loan period
+  if (
+    requestedDueDate &&
+    requestedDueDate.getTime() > defaultDueDate.getTime() + DAY_MS
+  ) {
+    violations.push({
+      code: 'LOAN_PERIOD_EXCEEDED',
+      message: `Loan period for this item is limited to ${policy.loanPeriodDays} day(s)`,
+    });
+  }
+
+  return { policy, defaultDueDate, violations };
+}
@@ -0,0 +1,311 @@
+/** @format */
+
+import { ObjectId, type Filter } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import { emailTemplates, sendEmail } from '@/lib/email';
+import type { LoginAttempt, User } from '@/lib/models';
+
+export const ATTEMPT_WINDOW_MINUTES = 15;
+// Failed sign-ins allowed before each further attempt is delayed
+export const FREE_FAILURES = 3;
+export const MAX_DELAY_SECONDS = 60;
+export const ACCOUNT_LOCK_FAILURES = 10;
+export const LOCKOUT_MINUTES = 15;
+// Failures from one IP across all accounts before it is blocked
+export const IP_BLOCK_FAILURES = 50;
+
+// Password reset emails allowed per hour
+export const RESET_REQUESTS_PER_EMAIL = 3;
+export const RESET_REQUESTS_PER_IP = 10;
+// Wrong reset tokens allowed per IP within the attempt window
+export const RESET_TOKEN_FAILURES_PER_IP = 10;
+
+// Reverse proxies in front of the app, set with the TRUSTED_PROXY_HOPS
+// environment variable. With none, the default, the client's address is the
+// one the request came from. Behind a load balancer or proxy set it to the
+// number of proxies, as the request then comes from the proxy: X-Forwarded-For
+// is read instead, where each proxy appends the address it received the
+// request from, so the client's is that many from the right. Clients can send
+// the header themselves, so it is never read unless set.
+export const TRUSTED_PROXY_HOPS = Math.max(
+  Number.parseInt(process.env.TRUSTED_PROXY_HOPS || '0') || 0,
+  0
+);
+
+// Rejections caused by throttling are recorded but do not add to the count
+const COUNTED_FAILURE = {
+  success: false,
+  reason: { $nin: ['throttled', 'locked'] },
+};
+
+export interface RequestInfo {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export interface ThrottleResult {
+  allowed: boolean;
+  locked?: boolean;
+  retryAfter: number; // Seconds until the next attempt is allowed
+}
+
+/**
+ * Client IP and user agent from request headers, given either as a Headers
+ * object or the plain object NextAuth passes to `authorize`. The IP is only
+ * read from proxy headers when TRUSTED_PROXY_HOPS says a proxy sets them,
+ * otherwise it is the address the request came from.
+ */
+export function getRequestInfo(
+  headers?: Headers | Record<string, unknown> | null,
+  remoteIp?: string | null
+): RequestInfo {
+  const get = (name: string) => {
+    const value =
+      headers instanceof Headers ? headers.get(name) : headers?.[name];
+    return typeof value === 'string' && value ? value : null;
+  };
+
+  const getClientIp = () => {
+    if (TRUSTED_PROXY_HOPS === 0) return remoteIp || null;
+    const hops = (get('x-forwarded-for') || '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    // Entries left of the right-most untrusted hop were sent by the client
+    return hops.length > 0
+      ? hops[Math.max(hops.length - TRUSTED_PROXY_HOPS, 0)]
+      : get('x-real-ip');
+  };
+
+  return { ip: getClientIp(), userAgent: get('user-agent') };
+}
+
+export function formatRetryAfter(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+const attempts = async () =>
+  (await getDatabase()).collection<LoginAttempt>('login_attempts');
+
+export async function recordAttempt(attempt: Omit<LoginAttempt, 'createdAt'>) {
+  const collection = await attempts();
+  await collection.insertOne({ ...attempt, createdAt: new Date() });
+}
+
+const secondsUntil = (date: Date) =>
+  Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+/**
+ * Whether a sign-in for this email from this IP may go ahead. Each failure
+ * past the first few doubles the wait before the next one, too many lock
+ * the account, and an IP failing across many accounts is blocked.
+ */
+export async function checkSignInThrottle(
+  email: string,
+  ip: string | null
+): Promise<ThrottleResult> {
+  const collection = await attempts();
+  const windowStart = new Date(Date.now() - ATTEMPT_WINDOW_MINUTES * 60000);
+
+  if (ip) {
+    const ipFailures = await collection.countDocuments({
+      kind: 'sign_in',
+      ip,
+      createdAt: { $gt: windowStart },
+      ...COUNTED_FAILURE,
+    } as Filter<LoginAttempt>);
+    if (ipFailures >= IP_BLOCK_FAILURES) {
+      return { allowed: false, retryAfter: ATTEMPT_WINDOW_MINUTES * 60 };
+    }
+  }
+
+  const db = await getDatabase();
+  const user = await db.collection<User>('users').findOne({ email });
+  if (user?.lockedUntil && user.lockedUntil > new Date()) {
+    return {
+      allowed: false,
+      locked: true,
+      retryAfter: secondsUntil(user.lockedUntil),
+    };
+  }
+
+  const since =
+    user?.failedLoginsClearedAt && user.failedLoginsClearedAt > windowStart
+      ? user.failedLoginsClearedAt
+      : windowStart;
+  const failures = await collection
+    .find({
+      kind: 'sign_in',
+      email,
+      createdAt: { $gt: since },
+      ...COUNTED_FAILURE,
+    } as Filter<LoginAttempt>)
+    .sort({ createdAt: -1 })
+    .project<{ createdAt: Date }>({ createdAt: 1 })
+    .toArray();
+
+  if (failures.length < FREE_FAILURES) return { allowed: true, retryAfter: 0 };
+
+  const delay = Math.min(
+    2 ** (failures.length - FREE_FAILURES),
+    MAX_DELAY_SECONDS
+  );
+  const nextAllowed = new Date(failures[0].createdAt.getTime() + delay * 1000);
+  return nextAllowed > new Date()
+    ? { allowed: false, retryAfter: secondsUntil(nextAllowed) }
+    : { allowed: true, retryAfter: 0 };
+}
+
+/**
+ * Records a failed sign-in and locks the account once it has failed too
+ * often. Returns whether this failure locked it.
+ */
+export async function recordSignInFailure(
+  email: string,
+  user: User | null,
+  reason: NonNullable<LoginAttempt['reason']>,
+  { ip, userAgent }: RequestInfo
+) {
+  await recordAttempt({
+    kind: 'sign_in',
+    email,
+    userId: user?._id ? new ObjectId(user._id) : null,
+    success: false,
+    reason,
+    ip,
+    userAgent,
+  });
+  if (!user?._id || reason === 'throttled' || reason === 'locked') {
+    return false;
+  }
+
+  const collection = await attempts();
+  const windowStart = new Date(Date.now() - ATTEMPT_WINDOW_MINUTES * 60000);
+  const since =
+    user.failedLoginsClearedAt && user.failedLoginsClearedAt > windowStart
+      ? user.failedLoginsClearedAt
+      : windowStart;
+  const failures = await collection.countDocuments({
+    kind: 'sign_in',
+    email,
+    createdAt: { $gt: since },
+    ...COUNTED_FAILURE,
+  } as Filter<LoginAttempt>);
+  if (failures < ACCOUNT_LOCK_FAILURES) return false;
+
+  // Failures so far are cleared so the account starts afresh once unlocked
+  const now = new Date();
+  const db = await getDatabase();
+  await db.collection<User>('users').updateOne(
+    { _id: new ObjectId(user._id) },
+    {
+      $set: {
+        lockedUntil: new Date(now.getTime() + LOCKOUT_MINUTES * 60000),
+        failedLoginsClearedAt: now,
+      },
+    }
+  );
+  return true;
+}
+
+async function sendNewDeviceAlert(user: User, { ip, userAgent }: RequestInfo) {
+  if (!user.email) return;
+  try {
+    const { subject, html } = emailTemplates.newDeviceSignIn({
+      userName: user.name || user.email,
+      signedInAt: new Date(),
+      ip,
+      userAgent,
+    });
+    await sendEmail({ to: user.email, subject, html });
+  } catch (error) {
+    console.error('Error sending new device alert:', error);
+  }
+}
+
+/**
+ * Records a successful sign-in, clears the account's failures, and emails
+ * the user when it comes from a device they have not signed in from before.
+ */
+export async function recordSignInSuccess(
+  user: User,
+  { ip, userAgent }: RequestInfo
+) {
+  const collection = await attempts();
+  const userId = new ObjectId(user._id);
+  const previous = await collection.findOne({
+    kind: 'sign_in',
+    userId,
+    success: true,
+  });
+  // The very first sign-in is not a new device, there is nothing to compare
+  const newDevice =
+    !!previous &&
+    !(await collection.findOne({
+      kind: 'sign_in',
+      userId,
+      success: true,
+      userAgent,
+    }));
+
+  await recordAttempt({
+    kind: 'sign_in',
+    email: user.email,
+    userId,
+    success: true,
+    newDevice,
+    ip,
+    userAgent,
+  });
+
+  const db = await getDatabase();
+  await db
+    .collection<User>('users')
+    .updateOne(
+      { _id: userId },
+      { $set: { failedLoginsClearedAt: new Date(), lockedUntil: null } }
+    );
+
+  if (newDevice) {
+    // Not awaited, the alert must never hold up or fail the sign-in itself
+    sendNewDeviceAlert(user, { ip, userAgent });
+  }
+}
+
+/**
+ * Counts attempts matching `filter` within the last `minutes`, and
+ * how long until the oldest of them falls out of the window.
+ */
+export async function countRecentAttempts(
+  filter: Filter<LoginAttempt>,
+  minutes: number
+) {
+  const collection = await attempts();
+  const recent = await collection
+    .find({
+      ...filter,
+      createdAt: { $gt: new Date(Date.now() - minutes * 60000) },
+    })
+    .sort({ createdAt: 1 })
+    .project<{ createdAt: Date }>({ createdAt: 1 })
+    .toArray();
+
+  return {
+    count: recent.length,
+    retryAfter: recent.length
+      ? secondsUntil(new Date(recent[0].createdAt.getTime() + minutes * 60000))
+      : 0,
+  };
+}
+
+/** Recent sign-ins to an account, newest first, for its owner to review */
+export async function getSignInHistory(userId: ObjectId | string, limit = 50) {
+  const collection = await attempts();
+  return collection
+    .find({ kind: 'sign_in', userId: new ObjectId(userId) })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
@@ -0,0 +1,398 @@
+/** @format */
+
+import { BOOK_CATEGORIES, type Book } from '@/lib/models';
+import { decodeXml, encodeXml } from '@/lib/xml';
+
+// MARC21 records as read from ISO 2709 files or MARCXML, and the mapping
+// between them and catalogue books.
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export interface MarcDataField {
+  tag: string;
+  ind1: string;
+  ind2: string;
+  subfields: MarcSubfield[];
+}
+
+export interface MarcRecord {
+  leader: string;
+  controlFields: { tag: string; value: string }[];
+  dataFields: MarcDataField[];
+}
+
+export interface MarcParseResult {
+  records: MarcRecord[];
+  errors: string[]; // One per record that could not be read
+}
+
+// Fields of a book that an import fills in
+export type MarcBookFields = Pick<
+  Book,
+  'title' | 'author' | 'isbn' | 'bookId' | 'keywords' | 'shelfLocation'
+> & { category?: string };
+
+export const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+const SUBFIELD_DELIMITER = '\x1f';
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+// Leader for exported records: new, language material, monograph, UTF-8
+const EXPORT_LEADER = '00000nam a2200000 a 4500';
+
+// Subject headings, with the subfields joined into one keyword
+const SUBJECT_TAGS = ['600', '610', '611', '630', '650', '651', '655'];
+const SUBJECT_SUBFIELDS = ['a', 'x', 'y', 'z', 'v'];
+
+// Call number sources, most specific first: local holdings, then the LC,
+// local and Dewey classification fields
+const CALL_NUMBER_FIELDS: [string, string[]][] = [
+  ['852', ['k', 'h', 'i', 'm']],
+  ['090', ['a', 'b']],
+  ['099', ['a']],
+  ['050', ['a', 'b']],
+  ['082', ['a']],
+];
+
+const isControlTag = (tag: string) => tag < '010';
+
+/**
+ * Reads MARC21 records in ISO 2709 transmission format. Offsets in the
+ * directory count bytes, so fields are sliced from the buffer before they
+ * are decoded.
+ */
+export function parseMarc21(data: Buffer): MarcParseResult {
+  const records: MarcRecord[] = [];
+  const errors: string[] = [];
+
+  let start = 0;
+  while (start < data.length) {
+    let end = data.indexOf(RECORD_TERMINATOR, start);
+    if (end === -1) end = data.length;
+    const raw = data.subarray(start, end);
+    start = end + 1;
+
+    // Files often end with a newline after the last record
+    if (raw.toString('latin1').trim() === '') continue;
+
+    try {
+      records.push(parseMarc21Record(raw));
+    } catch (error) {
+      errors.push(
+        `Record ${records.length + errors.length + 1}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  return { records, errors };
+}
+
+function parseMarc21Record(raw: Buffer): MarcRecord {
+  if (raw.length < LEADER_LENGTH) {
+    throw new Error('Record is shorter than its leader');
+  }
+  const leader = raw.subarray(0, LEADER_LENGTH).toString('latin1');
+  const baseAddress = Number.parseInt(leader.slice(12, 17));
+  if (Number.isNaN(baseAddress) || baseAddress > raw.length) {
+    throw new Error('Leader has an invalid base address of data');
+  }
+  // Leader position 9 is "a" for Unicode, anything else is MARC-8, read here
+  // as Latin-1 which covers its ASCII range
+  const encoding: BufferEncoding = leader[9] === 'a' ? 'utf8' : 'latin1';
+
+  const record: MarcRecord = { leader, controlFields: [], dataFields: [] };
+  const directory = raw
+    .subarray(LEADER_LENGTH, baseAddress - 1)
+    .toString('latin1');
+  if (directory.length % DIRECTORY_ENTRY_LENGTH !== 0) {
+    throw new Error('Directory is malformed');
+  }
+
+  for (let i = 0; i < directory.length; i += DIRECTORY_ENTRY_LENGTH) {
+    const tag = directory.slice(i, i + 3);
+    const length = Number.parseInt(directory.slice(i + 3, i + 7));
+    const offset = Number.parseInt(directory.slice(i + 7, i + 12));
+    if (Number.isNaN(length) || Number.isNaN(offset)) {
+      throw new Error(`Directory entry for field ${tag} is malformed`);
+    }
+
+    let field = raw.subarray(
+      baseAddress + offset,
+      baseAddress + offset + length
+    );
+    if (field[field.length - 1] === FIELD_TERMINATOR) {
+      field = field.subarray(0, field.length - 1);
+    }
+    const value = field.toString(encoding);
+
+    if (isControlTag(tag)) {
+      record.controlFields.push({ tag, value });
+      continue;
+    }
+    const [indicators, ...subfields] = value.split(SUBFIELD_DELIMITER);
+    record.dataFields.push({
+      tag,
+      ind1: indicators[0] ?? ' ',
+      ind2: indicators[1] ?? ' ',
+      subfields: subfields
+        .filter(Boolean)
+        .map((subfield) => ({ code: subfield[0], value: subfield.slice(1) })),
+    });
+  }
+
+  return record;
+}
+
+const attribute = (attributes: string, name: string) =>
+  decodeXml(
+    attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`))?.[1] ??
+      attributes.match(new RegExp(`\\b${name}\\s*=\\s*'([^']*)'`))?.[1] ??
+      ''
+  );
+
+// Matches <name ...>content</name> with or without a namespace prefix
+const elements = (xml: string, name: string) =>
+  Array.from(
+    xml.matchAll(
+      new RegExp(
+        `<(?:[\\w-]+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}\\s*>)`,
+        'g'
+      )
+    )
+  ).map(([, attributes, content = '']) => ({ attributes, content }));
+
+/**
+ * Reads records from a MARCXML document, either a <collection> or a single
+ * <record>. MARCXML has a fixed shape, so it is read without a full XML
+ * parser.
+ */
+export function parseMarcXml(xml: string): MarcParseResult {
+  const records: MarcRecord[] = [];
+  const errors: string[] = [];
+  const body = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  elements(body, 'record').forEach(({ content }, index) => {
+    const leader = decodeXml(elements(content, 'leader')[0]?.content ?? '');
+    const record: MarcRecord = {
+      leader: leader.padEnd(LEADER_LENGTH).slice(0, LEADER_LENGTH),
+      controlFields: elements(content, 'controlfield').map((field) => ({
+        tag: attribute(field.attributes, 'tag'),
+        value: decodeXml(field.content),
+      })),
+      dataFields: elements(content, 'datafield').map((field) => ({
+        tag: attribute(field.attributes, 'tag'),
+        ind1: attribute(field.attributes, 'ind1') || ' ',
+        ind2: attribute(field.attributes, 'ind2') || ' ',
+        subfields: elements(field.content, 'subfield').map((subfield) => ({
+          code: attribute(subfield.attributes, 'code'),
+          value: decodeXml(subfield.content),
+        })),
+      })),
+    };
+
+    if (record.controlFields.length + record.dataFields.length === 0) {
+      errors.push(`Record ${index + 1}: Record has no fields`);
+    } else {
+      records.push(record);
+    }
+  });
+
+  if (records.length === 0 && errors.length === 0) {
+    errors.push('No MARCXML <record> elements found');
+  }
+  return { records, errors };
+}
+
+/**
+ * Reads an uploaded file as MARCXML when it looks like XML and as ISO 2709
+ * MARC21 otherwise.
+ */
+export function parseMarcFile(data: Buffer): MarcParseResult {
+  const head = data
+    .subarray(0, 512)
+    .toString('utf8')
+    .replace(/^\uFEFF/, '');
+  return head.trimStart().startsWith('<')
+    ? parseMarcXml(data.toString('utf8'))
+    : parseMarc21(data);
+}
+
+const getFields = (record: MarcRecord, tag: string) =>
+  record.dataFields.filter((field) => field.tag === tag);
+
+const getSubfields = (field: MarcDataField | undefined, codes: string[]) =>
+  field?.subfields
+    .filter((subfield) => codes.includes(subfield.code))
+    .map((subfield) => subfield.value.trim())
+    .filter(Boolean) ?? [];
+
+// Drops the ISBD punctuation catalogues put at the end of each element
+const trimPunctuation = (value: string) =>
+  value
+    .replace(/[\s/:;,=]+$/, '')
+    .replace(/(\w{3,})\.$/, '$1')
+    .trim();
+
+/**
+ * ISBN digits without hyphens or qualifiers such as "(hardback)".
+ */
+export const normalizeIsbn = (value?: string | null) =>
+  value
+    ?.match(/[\dXx][\d\s-]{8,}[\dXx]/)?.[0]
+    .replace(/[\s-]/g, '')
+    .toUpperCase() ?? '';
+
+/**
+ * Maps a MARC record to the book fields it carries. Fields the record does
+ * not have are left out, so an import never blanks them on a match.
+ */
+export function marcToBook(record: MarcRecord): Partial<MarcBookFields> {
+  const book: Partial<MarcBookFields> = {};
+
+  const controlNumber = record.controlFields
+    .find((field) => field.tag === '001')
+    ?.value.trim();
+  if (controlNumber) book.bookId = controlNumber;
+
+  const titleField = getFields(record, '245')[0];
+  const title = getSubfields(titleField, ['a', 'b', 'n', 'p'])
+    .map(trimPunctuation)
+    .join(': ');
+  if (title) book.title = title;
+
+  const author =
+    ['100', '110', '111']
+      .map((tag) => getSubfields(getFields(record, tag)[0], ['a'])[0])
+      .find(Boolean) ?? getSubfields(titleField, ['c'])[0];
+  if (author) book.author = trimPunctuation(author);
+
+  const isbn = getFields(record, '020')
+    .map((field) => normalizeIsbn(getSubfields(field, ['a'])[0]))
+    .find(Boolean);
+  if (isbn) book.isbn = isbn;
+
+  // A genre heading naming one of our categories sets the category, as
+  // written by the export
+  const keywords: string[] = [];
+  for (const field of record.dataFields) {
+    if (field.tag === '653') {
+      keywords.push(...getSubfields(field, ['a']).map(trimPunctuation));
+    } else if (SUBJECT_TAGS.includes(field.tag)) {
+      const heading = getSubfields(field, SUBJECT_SUBFIELDS)
+        .map(trimPunctuation)
+        .join(' -- ');
+      const category = BOOK_CATEGORIES.find(
+        (name) => name.toLowerCase() === heading.toLowerCase()
+      );
+      if (field.tag === '655' && category) {
+        book.category = category;
+      } else if (heading) {
+        keywords.push(heading);
+      }
+    }
+  }
+  if (keywords.length > 0) {
+    book.keywords = Array.from(new Set<string>(keywords.filter(Boolean)));
+  }
+
+  for (const [tag, codes] of CALL_NUMBER_FIELDS) {
+    const callNumber = getSubfields(getFields(record, tag)[0], codes).join(' ');
+    if (callNumber) {
+      book.shelfLocation = callNumber;
+      break;
+    }
+  }
+
+  return book;
+}
+
+const dataField = (
+  tag: string,
+  ind1: string,
+  ind2: string,
+  subfields: [string, string | undefined][]
+): MarcDataField | null => {
+  const present = subfields
+    .filter(([, value]) => !!value?.trim())
+    .map(([code, value]) => ({ code, value: value!.trim() }));
+  return present.length > 0 ? { tag, ind1, ind2, subfields: present } : null;
+};
+
+/**
+ * The MARC record for a book, with its Book ID as the control number and
+ * its shelf location as the holdings call number.
+ */
+export function bookToMarc(book: Book): MarcRecord {
+  const updatedAt = new Date(book.updatedAt ?? book.createdAt ?? Date.now());
+  // 005 is the time of the latest transaction, yyyymmddhhmmss.f
+  const transactionTime = `${updatedAt
+    .toISOString()
+    .replace(/[-:T]/g, '')
+    .slice(0, 14)}.0`;
+
+  return {
+    leader: EXPORT_LEADER,
+    controlFields: [
+      { tag: '001', value: book.bookId },
+      { tag: '005', value: transactionTime },
+    ],
+    dataFields: [
+      dataField('020', ' ', ' ', [['a', book.isbn]]),
+      dataField('100', '1', ' ', [['a', book.author]]),
+      dataField('245', '1', '0', [['a', book.title]]),
+      ...(book.keywords ?? []).map((keyword) =>
+        dataField('650', ' ', '4', [['a', keyword]])
+      ),
+      dataField('655', ' ', '4', [['a', book.category]]),
+      dataField('852', ' ', ' ', [['h', book.shelfLocation]]),
+    ].filter((field): field is MarcDataField => field !== null),
+  };
+}
+
+/**
+ * Serializes records as a MARCXML collection.
+ */
+export function toMarcXml(records: MarcRecord[]) {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<collection xmlns="${MARCXML_NAMESPACE}">`,
+  ];
+
+  for (const record of records) {
+    lines.push(
+      '  <record>',
+      `    <leader>${encodeXml(record.leader)}</leader>`
+    );
+    for (const field of record.controlFields) {
+      lines.push(
+        `    <controlfield tag="${field.tag}">${encodeXml(
+          field.value
+        )}</controlfield>`
+      );
+    }
+    for (const field of record.dataFields) {
+      lines.push(
+        `    <datafield tag="${field.tag}" ind1="${field.ind1}" ind2="${field.ind2}">`,
+        ...field.subfields.map(
+          (subfield) =>
+            `      <subfield code="${subfield.code}">${encodeXml(
+              subfield.value
+            )}</subfield>`
+        ),
+        '    </datafield>'
+      );
+    }
+    lines.push('  </record>');
+  }
+
+  lines.push('</collection>', '');
+  return lines.join('\n');
+}
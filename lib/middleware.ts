@@ -2,12 +2,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/mongodb';
 import type { User } from '@/lib/models';
-import {
-  ADMIN_PERMISSIONS,
-  DEFAULT_USER_PERMISSIONS,
-  LIBRARIAN_PERMISSIONS,
-  SUPER_ADMIN_PERMISSIONS,
-} from '@/lib/auth';
+import { resolvePermissions } from '@/lib/roles';
+import { authenticateApiToken, getBearerApiToken } from '@/lib/api-tokens';
+import { needsTwoFactorSetup } from '@/lib/two-factor';
+import { isSessionCurrent } from '@/lib/sessions';
 
 const secret = process.env.NEXTAUTH_SECRET;
 
@@ -25,10 +23,60 @@ const getToken = async (req: NextRequest) => {
   }
 };
 
-export async function authMiddleware(req: NextRequest) {
+const twoFactorSetupRequired = () =>
+  NextResponse.json(
+    {
+      error: 'Forbidden',
+      message: 'Set up two-factor authentication to continue',
+      twoFactorSetupRequired: true,
+    },
+    { status: 403 }
+  );
+
+const passwordChangeRequired = () =>
+  NextResponse.json(
+    {
+      error: 'Forbidden',
+      message: 'Your password has expired, change it to continue',
+      passwordChangeRequired: true,
+    },
+    { status: 403 }
+  );
+
+/**
+ * Rejects requests without a valid session or API token, or whose session
+ * has since been revoked. Users whose role requires 2FA and who have not set
+ * it up yet are also rejected, except on routes that pass
+ * `allowTwoFactorSetup` so they can enroll. Sessions whose password has
+ * expired only reach routes that pass `allowPasswordChange`.
+ */
+export async function authMiddleware(
+  req: NextRequest,
+  {
+    allowTwoFactorSetup = false,
+    allowPasswordChange = false,
+  }: { allowTwoFactorSetup?: boolean; allowPasswordChange?: boolean } = {}
+) {
   if (req.method === 'OPTIONS') {
     return null;
   }
+
+  if (getBearerApiToken(req)) {
+    const auth = await authenticateApiToken(req);
+    if (!auth) {
+      return NextResponse.json(
+        {
+          error: 'Unauthorized',
+          message: 'API token is invalid, expired or revoked',
+        },
+        { status: 401 }
+      );
+    }
+    return (await needsTwoFactorSetup(auth.user))
+      ? twoFactorSetupRequired()
+      : null;
+  }
+
   const token = await getToken(req);
 
   if (!token) {
@@ -45,16 +93,70 @@ export async function authMiddleware(req: NextRequest) {
     );
   }
 
+  // Session tokens stay valid until they expire, so check they were not
+  // revoked and the user still exists
+  const db = await getDatabase();
+  const user = await db
+    .collection<User>('users')
+    .findOne({ email: token.email }, { projection: { sessionVersion: 1 } });
+  if (!user || !isSessionCurrent(user, token.sessionVersion)) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Session has been revoked' },
+      { status: 401 }
+    );
+  }
+
+  if (token.passwordChangeRequired && !allowPasswordChange) {
+    return passwordChangeRequired();
+  }
+
+  if (token.twoFactorSetupRequired && !allowTwoFactorSetup) {
+    return twoFactorSetupRequired();
+  }
+
   return null;
 }
 
-export async function getUserPermissions(req: NextRequest): Promise<string[]> {
+export async function getCurrentUser(req: NextRequest): Promise<User | null> {
+  if (getBearerApiToken(req)) {
+    return (await authenticateApiToken(req))?.user ?? null;
+  }
+
   const token = await getToken(req);
   if (!token?.email) {
-    return [];
+    return null;
   }
 
   try {
+    const db = await getDatabase();
+    return await db.collection<User>('users').findOne({ email: token.email });
+  } catch (error) {
+    console.error('Current user fetch error:', error);
+    return null;
+  }
+}
+
+/**
+ * Permissions the request may use. Requests made with an API token are
+ * limited to the token's scopes that its owner still holds.
+ */
+export async function getUserPermissions(req: NextRequest): Promise<string[]> {
+  try {
+    if (getBearerApiToken(req)) {
+      const auth = await authenticateApiToken(req);
+      if (!auth) return [];
+
+      const ownerPermissions = await resolvePermissions(auth.user);
+      return auth.token.scopes.filter((scope) =>
+        ownerPermissions.includes(scope)
+      );
+    }
+
+    const token = await getToken(req);
+    if (!token?.email) {
+      return [];
+    }
+
     const db = await getDatabase();
     const user = await db
       .collection<User>('users')
@@ -65,33 +167,13 @@ export async function getUserPermissions(req: NextRequest): Promise<string[]> {
       return [];
     }
 
-    // Combine user-specific permissions with default role permissions
-    const allPermissions = [
-      ...(user.permissions || []),
-      ...getDefaultPermissionsForRole(user.role),
-    ];
-
-    // Return unique permissions
-    return [...new Set(allPermissions)];
+    return await resolvePermissions(user);
   } catch (error) {
     console.error('Permission fetch error:', error);
     return [];
   }
 }
 
-function getDefaultPermissionsForRole(role?: string): string[] {
-  switch (role) {
-    case 'Super Admin':
-      return SUPER_ADMIN_PERMISSIONS;
-    case 'Admin':
-      return ADMIN_PERMISSIONS;
-    case 'Librarian':
-      return LIBRARIAN_PERMISSIONS;
-    default:
-      return DEFAULT_USER_PERMISSIONS;
-  }
-}
-
 export const requirePermission = (requiredPermission: string) => {
   return async (req: NextRequest) => {
     const userPermissions = await getUserPermissions(req);
@@ -102,7 +184,7 @@ export const requirePermission = (requiredPermission: string) => {
           message: 'Insufficient permissions',
           required: requiredPermission,
           has: userPermissions,
-          user: (await getToken(req))?.email,
+          user: (await getCurrentUser(req))?.email,
         },
         { status: 403 }
       );
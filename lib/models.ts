@@ -6,13 +6,115 @@ export interface User {
   name?: string | null;
   email?: string | null;
   image?: string | null;
-  role: 'User' | 'Librarian' | 'Admin' | 'Super Admin';
-  permissions: string[];
+  role: 'User' | 'Librarian' | 'Admin' | 'Super Admin' | string; // Name of a Role
+  permissions: string[]; // Granted on top of the role's permissions
+  status?: 'active' | 'inactive' | string; // Inactive accounts can't sign in
   password?: string;
+  passwordHistory?: string[]; // Recent password hashes, newest first
+  passwordChangedAt?: Date | null;
+  twoFactor?: TwoFactor;
+  lockedUntil?: Date | null; // Set after too many failed sign-ins
+  failedLoginsClearedAt?: Date | null; // Failures before this no longer count
+  sessionVersion?: number; // Bumped to sign out every existing session
+  oidcSubject?: string | null; // Identity provider subject, set on first SSO sign-in
+  // When the user proved they own their email, by invitation, password reset
+  // or an identity provider; only then is a borrower linked by email
+  emailVerifiedAt?: Date | null;
+  // Borrower record behind My Library, null once an admin has unlinked it
+  borrowerId?: ObjectId | string | null;
+  invitationToken?: string | null; // Set until the invitation is accepted
+  invitationExpires?: Date | null;
+  invitedAt?: Date | null;
+  invitedBy?: ObjectId | string | null; // Reference to the inviting User._id
+  invitedByName?: string | null;
+  invitationAcceptedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired';
+
+// An invited user as listed to admins, without the invitation token
+export interface Invitation {
+  _id: string;
+  email: string;
+  name?: string | null;
+  role: string;
+  status: InvitationStatus;
+  invitedAt?: Date | null;
+  invitedByName?: string | null;
+  expiresAt?: Date | null;
+  acceptedAt?: Date | null;
+}
+
+export interface TwoFactor {
+  enabled: boolean;
+  secret?: string; // Encrypted TOTP secret
+  pendingSecret?: string; // Encrypted secret awaiting its first code
+  recoveryCodes?: string[]; // SHA-256 hashes of unused recovery codes
+  lastUsedStep?: number; // Time step of the last accepted code
+  enabledAt?: Date;
+}
+
+export interface LoginAttempt {
+  _id?: ObjectId | string;
+  kind: 'sign_in' | 'password_reset' | 'password_reset_verify';
+  email?: string | null;
+  userId?: ObjectId | string | null; // Reference to User._id when known
+  success: boolean;
+  reason?:
+    | 'unknown_user'
+    | 'bad_password'
+    | 'bad_code'
+    | 'invalid_token'
+    | 'throttled'
+    | 'locked'
+    | 'inactive'
+    | null;
+  newDevice?: boolean;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+}
+
+export interface Role {
+  _id?: ObjectId | string;
+  name: string; // Unique, referenced by User.role
+  description?: string;
+  permissions: string[];
+  builtIn?: boolean; // Seeded roles cannot be renamed or deleted
+  requireTwoFactor?: boolean; // Users must enroll in 2FA before using the app
+  passwordMaxAgeDays?: number | null; // Passwords expire after this, null never
   createdAt?: Date;
   updatedAt?: Date;
+  // Populated for client-side display
+  userCount?: number;
+}
+
+export interface ApiToken {
+  _id?: ObjectId | string;
+  userId: ObjectId | string; // Reference to User._id
+  name: string;
+  tokenHash: string; // SHA-256 of the token, the token itself is never stored
+  prefix: string; // First characters of the token, shown to tell tokens apart
+  scopes: string[]; // Permissions the token may use, within the owner's own
+  expiresAt: Date | null;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  useCount?: number;
+  revokedAt?: Date | null;
+  createdAt?: Date;
 }
 
+export const BOOK_CATEGORIES = [
+  'Textbook',
+  'Statute',
+  'Law Report',
+  'Case Law',
+  'Journal',
+  'Reference',
+];
+
 export interface Book {
   _id?: ObjectId | string;
   title: string;
@@ -32,6 +134,81 @@ export interface Book {
   shelfLocation: string;
   keywords?: string[];
   coverImage?: string;
+  replacementCost?: number; // Charged to the borrower when a copy is lost or damaged
+  citation?: BookCitation; // Law Report and Case Law items only
+  serialId?: ObjectId | string; // Reference to Serial._id for a received part
+  createdAt?: Date;
+  updatedAt?: Date;
+  // Populated for client-side display: borrowers waiting in the hold queue
+  holdCount?: number;
+}
+
+// Where a law report volume or reported case sits in its series, e.g.
+// (2019) 8 NWLR (Pt. 1675) 1 or [1932] AC 562
+export interface BookCitation {
+  series: string; // Canonical abbreviation, see lib/citations.ts
+  year?: number;
+  volume?: number;
+  part?: number;
+  page?: number; // First page of the case
+}
+
+export interface BookCopy {
+  _id?: ObjectId | string;
+  bookId: ObjectId | string; // Reference to Book._id
+  barcode: string; // Unique accession number printed on the volume
+  condition: 'new' | 'good' | 'fair' | 'poor' | 'damaged';
+  status: 'on_shelf' | 'on_loan' | 'missing' | 'withdrawn' | 'in_repair';
+  acquisitionDate?: Date;
+  notes?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type SerialFrequency =
+  | 'weekly'
+  | 'fortnightly'
+  | 'monthly'
+  | 'bimonthly'
+  | 'quarterly'
+  | 'semiannual'
+  | 'annual'
+  | 'irregular';
+
+// A journal or law report series whose parts arrive over time. Each part
+// is catalogued as a Book of its own when it is checked in.
+export interface Serial {
+  _id?: ObjectId | string;
+  title: string;
+  category: 'Journal' | 'Law Report';
+  code: string; // Prefix of the book IDs of its parts, e.g. NWLR
+  series?: string; // Citation series of a law report, e.g. NWLR
+  publisher?: string;
+  issn?: string;
+  shelfLocation: string;
+  frequency: SerialFrequency; // Irregular serials have no expected parts
+  issuesPerVolume?: number; // Parts in each volume, when volumes are numbered
+  restartPartNumbers?: boolean; // Parts numbered within each volume, not throughout
+  graceDays: number; // Days after the expected date before a part is late
+  copiesPerIssue: number;
+  status: 'active' | 'ceased'; // Ceased serials expect no further parts
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SerialIssue {
+  _id?: ObjectId | string;
+  serialId: ObjectId | string; // Reference to Serial._id
+  volume?: number;
+  part: number;
+  year: number;
+  // expected: scheduled and not yet in, claimed: chased with the publisher
+  status: 'expected' | 'received' | 'claimed' | 'not_published';
+  expectedDate?: Date; // Unset for parts that arrived unannounced
+  receivedDate?: Date;
+  claimedAt?: Date;
+  bookId?: ObjectId | string; // Book created for the part when it arrived
+  notes?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -51,16 +228,143 @@ export interface LendingRecord {
   _id?: ObjectId | string; // Use ObjectId for internal representation
   bookId: ObjectId | string; // Reference to Book._id
   borrowerId: ObjectId | string; // Reference to Borrower._id
+  copyId?: ObjectId | string; // Reference to the BookCopy._id that was lent
   borrowDate: Date;
   dueDate: Date;
   returnDate?: Date;
-  status: 'borrowed' | 'returned' | 'overdue';
+  status: 'borrowed' | 'returned' | 'overdue' | 'lost';
+  returnCondition?: BookCopy['condition'];
+  lostAt?: Date;
   notes?: string;
+  renewalCount?: number;
+  renewals?: LoanRenewal[];
+  notices?: LoanNotice[]; // Due-soon and overdue reminders already sent
   createdAt?: Date;
   updatedAt?: Date;
   // Populated fields for client-side display (optional, for convenience)
   book?: Book;
   borrower?: Borrower;
+  copy?: BookCopy;
+}
+
+export interface LoanRenewal {
+  renewedAt: Date;
+  previousDueDate: Date;
+  newDueDate: Date;
+  renewedBy?: ObjectId | string; // Reference to User._id
+}
+
+export interface LoanNotice {
+  type: 'due_soon' | 'overdue';
+  offsetDays: number; // Days before (due_soon) or after (overdue) the due date
+  dueDate: Date; // Due date the notice was sent for, renewals reset the schedule
+  channel: 'notification' | 'email';
+  sentAt: Date;
+}
+
+export interface LoanPolicy {
+  _id?: ObjectId | string;
+  name: string;
+  borrowerRole: Borrower['role']; // '*' applies to every borrower role
+  bookCategory: Book['category']; // '*' applies to every book category
+  loanPeriodDays: number;
+  maxConcurrentLoans: number;
+  maxRenewals: number;
+  referenceOnly: boolean; // Reference-only items cannot leave the library
+  finePerDay?: number; // Charged for each full day a loan is overdue
+  maxFine?: number; // Cap on the overdue fine for a single loan
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface LoanPolicyViolation {
+  code:
+    | 'REFERENCE_ONLY'
+    | 'MAX_CONCURRENT_LOANS'
+    | 'LOAN_PERIOD_EXCEEDED'
+    | string;
+  message: string;
+}
+
+export interface FineLedgerEntry {
+  _id?: ObjectId | string;
+  borrowerId: ObjectId | string; // Reference to Borrower._id
+  // Charges: overdue, lost, damaged. Credits: payment, waiver
+  type: 'overdue' | 'lost' | 'damaged' | 'payment' | 'waiver';
+  amount: number; // Positive for charges, negative for payments and waivers
+  description?: string;
+  lendingId?: ObjectId | string; // Loan the charge arose from
+  bookId?: ObjectId | string;
+  daysOverdue?: number; // Overdue charges only
+  dueDate?: Date; // Due date an overdue charge accrued against
+  accruing?: boolean; // Overdue charge still growing while the loan is open
+  waivedEntryId?: ObjectId | string; // Charge a waiver applies to
+  recordedBy?: ObjectId | string; // Reference to User._id
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface Reservation {
+  _id?: ObjectId | string;
+  bookId: ObjectId | string; // Reference to Book._id
+  borrowerId: ObjectId | string; // Reference to Borrower._id
+  // pending: waiting in the queue, ready: a copy is set aside for pickup
+  status: 'pending' | 'ready' | 'fulfilled' | 'cancelled' | 'expired';
+  notes?: string;
+  readyAt?: Date;
+  pickupBy?: Date; // End of the pickup window once the hold is ready
+  fulfilledAt?: Date;
+  cancelledAt?: Date;
+  expiredAt?: Date;
+  lendingId?: ObjectId | string; // Lending created when the hold was picked up
+  createdAt?: Date;
+  updatedAt?: Date;
+  // Populated fields for client-side display
+  queuePosition?: number;
+  book?: Book;
+  borrower?: Borrower;
+}
+
+export interface AuditChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface AuditLog {
+  _id?: ObjectId | string;
+  action: string; // e.g. 'UPDATE_BORROWER'
+  targetType:
+    | 'book'
+    | 'book_copy'
+    | 'borrower'
+    | 'lending'
+    | 'reservation'
+    | 'loan_policy'
+    | 'fine'
+    | 'case'
+    | 'reminder'
+    | 'document'
+    | 'user'
+    | 'role'
+    | 'api_token'
+    | 'notification'
+    | 'serial'
+    | 'serial_issue'
+    | string;
+  targetId?: ObjectId | string;
+  actor?: ObjectId | string; // Reference to User._id
+  actorName?: string | null;
+  actorEmail?: string | null;
+  details?: {
+    oldValues?: Record<string, unknown>; // Target before the change
+    newValues?: Record<string, unknown>; // Target after the change
+    changes?: AuditChange[]; // Fields that differ between the two
+    [key: string]: unknown;
+  };
+  ip?: string;
+  userAgent?: string;
+  timestamp: Date;
 }
 
 export interface DashboardStats {
@@ -109,6 +413,48 @@ export interface Case {
   assignedUser?: User;
 }
 
+export interface ReminderRecurrence {
+  frequency: 'weekly' | 'monthly';
+  interval?: number; // Every n weeks or months, defaults to 1
+  until?: Date; // No occurrences after this date
+}
+
+export interface ReminderNotice {
+  occurrence: Date; // Deadline of the occurrence the notice is for
+  leadDays: number; // Days before the deadline the notice is sent
+  sendAt: Date;
+  status: 'sending' | 'sent' | 'failed';
+  claimedAt: Date;
+  sentAt?: Date;
+  errorMessage?: string;
+}
+
+export interface Reminder {
+  _id?: ObjectId | string;
+  caseId: ObjectId | string; // Reference to Case._id
+  title?: string;
+  message: string;
+  dueDate: Date; // When the deadline falls, the first occurrence for recurring reminders
+  leadDays?: number[]; // Days before each deadline to send a notice, defaults to [0]
+  recurrence?: ReminderRecurrence;
+  assignees: (ObjectId | string)[]; // References to User._id
+  status: 'pending' | 'sent' | 'failed' | 'done' | 'snoozed' | 'cancelled';
+  notices?: ReminderNotice[]; // Every notice sent or attempted, one per occurrence and lead time
+  nextSendAt?: Date; // When the next scheduled notice is due, unset once none remain
+  snoozedUntil?: Date; // Snoozed reminders are sent again at this time
+  sentAt?: Date;
+  failedAt?: Date;
+  errorMessage?: string; // Why the last send failed
+  completedAt?: Date;
+  completedBy?: ObjectId | string;
+  createdBy?: ObjectId | string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  assignedTo?: ObjectId | string; // Single assignee on reminders created before `assignees`
+  // Populated field for client-side display
+  assigneeUsers?: Pick<User, '_id' | 'name' | 'email'>[];
+}
+
 // export interface Document {
 //   _id?: ObjectId | string;
 //   caseId: ObjectId | string; // Reference to Case._id
@@ -0,0 +1,164 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type WithId } from 'mongodb';
+import type { Borrower, LendingRecord, Reservation, User } from '@/lib/models';
+import {
+  ACTIVE_RESERVATION_STATUSES,
+  getQueuePosition,
+} from '@/lib/reservations';
+
+export const NOT_LINKED_ERROR =
+  'No borrower record is linked to your account. Ask a librarian to link one.';
+
+// Token scopes are permissions, which self-service requests and renewals do
+// not go through, so a token of any scope could otherwise make them
+export const API_TOKEN_ERROR =
+  'API tokens cannot request, cancel or renew books. Sign in to do so.';
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
+/**
+ * Links a user to the borrower record with the same email the first time
+ * they sign in, once they have proved they own that email. Anyone can sign
+ * up with or change to a borrower's email, so other users are linked by an
+ * admin instead. Users an admin has unlinked (`borrowerId: null`) and
+ * borrowers already linked to another account are left alone.
+ * @returns The linked borrower's ID, or null when nothing was linked.
+ */
+export async function linkBorrowerByEmail(user: User) {
+  if (user.borrowerId !== undefined || !user.email || !user._id) {
+    return user.borrowerId ?? null;
+  }
+  if (!user.emailVerifiedAt) return null;
+
+  const db = await getDatabase();
+  const borrower = await db
+    .collection<Borrower>('borrowers')
+    .findOne({ email: user.email });
+  if (!borrower) return null;
+
+  const linkedElsewhere = await db
+    .collection<User>('users')
+    .findOne({ borrowerId: borrower._id });
+  if (linkedElsewhere) return null;
+
+  await db
+    .collection<User>('users')
+    .updateOne(
+      { _id: toObjectId(user._id), borrowerId: { $exists: false } },
+      { $set: { borrowerId: borrower._id, updatedAt: new Date() } }
+    );
+  return borrower._id;
+}
+
+/** The borrower record linked to a user, if any */
+export async function getLinkedBorrower(
+  user: User | null
+): Promise<WithId<Borrower> | null> {
+  if (!user?.borrowerId) return null;
+
+  const db = await getDatabase();
+  return db
+    .collection<Borrower>('borrowers')
+    .findOne({ _id: toObjectId(user.borrowerId) });
+}
+
+/**
+ * A borrower's loans in the given statuses with the book's title and author,
+ * most recent first.
+ */
+export async function getBorrowerLoans(
+  borrowerId: ObjectId | string,
+  statuses: LendingRecord['status'][],
+  { page = 1, limit = 50 } = {}
+) {
+  const db = await getDatabase();
+  const query = {
+    borrowerId: toObjectId(borrowerId),
+    status: { $in: statuses },
+  };
+
+  const [loans, total] = await Promise.all([
+    db
+      .collection<LendingRecord>('lendings')
+      .aggregate<LendingRecord>([
+        { $match: query },
+        { $sort: { borrowDate: -1 } },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+        {
+          $lookup: {
+            from: 'books',
+            localField: 'bookId',
+            foreignField: '_id',
+            as: 'book',
+          },
+        },
+        { $unwind: { path: '$book', preserveNullAndEmptyArrays: true } },
+        {
+          $project: {
+            _id: { $toString: '$_id' },
+            bookId: { $toString: '$bookId' },
+            borrowDate: 1,
+            dueDate: 1,
+            returnDate: 1,
+            status: 1,
+            renewalCount: 1,
+            'book._id': { $toString: '$book._id' },
+            'book.title': '$book.title',
+            'book.author': '$book.author',
+          },
+        },
+      ])
+      .toArray(),
+    db.collection<LendingRecord>('lendings').countDocuments(query),
+  ]);
+
+  return { loans, total };
+}
+
+/** A borrower's active holds in queue order, with their queue positions */
+export async function getBorrowerHolds(borrowerId: ObjectId | string) {
+  const db = await getDatabase();
+  const holds = await db
+    .collection<Reservation>('reservations')
+    .aggregate<Reservation>([
+      {
+        $match: {
+          borrowerId: toObjectId(borrowerId),
+          status: { $in: ACTIVE_RESERVATION_STATUSES },
+        },
+      },
+      { $sort: { createdAt: 1 } },
+      {
+        $lookup: {
+          from: 'books',
+          localField: 'bookId',
+          foreignField: '_id',
+          as: 'book',
+        },
+      },
+      { $unwind: { path: '$book', preserveNullAndEmptyArrays: true } },
+    ])
+    .toArray();
+
+  return Promise.all(
+    holds.map(async (hold) => ({
+      _id: hold._id?.toString(),
+      bookId: hold.bookId.toString(),
+      status: hold.status,
+      notes: hold.notes,
+      readyAt: hold.readyAt,
+      pickupBy: hold.pickupBy,
+      createdAt: hold.createdAt,
+      queuePosition: await getQueuePosition(hold),
+      book: hold.book && {
+        _id: hold.book._id?.toString(),
+        title: hold.book.title,
+        author: hold.book.author,
+      },
+    }))
+  );
+}
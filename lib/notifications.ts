@@ -1,17 +1,30 @@
 /** @format */
 
 import { getDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
-import type { Notification, User } from '@/lib/models';
+import { ObjectId, type WithId } from 'mongodb';
+import type { Borrower, Notification, User } from '@/lib/models';
 import { sendEmail } from '@/lib/email';
 
+export const NOTIFICATION_TYPES: Notification['type'][] = [
+  'info',
+  'warning',
+  'error',
+  'success',
+  'overdue_reminder',
+  'book_available',
+  'system_alert',
+];
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
 export async function createNotification(
   userId: string | ObjectId,
   message: string,
   type: Notification['type'],
   lendingId?: string | ObjectId,
   bookId?: string | ObjectId
-) {
+): Promise<Notification | null> {
   try {
     const db = await getDatabase();
     const notificationsCollection =
@@ -32,7 +45,7 @@ export async function createNotification(
       }),
     };
 
-    await notificationsCollection.insertOne(newNotification);
+    const result = await notificationsCollection.insertOne(newNotification);
     console.log(`Notification created for user ${userId}: ${message}`);
 
     // Optionally, send an email notification if the user has email enabled
@@ -40,22 +53,34 @@ export async function createNotification(
       .collection<User>('users')
       .findOne({ _id: new ObjectId(userId) });
     if (user?.email) {
-      await sendEmail({
-        to: user.email,
-        subject: `New Notification: ${message.substring(0, 50)}...`,
-        html: `<p>Dear ${
-          user.name || 'User'
-        },</p><p>${message}</p><p>Please log in to the library system to view details.</p>`,
-      });
-      console.log(`Email notification sent to ${user.email}`);
+      try {
+        await sendEmail({
+          to: user.email,
+          subject: `New Notification: ${message.substring(0, 50)}...`,
+          html: `<p>Dear ${
+            user.name || 'User'
+          },</p><p>${message}</p><p>Please log in to the library system to view details.</p>`,
+        });
+        console.log(`Email notification sent to ${user.email}`);
+      } catch (emailError) {
+        console.error('Error sending notification email:', emailError);
+      }
     }
+
+    return { ...newNotification, _id: result.insertedId };
   } catch (error) {
     console.error('Error creating notification:', error);
+    return null;
   }
 }
 
+/**
+ * Marks a notification as read. When `userId` is given, only a notification
+ * owned by that user is updated.
+ */
 export async function markNotificationAsRead(
-  notificationId: string | ObjectId
+  notificationId: string | ObjectId,
+  userId?: string | ObjectId
 ) {
   try {
     const db = await getDatabase();
@@ -68,18 +93,24 @@ export async function markNotificationAsRead(
           typeof notificationId === 'string'
             ? new ObjectId(notificationId)
             : notificationId,
+        ...(userId && { userId: toObjectId(userId) }),
       },
       { $set: { read: true } }
     );
-    return result.modifiedCount > 0;
+    return result.matchedCount > 0;
   } catch (error) {
     console.error('Error marking notification as read:', error);
     return false;
   }
 }
 
+/**
+ * Deletes a notification. When `userId` is given, only a notification owned
+ * by that user is deleted.
+ */
 export async function deleteNotificationById(
-  notificationId: string | ObjectId
+  notificationId: string | ObjectId,
+  userId?: string | ObjectId
 ) {
   try {
     const db = await getDatabase();
@@ -91,6 +122,7 @@ export async function deleteNotificationById(
         typeof notificationId === 'string'
           ? new ObjectId(notificationId)
           : notificationId,
+      ...(userId && { userId: toObjectId(userId) }),
     });
     return result.deletedCount > 0;
   } catch (error) {
@@ -98,3 +130,83 @@ export async function deleteNotificationById(
     return false;
   }
 }
+
+/**
+ * Marks every unread notification of a user as read, optionally restricted
+ * to a set of notification IDs or a single notification type.
+ * @returns The number of notifications that were updated.
+ */
+export async function markNotificationsAsRead(
+  userId: string | ObjectId,
+  options: {
+    notificationIds?: (string | ObjectId)[];
+    type?: Notification['type'];
+  } = {}
+) {
+  try {
+    const db = await getDatabase();
+    const result = await db
+      .collection<Notification>('notifications')
+      .updateMany(
+        {
+          userId: toObjectId(userId),
+          read: false,
+          ...(options.notificationIds && {
+            _id: { $in: options.notificationIds.map(toObjectId) },
+          }),
+          ...(options.type && { type: options.type }),
+        },
+        { $set: { read: true } }
+      );
+    return result.modifiedCount;
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return 0;
+  }
+}
+
+/**
+ * Deletes a set of notifications belonging to a user.
+ * @returns The number of notifications that were deleted.
+ */
+export async function deleteNotifications(
+  userId: string | ObjectId,
+  notificationIds: (string | ObjectId)[]
+) {
+  try {
+    const db = await getDatabase();
+    const result = await db
+      .collection<Notification>('notifications')
+      .deleteMany({
+        userId: toObjectId(userId),
+        _id: { $in: notificationIds.map(toObjectId) },
+      });
+    return result.deletedCount;
+  } catch (error) {
+    console.error('Error deleting notifications:', error);
+    return 0;
+  }
+}
+
+export async function getUnreadNotificationCount(userId: string | ObjectId) {
+  const db = await getDatabase();
+  return db
+    .collection<Notification>('notifications')
+    .countDocuments({ userId: toObjectId(userId), read: false });
+}
+
+/**
+ * The user account that receives in-app notices for a borrower: the one
+ * linked to it, otherwise one with the same email.
+ */
+export async function findUserForBorrower(borrower: WithId<Borrower>) {
+  const db = await getDatabase();
+  const linked = await db
+    .collection<User>('users')
+    .findOne({ borrowerId: borrower._id });
+  if (linked || !borrower.email) return linked;
+
+  return db
+    .collection<User>('users')
+    .findOne({ email: borrower.email, borrowerId: null });
+}
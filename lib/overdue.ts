@@ -0,0 +1,289 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId, type WithId } from 'mongodb';
+import type { Book, Borrower, LendingRecord, LoanNotice } from '@/lib/models';
+import { createNotification, findUserForBorrower } from '@/lib/notifications';
+import { sendEmail, emailTemplates } from '@/lib/email';
+import { accrueOverdueFines } from '@/lib/fines';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
+const parseOffsets = (value: string | undefined, fallback: number[]) => {
+  const offsets = (value || '')
+    .split(',')
+    .map((v) => Number.parseInt(v.trim()))
+    .filter((v) => Number.isInteger(v) && v > 0);
+  return offsets.length > 0
+    ? Array.from(new Set(offsets)).sort((a, b) => a - b)
+    : fallback;
+};
+
+// Days past the due date at which each escalating overdue reminder goes out
+export const OVERDUE_REMINDER_DAYS = parseOffsets(
+  process.env.OVERDUE_REMINDER_DAYS,
+  [1, 7, 14]
+);
+
+// How many days before the due date the "due soon" notice goes out
+export const DUE_SOON_DAYS = Number.parseInt(process.env.DUE_SOON_DAYS || '2');
+
+export interface OverdueSweepResult {
+  markedOverdue: number;
+  finesAccrued: number;
+  dueSoonSent: number;
+  overdueSent: number;
+}
+
+/**
+ * Moves every active loan past its due date to the 'overdue' status.
+ * @returns The number of loans that became overdue.
+ */
+export async function markOverdueLendings(now = new Date()) {
+  const db = await getDatabase();
+  const result = await db
+    .collection<LendingRecord>('lendings')
+    .updateMany(
+      { status: 'borrowed', dueDate: { $lt: now } },
+      { $set: { status: 'overdue', updatedAt: now } }
+    );
+  return result.modifiedCount;
+}
+
+/**
+ * Records a notice on the lending before it is sent. The filter makes the
+ * claim atomic, so a notice (or a later stage of it) is never sent twice for
+ * the same due date, even when sweeps overlap.
+ * @returns False when the notice was already claimed.
+ */
+async function claimNotice(lending: WithId<LendingRecord>, notice: LoanNotice) {
+  const db = await getDatabase();
+  const result = await db.collection<LendingRecord>('lendings').updateOne(
+    {
+      _id: lending._id,
+      status: lending.status,
+      notices: {
+        $not: {
+          $elemMatch: {
+            type: notice.type,
+            dueDate: notice.dueDate,
+            offsetDays: { $gte: notice.offsetDays },
+          },
+        },
+      },
+    },
+    { $push: { notices: notice } }
+  );
+  return result.modifiedCount > 0;
+}
+
+async function releaseNotice(
+  lending: WithId<LendingRecord>,
+  notice: LoanNotice
+) {
+  const db = await getDatabase();
+  await db.collection<LendingRecord>('lendings').updateOne(
+    { _id: lending._id },
+    {
+      $pull: {
+        notices: {
+          type: notice.type,
+          dueDate: notice.dueDate,
+          offsetDays: notice.offsetDays,
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Sends a due-soon or overdue notice for a loan. Borrowers with a matching
+ * user account get an in-app notification, everyone else is emailed directly.
+ * @returns The channel used, or null when the borrower cannot be reached.
+ */
+async function deliverNotice(
+  lending: WithId<LendingRecord>,
+  type: LoanNotice['type'],
+  days: number,
+  finalNotice = false
+): Promise<LoanNotice['channel'] | null> {
+  const db = await getDatabase();
+  const [book, borrower] = await Promise.all([
+    db.collection<Book>('books').findOne({ _id: toObjectId(lending.bookId) }),
+    db
+      .collection<Borrower>('borrowers')
+      .findOne({ _id: toObjectId(lending.borrowerId) }),
+  ]);
+
+  if (!book || !borrower?.email) {
+    console.warn(`⚠️ Cannot notify borrower for lending ${lending._id}`);
+    return null;
+  }
+
+  const dueDate = new Date(lending.dueDate);
+  const user = await findUserForBorrower(borrower);
+  if (user?._id) {
+    await createNotification(
+      user._id,
+      type === 'due_soon'
+        ? `"${book.title}" is due back on ${dueDate.toLocaleDateString()}.`
+        : `${finalNotice ? 'Final notice: ' : ''}"${
+            book.title
+          }" is ${days} day(s) overdue. Please return it as soon as possible.`,
+      type === 'due_soon' ? 'warning' : 'overdue_reminder',
+      lending._id,
+      book._id
+    );
+    return 'notification';
+  }
+
+  const details = {
+    borrowerName: borrower.name,
+    borrowerEmail: borrower.email,
+    bookTitle: book.title,
+    author: book.author,
+    dueDate,
+  };
+  const { subject, html } =
+    type === 'due_soon'
+      ? emailTemplates.dueSoonNotification({ ...details, daysUntilDue: days })
+      : emailTemplates.overdueNotification({
+          ...details,
+          daysOverdue: days,
+          finalNotice,
+        });
+  await sendEmail({ to: borrower.email, subject, html });
+  return 'email';
+}
+
+async function sendNotice(
+  lending: WithId<LendingRecord>,
+  type: LoanNotice['type'],
+  offsetDays: number,
+  days: number,
+  finalNotice = false
+) {
+  const notice: LoanNotice = {
+    type,
+    offsetDays,
+    dueDate: lending.dueDate,
+    channel: 'email',
+    sentAt: new Date(),
+  };
+  if (!(await claimNotice(lending, notice))) return false;
+
+  try {
+    const channel = await deliverNotice(lending, type, days, finalNotice);
+    if (!channel) {
+      await releaseNotice(lending, notice);
+      return false;
+    }
+
+    if (channel !== notice.channel) {
+      const db = await getDatabase();
+      await db.collection<LendingRecord>('lendings').updateOne(
+        {
+          _id: lending._id,
+          notices: {
+            $elemMatch: { type, offsetDays, dueDate: notice.dueDate },
+          },
+        },
+        { $set: { 'notices.$.channel': channel } }
+      );
+    }
+    return true;
+  } catch (error) {
+    // Release the claim so the next sweep retries the notice
+    console.error(`❌ Error sending ${type} notice for ${lending._id}:`, error);
+    await releaseNotice(lending, notice);
+    return false;
+  }
+}
+
+/**
+ * Sends a "due soon" notice for loans falling due within `DUE_SOON_DAYS`.
+ * @returns The number of notices sent.
+ */
+export async function sendDueSoonNotices(now = new Date()) {
+  const db = await getDatabase();
+  const lendings = await db
+    .collection<LendingRecord>('lendings')
+    .find({
+      status: 'borrowed',
+      dueDate: {
+        $gte: now,
+        $lte: new Date(now.getTime() + DUE_SOON_DAYS * DAY_MS),
+      },
+    })
+    .toArray();
+
+  let sent = 0;
+  for (const lending of lendings) {
+    const daysUntilDue = Math.ceil(
+      (new Date(lending.dueDate).getTime() - now.getTime()) / DAY_MS
+    );
+    if (await sendNotice(lending, 'due_soon', DUE_SOON_DAYS, daysUntilDue)) {
+      sent++;
+    }
+  }
+  return sent;
+}
+
+/**
+ * Sends the next escalating reminder for overdue loans. Only the latest
+ * stage reached is sent, so a loan that missed earlier sweeps gets a single
+ * reminder rather than a burst of them.
+ * @returns The number of reminders sent.
+ */
+export async function sendOverdueReminders(now = new Date()) {
+  const db = await getDatabase();
+  const lendings = await db
+    .collection<LendingRecord>('lendings')
+    .find({
+      status: 'overdue',
+      dueDate: {
+        $lte: new Date(now.getTime() - OVERDUE_REMINDER_DAYS[0] * DAY_MS),
+      },
+    })
+    .toArray();
+
+  const finalStage = OVERDUE_REMINDER_DAYS[OVERDUE_REMINDER_DAYS.length - 1];
+  let sent = 0;
+  for (const lending of lendings) {
+    const daysOverdue = Math.floor(
+      (now.getTime() - new Date(lending.dueDate).getTime()) / DAY_MS
+    );
+    const stage = OVERDUE_REMINDER_DAYS.filter((d) => d <= daysOverdue).pop();
+    if (!stage) continue;
+
+    if (
+      await sendNotice(
+        lending,
+        'overdue',
+        stage,
+        daysOverdue,
+        stage === finalStage
+      )
+    ) {
+      sent++;
+    }
+  }
+  return sent;
+}
+
+/**
+ * Runs a full overdue sweep: persists the overdue status, brings overdue
+ * fines up to date, then sends any due-soon notices and overdue reminders
+ * that have not gone out yet.
+ */
+export async function runOverdueSweep(): Promise<OverdueSweepResult> {
+  const now = new Date();
+  const markedOverdue = await markOverdueLendings(now);
+  const finesAccrued = await accrueOverdueFines(now);
+  const dueSoonSent = await sendDueSoonNotices(now);
+  const overdueSent = await sendOverdueReminders(now);
+  return { markedOverdue, finesAccrued, dueSoonSent, overdueSent };
+}
@@ -0,0 +1,45 @@
+/** @format */
+
+import { runOverdueSweep } from './overdue';
+
+export async function checkOverdueLendings() {
+  try {
+    const { markedOverdue, finesAccrued, dueSoonSent, overdueSent } =
+      await runOverdueSweep();
+    console.log(
+      `Marked ${markedOverdue} lendings overdue, updated ${finesAccrued} fines, sent ${dueSoonSent} due-soon notices and ${overdueSent} overdue reminders`
+    );
+  } catch (error) {
+    console.error('❌ Error in overdue service:', error);
+  }
+}
+
+let overdueInterval: NodeJS.Timeout | null = null;
+
+export function startOverdueService() {
+  if (overdueInterval) {
+    console.log('Overdue service is already running');
+    return;
+  }
+
+  console.log('🚀 Starting overdue service...');
+
+  // Run immediately on start
+  checkOverdueLendings();
+
+  // Then run every hour
+  overdueInterval = setInterval(() => {
+    console.log('🔄 Running scheduled overdue sweep...');
+    checkOverdueLendings();
+  }, 60 * 60 * 1000);
+
+  console.log('✅ Overdue service started - checking every hour');
+}
+
+export function stopOverdueService() {
+  if (overdueInterval) {
+    clearInterval(overdueInterval);
+    overdueInterval = null;
+    console.log('🛑 Overdue service stopped');
+  }
+}
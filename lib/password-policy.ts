@@ -0,0 +1,138 @@
+/** @format */
+
+import { BREACHED_PASSWORDS } from '@/lib/breached-passwords';
+
+// Shared by the API routes and the password forms, so it must stay free of
+// server-only imports. The forms get the policy from /api/auth/password-policy.
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number; // Recent passwords that can't be used again
+}
+
+export interface PasswordRule {
+  key: string;
+  label: string;
+  passed: boolean;
+}
+
+// Who the password is for, so it can't simply be their name or email
+export interface PasswordContext {
+  email?: string | null;
+  name?: string | null;
+}
+
+const BREACHED = new Set<string>(BREACHED_PASSWORDS);
+
+// Name and email fragments shorter than this are too common to reject
+const MIN_PERSONAL_FRAGMENT = 3;
+
+const envFlag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : value === 'true';
+
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: Number.parseInt(process.env.PASSWORD_MIN_LENGTH || '10'),
+    requireUppercase: envFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+    requireLowercase: envFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+    requireNumber: envFlag(process.env.PASSWORD_REQUIRE_NUMBER, true),
+    requireSymbol: envFlag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+    historyCount: Number.parseInt(process.env.PASSWORD_HISTORY_COUNT || '5'),
+  };
+}
+
+export function isBreachedPassword(password: string) {
+  const normalized = password.toLowerCase();
+  return (
+    BREACHED.has(normalized) || BREACHED.has(normalized.replace(/[^a-z]+$/, ''))
+  );
+}
+
+function containsPersonalInfo(password: string, context: PasswordContext) {
+  const normalized = password.toLowerCase();
+  const fragments = [
+    context.email?.split('@')[0],
+    ...(context.name?.split(/\s+/) ?? []),
+  ]
+    .map((fragment) => fragment?.toLowerCase().trim())
+    .filter(
+      (fragment): fragment is string =>
+        !!fragment && fragment.length >= MIN_PERSONAL_FRAGMENT
+    );
+  return fragments.some((fragment) => normalized.includes(fragment));
+}
+
+/**
+ * Every rule of the policy and whether the password meets it, in the order
+ * the forms list them. Password history is checked on the server only.
+ */
+export function getPasswordRules(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): PasswordRule[] {
+  const rules: PasswordRule[] = [
+    {
+      key: 'length',
+      label: `At least ${policy.minLength} characters`,
+      passed: password.length >= policy.minLength,
+    },
+  ];
+  if (policy.requireUppercase) {
+    rules.push({
+      key: 'uppercase',
+      label: 'An uppercase letter',
+      passed: /[A-Z]/.test(password),
+    });
+  }
+  if (policy.requireLowercase) {
+    rules.push({
+      key: 'lowercase',
+      label: 'A lowercase letter',
+      passed: /[a-z]/.test(password),
+    });
+  }
+  if (policy.requireNumber) {
+    rules.push({
+      key: 'number',
+      label: 'A number',
+      passed: /\d/.test(password),
+    });
+  }
+  if (policy.requireSymbol) {
+    rules.push({
+      key: 'symbol',
+      label: 'A symbol such as ! or #',
+      passed: /[^A-Za-z0-9\s]/.test(password),
+    });
+  }
+  if (context.email || context.name) {
+    rules.push({
+      key: 'personal',
+      label: "Doesn't contain your name or email",
+      passed: !containsPersonalInfo(password, context),
+    });
+  }
+  rules.push({
+    key: 'breached',
+    label: 'Not a common or breached password',
+    passed: !!password && !isBreachedPassword(password),
+  });
+  return rules;
+}
+
+/**
+ * Labels of the rules the password breaks, empty when it meets the policy.
+ */
+export const getPasswordViolations = (
+  password: string,
+  policy: PasswordPolicy,
+  context?: PasswordContext
+) =>
+  getPasswordRules(password, policy, context)
+    .filter((rule) => !rule.passed)
+    .map((rule) => rule.label);
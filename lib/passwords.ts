@@ -0,0 +1,92 @@
+/** @format */
+
+import { NextResponse } from 'next/server';
+import { hashPassword, verifyPassword } from '@/lib/auth';
+import type { User } from '@/lib/models';
+import {
+  type PasswordContext,
+  getPasswordPolicy,
+  getPasswordViolations,
+} from '@/lib/password-policy';
+import { getRoleByName } from '@/lib/roles';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Everything wrong with a new password: the policy rules it breaks and, for
+ * an existing user, whether it is one of their recent passwords.
+ */
+export async function checkNewPassword(
+  password: string,
+  user?: Pick<User, 'email' | 'name' | 'password' | 'passwordHistory'> | null,
+  context: PasswordContext = {}
+) {
+  const policy = getPasswordPolicy();
+  const violations = getPasswordViolations(password, policy, {
+    email: user?.email ?? context.email,
+    name: context.name ?? user?.name,
+  });
+
+  const recent = getPasswordHistory(user).slice(0, policy.historyCount);
+  for (const hash of recent) {
+    if (await verifyPassword(password, hash)) {
+      violations.push(`Not one of your last ${policy.historyCount} passwords`);
+      break;
+    }
+  }
+  return violations;
+}
+
+/**
+ * The 400 response for a password that breaks the policy, listing each
+ * broken rule the way the forms show them.
+ */
+export const passwordPolicyError = (violations: string[]) =>
+  NextResponse.json(
+    {
+      error: `Password does not meet the password policy: ${violations.join(
+        ', '
+      )}`,
+      violations,
+    },
+    { status: 400 }
+  );
+
+// Accounts from before password history only have their current password
+const getPasswordHistory = (
+  user?: Pick<User, 'password' | 'passwordHistory'> | null
+) => user?.passwordHistory ?? (user?.password ? [user.password] : []);
+
+/**
+ * The user fields to $set for a new password: its hash, when it was set,
+ * and the password history with it added.
+ */
+export async function hashNewPassword(
+  password: string,
+  user?: Pick<User, 'password' | 'passwordHistory'> | null
+) {
+  const hashed = await hashPassword(password);
+  const { historyCount } = getPasswordPolicy();
+  return {
+    password: hashed,
+    passwordChangedAt: new Date(),
+    passwordHistory: [hashed, ...getPasswordHistory(user)].slice(
+      0,
+      Math.max(historyCount, 1)
+    ),
+  };
+}
+
+/**
+ * Whether the user's role limits password age and their password is older.
+ * Passwords set before changes were tracked count from account creation.
+ */
+export async function isPasswordExpired(
+  user: Pick<User, 'role' | 'password' | 'passwordChangedAt' | 'createdAt'>
+) {
+  const maxAgeDays = (await getRoleByName(user.role))?.passwordMaxAgeDays;
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  if (!maxAgeDays || !user.password || !changedAt) return false;
+
+  return Date.now() - new Date(changedAt).getTime() > maxAgeDays * DAY_MS;
+}
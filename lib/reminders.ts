@@ -0,0 +1,674 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { sendEmail } from '@/lib/email';
+import { ObjectId, type Filter, type WithId } from 'mongodb';
+import type {
+  Case,
+  Reminder,
+  ReminderNotice,
+  ReminderRecurrence,
+  User,
+} from '@/lib/models';
+
+export const REMINDER_STATUSES: Reminder['status'][] = [
+  'pending',
+  'sent',
+  'failed',
+  'done',
+  'snoozed',
+  'cancelled',
+];
+
+// Reminders in these states are no longer sent
+export const CLOSED_REMINDER_STATUSES: Reminder['status'][] = [
+  'done',
+  'cancelled',
+];
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
+// Lead times used when a reminder does not set any: on the day of the deadline
+export const DEFAULT_LEAD_DAYS = [0];
+
+// Notices are picked up up to an hour early, one polling window ahead
+const REMINDER_LOOKAHEAD_MS = 60 * 60 * 1000;
+
+// A notice still 'sending' after this long was interrupted by a restart
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+// Bounds the walk through the occurrences of a recurring reminder
+const MAX_OCCURRENCES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScheduledNotice = Pick<
+  ReminderNotice,
+  'occurrence' | 'leadDays' | 'sendAt'
+>;
+
+// Adds calendar months, keeping to the last day of shorter months
+export const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+export function getLeadDays(reminder: Reminder) {
+  return reminder.leadDays?.length ? reminder.leadDays : DEFAULT_LEAD_DAYS;
+}
+
+/**
+ * Works out the deadline of a reminder's nth occurrence. One-off reminders
+ * only have the first.
+ * @returns The deadline, or null past the end of the recurrence.
+ */
+function getOccurrence(reminder: Reminder, index: number) {
+  const dueDate = new Date(reminder.dueDate);
+  if (index === 0) return dueDate;
+
+  const { recurrence } = reminder;
+  if (!recurrence || index >= MAX_OCCURRENCES) return null;
+
+  const step = (recurrence.interval || 1) * index;
+  const occurrence =
+    recurrence.frequency === 'weekly'
+      ? new Date(dueDate.getTime() + step * 7 * DAY_MS)
+      : addMonths(dueDate, step);
+
+  if (recurrence.until && occurrence > new Date(recurrence.until)) {
+    return null;
+  }
+  return occurrence;
+}
+
+/**
+ * Lists the notices of a reminder sent after `after` and up to `until`, one
+ * per occurrence and lead time, in the order they are sent.
+ */
+function listNotices(reminder: Reminder, after: Date | undefined, until: Date) {
+  const leadDays = getLeadDays(reminder);
+  const maxLead = Math.max(...leadDays) * DAY_MS;
+  const notices: ScheduledNotice[] = [];
+
+  for (let index = 0; ; index++) {
+    const occurrence = getOccurrence(reminder, index);
+    if (!occurrence || occurrence.getTime() - maxLead > until.getTime()) {
+      break;
+    }
+
+    leadDays.forEach((lead) => {
+      const sendAt = new Date(occurrence.getTime() - lead * DAY_MS);
+      if ((!after || sendAt > after) && sendAt <= until) {
+        notices.push({ occurrence, leadDays: lead, sendAt });
+      }
+    });
+  }
+
+  // Where notices for two occurrences coincide, only the nearer deadline's is sent
+  return notices
+    .sort(
+      (a, b) =>
+        a.sendAt.getTime() - b.sendAt.getTime() || a.leadDays - b.leadDays
+    )
+    .filter(
+      (notice, index, all) =>
+        index === 0 ||
+        notice.sendAt.getTime() !== all[index - 1].sendAt.getTime()
+    );
+}
+
+/**
+ * Narrows the notices that have fallen due to the ones still worth sending:
+ * the latest for each occurrence, and only the latest of the occurrences
+ * whose deadline has passed, so a backlog goes out as a single email each.
+ */
+function collapseMissedNotices(notices: ScheduledNotice[], now: Date) {
+  const isPast = (notice: ScheduledNotice) => notice.occurrence <= now;
+  const latestPast = notices.filter(isPast).pop();
+
+  return notices.filter(
+    (notice, index) =>
+      (!isPast(notice) ||
+        notice.occurrence.getTime() === latestPast!.occurrence.getTime()) &&
+      !notices
+        .slice(index + 1)
+        .some(
+          (later) => later.occurrence.getTime() === notice.occurrence.getTime()
+        )
+  );
+}
+
+/**
+ * Finds the first notice of a reminder sent after `after`, or its very first
+ * notice when `after` is not given.
+ */
+function findNextNotice(reminder: Reminder, after?: Date) {
+  const leadDays = getLeadDays(reminder);
+  const maxLead = Math.max(...leadDays) * DAY_MS;
+  let next: ScheduledNotice | null = null;
+
+  for (let index = 0; ; index++) {
+    const occurrence = getOccurrence(reminder, index);
+    // Later occurrences cannot have an earlier notice
+    if (
+      !occurrence ||
+      (next && occurrence.getTime() - maxLead >= next.sendAt.getTime())
+    ) {
+      break;
+    }
+
+    for (const lead of leadDays) {
+      const sendAt = new Date(occurrence.getTime() - lead * DAY_MS);
+      const isEarlier =
+        !next ||
+        sendAt < next.sendAt ||
+        (sendAt.getTime() === next.sendAt.getTime() && lead < next.leadDays);
+      if ((!after || sendAt > after) && isEarlier) {
+        next = { occurrence, leadDays: lead, sendAt };
+      }
+    }
+  }
+
+  return next;
+}
+
+// Send time of the latest notice claimed for the reminder
+function getLastNoticeAt(reminder: Reminder) {
+  return reminder.notices?.reduce<Date | undefined>(
+    (last, notice) =>
+      !last || notice.sendAt > last ? new Date(notice.sendAt) : last,
+    undefined
+  );
+}
+
+// Notices are sent from when the reminder was created, or after the latest
+// one, never for lead times that had already gone by
+function getScheduleStart(reminder: Reminder) {
+  return (
+    getLastNoticeAt(reminder) ??
+    (reminder.createdAt ? new Date(reminder.createdAt) : undefined)
+  );
+}
+
+/**
+ * Tidies validated lead times and recurrence from a request: lead times are
+ * de-duplicated, longest first, and a null recurrence means none.
+ */
+export function normalizeSchedule({
+  leadDays,
+  recurrence,
+}: Pick<Partial<Reminder>, 'leadDays' | 'recurrence'>) {
+  return {
+    leadDays: leadDays && Array.from(new Set(leadDays)).sort((a, b) => b - a),
+    recurrence:
+      recurrence &&
+      ({
+        frequency: recurrence.frequency,
+        interval: recurrence.interval || 1,
+        ...(recurrence.until && { until: new Date(recurrence.until) }),
+      } as ReminderRecurrence),
+  };
+}
+
+/**
+ * Works out when a reminder's next notice is due, after every notice it has
+ * already sent or attempted.
+ * @returns The send time, or undefined once no notices remain.
+ */
+export function getNextSendAt(reminder: Reminder) {
+  return findNextNotice(reminder, getScheduleStart(reminder))?.sendAt;
+}
+
+/**
+ * Lists the users a reminder goes to. Reminders created before several
+ * assignees were supported carry a single `assignedTo` instead.
+ */
+export function getAssigneeIds(reminder: Reminder) {
+  const ids = reminder.assignees?.length
+    ? reminder.assignees
+    : reminder.assignedTo
+    ? [reminder.assignedTo]
+    : [];
+  return ids.map(toObjectId);
+}
+
+async function findAssignees(ids: ObjectId[]) {
+  if (ids.length === 0) return [];
+
+  const db = await getDatabase();
+  return db
+    .collection<User>('users')
+    .find({ _id: { $in: ids } }, { projection: { _id: 1, name: 1, email: 1 } })
+    .toArray();
+}
+
+/**
+ * Finds reminders matching a filter, soonest first, with their assignees
+ * populated and IDs stringified for the client.
+ */
+export async function getReminders(filter: Filter<Reminder>) {
+  const db = await getDatabase();
+  const reminders = await db
+    .collection<Reminder>('reminders')
+    .find(filter)
+    .sort({ dueDate: 1 })
+    .toArray();
+
+  const users = await findAssignees(
+    reminders.flatMap((reminder) => getAssigneeIds(reminder))
+  );
+  const usersById = new Map(users.map((user) => [user._id!.toString(), user]));
+
+  return reminders.map((reminder) => serializeReminder(reminder, usersById));
+}
+
+export function serializeReminder(
+  reminder: WithId<Reminder>,
+  usersById?: Map<string, Pick<User, '_id' | 'name' | 'email'>>
+) {
+  const assignees = getAssigneeIds(reminder).map((id) => id.toString());
+  const { assignedTo, ...rest } = reminder;
+
+  return {
+    ...rest,
+    _id: reminder._id.toString(),
+    caseId: reminder.caseId.toString(),
+    assignees,
+    createdBy: reminder.createdBy?.toString(),
+    completedBy: reminder.completedBy?.toString(),
+    ...(usersById && {
+      assigneeUsers: assignees
+        .map((id) => usersById.get(id))
+        .filter(Boolean)
+        .map((user) => ({ ...user, _id: user!._id?.toString() })),
+    }),
+  };
+}
+
+function reminderEmailHtml(
+  reminder: Reminder,
+  caseDetails: Case,
+  recipientName?: string | null
+) {
+  const formattedDate = new Date(reminder.dueDate).toLocaleString();
+
+  return `
+    <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto;">
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; border-left: 4px solid #d97706;">
+        <h2 style="color: #d97706; margin-top: 0;">⏰ Upcoming Deadline: ${
+          reminder.title || caseDetails.title
+        }</h2>
+        <p>Dear ${recipientName || 'Team Member'},</p>
+        <p>This is a reminder for the following case deadline:</p>
+
+        <div style="background-color: white; padding: 15px; border-radius: 4px; margin: 15px 0;">
+          <ul style="list-style: none; padding: 0; margin: 0;">
+            <li style="margin-bottom: 8px;"><strong>📁 Case:</strong> ${
+              caseDetails.title
+            } (${caseDetails.caseId})</li>
+            <li style="margin-bottom: 8px;"><strong>👤 Client:</strong> ${
+              caseDetails.clientName
+            }</li>
+            <li style="margin-bottom: 8px;"><strong>📅 Due:</strong> ${formattedDate}</li>
+            <li style="margin-bottom: 8px;"><strong>📋 Status:</strong> ${
+              caseDetails.status
+            }</li>
+          </ul>
+        </div>
+
+        ${
+          reminder.message
+            ? `
+          <div style="padding: 15px; background-color: #fffbeb; border-radius: 4px; margin: 15px 0; border-left: 3px solid #f59e0b;">
+            <strong>📝 Reminder Note:</strong>
+            <p style="margin: 5px 0 0 0;">${reminder.message}</p>
+          </div>
+        `
+            : ''
+        }
+
+        <p>You can view the case details by clicking <a href="${
+          process.env.NEXTAUTH_URL
+        }/cases/${caseDetails._id}">here</a>.</p>
+        <p>Please take appropriate action before the deadline.</p>
+        <p>Best regards,<br><strong>The Ralph Nwosu & Co. Team</strong></p>
+      </div>
+
+      <div style="text-align: center; margin-top: 20px; padding: 10px; font-size: 12px; color: #666;">
+        <p>This is an automated reminder. Please do not reply to this email.</p>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Emails a reminder to each of its assignees.
+ * @throws When the case is gone, no assignee has an email address, or any
+ * email fails to send.
+ */
+export async function emailAssignees(
+  reminder: WithId<Reminder>,
+  subject: (caseDetails: Case) => string
+) {
+  const db = await getDatabase();
+  const [caseDetails, users] = await Promise.all([
+    db.collection<Case>('cases').findOne({ _id: toObjectId(reminder.caseId) }),
+    findAssignees(getAssigneeIds(reminder)),
+  ]);
+
+  if (!caseDetails) throw new Error('Case not found');
+
+  const recipients = users.filter((user) => user.email);
+  if (recipients.length === 0) {
+    throw new Error('No assignee has an email address');
+  }
+
+  const failures: string[] = [];
+  for (const user of recipients) {
+    try {
+      await sendEmail({
+        to: user.email!,
+        subject: subject(caseDetails),
+        html: reminderEmailHtml(reminder, caseDetails, user.name),
+      });
+    } catch (error) {
+      failures.push(
+        `${user.email}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  if (failures.length > 0) throw new Error(failures.join('; '));
+}
+
+/**
+ * Records a notice on the reminder before it is sent. The filter makes the
+ * claim atomic and only lets the schedule move forwards, so overlapping
+ * polls or a restart never send a notice twice.
+ * @returns False when the notice, or a later one, was already claimed.
+ */
+async function claimNotice(reminder: WithId<Reminder>, notice: ReminderNotice) {
+  const db = await getDatabase();
+  const result = await db.collection<Reminder>('reminders').updateOne(
+    {
+      _id: reminder._id,
+      status: reminder.status,
+      notices: { $not: { $elemMatch: { sendAt: { $gte: notice.sendAt } } } },
+    },
+    { $push: { notices: notice } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Claims an already recorded notice for sending again, unless another send
+ * of it is in progress.
+ */
+async function reclaimNotice(
+  reminder: WithId<Reminder>,
+  notice: ReminderNotice
+) {
+  const db = await getDatabase();
+  const result = await db.collection<Reminder>('reminders').updateOne(
+    {
+      _id: reminder._id,
+      notices: {
+        $elemMatch: { sendAt: notice.sendAt, status: { $ne: 'sending' } },
+      },
+    },
+    {
+      $set: {
+        'notices.$.status': 'sending',
+        'notices.$.claimedAt': new Date(),
+      },
+    }
+  );
+  return result.modifiedCount > 0;
+}
+
+// How far off a deadline is, as of the notice going out, which can be later
+// than its lead time when it was retried or sent late
+function describeTimeLeft(occurrence: Date, now = new Date()) {
+  const timeLeft = occurrence.getTime() - now.getTime();
+  if (timeLeft < 0) return 'is overdue';
+  const days = Math.round(timeLeft / DAY_MS);
+  return days > 0 ? `is due in ${days} day(s)` : 'is due soon';
+}
+
+/**
+ * Emails a claimed notice and records the outcome on both the notice and the
+ * reminder, marking it 'sent' or 'failed' with the error so it can be retried.
+ * @returns The updated reminder.
+ */
+async function deliverNotice(
+  reminder: WithId<Reminder>,
+  notice: ScheduledNotice
+) {
+  const db = await getDatabase();
+  let errorMessage: string | undefined;
+
+  try {
+    await emailAssignees(
+      { ...reminder, dueDate: notice.occurrence },
+      (caseDetails) =>
+        `REMINDER: ${reminder.title || caseDetails.title} ${describeTimeLeft(
+          new Date(notice.occurrence)
+        )}`
+    );
+  } catch (error) {
+    console.error(`❌ Error sending reminder ${reminder._id}:`, error);
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const now = new Date();
+  const nextSendAt = findNextNotice(reminder, notice.sendAt)?.sendAt;
+  return await db.collection<Reminder>('reminders').findOneAndUpdate(
+    { _id: reminder._id },
+    errorMessage
+      ? {
+          $set: {
+            'notices.$[notice].status': 'failed',
+            'notices.$[notice].errorMessage': errorMessage,
+            status: 'failed',
+            failedAt: now,
+            errorMessage,
+            updatedAt: now,
+            ...(nextSendAt && { nextSendAt }),
+          },
+          $unset: {
+            snoozedUntil: '',
+            ...(!nextSendAt && { nextSendAt: '' }),
+          },
+        }
+      : {
+          $set: {
+            'notices.$[notice].status': 'sent',
+            'notices.$[notice].sentAt': now,
+            status: 'sent',
+            sentAt: now,
+            updatedAt: now,
+            ...(nextSendAt && { nextSendAt }),
+          },
+          $unset: {
+            'notices.$[notice].errorMessage': '',
+            snoozedUntil: '',
+            failedAt: '',
+            errorMessage: '',
+            ...(!nextSendAt && { nextSendAt: '' }),
+          },
+        },
+    {
+      arrayFilters: [{ 'notice.sendAt': notice.sendAt }],
+      returnDocument: 'after',
+    }
+  );
+}
+
+/**
+ * Sends the latest notice of a reminder again, or its first notice when it
+ * has never been sent. Used to retry failed sends and when a snooze ends.
+ * @returns The updated reminder, or null when a send is already in progress.
+ */
+export async function resendReminder(reminder: WithId<Reminder>) {
+  const latest = reminder.notices?.reduce<ReminderNotice | undefined>(
+    (last, notice) => (!last || notice.sendAt > last.sendAt ? notice : last),
+    undefined
+  );
+
+  if (latest) {
+    if (!(await reclaimNotice(reminder, latest))) return null;
+    return deliverNotice(reminder, latest);
+  }
+
+  const first = findNextNotice(reminder, getScheduleStart(reminder));
+  if (!first) return null;
+
+  const notice: ReminderNotice = {
+    ...first,
+    status: 'sending',
+    claimedAt: new Date(),
+  };
+  if (!(await claimNotice(reminder, notice))) return null;
+  return deliverNotice(reminder, notice);
+}
+
+/**
+ * Brings a reminder's schedule up to date: sends the notices that have fallen
+ * due since the last one, oldest first, so deadlines coming up while the
+ * server was down are still notified, or resends the latest notice once a
+ * snooze ends.
+ * @returns The outcome of each notice sent.
+ */
+async function processReminder(reminder: WithId<Reminder>, now: Date) {
+  const horizon = new Date(now.getTime() + REMINDER_LOOKAHEAD_MS);
+  const due = collapseMissedNotices(
+    listNotices(reminder, getScheduleStart(reminder), horizon),
+    now
+  );
+
+  if (due.length > 0) {
+    const outcomes: Reminder['status'][] = [];
+    let current: WithId<Reminder> | null = reminder;
+    for (const scheduled of due) {
+      const notice: ReminderNotice = {
+        ...scheduled,
+        status: 'sending',
+        claimedAt: now,
+      };
+      // Each claim is made against the reminder as the last send left it
+      if (!current || !(await claimNotice(current, notice))) break;
+      current = await deliverNotice(current, notice);
+      if (current) outcomes.push(current.status);
+    }
+    return outcomes;
+  }
+
+  if (reminder.status === 'snoozed' && reminder.notices?.length) {
+    const resent = await resendReminder(reminder);
+    return resent ? [resent.status] : [];
+  }
+
+  // Nothing due yet, e.g. a reminder snoozed before its first notice
+  const db = await getDatabase();
+  const nextSendAt = getNextSendAt(reminder);
+  await db.collection<Reminder>('reminders').updateOne(
+    { _id: reminder._id, status: reminder.status },
+    {
+      $set: {
+        ...(reminder.status === 'snoozed' && { status: 'pending' }),
+        ...(nextSendAt && { nextSendAt }),
+      },
+      $unset: {
+        snoozedUntil: '',
+        ...(!nextSendAt && { nextSendAt: '' }),
+      },
+    }
+  );
+  return [];
+}
+
+/**
+ * Marks notices left 'sending' by an interrupted poll as failed, so they show
+ * up for retry instead of being sent again automatically.
+ */
+async function failInterruptedNotices(now: Date) {
+  const db = await getDatabase();
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS);
+  const errorMessage = 'Interrupted before the notice was sent';
+
+  await db.collection<Reminder>('reminders').updateMany(
+    {
+      status: { $nin: CLOSED_REMINDER_STATUSES },
+      notices: {
+        $elemMatch: { status: 'sending', claimedAt: { $lt: staleBefore } },
+      },
+    },
+    {
+      $set: {
+        'notices.$[notice].status': 'failed',
+        'notices.$[notice].errorMessage': errorMessage,
+        status: 'failed',
+        failedAt: now,
+        errorMessage,
+        updatedAt: now,
+      },
+    },
+    {
+      arrayFilters: [
+        {
+          'notice.status': 'sending',
+          'notice.claimedAt': { $lt: staleBefore },
+        },
+      ],
+    }
+  );
+}
+
+/**
+ * Sends every reminder notice due within the next polling window, and the
+ * notices of snoozed reminders whose snooze has ended.
+ * @returns How many notices were sent and how many failed.
+ */
+export async function sendDueReminders(now = new Date()) {
+  await failInterruptedNotices(now);
+
+  const db = await getDatabase();
+  const horizon = new Date(now.getTime() + REMINDER_LOOKAHEAD_MS);
+  const reminders = await db
+    .collection<Reminder>('reminders')
+    .find({
+      $or: [
+        {
+          status: { $in: ['pending', 'sent', 'failed'] },
+          nextSendAt: { $lte: horizon },
+        },
+        // Reminders created before schedules were tracked
+        {
+          status: 'pending',
+          nextSendAt: { $exists: false },
+          notices: { $exists: false },
+        },
+        { status: 'snoozed', snoozedUntil: { $lte: now } },
+      ],
+    })
+    .toArray();
+
+  const result = { sent: 0, failed: 0 };
+  for (const reminder of reminders) {
+    for (const outcome of await processReminder(reminder, now)) {
+      if (outcome === 'sent') result.sent++;
+      if (outcome === 'failed') result.failed++;
+    }
+  }
+  return result;
+}
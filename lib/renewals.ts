@@ -0,0 +1,87 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import type { LendingRecord, Reservation } from '@/lib/models';
+
+export interface RenewalPolicy {
+  periodDays: number; // How far a renewal pushes the due date out
+  maxRenewals: number;
+  overdueGraceDays: number; // How long past the due date a loan may still be renewed
+}
+
+export const DEFAULT_RENEWAL_POLICY: RenewalPolicy = {
+  periodDays: Number.parseInt(process.env.RENEWAL_PERIOD_DAYS || '14'),
+  maxRenewals: Number.parseInt(process.env.MAX_RENEWALS || '2'),
+  overdueGraceDays: Number.parseInt(process.env.RENEWAL_GRACE_DAYS || '3'),
+};
+
+export type RenewalRefusal =
+  | 'NOT_ACTIVE'
+  | 'OVERDUE'
+  | 'MAX_RENEWALS'
+  | 'ON_HOLD';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a loan may be renewed under the given policy.
+ * @returns The reason the renewal is refused, or null when it is allowed.
+ */
+export async function checkRenewal(
+  lending: LendingRecord,
+  policy: RenewalPolicy = DEFAULT_RENEWAL_POLICY
+): Promise<{ code: RenewalRefusal; message: string } | null> {
+  if (lending.status === 'returned') {
+    return { code: 'NOT_ACTIVE', message: 'Book has already been returned' };
+  }
+
+  if (lending.status === 'lost') {
+    return { code: 'NOT_ACTIVE', message: 'Book was reported lost' };
+  }
+
+  const graceEnd = new Date(
+    new Date(lending.dueDate).getTime() + policy.overdueGraceDays * DAY_MS
+  );
+  if (graceEnd < new Date()) {
+    return {
+      code: 'OVERDUE',
+      message: `Loan is more than ${policy.overdueGraceDays} day(s) overdue and must be returned`,
+    };
+  }
+
+  if ((lending.renewalCount || 0) >= policy.maxRenewals) {
+    return {
+      code: 'MAX_RENEWALS',
+      message: `Loan has already been renewed the maximum of ${policy.maxRenewals} time(s)`,
+    };
+  }
+
+  const db = await getDatabase();
+  const holdCount = await db
+    .collection<Reservation>('reservations')
+    .countDocuments({
+      bookId: new ObjectId(lending.bookId),
+      status: 'pending',
+    });
+  if (holdCount > 0) {
+    return {
+      code: 'ON_HOLD',
+      message: 'Other borrowers are waiting for this book',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Computes the due date after a renewal. The period is added to the current
+ * due date, or to today for a loan renewed inside its overdue grace period.
+ */
+export function getRenewedDueDate(
+  dueDate: Date,
+  policy: RenewalPolicy = DEFAULT_RENEWAL_POLICY
+) {
+  const base = Math.max(new Date(dueDate).getTime(), Date.now());
+  return new Date(base + policy.periodDays * DAY_MS);
+}
@@ -0,0 +1,42 @@
+/** @format */
+
+import { expireReservations } from './reservations';
+
+export async function checkExpiredReservations() {
+  try {
+    const expiredCount = await expireReservations();
+    console.log(`Expired ${expiredCount} reservations past their pickup date`);
+  } catch (error) {
+    console.error('❌ Error in reservation service:', error);
+  }
+}
+
+let reservationInterval: NodeJS.Timeout | null = null;
+
+export function startReservationService() {
+  if (reservationInterval) {
+    console.log('Reservation service is already running');
+    return;
+  }
+
+  console.log('🚀 Starting reservation service...');
+
+  // Run immediately on start
+  checkExpiredReservations();
+
+  // Then run every hour
+  reservationInterval = setInterval(() => {
+    console.log('🔄 Running scheduled reservation expiry check...');
+    checkExpiredReservations();
+  }, 60 * 60 * 1000);
+
+  console.log('✅ Reservation service started - checking every hour');
+}
+
+export function stopReservationService() {
+  if (reservationInterval) {
+    clearInterval(reservationInterval);
+    reservationInterval = null;
+    console.log('🛑 Reservation service stopped');
+  }
+}
@@ -0,0 +1,249 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import type { Book, Borrower, LendingRecord, Reservation } from '@/lib/models';
+import { createNotification, findUserForBorrower } from '@/lib/notifications';
+import { sendEmail, emailTemplates } from '@/lib/email';
+import { syncCopyCounts } from '@/lib/copies';
+
+// Statuses of holds that still occupy a place in a book's queue
+export const ACTIVE_RESERVATION_STATUSES: Reservation['status'][] = [
+  'pending',
+  'ready',
+];
+
+// Number of days a returned copy is set aside for the borrower at the head of the queue
+export const RESERVATION_PICKUP_DAYS = Number.parseInt(
+  process.env.RESERVATION_PICKUP_DAYS || '3'
+);
+
+const toObjectId = (id: string | ObjectId) =>
+  typeof id === 'string' ? new ObjectId(id) : id;
+
+/**
+ * Returns the 1-based position of a pending hold in its book's queue.
+ * Holds that are ready for pickup are at position 0.
+ */
+export async function getQueuePosition(reservation: Reservation) {
+  if (reservation.status === 'ready') {
+    return 0;
+  }
+
+  const db = await getDatabase();
+  const ahead = await db
+    .collection<Reservation>('reservations')
+    .countDocuments({
+      bookId: toObjectId(reservation.bookId),
+      status: 'pending',
+      createdAt: { $lt: reservation.createdAt },
+    });
+  return ahead + 1;
+}
+
+/**
+ * Counts the pending holds for each of the given books.
+ * @returns A map from the book's ID string to its queue length.
+ */
+export async function getHoldCounts(bookIds: (string | ObjectId)[]) {
+  const db = await getDatabase();
+  const counts = await db
+    .collection<Reservation>('reservations')
+    .aggregate<{ _id: ObjectId; count: number }>([
+      {
+        $match: {
+          bookId: { $in: bookIds.map(toObjectId) },
+          status: 'pending',
+        },
+      },
+      { $group: { _id: '$bookId', count: { $sum: 1 } } },
+    ])
+    .toArray();
+
+  return Object.fromEntries(
+    counts.map((c) => [c._id.toString(), c.count])
+  ) as Record<string, number>;
+}
+
+/**
+ * Tells a borrower that the copy they reserved is waiting for them. Borrowers
+ * with a matching user account get an in-app notification, everyone else is
+ * emailed directly.
+ */
+async function notifyReservationReady(reservation: Reservation) {
+  const db = await getDatabase();
+  const book = await db
+    .collection<Book>('books')
+    .findOne({ _id: toObjectId(reservation.bookId) });
+  const borrower = await db
+    .collection<Borrower>('borrowers')
+    .findOne({ _id: toObjectId(reservation.borrowerId) });
+
+  if (!book || !borrower?.email) {
+    console.warn(
+      `⚠️ Cannot notify borrower for reservation ${reservation._id}`
+    );
+    return;
+  }
+
+  const user = await findUserForBorrower(borrower);
+  if (user?._id) {
+    const pickupBy = reservation.pickupBy?.toLocaleDateString();
+    await createNotification(
+      user._id,
+      `"${book.title}" is ready for pickup. Please collect it by ${pickupBy}.`,
+      'book_available',
+      undefined,
+      book._id
+    );
+    return;
+  }
+
+  const { subject, html } = emailTemplates.bookAvailableNotification({
+    borrowerName: borrower.name,
+    borrowerEmail: borrower.email,
+    bookTitle: book.title,
+    author: book.author,
+    pickupBy: reservation.pickupBy || new Date(),
+  });
+  await sendEmail({ to: borrower.email, subject, html });
+}
+
+/**
+ * Promotes the oldest pending hold on a book to 'ready', setting a returned
+ * copy aside for the pickup window and notifying the borrower.
+ * @returns The promoted reservation, or null when nobody is waiting.
+ */
+export async function promoteNextReservation(bookId: string | ObjectId) {
+  const db = await getDatabase();
+  const now = new Date();
+  const pickupBy = new Date(
+    now.getTime() + RESERVATION_PICKUP_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const reservation = await db
+    .collection<Reservation>('reservations')
+    .findOneAndUpdate(
+      { bookId: toObjectId(bookId), status: 'pending' },
+      { $set: { status: 'ready', readyAt: now, pickupBy, updatedAt: now } },
+      { sort: { createdAt: 1 }, returnDocument: 'after' }
+    );
+
+  if (!reservation) {
+    return null;
+  }
+
+  try {
+    await notifyReservationReady(reservation);
+  } catch (error) {
+    console.error(
+      `❌ Failed to notify borrower for reservation ${reservation._id}:`,
+      error
+    );
+  }
+
+  return reservation;
+}
+
+/**
+ * Gives a copy that was set aside for a hold to the next borrower in the
+ * queue, or makes it available again when the queue is empty.
+ */
+export async function releaseHeldCopy(bookId: string | ObjectId) {
+  const promoted = await promoteNextReservation(bookId);
+  await syncCopyCounts(bookId);
+  return promoted;
+}
+
+/**
+ * Expires ready holds whose pickup window has passed and releases their
+ * copies.
+ * @returns The number of holds that were expired.
+ */
+export async function expireReservations() {
+  const db = await getDatabase();
+  let expiredCount = 0;
+
+  while (true) {
+    const now = new Date();
+    const expired = await db
+      .collection<Reservation>('reservations')
+      .findOneAndUpdate(
+        { status: 'ready', pickupBy: { $lt: now } },
+        { $set: { status: 'expired', expiredAt: now, updatedAt: now } },
+        { sort: { pickupBy: 1 } }
+      );
+
+    if (!expired) {
+      break;
+    }
+
+    expiredCount++;
+    console.log(`⌛ Reservation ${expired._id} expired without pickup`);
+    await releaseHeldCopy(expired.bookId);
+  }
+
+  return expiredCount;
+}
+
+/**
+ * Checks whether a borrower may place a hold on a book: they must not hold
+ * it already or have it on loan.
+ * @returns The reason the hold is refused, or null when it is allowed.
+ */
+export async function findHoldConflict(
+  bookId: string | ObjectId,
+  borrowerId: string | ObjectId
+) {
+  const db = await getDatabase();
+  const existingHold = await db
+    .collection<Reservation>('reservations')
+    .findOne({
+      bookId: toObjectId(bookId),
+      borrowerId: toObjectId(borrowerId),
+      status: { $in: ACTIVE_RESERVATION_STATUSES },
+    });
+  if (existingHold) {
+    return 'Borrower already has a hold on this book';
+  }
+
+  const activeLoan = await db.collection<LendingRecord>('lendings').findOne({
+    bookId: toObjectId(bookId),
+    borrowerId: toObjectId(borrowerId),
+    status: { $in: ['borrowed', 'overdue'] },
+  });
+  if (activeLoan) {
+    return 'Borrower already has this book on loan';
+  }
+
+  return null;
+}
+
+/**
+ * Cancels an active hold, limited to one borrower's holds when a borrower is
+ * given. A copy set aside for the hold goes to the next borrower in line.
+ * @returns The hold as it was before cancelling, or null when no active hold
+ * matched.
+ */
+export async function cancelReservation(
+  id: string | ObjectId,
+  borrowerId?: string | ObjectId
+) {
+  const db = await getDatabase();
+  const now = new Date();
+  const cancelled = await db
+    .collection<Reservation>('reservations')
+    .findOneAndUpdate(
+      {
+        _id: toObjectId(id),
+        status: { $in: ACTIVE_RESERVATION_STATUSES },
+        ...(borrowerId && { borrowerId: toObjectId(borrowerId) }),
+      },
+      { $set: { status: 'cancelled', cancelledAt: now, updatedAt: now } }
+    );
+
+  if (cancelled?.status === 'ready') {
+    await releaseHeldCopy(cancelled.bookId);
+  }
+  return cancelled;
+}
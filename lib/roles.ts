@@ -0,0 +1,86 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import type { Role, User } from '@/lib/models';
+import {
+  DEFAULT_ROLE,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  SUPER_ADMIN_ROLE,
+} from '@/lib/auth';
+
+export const ALL_PERMISSIONS: string[] = Object.values(PERMISSIONS);
+
+let seeded: Promise<void> | null = null;
+
+/**
+ * Inserts the built-in roles on first use. Roles that already exist keep the
+ * permissions Admins have given them.
+ */
+export function ensureBuiltInRoles() {
+  seeded ??= (async () => {
+    const db = await getDatabase();
+    const now = new Date();
+    await db.collection<Role>('roles').bulkWrite(
+      Object.entries(ROLE_PERMISSIONS).map(([name, permissions]) => ({
+        updateOne: {
+          filter: { name },
+          update: {
+            $setOnInsert: {
+              name,
+              permissions,
+              builtIn: true,
+              createdAt: now,
+              updatedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      }))
+    );
+  })().catch((error) => {
+    seeded = null;
+    throw error;
+  });
+
+  return seeded;
+}
+
+export async function getRoles() {
+  await ensureBuiltInRoles();
+  const db = await getDatabase();
+  return db.collection<Role>('roles').find().sort({ name: 1 }).toArray();
+}
+
+export async function getRoleByName(name: string) {
+  await ensureBuiltInRoles();
+  const db = await getDatabase();
+  return db.collection<Role>('roles').findOne({ name });
+}
+
+/**
+ * Permissions granted by a role. Super Admin always has every permission so
+ * it can never be locked out, and users whose role has been removed fall
+ * back to the default role.
+ */
+export async function getRolePermissions(name?: string): Promise<string[]> {
+  if (name === SUPER_ADMIN_ROLE) return ALL_PERMISSIONS;
+
+  const role =
+    (name && (await getRoleByName(name))) ||
+    (await getRoleByName(DEFAULT_ROLE));
+  return role?.permissions ?? ROLE_PERMISSIONS[DEFAULT_ROLE];
+}
+
+/**
+ * Everything a user may do: their role's permissions plus any granted to
+ * them individually. Sessions, API routes and the UI all use this.
+ */
+export async function resolvePermissions(
+  user: Pick<User, 'role' | 'permissions'>
+) {
+  const rolePermissions = await getRolePermissions(user.role);
+  return Array.from(
+    new Set<string>([...rolePermissions, ...(user.permissions || [])])
+  );
+}
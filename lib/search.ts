@@ -0,0 +1,421 @@
+/** @format */
+
+import type { Db, Document, Filter, WithId } from 'mongodb';
+import type { Book, BookCitation } from '@/lib/models';
+import { normalizeIsbn } from '@/lib/marc';
+import {
+  citationScore,
+  getCitationFilter,
+  parseCitation,
+} from '@/lib/citations';
+
+// Catalogue search on a MongoDB text index. The index stems English words
+// and ranks by weighted field; misspelt words are corrected against the
+// words in the catalogue before searching. A query holding a law report
+// citation looks up the cited volume or case instead.
+
+export const BOOK_SEARCH_INDEX = 'book_search';
+export const BOOK_CITATION_INDEX = 'book_citation';
+
+// Relative weight of a match in each field when ranking
+const SEARCH_WEIGHTS = {
+  title: 10,
+  bookId: 8,
+  isbn: 8,
+  author: 6,
+  keywords: 4,
+};
+
+// How long the words used for spelling correction are reused
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+
+// Words the text index ignores, so they are neither corrected nor highlighted
+const STOP_WORDS = new Set<string>([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'by',
+  'for',
+  'from',
+  'in',
+  'into',
+  'is',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+]);
+
+const FACET_LIMIT = 10;
+
+export type BookFacet = 'category' | 'author' | 'availability' | 'shelf';
+
+export interface BookSearchFilters {
+  category?: string[];
+  author?: string[];
+  availability?: ('available' | 'unavailable')[];
+  shelf?: string[];
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// How a search query selects and ranks books
+export interface BookSearchMatch {
+  filter: Filter<Book>;
+  score: Document; // Aggregation expression, higher is better
+  terms: string[];
+  correctedQuery?: string;
+  citation?: BookCitation;
+}
+
+export interface BookSearchResult {
+  books: (WithId<Book> & { score?: number })[];
+  total: number;
+  facets: Record<BookFacet, FacetCount[]>;
+  terms: string[]; // Stems of the searched words, for highlighting
+  correctedQuery?: string; // Set when misspelt words were replaced
+  citation?: BookCitation; // Set when the query was looked up as a citation
+}
+
+let indexPromise: Promise<void> | null = null;
+let vocabulary: { words: Map<string, number>; loadedAt: number } | null = null;
+
+/**
+ * Creates the indexes the search needs: the citation index, and the
+ * weighted text index, replacing any older text index since a collection
+ * can only have one.
+ */
+export function ensureBookSearchIndex(db: Db) {
+  if (!indexPromise) {
+    indexPromise = (async () => {
+      const collection = db.collection<Book>('books');
+      await collection.createIndex(
+        { 'citation.series': 1, 'citation.part': 1, 'citation.year': 1 },
+        { name: BOOK_CITATION_INDEX, sparse: true }
+      );
+
+      const indexes = await collection.indexes();
+      if (indexes.some((index) => index.name === BOOK_SEARCH_INDEX)) return;
+
+      for (const index of indexes) {
+        if (index.name && Object.values(index.key).includes('text')) {
+          await collection.dropIndex(index.name);
+        }
+      }
+      await collection.createIndex(
+        {
+          title: 'text',
+          author: 'text',
+          keywords: 'text',
+          isbn: 'text',
+          bookId: 'text',
+        },
+        {
+          name: BOOK_SEARCH_INDEX,
+          weights: SEARCH_WEIGHTS,
+          default_language: 'english',
+        }
+      );
+    })().catch((error) => {
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+}
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^0-9a-z\u00c0-\u024f]+/)
+    .filter(Boolean);
+
+async function getVocabulary(db: Db) {
+  if (vocabulary && Date.now() - vocabulary.loadedAt < VOCABULARY_TTL_MS) {
+    return vocabulary.words;
+  }
+
+  const words = new Map<string, number>();
+  const books = await db
+    .collection<Book>('books')
+    .find({}, { projection: { title: 1, author: 1, keywords: 1 } })
+    .toArray();
+  for (const book of books) {
+    const text = [book.title, book.author, ...(book.keywords || [])].join(' ');
+    for (const word of tokenize(text)) {
+      words.set(word, (words.get(word) || 0) + 1);
+    }
+  }
+
+  vocabulary = { words, loadedAt: Date.now() };
+  return words;
+}
+
+// Edit distance between two words, giving up once it exceeds the limit
+function editDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Replaces words that appear nowhere in the catalogue with the closest word
+ * that does: one edit away for short words, two for longer ones. Ties go to
+ * the more common word.
+ */
+function correctSpelling(
+  words: string[],
+  vocabularyWords: Map<string, number>
+) {
+  return words.map((word) => {
+    if (
+      word.length < 4 ||
+      /\d/.test(word) ||
+      STOP_WORDS.has(word) ||
+      vocabularyWords.has(word)
+    ) {
+      return word;
+    }
+
+    const limit = word.length >= 8 ? 2 : 1;
+    let best = { word, distance: limit + 1, count: 0 };
+    vocabularyWords.forEach((count, candidate) => {
+      const distance = editDistance(word, candidate, limit);
+      if (
+        distance < best.distance ||
+        (distance === best.distance && count > best.count)
+      ) {
+        best = { word: candidate, distance, count };
+      }
+    });
+    return best.distance <= limit ? best.word : word;
+  });
+}
+
+// Rough English stem, enough to highlight "contracts" for "contract"
+const stem = (word: string) =>
+  word.length > 5
+    ? word.replace(/(ing|ed|es|s)$/, '')
+    : word.length > 3
+    ? word.replace(/s$/, '')
+    : word;
+
+/**
+ * The filter matching books for a search query, and the score ranking them.
+ * A citation matching any book finds just the books it cites, the closest
+ * first. Otherwise it is the text index, plus books whose book ID or ISBN
+ * is exactly the query.
+ */
+export async function getBookSearchFilter(
+  db: Db,
+  query: string
+): Promise<BookSearchMatch> {
+  await ensureBookSearchIndex(db);
+
+  const citation = parseCitation(query);
+  if (citation) {
+    const filter = getCitationFilter(citation);
+    if (await db.collection<Book>('books').findOne(filter)) {
+      return { filter, score: citationScore(citation), terms: [], citation };
+    }
+  }
+
+  const words = tokenize(query);
+  const corrected = correctSpelling(words, await getVocabulary(db));
+  const correctedQuery = corrected.some((word, i) => word !== words[i])
+    ? corrected.join(' ')
+    : undefined;
+
+  // A single identifier-like term may be a book ID or a hyphenated ISBN,
+  // which the text index splits into separate words
+  let exactIds: WithId<Book>['_id'][] = [];
+  const term = query.trim();
+  if (/^[\w-]+$/.test(term) && /\d/.test(term)) {
+    const isbn = normalizeIsbn(term);
+    const exact = await db
+      .collection<Book>('books')
+      .find(
+        {
+          $or: [
+            { bookId: term },
+            ...(isbn
+              ? [
+                  {
+                    isbn: {
+                      $regex: `^${Array.from(isbn).join('[-\\s]?')}$`,
+                      $options: 'i',
+                    },
+                  },
+                ]
+              : []),
+          ],
+        },
+        { projection: { _id: 1 } }
+      )
+      .toArray();
+    exactIds = exact.map((book) => book._id);
+  }
+
+  const text: Filter<Book> = { $text: { $search: correctedQuery ?? query } };
+  const filter: Filter<Book> =
+    exactIds.length > 0 ? { $or: [text, { _id: { $in: exactIds } }] } : text;
+
+  return {
+    filter,
+    // Exact book ID and ISBN matches rank above any text match
+    score: {
+      $add: [
+        { $meta: 'textScore' },
+        { $cond: [{ $in: ['$_id', exactIds] }, 1000, 0] },
+      ],
+    },
+    terms: Array.from(
+      new Set<string>(
+        corrected
+          .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+          .map(stem)
+      )
+    ),
+    correctedQuery,
+  };
+}
+
+// The conditions each facet's selected values add to the search
+function facetConditions(filters: BookSearchFilters) {
+  const conditions: Partial<Record<BookFacet, Document>> = {};
+  if (filters.category?.length) {
+    conditions.category = { category: { $in: filters.category } };
+  }
+  if (filters.author?.length) {
+    conditions.author = { author: { $in: filters.author } };
+  }
+  if (filters.availability?.length === 1) {
+    conditions.availability =
+      filters.availability[0] === 'available'
+        ? { availableCopies: { $gt: 0 } }
+        : { availableCopies: { $lte: 0 } };
+  }
+  if (filters.shelf?.length) {
+    conditions.shelf = { shelfLocation: { $in: filters.shelf } };
+  }
+  return conditions;
+}
+
+const FACET_GROUPS: Record<BookFacet, unknown> = {
+  category: '$category',
+  author: '$author',
+  availability: {
+    $cond: [{ $gt: ['$availableCopies', 0] }, 'available', 'unavailable'],
+  },
+  shelf: '$shelfLocation',
+};
+
+/**
+ * Searches the catalogue, best matches first, with counts for each facet.
+ * A facet's counts ignore its own selection so that other values can still
+ * be added to it.
+ */
+export async function searchBooks(
+  db: Db,
+  {
+    query = '',
+    filters = {},
+    page = 1,
+    limit = 10,
+  }: {
+    query?: string;
+    filters?: BookSearchFilters;
+    page?: number;
+    limit?: number;
+  }
+): Promise<BookSearchResult> {
+  const ranked = !!query.trim();
+  const search: BookSearchMatch = ranked
+    ? await getBookSearchFilter(db, query)
+    : { filter: {}, score: {}, terms: [] };
+
+  const conditions = facetConditions(filters);
+  const matching = (except?: BookFacet) => ({
+    $match: Object.assign(
+      {},
+      ...(Object.entries(conditions) as [BookFacet, Document][])
+        .filter(([facet]) => facet !== except)
+        .map(([, condition]) => condition)
+    ),
+  });
+
+  const facetPipelines = Object.fromEntries(
+    (Object.keys(FACET_GROUPS) as BookFacet[]).map((facet) => [
+      facet,
+      [
+        matching(facet),
+        { $group: { _id: FACET_GROUPS[facet], count: { $sum: 1 } } },
+        { $match: { _id: { $nin: [null, ''] } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: FACET_LIMIT },
+      ],
+    ])
+  );
+
+  const [result] = await db
+    .collection<Book>('books')
+    .aggregate([
+      { $match: search.filter },
+      ...(ranked ? [{ $addFields: { score: search.score } }] : []),
+      {
+        $facet: {
+          books: [
+            matching(),
+            { $sort: ranked ? { score: -1, title: 1 } : { title: 1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+          ],
+          total: [matching(), { $count: 'count' }],
+          ...facetPipelines,
+        },
+      },
+    ])
+    .toArray();
+
+  const facets = Object.fromEntries(
+    (Object.keys(FACET_GROUPS) as BookFacet[]).map((facet) => [
+      facet,
+      (result[facet] as { _id: string; count: number }[]).map((entry) => ({
+        value: entry._id,
+        count: entry.count,
+      })),
+    ])
+  ) as Record<BookFacet, FacetCount[]>;
+
+  return {
+    books: result.books,
+    total: result.total[0]?.count || 0,
+    facets,
+    terms: search.terms,
+    correctedQuery: search.correctedQuery,
+    citation: search.citation,
+  };
+}
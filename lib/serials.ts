@@ -0,0 +1,322 @@
+/** @format */
+
+import { getDatabase } from '@/lib/mongodb';
+import type { ObjectId, WithId } from 'mongodb';
+import type {
+  Book,
+  BookCopy,
+  Serial,
+  SerialFrequency,
+  SerialIssue,
+} from '@/lib/models';
+import { addCopies } from '@/lib/copies';
+import { addMonths } from '@/lib/reminders';
+
+export const SERIAL_CATEGORIES: Serial['category'][] = [
+  'Journal',
+  'Law Report',
+];
+
+export const SERIAL_FREQUENCIES: SerialFrequency[] = [
+  'weekly',
+  'fortnightly',
+  'monthly',
+  'bimonthly',
+  'quarterly',
+  'semiannual',
+  'annual',
+  'irregular',
+];
+
+// Time between parts, in days or months
+const FREQUENCY_INTERVALS: Record<
+  Exclude<SerialFrequency, 'irregular'>,
+  { days?: number; months?: number }
+> = {
+  weekly: { days: 7 },
+  fortnightly: { days: 14 },
+  monthly: { months: 1 },
+  bimonthly: { months: 2 },
+  quarterly: { months: 3 },
+  semiannual: { months: 6 },
+  annual: { months: 12 },
+};
+
+// Upper bound on the parts scheduled at once, for serials long left unchecked
+const MAX_SCHEDULED_ISSUES = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// expected parts are late once past their grace period, and missing once a
+// later part has arrived
+export type IssueState = SerialIssue['status'] | 'late' | 'missing';
+
+const partPrefix = (serial: Serial) =>
+  serial.category === 'Law Report' ? 'Pt.' : 'No.';
+
+/**
+ * How a part is referred to, e.g. "Vol. 8, Pt. 1675" or "No. 3".
+ */
+export const getIssueLabel = (
+  serial: Serial,
+  issue: Pick<SerialIssue, 'volume' | 'part'>
+) =>
+  [
+    issue.volume != null && `Vol. ${issue.volume}`,
+    `${partPrefix(serial)} ${issue.part}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * The book ID a part is catalogued under. Parts numbered within each volume
+ * also need the volume to be told apart.
+ */
+export const getIssueBookId = (
+  serial: Serial,
+  issue: Pick<SerialIssue, 'volume' | 'part'>
+) =>
+  serial.restartPartNumbers && issue.volume != null
+    ? `${serial.code}-${issue.volume}-${issue.part}`
+    : `${serial.code}-${issue.part}`;
+
+// Orders parts by volume, then part number
+export const compareIssues = (
+  a: Pick<SerialIssue, 'volume' | 'part'>,
+  b: Pick<SerialIssue, 'volume' | 'part'>
+) => (a.volume ?? 0) - (b.volume ?? 0) || a.part - b.part;
+
+/**
+ * When the part `count` parts after one due on `date` is expected. Months
+ * keep to the last day of shorter months, so a part due on the 31st is next
+ * due on the 30th or 28th rather than early in the month after.
+ */
+export function getNextExpectedDate(
+  date: Date,
+  frequency: SerialFrequency,
+  count = 1
+) {
+  if (frequency === 'irregular') return null;
+
+  const { days, months } = FREQUENCY_INTERVALS[frequency];
+  if (months) return addMonths(date, months * count);
+  return new Date(new Date(date).getTime() + days! * count * DAY_MS);
+}
+
+export function getIssueState(
+  serial: Serial,
+  issue: SerialIssue,
+  latestReceived?: SerialIssue,
+  now = new Date()
+): IssueState {
+  if (issue.status !== 'expected') return issue.status;
+
+  if (latestReceived && compareIssues(issue, latestReceived) < 0) {
+    return 'missing';
+  }
+  if (
+    issue.expectedDate &&
+    new Date(issue.expectedDate).getTime() + serial.graceDays * DAY_MS <
+      now.getTime()
+  ) {
+    return 'late';
+  }
+  return 'expected';
+}
+
+// Consecutive numbers as ranges, e.g. [1, 2, 3, 5] as "1-3, 5"
+function formatRuns(numbers: number[]) {
+  const runs: string[] = [];
+  let start = numbers[0];
+  for (let i = 1; i <= numbers.length; i++) {
+    if (numbers[i] !== numbers[i - 1] + 1) {
+      const end = numbers[i - 1];
+      runs.push(start === end ? String(start) : `${start}-${end}`);
+      start = numbers[i];
+    }
+  }
+  return runs.join(', ');
+}
+
+/**
+ * Each part of a serial in order, with its label and state.
+ */
+export function describeIssues<T extends SerialIssue>(
+  serial: Serial,
+  issues: T[],
+  now = new Date()
+) {
+  const sorted = [...issues].sort(compareIssues);
+  const received = sorted.filter((issue) => issue.status === 'received');
+  const latestReceived = received[received.length - 1];
+
+  return sorted.map((issue) => ({
+    ...issue,
+    label: getIssueLabel(serial, issue),
+    state: getIssueState(serial, issue, latestReceived, now),
+  }));
+}
+
+/**
+ * The holdings statement of a serial, e.g. "Pt. 1650-1675, 1677-1680" or
+ * "Vol. 12 No. 1-4; Vol. 13 No. 1-2", with the parts still outstanding.
+ */
+export function getHoldings(
+  serial: Serial,
+  issues: SerialIssue[],
+  now = new Date()
+) {
+  const described = describeIssues(serial, issues, now);
+
+  const groups: { volume?: number; parts: number[] }[] = [];
+  for (const issue of described) {
+    if (issue.status !== 'received') continue;
+    const volume = serial.restartPartNumbers ? issue.volume : undefined;
+    const group = groups[groups.length - 1];
+    if (group && group.volume === volume) {
+      group.parts.push(issue.part);
+    } else {
+      groups.push({ volume, parts: [issue.part] });
+    }
+  }
+
+  const labelsOf = (state: IssueState) =>
+    described
+      .filter((issue) => issue.state === state)
+      .map((issue) => issue.label);
+  const nextExpected = described.find((issue) => issue.state === 'expected');
+
+  return {
+    statement:
+      groups
+        .map(
+          (group) =>
+            `${group.volume != null ? `Vol. ${group.volume} ` : ''}${partPrefix(
+              serial
+            )} ${formatRuns(group.parts)}`
+        )
+        .join('; ') || 'No parts received',
+    received: described.filter((issue) => issue.status === 'received').length,
+    late: labelsOf('late'),
+    missing: labelsOf('missing'),
+    claimed: labelsOf('claimed'),
+    nextExpected: nextExpected && {
+      label: nextExpected.label,
+      expectedDate: nextExpected.expectedDate,
+    },
+  };
+}
+
+/**
+ * Adds the parts an active serial is next expected to publish, following on
+ * from its latest part until one is due after today. Irregular serials and
+ * serials without a dated part are left alone.
+ * @returns The number of parts added.
+ */
+export async function scheduleIssues(serial: WithId<Serial>) {
+  if (serial.status !== 'active' || serial.frequency === 'irregular') {
+    return 0;
+  }
+
+  const db = await getDatabase();
+  const collection = db.collection<SerialIssue>('serial_issues');
+  const issues = await collection.find({ serialId: serial._id }).toArray();
+  const latest = [...issues].sort(compareIssues).pop();
+  const from = latest?.expectedDate ?? latest?.receivedDate;
+  if (!latest || !from) return 0;
+
+  let { volume, part } = latest;
+  let partsInVolume = issues.filter((issue) => issue.volume === volume).length;
+  const now = new Date();
+  let added = 0;
+
+  // Each date is counted from the latest part's, so short months do not
+  // pull every later part earlier
+  let date = new Date(from);
+  for (let i = 1; date <= now && i <= MAX_SCHEDULED_ISSUES; i++) {
+    date = getNextExpectedDate(from, serial.frequency, i)!;
+    if (
+      volume != null &&
+      serial.issuesPerVolume &&
+      partsInVolume >= serial.issuesPerVolume
+    ) {
+      volume++;
+      partsInVolume = 0;
+      part = serial.restartPartNumbers ? 1 : part + 1;
+    } else {
+      part++;
+    }
+    partsInVolume++;
+
+    const result = await collection.updateOne(
+      {
+        serialId: serial._id,
+        part,
+        volume: volume != null ? volume : { $exists: false },
+      },
+      {
+        $setOnInsert: {
+          serialId: serial._id,
+          ...(volume != null && { volume }),
+          part,
+          year: date.getFullYear(),
+          status: 'expected',
+          expectedDate: date,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+    if (result.upsertedCount > 0) added++;
+  }
+
+  return added;
+}
+
+/**
+ * Catalogues a received part as a book of its own, with its copies on the
+ * shelf, so that it can be lent like any other book. Law report parts are
+ * given their citation.
+ */
+export async function catalogueIssue(
+  serial: WithId<Serial>,
+  issue: Pick<SerialIssue, 'volume' | 'part' | 'year'>,
+  copies: number,
+  details: Partial<Pick<BookCopy, 'condition' | 'acquisitionDate'>> = {}
+): Promise<WithId<Book>> {
+  const db = await getDatabase();
+  const book: Book = {
+    title: `${serial.title}, ${getIssueLabel(serial, issue)} (${issue.year})`,
+    author: serial.publisher || serial.title,
+    category: serial.category,
+    isbn: '',
+    bookId: getIssueBookId(serial, issue),
+    totalCopies: copies,
+    availableCopies: copies,
+    shelfLocation: serial.shelfLocation,
+    keywords: [
+      serial.title,
+      serial.code,
+      ...(serial.issn ? [serial.issn] : []),
+    ],
+    coverImage: '',
+    ...(serial.category === 'Law Report' &&
+      serial.series && {
+        citation: {
+          series: serial.series,
+          year: issue.year,
+          ...(issue.volume != null && { volume: issue.volume }),
+          part: issue.part,
+        },
+      }),
+    serialId: serial._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const result = await db.collection<Book>('books').insertOne(book);
+  const catalogued = { ...book, _id: result.insertedId as ObjectId };
+  await addCopies(catalogued, copies, { condition: 'new', ...details });
+  return catalogued;
+}
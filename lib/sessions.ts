@@ -0,0 +1,35 @@
+/** @format */
+
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import type { User } from '@/lib/models';
+
+// Thrown from the jwt callback, which makes NextAuth clear the session cookie
+export const SESSION_REVOKED = 'SessionRevoked';
+
+export const getSessionVersion = (user: Pick<User, 'sessionVersion'>) =>
+  user.sessionVersion ?? 0;
+
+/**
+ * Whether a session token issued with `tokenVersion` is still valid for
+ * this user. Tokens issued before versions existed count as version 0.
+ */
+export const isSessionCurrent = (
+  user: Pick<User, 'sessionVersion'>,
+  tokenVersion?: number
+) => getSessionVersion(user) === (tokenVersion ?? 0);
+
+/**
+ * Signs the user out everywhere by bumping their session version, so every
+ * session token issued before now stops working on its next request.
+ * API tokens are not affected, they are revoked separately.
+ */
+export async function revokeSessions(userId: ObjectId | string) {
+  const db = await getDatabase();
+  await db
+    .collection<User>('users')
+    .updateOne(
+      { _id: new ObjectId(userId) },
+      { $inc: { sessionVersion: 1 }, $set: { updatedAt: new Date() } }
+    );
+}
@@ -0,0 +1,368 @@
+/** @format */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { decodeXml, encodeXml } from '@/lib/xml';
+
+// Reading and writing the CSV and Excel files used for bulk imports and
+// exports. Only the first worksheet of an .xlsx workbook is read, and cells
+// come back as the text Excel would display for general-format values.
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const SPREADSHEET_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type Cell = string | number | null | undefined;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+// What a workbook may inflate to. Far more than any real import, but a small
+// zip of repeated bytes can otherwise expand to gigabytes.
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+const MAX_INFLATED_SIZE = 100 * 1024 * 1024;
+
+/**
+ * A CSV field, quoted when it holds a delimiter, quote or line break. Text
+ * that a spreadsheet would run as a formula is prefixed with an apostrophe,
+ * so an exported value such as "=cmd|..." is shown rather than evaluated.
+ */
+export function csvCell(value: unknown) {
+  let text = value == null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const toCsv = (rows: Cell[][]) =>
+  rows.map((row) => row.map(csvCell).join(',')).join('\n');
+
+/**
+ * Splits CSV text into rows of fields. The delimiter is whichever of comma,
+ * semicolon or tab the header line uses most, since Excel saves with a
+ * semicolon in locales that use a decimal comma.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const header = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Reads files from a zip archive by path. Only stored and deflated entries
+ * are supported, which is all Excel and LibreOffice write. Entries are only
+ * inflated when read, within MAX_ENTRY_SIZE each and MAX_INFLATED_SIZE in
+ * all.
+ */
+function unzip(data: Buffer) {
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a valid Excel workbook');
+
+  const entries = new Map<string, { method: number; content: Buffer }>();
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('The Excel workbook is damaged');
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (data.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new Error('The Excel workbook is damaged');
+    }
+    const start =
+      localOffset +
+      30 +
+      data.readUInt16LE(localOffset + 26) +
+      data.readUInt16LE(localOffset + 28);
+    const content = data.subarray(start, start + compressedSize);
+
+    if (method === 0 || method === 8) entries.set(name, { method, content });
+  }
+
+  let inflated = 0;
+  return (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) return undefined;
+    if (entry.method === 0) return entry.content;
+
+    const limit = Math.min(MAX_ENTRY_SIZE, MAX_INFLATED_SIZE - inflated);
+    let content: Buffer;
+    try {
+      if (limit <= 0) throw new RangeError('Inflated size limit reached');
+      content = inflateRawSync(entry.content, { maxOutputLength: limit });
+    } catch (error) {
+      throw new Error(
+        error instanceof RangeError
+          ? 'The Excel workbook is too large to read'
+          : 'The Excel workbook is damaged'
+      );
+    }
+    inflated += content.length;
+    return content;
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zip(files: { name: string; content: string }[]) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const content = Buffer.from(file.content, 'utf8');
+    const compressed = deflateRawSync(content);
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(ZIP_LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    local.writeUInt16LE(8, 8); // Deflated
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(ZIP_CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(ZIP_END_OF_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// Column index from a cell reference such as "AB12"
+const columnIndex = (reference: string) =>
+  Array.from(reference.replace(/\d+$/, '')).reduce(
+    (index, letter) => index * 26 + letter.toUpperCase().charCodeAt(0) - 64,
+    0
+  ) - 1;
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') +
+  String.fromCharCode(65 + (index % 26));
+
+// Text of an element, joining the runs of rich text
+const textOf = (xml: string) =>
+  Array.from(xml.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join('');
+
+/**
+ * Reads the rows of the first worksheet of an .xlsx workbook.
+ */
+export function parseXlsx(data: Buffer): string[][] {
+  const readFile = unzip(data);
+  const read = (path: string) => readFile(path)?.toString('utf8');
+
+  // The first sheet listed in the workbook, which need not be sheet1.xml
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const relationId = read('xl/workbook.xml')?.match(
+    /<(?:\w+:)?sheet\s[^>]*r:id="([^"]+)"/
+  )?.[1];
+  const target = relationId
+    ? read('xl/_rels/workbook.xml.rels')
+        ?.match(/<Relationship\s[^>]*>/g)
+        ?.find((relation) => relation.includes(`Id="${relationId}"`))
+        ?.match(/Target="([^"]+)"/)?.[1]
+    : undefined;
+  if (target) {
+    sheetPath = target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target.replace(/^\.\//, '')}`;
+  }
+
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error('The Excel workbook has no worksheet');
+
+  const sharedStrings = Array.from(
+    (read('xl/sharedStrings.xml') ?? '').matchAll(
+      /<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g
+    )
+  ).map((match) => textOf(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(
+    sheet.matchAll(/<(?:\w+:)?row\b[^>]*>([\s\S]*?)<\/(?:\w+:)?row>/g)
+  )) {
+    const row: string[] = [];
+    for (const cell of Array.from(
+      rowMatch[1].matchAll(
+        /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g
+      )
+    )) {
+      const attributes = cell[1];
+      const body = cell[2] ?? '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const value = body.match(/<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+
+      let text = '';
+      if (type === 'inlineStr') text = textOf(body);
+      else if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXml(value);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Builds an .xlsx workbook with a single worksheet. Numbers are written as
+ * numeric cells, everything else as text.
+ */
+export function toXlsx(rows: Cell[][], sheetName = 'Sheet1') {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          if (value == null || value === '') return '';
+          const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+          return typeof value === 'number' && Number.isFinite(value)
+            ? `<c r="${reference}"><v>${value}</v></c>`
+            : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(
+                String(value)
+              )}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${encodeXml(
+        sheetName.slice(0, 31)
+      )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+}
+
+/**
+ * Reads the rows of an uploaded CSV or .xlsx file. Workbooks are recognised
+ * by their zip signature rather than the file name.
+ */
+export function parseSpreadsheet(data: Buffer): string[][] {
+  return data.length >= 4 && data.readUInt32LE(0) === ZIP_LOCAL_HEADER
+    ? parseXlsx(data)
+    : parseCsv(data.toString('utf8'));
+}
@@ -0,0 +1,343 @@
+/** @format */
+
+import type { NextRequest } from 'next/server';
+import type { Account, Profile, User as SessionUser } from 'next-auth';
+import type { OAuthConfig } from 'next-auth/providers/oauth';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import type { User } from '@/lib/models';
+import {
+  DEFAULT_ROLE,
+  SSO_ACCOUNT_INACTIVE,
+  SSO_ACCOUNT_LOCKED,
+  SSO_ACCOUNT_MISMATCH,
+  SSO_EMAIL_MISSING,
+  SSO_EMAIL_UNVERIFIED,
+  SSO_NO_ACCOUNT,
+  SSO_THROTTLED,
+} from '@/lib/auth';
+import { getRoleByName, resolvePermissions } from '@/lib/roles';
+import {
+  checkSignInThrottle,
+  getRequestInfo,
+  recordSignInFailure,
+  recordSignInSuccess,
+} from '@/lib/login-attempts';
+import { getSessionVersion, revokeSessions } from '@/lib/sessions';
+import { linkBorrowerByEmail } from '@/lib/my-library';
+import { recordAudit } from '@/lib/audit';
+
+/*
+ * Single sign-on through an OpenID Connect identity provider, enabled when
+ * OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET are set:
+ *
+ *   OIDC_ISSUER          Issuer URL, discovered through its
+ *                        /.well-known/openid-configuration. Plain http is
+ *                        accepted, so a local mock issuer works for testing.
+ *   OIDC_DISPLAY_NAME    Button label on the sign-in page
+ *   OIDC_SCOPE           Defaults to "openid email profile"
+ *   OIDC_GROUPS_CLAIM    Claim listing the user's groups, a dotted path such
+ *                        as "realm_access.roles" reaches nested claims
+ *   OIDC_ROLE_MAPPINGS   "group=Role" pairs separated by commas, the first
+ *                        group the user is in decides their role
+ *   OIDC_DEFAULT_ROLE    Role for users in none of the mapped groups
+ *   OIDC_AUTO_PROVISION  "false" to only let existing accounts sign in
+ *
+ * The redirect URI to register with the provider is
+ * {NEXTAUTH_URL}/api/auth/callback/oidc. To try SSO locally without a
+ * provider, `npm run mock-oidc` starts a mock issuer with test users; its
+ * header in scripts/mock-oidc-issuer.js lists the settings to use.
+ */
+
+export const OIDC_PROVIDER_ID = 'oidc';
+
+export interface RoleMapping {
+  group: string;
+  role: string;
+}
+
+export interface SsoSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  displayName: string;
+  scope: string;
+  groupsClaim: string;
+  roleMappings: RoleMapping[];
+  defaultRole: string;
+  autoProvision: boolean;
+}
+
+interface OidcProfile extends Profile {
+  sub: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+export function parseRoleMappings(value?: string): RoleMapping[] {
+  return (value || '')
+    .split(',')
+    .map((pair) => {
+      const separator = pair.lastIndexOf('=');
+      return {
+        group: pair.slice(0, separator).trim(),
+        role: pair.slice(separator + 1).trim(),
+      };
+    })
+    .filter(({ group, role }) => group && role);
+}
+
+/**
+ * Reads the OIDC settings from the environment, or null when single sign-on
+ * is not configured.
+ */
+export function getSsoSettings(): SsoSettings | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (!issuer || !clientId || !clientSecret) return null;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    displayName: process.env.OIDC_DISPLAY_NAME || 'Single Sign-On',
+    scope: process.env.OIDC_SCOPE || 'openid email profile',
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+    roleMappings: parseRoleMappings(process.env.OIDC_ROLE_MAPPINGS),
+    defaultRole: process.env.OIDC_DEFAULT_ROLE || DEFAULT_ROLE,
+    autoProvision: process.env.OIDC_AUTO_PROVISION !== 'false',
+  };
+}
+
+/**
+ * The NextAuth provider for the configured issuer. Users are matched and
+ * provisioned in `handleSsoSignIn`, so the profile only carries the claims.
+ */
+export function OidcProvider(settings: SsoSettings): OAuthConfig<OidcProfile> {
+  return {
+    id: OIDC_PROVIDER_ID,
+    name: settings.displayName,
+    type: 'oauth',
+    wellKnown: `${settings.issuer}/.well-known/openid-configuration`,
+    issuer: settings.issuer,
+    clientId: settings.clientId,
+    clientSecret: settings.clientSecret,
+    authorization: { params: { scope: settings.scope } },
+    idToken: true,
+    checks: ['pkce', 'state'],
+    profile(profile) {
+      return {
+        id: profile.sub,
+        name: profile.name || profile.preferred_username || profile.email,
+        email: profile.email?.toLowerCase(),
+        image: null,
+        role: settings.defaultRole,
+        permissions: [],
+      };
+    },
+  };
+}
+
+/**
+ * Group names from the configured claim, which providers send either as an
+ * array or as a single string.
+ */
+export function getGroups(profile: Record<string, unknown>, claim: string) {
+  const value = claim
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      profile
+    );
+  if (Array.isArray(value)) return value.map(String);
+  return typeof value === 'string' ? [value] : [];
+}
+
+/**
+ * The role the user's groups map to, or null when no mappings are
+ * configured and roles are managed in the app instead.
+ */
+export async function getRoleFromGroups(
+  groups: string[],
+  settings: SsoSettings
+) {
+  if (settings.roleMappings.length === 0) return null;
+
+  const mapping = settings.roleMappings.find(({ group }) =>
+    groups.includes(group)
+  );
+  const role = mapping?.role ?? settings.defaultRole;
+  if (await getRoleByName(role)) return role;
+
+  console.error(`SSO role mapping names unknown role "${role}"`);
+  return DEFAULT_ROLE;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the account for an SSO sign-in, by the provider's subject once the
+ * account has signed in with SSO before and by email the first time.
+ */
+async function findSsoUser(subject: string, email: string) {
+  const users = (await getDatabase()).collection<User>('users');
+  return (
+    (await users.findOne({ oidcSubject: subject })) ||
+    (await users.findOne({
+      email: { $regex: `^${escapeRegExp(email)}$`, $options: 'i' },
+    }))
+  );
+}
+
+/**
+ * NextAuth `signIn` callback for SSO. Matches the identity to an account,
+ * provisioning one on first sign-in, applies the role its groups map to,
+ * and fills in the session user. Returns the sign-in page with an error
+ * code when the sign-in is refused.
+ */
+export async function handleSsoSignIn(
+  request: NextRequest,
+  {
+    user: sessionUser,
+    account,
+    profile,
+  }: { user: SessionUser; account: Account | null; profile?: Profile }
+): Promise<true | string> {
+  const settings = getSsoSettings();
+  if (account?.provider !== OIDC_PROVIDER_ID || !settings || !profile) {
+    return true;
+  }
+  const claims = profile as OidcProfile;
+  const refuse = (error: string) => `/auth/signin?error=${error}`;
+  const requestInfo = getRequestInfo(request.headers, request.ip);
+
+  const email = sessionUser.email;
+  if (!email || claims.email_verified === false) {
+    return refuse(SSO_EMAIL_MISSING);
+  }
+  // Providers that leave the claim out have not vouched for the email
+  const emailVerified = claims.email_verified === true;
+
+  const db = await getDatabase();
+  const users = db.collection<User>('users');
+  const role = await getRoleFromGroups(
+    getGroups(claims, settings.groupsClaim),
+    settings
+  );
+  let user = await findSsoUser(claims.sub, email);
+
+  // The provider's own checks do not lift the app's lockout
+  const throttle = await checkSignInThrottle(
+    user?.email || email,
+    requestInfo.ip
+  );
+  if (!throttle.allowed) {
+    await recordSignInFailure(
+      email,
+      user,
+      throttle.locked ? 'locked' : 'throttled',
+      requestInfo
+    );
+    return refuse(throttle.locked ? SSO_ACCOUNT_LOCKED : SSO_THROTTLED);
+  }
+
+  if (!user) {
+    if (!settings.autoProvision) {
+      await recordSignInFailure(email, null, 'unknown_user', requestInfo);
+      return refuse(SSO_NO_ACCOUNT);
+    }
+
+    const now = new Date();
+    const newUser: User = {
+      name: sessionUser.name || email,
+      email,
+      role: role ?? settings.defaultRole,
+      permissions: [],
+      status: 'active',
+      oidcSubject: claims.sub,
+      ...(emailVerified && { emailVerifiedAt: now }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await users.insertOne(newUser);
+    user = { ...newUser, _id: result.insertedId };
+
+    await recordAudit(request, {
+      action: 'PROVISION_USER',
+      targetType: 'user',
+      targetId: result.insertedId,
+      after: newUser,
+      details: { provider: OIDC_PROVIDER_ID, issuer: settings.issuer },
+      actor: user,
+    });
+  } else {
+    // An email reassigned at the provider must not take over the account
+    if (user.oidcSubject && user.oidcSubject !== claims.sub) {
+      await recordSignInFailure(email, user, 'unknown_user', requestInfo);
+      return refuse(SSO_ACCOUNT_MISMATCH);
+    }
+    // Taking over an account by its email needs the provider to vouch for
+    // it, or anyone with an identity under that email could sign in as it
+    if (!user.oidcSubject && !emailVerified) {
+      await recordSignInFailure(email, null, 'unknown_user', requestInfo);
+      return refuse(SSO_EMAIL_UNVERIFIED);
+    }
+    if (user.status === 'inactive') {
+      await recordSignInFailure(email, user, 'inactive', requestInfo);
+      return refuse(SSO_ACCOUNT_INACTIVE);
+    }
+
+    const changes: Partial<User> = {};
+    if (!user.oidcSubject) changes.oidcSubject = claims.sub;
+    if (role && role !== user.role) changes.role = role;
+    if (
+      emailVerified &&
+      !user.emailVerifiedAt &&
+      user.email?.toLowerCase() === email.toLowerCase()
+    ) {
+      changes.emailVerifiedAt = new Date();
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await users.updateOne(
+        { _id: new ObjectId(user._id) },
+        { $set: { ...changes, updatedAt: new Date() } }
+      );
+      // Sessions opened under the old role must not keep its access
+      if (changes.role) await revokeSessions(user._id!);
+
+      const before = user;
+      user = (await users.findOne({ _id: new ObjectId(user._id) }))!;
+      await recordAudit(request, {
+        action: 'SSO_UPDATE_USER',
+        targetType: 'user',
+        targetId: user._id,
+        before,
+        after: user,
+        details: { provider: OIDC_PROVIDER_ID, issuer: settings.issuer },
+        actor: user,
+      });
+    }
+  }
+
+  await recordSignInSuccess(user, requestInfo);
+  await linkBorrowerByEmail(user);
+
+  // The provider handles its own second factor, so the app's isn't asked for
+  Object.assign(sessionUser, {
+    id: user._id!.toString(),
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    permissions: await resolvePermissions(user),
+    twoFactorSetupRequired: false,
+    sessionVersion: getSessionVersion(user),
+  });
+  return true;
+}
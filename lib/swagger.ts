@@ -17,6 +17,8 @@ export const getApiDocs = async () => {
             type: 'http',
             scheme: 'bearer',
             bearerFormat: 'JWT',
+            description:
+              'A NextAuth session JWT, or a personal access token (lms_...) created on your profile page',
           },
         },
         schemas: {
@@ -31,6 +33,12 @@ export const getApiDocs = async () => {
                 enum: ['User', 'Librarian', 'Admin', 'Super Admin'],
               },
               permissions: { type: 'array', items: { type: 'string' } },
+              borrowerId: {
+                type: 'string',
+                format: 'objectId',
+                nullable: true,
+                description: 'Borrower record shown on My Library',
+              },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
             },
@@ -59,6 +67,56 @@ export const getApiDocs = async () => {
               shelfLocation: { type: 'string' },
               keywords: { type: 'array', items: { type: 'string' } },
               coverImage: { type: 'string', format: 'url' },
+              replacementCost: {
+                type: 'number',
+                description: 'Charged when a copy is lost or damaged',
+              },
+              citation: { $ref: '#/components/schemas/BookCitation' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          BookCitation: {
+            type: 'object',
+            description:
+              'Where a Law Report or Case Law item sits in its series, e.g. (2019) 8 NWLR (Pt. 1675) 1',
+            required: ['series'],
+            properties: {
+              series: {
+                type: 'string',
+                description: 'Series abbreviation, e.g. NWLR, SC, All ER, AC',
+              },
+              year: { type: 'integer' },
+              volume: { type: 'integer' },
+              part: { type: 'integer' },
+              page: {
+                type: 'integer',
+                description: 'First page of the case',
+              },
+            },
+          },
+          BookCopy: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              bookId: { type: 'string', format: 'objectId' },
+              barcode: { type: 'string' },
+              condition: {
+                type: 'string',
+                enum: ['new', 'good', 'fair', 'poor', 'damaged'],
+              },
+              status: {
+                type: 'string',
+                enum: [
+                  'on_shelf',
+                  'on_loan',
+                  'missing',
+                  'withdrawn',
+                  'in_repair',
+                ],
+              },
+              acquisitionDate: { type: 'string', format: 'date-time' },
+              notes: { type: 'string' },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
             },
@@ -85,20 +143,298 @@ export const getApiDocs = async () => {
               _id: { type: 'string', format: 'objectId' },
               bookId: { type: 'string', format: 'objectId' },
               borrowerId: { type: 'string', format: 'objectId' },
+              copyId: { type: 'string', format: 'objectId' },
               borrowDate: { type: 'string', format: 'date-time' },
               dueDate: { type: 'string', format: 'date-time' },
               returnDate: { type: 'string', format: 'date-time' },
+              lostAt: { type: 'string', format: 'date-time' },
               status: {
                 type: 'string',
-                enum: ['borrowed', 'returned', 'overdue'],
+                enum: ['borrowed', 'returned', 'overdue', 'lost'],
+              },
+              returnCondition: {
+                type: 'string',
+                enum: ['new', 'good', 'fair', 'poor', 'damaged'],
               },
               notes: { type: 'string' },
+              renewalCount: { type: 'integer' },
+              renewals: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    renewedAt: { type: 'string', format: 'date-time' },
+                    previousDueDate: { type: 'string', format: 'date-time' },
+                    newDueDate: { type: 'string', format: 'date-time' },
+                    renewedBy: { type: 'string', format: 'objectId' },
+                  },
+                },
+              },
+              notices: {
+                type: 'array',
+                description: 'Due-soon and overdue reminders already sent',
+                items: {
+                  type: 'object',
+                  properties: {
+                    type: { type: 'string', enum: ['due_soon', 'overdue'] },
+                    offsetDays: { type: 'integer' },
+                    dueDate: { type: 'string', format: 'date-time' },
+                    channel: {
+                      type: 'string',
+                      enum: ['notification', 'email'],
+                    },
+                    sentAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               book: { $ref: '#/components/schemas/Book' }, // Populated book details
               borrower: { $ref: '#/components/schemas/Borrower' }, // Populated borrower details
             },
           },
+          LoanPolicy: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              name: { type: 'string' },
+              borrowerRole: {
+                type: 'string',
+                description: "Borrower role, or '*' for every role",
+              },
+              bookCategory: {
+                type: 'string',
+                description: "Book category, or '*' for every category",
+              },
+              loanPeriodDays: { type: 'integer' },
+              maxConcurrentLoans: { type: 'integer' },
+              maxRenewals: { type: 'integer' },
+              referenceOnly: { type: 'boolean' },
+              finePerDay: {
+                type: 'number',
+                description: 'Fine for each full day a loan is overdue',
+              },
+              maxFine: {
+                type: 'number',
+                description: 'Cap on the overdue fine for a single loan',
+              },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          LoanPolicyViolation: {
+            type: 'object',
+            properties: {
+              code: {
+                type: 'string',
+                enum: [
+                  'REFERENCE_ONLY',
+                  'MAX_CONCURRENT_LOANS',
+                  'LOAN_PERIOD_EXCEEDED',
+                  'OUTSTANDING_FINES',
+                ],
+              },
+              message: { type: 'string' },
+            },
+          },
+          FineLedgerEntry: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              borrowerId: { type: 'string', format: 'objectId' },
+              type: {
+                type: 'string',
+                enum: ['overdue', 'lost', 'damaged', 'payment', 'waiver'],
+              },
+              amount: {
+                type: 'number',
+                description:
+                  'Positive for charges, negative for payments and waivers',
+              },
+              description: { type: 'string' },
+              lendingId: { type: 'string', format: 'objectId' },
+              bookId: { type: 'string', format: 'objectId' },
+              daysOverdue: { type: 'integer' },
+              dueDate: { type: 'string', format: 'date-time' },
+              accruing: { type: 'boolean' },
+              waivedEntryId: { type: 'string', format: 'objectId' },
+              recordedBy: { type: 'string', format: 'objectId' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          Reservation: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              bookId: { type: 'string', format: 'objectId' },
+              borrowerId: { type: 'string', format: 'objectId' },
+              status: {
+                type: 'string',
+                enum: ['pending', 'ready', 'fulfilled', 'cancelled', 'expired'],
+              },
+              queuePosition: {
+                type: 'integer',
+                description:
+                  'Position in the hold queue, 0 when ready for pickup',
+              },
+              readyAt: { type: 'string', format: 'date-time' },
+              pickupBy: { type: 'string', format: 'date-time' },
+              lendingId: { type: 'string', format: 'objectId' },
+              notes: { type: 'string' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+              book: { $ref: '#/components/schemas/Book' }, // Populated book details
+              borrower: { $ref: '#/components/schemas/Borrower' }, // Populated borrower details
+            },
+          },
+          AuditLog: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              action: {
+                type: 'string',
+                description: 'What was done, e.g. UPDATE_BORROWER',
+              },
+              targetType: {
+                type: 'string',
+                enum: [
+                  'book',
+                  'book_copy',
+                  'borrower',
+                  'lending',
+                  'reservation',
+                  'loan_policy',
+                  'fine',
+                  'case',
+                  'reminder',
+                  'document',
+                  'user',
+                  'role',
+                  'api_token',
+                  'notification',
+                ],
+              },
+              targetId: { type: 'string', format: 'objectId' },
+              actor: {
+                type: 'string',
+                format: 'objectId',
+                description: 'User who made the change',
+              },
+              actorName: { type: 'string' },
+              actorEmail: { type: 'string', format: 'email' },
+              details: {
+                type: 'object',
+                properties: {
+                  oldValues: { type: 'object' },
+                  newValues: { type: 'object' },
+                  changes: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        field: { type: 'string' },
+                        from: {},
+                        to: {},
+                      },
+                    },
+                  },
+                },
+                description:
+                  'The target before and after the change, with secrets redacted',
+              },
+              ip: { type: 'string' },
+              userAgent: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          Role: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              name: { type: 'string' },
+              description: { type: 'string' },
+              permissions: {
+                type: 'array',
+                items: { type: 'string' },
+                example: ['dashboard:read', 'cases:read'],
+              },
+              builtIn: {
+                type: 'boolean',
+                description: 'Seeded roles, which cannot be renamed or deleted',
+              },
+              requireTwoFactor: {
+                type: 'boolean',
+                description:
+                  'Users with this role must set up two-factor authentication',
+              },
+              passwordMaxAgeDays: {
+                type: 'integer',
+                nullable: true,
+                description:
+                  'Days before passwords of users with this role expire, null for never',
+              },
+              userCount: { type: 'integer' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          ApiToken: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              userId: { type: 'string', format: 'objectId' },
+              name: { type: 'string' },
+              prefix: {
+                type: 'string',
+                description: 'Start of the token, to tell tokens apart',
+              },
+              scopes: { type: 'array', items: { type: 'string' } },
+              expiresAt: { type: 'string', format: 'date-time' },
+              lastUsedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+              },
+              lastUsedIp: { type: 'string', nullable: true },
+              useCount: { type: 'integer' },
+              revokedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+              },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          LoginAttempt: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              kind: {
+                type: 'string',
+                enum: ['sign_in', 'password_reset', 'password_reset_verify'],
+              },
+              email: { type: 'string', format: 'email' },
+              success: { type: 'boolean' },
+              reason: {
+                type: 'string',
+                nullable: true,
+                enum: [
+                  'unknown_user',
+                  'bad_password',
+                  'bad_code',
+                  'invalid_token',
+                  'throttled',
+                  'locked',
+                  'inactive',
+                ],
+              },
+              newDevice: { type: 'boolean' },
+              ip: { type: 'string', nullable: true },
+              userAgent: { type: 'string', nullable: true },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
           DashboardStats: {
             type: 'object',
             properties: {
@@ -178,6 +514,105 @@ export const getApiDocs = async () => {
               },
             },
           },
+          ReminderRecurrence: {
+            type: 'object',
+            required: ['frequency'],
+            properties: {
+              frequency: { type: 'string', enum: ['weekly', 'monthly'] },
+              interval: {
+                type: 'integer',
+                minimum: 1,
+                description: 'Repeat every n weeks or months, defaults to 1',
+              },
+              until: {
+                type: 'string',
+                format: 'date-time',
+                description: 'No occurrences after this date',
+              },
+            },
+          },
+          ReminderNotice: {
+            type: 'object',
+            properties: {
+              occurrence: {
+                type: 'string',
+                format: 'date-time',
+                description: 'Deadline of the occurrence the notice is for',
+              },
+              leadDays: { type: 'integer' },
+              sendAt: { type: 'string', format: 'date-time' },
+              status: { type: 'string', enum: ['sending', 'sent', 'failed'] },
+              claimedAt: { type: 'string', format: 'date-time' },
+              sentAt: { type: 'string', format: 'date-time' },
+              errorMessage: { type: 'string' },
+            },
+          },
+          Reminder: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              caseId: { type: 'string', format: 'objectId' },
+              title: { type: 'string' },
+              message: { type: 'string' },
+              dueDate: {
+                type: 'string',
+                format: 'date-time',
+                description:
+                  'The deadline, or its first occurrence for recurring reminders',
+              },
+              leadDays: {
+                type: 'array',
+                items: { type: 'integer' },
+                description: 'Days before each deadline to send a notice',
+              },
+              recurrence: { $ref: '#/components/schemas/ReminderRecurrence' },
+              assignees: {
+                type: 'array',
+                items: { type: 'string', format: 'objectId' },
+                description: 'User IDs the reminder is emailed to',
+              },
+              status: {
+                type: 'string',
+                enum: [
+                  'pending',
+                  'sent',
+                  'failed',
+                  'done',
+                  'snoozed',
+                  'cancelled',
+                ],
+              },
+              notices: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/ReminderNotice' },
+              },
+              nextSendAt: { type: 'string', format: 'date-time' },
+              snoozedUntil: { type: 'string', format: 'date-time' },
+              sentAt: { type: 'string', format: 'date-time' },
+              failedAt: { type: 'string', format: 'date-time' },
+              errorMessage: {
+                type: 'string',
+                description: 'Why the last send failed',
+              },
+              completedAt: { type: 'string', format: 'date-time' },
+              completedBy: { type: 'string', format: 'objectId' },
+              createdBy: { type: 'string', format: 'objectId' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+              assigneeUsers: {
+                // Populated user details
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    _id: { type: 'string', format: 'objectId' },
+                    name: { type: 'string' },
+                    email: { type: 'string', format: 'email' },
+                  },
+                },
+              },
+            },
+          },
           Document: {
             type: 'object',
             properties: {
@@ -207,6 +642,159 @@ export const getApiDocs = async () => {
               case: { $ref: '#/components/schemas/Case' }, // Populated case details
             },
           },
+          ImportResult: {
+            type: 'object',
+            description:
+              'Outcome of a CSV or Excel import, row by row. A dry run saves nothing.',
+            properties: {
+              dryRun: { type: 'boolean' },
+              headers: { type: 'array', items: { type: 'string' } },
+              mapping: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Header each field was read from',
+              },
+              missingColumns: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Required columns the mapping leaves out',
+              },
+              summary: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  create: { type: 'integer' },
+                  error: { type: 'integer' },
+                },
+              },
+              rows: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    row: {
+                      type: 'integer',
+                      description: 'Spreadsheet row, the header being row 1',
+                    },
+                    action: { type: 'string', enum: ['create', 'error'] },
+                    key: { type: 'string' },
+                    label: { type: 'string' },
+                    errors: { type: 'array', items: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+          Serial: {
+            type: 'object',
+            description:
+              'A journal or law report series whose parts arrive over time',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              title: { type: 'string' },
+              category: { type: 'string', enum: ['Journal', 'Law Report'] },
+              code: {
+                type: 'string',
+                description: 'Prefix of the book IDs of its parts, e.g. NWLR',
+              },
+              series: {
+                type: 'string',
+                description: 'Citation series of a law report, e.g. NWLR',
+              },
+              publisher: { type: 'string' },
+              issn: { type: 'string' },
+              shelfLocation: { type: 'string' },
+              frequency: {
+                type: 'string',
+                enum: [
+                  'weekly',
+                  'fortnightly',
+                  'monthly',
+                  'bimonthly',
+                  'quarterly',
+                  'semiannual',
+                  'annual',
+                  'irregular',
+                ],
+              },
+              issuesPerVolume: {
+                type: 'integer',
+                description: 'Parts in each volume, when volumes are numbered',
+              },
+              restartPartNumbers: {
+                type: 'boolean',
+                description:
+                  'Parts are numbered within each volume rather than throughout the series',
+              },
+              graceDays: {
+                type: 'integer',
+                description:
+                  'Days after the expected date before a part is late',
+              },
+              copiesPerIssue: { type: 'integer' },
+              status: { type: 'string', enum: ['active', 'ceased'] },
+              holdings: { $ref: '#/components/schemas/SerialHoldings' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          SerialIssue: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', format: 'objectId' },
+              serialId: { type: 'string', format: 'objectId' },
+              volume: { type: 'integer' },
+              part: { type: 'integer' },
+              year: { type: 'integer' },
+              status: {
+                type: 'string',
+                enum: ['expected', 'received', 'claimed', 'not_published'],
+              },
+              state: {
+                type: 'string',
+                enum: [
+                  'expected',
+                  'late',
+                  'missing',
+                  'received',
+                  'claimed',
+                  'not_published',
+                ],
+                description:
+                  'Status, with expected parts shown as late once past the grace period or missing once a later part has arrived',
+              },
+              label: { type: 'string', description: 'e.g. Vol. 8, Pt. 1675' },
+              expectedDate: { type: 'string', format: 'date-time' },
+              receivedDate: { type: 'string', format: 'date-time' },
+              claimedAt: { type: 'string', format: 'date-time' },
+              bookId: {
+                type: 'string',
+                format: 'objectId',
+                description: 'Book the part was catalogued as on arrival',
+              },
+              notes: { type: 'string' },
+            },
+          },
+          SerialHoldings: {
+            type: 'object',
+            properties: {
+              statement: {
+                type: 'string',
+                description: 'e.g. Pt. 1650-1675, 1677-1680',
+              },
+              received: { type: 'integer' },
+              late: { type: 'array', items: { type: 'string' } },
+              missing: { type: 'array', items: { type: 'string' } },
+              claimed: { type: 'array', items: { type: 'string' } },
+              nextExpected: {
+                type: 'object',
+                properties: {
+                  label: { type: 'string' },
+                  expectedDate: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
         },
       },
       security: [{ bearerAuth: [] }],
@@ -0,0 +1,283 @@
+/** @format */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+} from 'crypto';
+import { ObjectId } from 'mongodb';
+import QRCode from 'qrcode';
+import { getDatabase } from '@/lib/mongodb';
+import type { User } from '@/lib/models';
+import { getRoleByName } from '@/lib/roles';
+
+export const TOTP_ISSUER = 'Ralph Nwosu Library';
+export const RECOVERY_CODE_COUNT = 10;
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Secrets are encrypted at rest with a key derived from NEXTAUTH_SECRET
+const encryptionKey = () =>
+  createHash('sha256')
+    .update(process.env.NEXTAUTH_SECRET || '')
+    .digest();
+
+function encryptSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString('base64'))
+    .join(':');
+}
+
+function decryptSecret(stored: string) {
+  const [iv, tag, data] = stored
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+    'utf8'
+  );
+}
+
+/** RFC 6238 code for a base32 secret at the given time step */
+function totpCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Returns the time step the code belongs to, or null if it does not match.
+ * Steps at or before `lastUsedStep` are rejected so a code works only once.
+ */
+function matchTotp(
+  secret: string,
+  code: string,
+  lastUsedStep = -1,
+  now = Date.now()
+) {
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = current + drift;
+    if (step > lastUsedStep && totpCode(secret, step) === code) return step;
+  }
+  return null;
+}
+
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Creates a fresh set of one-time recovery codes. The plain codes are shown
+ * to the user once, only their hashes are stored.
+ */
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Starts enrollment: stores a new pending secret and returns what the user
+ * needs to add it to an authenticator app.
+ */
+export async function startEnrollment(user: User) {
+  const secret = base32Encode(randomBytes(20));
+  const db = await getDatabase();
+  await db
+    .collection<User>('users')
+    .updateOne(
+      { _id: new ObjectId(user._id) },
+      { $set: { 'twoFactor.pendingSecret': encryptSecret(secret) } }
+    );
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(
+    TOTP_ISSUER
+  )}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Finishes enrollment once the user proves their app produces valid codes.
+ * Returns the recovery codes, or null if the code does not match.
+ */
+export async function confirmEnrollment(user: User, code: string) {
+  const pending = user.twoFactor?.pendingSecret;
+  if (!pending) return null;
+
+  const step = matchTotp(decryptSecret(pending), code.trim());
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  const db = await getDatabase();
+  await db.collection<User>('users').updateOne(
+    { _id: new ObjectId(user._id) },
+    {
+      $set: {
+        twoFactor: {
+          enabled: true,
+          secret: pending,
+          recoveryCodes: hashes,
+          lastUsedStep: step,
+          enabledAt: new Date(),
+        },
+        updatedAt: new Date(),
+      },
+    }
+  );
+  return codes;
+}
+
+/**
+ * Checks an authenticator or recovery code for a user with 2FA enabled.
+ * Accepted codes are used up, so replaying one fails.
+ */
+export async function verifySecondFactor(
+  user: User,
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabled || !twoFactor.secret || typeof code !== 'string') {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const users = db.collection<User>('users');
+  const userId = new ObjectId(user._id);
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    const lastUsedStep = twoFactor.lastUsedStep ?? -1;
+    const step = matchTotp(
+      decryptSecret(twoFactor.secret),
+      trimmed,
+      lastUsedStep
+    );
+    if (step === null) return null;
+
+    // Guards against the same code being accepted by two parallel sign-ins
+    const result = await users.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { 'twoFactor.lastUsedStep': { $exists: false } },
+          { 'twoFactor.lastUsedStep': { $lt: step } },
+        ],
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1 ? 'totp' : null;
+  }
+
+  const result = await users.updateOne(
+    { _id: userId, 'twoFactor.recoveryCodes': hashRecoveryCode(trimmed) },
+    { $pull: { 'twoFactor.recoveryCodes': hashRecoveryCode(trimmed) } }
+  );
+  return result.modifiedCount === 1 ? 'recovery' : null;
+}
+
+/** Replaces a user's recovery codes, returning the new plain codes */
+export async function regenerateRecoveryCodes(user: User) {
+  const { codes, hashes } = generateRecoveryCodes();
+  const db = await getDatabase();
+  await db
+    .collection<User>('users')
+    .updateOne(
+      { _id: new ObjectId(user._id) },
+      { $set: { 'twoFactor.recoveryCodes': hashes, updatedAt: new Date() } }
+    );
+  return codes;
+}
+
+/** Removes 2FA from an account, whether turned off by its owner or reset */
+export async function disableTwoFactor(userId: ObjectId | string) {
+  const db = await getDatabase();
+  await db
+    .collection<User>('users')
+    .updateOne(
+      { _id: new ObjectId(userId) },
+      { $unset: { twoFactor: '' }, $set: { updatedAt: new Date() } }
+    );
+}
+
+export async function roleRequiresTwoFactor(roleName?: string) {
+  if (!roleName) return false;
+  return !!(await getRoleByName(roleName))?.requireTwoFactor;
+}
+
+/** True when the user's role requires 2FA and they have not enrolled yet */
+export async function needsTwoFactorSetup(
+  user: Pick<User, 'role' | 'twoFactor'>
+) {
+  return !user.twoFactor?.enabled && (await roleRequiresTwoFactor(user.role));
+}
+
+/** What the user and admins may see about an account's 2FA */
+export function getTwoFactorSummary(user: Pick<User, 'twoFactor'>) {
+  return {
+    enabled: !!user.twoFactor?.enabled,
+    enabledAt: user.twoFactor?.enabledAt ?? null,
+    recoveryCodesRemaining: user.twoFactor?.enabled
+      ? user.twoFactor.recoveryCodes?.length ?? 0
+      : 0,
+  };
+}
@@ -1,6 +1,24 @@
 /** @format */
 
-import type { Borrower } from './models';
+import type {
+  Book,
+  BookCitation,
+  BookCopy,
+  Borrower,
+  LoanPolicy,
+  Reminder,
+  Role,
+  Serial,
+  SerialIssue,
+} from './models';
+import { BOOK_CATEGORIES } from './models';
+import { ObjectId } from 'mongodb';
+import { COPY_CONDITIONS, COPY_STATUSES } from './copies';
+import { PERMISSIONS } from './auth';
+import { MAX_TOKEN_LIFETIME_DAYS } from './api-tokens';
+import { normalizeIsbn } from './marc';
+import { CITATION_CATEGORIES } from './citations';
+import { SERIAL_CATEGORIES, SERIAL_FREQUENCIES } from './serials';
 
 export const validateBorrowerUpdate = (data: Partial<Borrower>) => {
   const errors: Record<string, string> = {};
@@ -94,3 +112,636 @@ export const validateNewBorrower = (
   baseValidation.valid = Object.keys(baseValidation.errors).length === 0;
   return baseValidation;
 };
+
+export const validateNewBook = (
+  data: Omit<Book, '_id' | 'availableCopies' | 'createdAt' | 'updatedAt'>
+) => {
+  const errors: Record<string, string> = {};
+
+  const requiredFields = [
+    ['title', 'Title', 300],
+    ['author', 'Author', 200],
+    ['shelfLocation', 'Shelf Location', 100],
+  ] as const;
+  requiredFields.forEach(([field, label, maxLength]) => {
+    const value = data[field];
+    if (!value || typeof value !== 'string' || value.trim().length === 0) {
+      errors[field] = `${label} is required`;
+    } else if (value.length > maxLength) {
+      errors[field] = `${label} cannot exceed ${maxLength} characters`;
+    }
+  });
+
+  if (!data.category) {
+    errors.category = 'Category is required';
+  } else if (!BOOK_CATEGORIES.includes(data.category)) {
+    errors.category = `Category must be one of ${BOOK_CATEGORIES.join(', ')}`;
+  }
+
+  // Copy barcodes are the book ID with a three digit suffix
+  if (!data.bookId) {
+    errors.bookId = 'Book ID is required';
+  } else if (
+    typeof data.bookId !== 'string' ||
+    !/^[A-Za-z0-9-]{1,36}$/.test(data.bookId)
+  ) {
+    errors.bookId =
+      'Book ID may only contain letters, numbers and hyphens (max 36)';
+  }
+
+  if (
+    !Number.isInteger(data.totalCopies) ||
+    data.totalCopies < 1 ||
+    data.totalCopies > 100
+  ) {
+    errors.totalCopies = 'Total Copies must be a whole number from 1 to 100';
+  }
+
+  if (data.isbn && ![10, 13].includes(normalizeIsbn(data.isbn).length)) {
+    errors.isbn = 'ISBN must have 10 or 13 digits';
+  }
+
+  if (
+    data.keywords !== undefined &&
+    (!Array.isArray(data.keywords) ||
+      data.keywords.some((keyword) => typeof keyword !== 'string'))
+  ) {
+    errors.keywords = 'Keywords must be a list of strings';
+  }
+
+  if (
+    data.replacementCost !== undefined &&
+    (typeof data.replacementCost !== 'number' || !(data.replacementCost >= 0))
+  ) {
+    errors.replacementCost = 'Replacement Cost must be a non-negative amount';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateCitation = (
+  citation: Partial<BookCitation>,
+  category?: string
+) => {
+  const errors: Record<string, string> = {};
+
+  if (!category || !CITATION_CATEGORIES.includes(category)) {
+    errors.category = `Only ${CITATION_CATEGORIES.join(
+      ' and '
+    )} items can have a citation`;
+  }
+
+  if (
+    !citation.series ||
+    typeof citation.series !== 'string' ||
+    citation.series.trim().length === 0
+  ) {
+    errors.series = 'Series is required';
+  } else if (citation.series.length > 50) {
+    errors.series = 'Series cannot exceed 50 characters';
+  }
+
+  const latestYear = new Date().getFullYear() + 1;
+  if (
+    citation.year != null &&
+    (!Number.isInteger(citation.year) ||
+      citation.year < 1800 ||
+      citation.year > latestYear)
+  ) {
+    errors.year = `Year must be from 1800 to ${latestYear}`;
+  }
+
+  const numberFields = [
+    ['volume', 'Volume'],
+    ['part', 'Part'],
+    ['page', 'First Page'],
+  ] as const;
+  numberFields.forEach(([field, label]) => {
+    const value = citation[field];
+    if (value != null && (!Number.isInteger(value) || value < 1)) {
+      errors[field] = `${label} must be a positive whole number`;
+    }
+  });
+
+  // The year, volume or part is what tells volumes of a series apart
+  if (
+    citation.year == null &&
+    citation.volume == null &&
+    citation.part == null
+  ) {
+    errors.citation = 'A citation needs a year, volume or part';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateSerial = (
+  data: Partial<Serial>,
+  { partial = false }: { partial?: boolean } = {}
+) => {
+  const errors: Record<string, string> = {};
+  const allowedFields: (keyof Serial)[] = [
+    'title',
+    'category',
+    'code',
+    'series',
+    'publisher',
+    'issn',
+    'shelfLocation',
+    'frequency',
+    'issuesPerVolume',
+    'restartPartNumbers',
+    'graceDays',
+    'copiesPerIssue',
+    'status',
+  ];
+
+  (Object.keys(data) as (keyof Serial)[]).forEach((field) => {
+    if (!allowedFields.includes(field)) {
+      errors[field as string] = 'Field not allowed';
+    }
+  });
+
+  const requiredFields = [
+    ['title', 'Title', 300],
+    ['shelfLocation', 'Shelf Location', 100],
+  ] as const;
+  requiredFields.forEach(([field, label, maxLength]) => {
+    const value = data[field];
+    if (value === undefined) {
+      if (!partial) errors[field] = `${label} is required`;
+    } else if (typeof value !== 'string' || value.trim().length === 0) {
+      errors[field] = `${label} is required`;
+    } else if (value.length > maxLength) {
+      errors[field] = `${label} cannot exceed ${maxLength} characters`;
+    }
+  });
+
+  const optionalFields = [
+    ['series', 'Series', 50],
+    ['publisher', 'Publisher', 200],
+    ['issn', 'ISSN', 20],
+  ] as const;
+  optionalFields.forEach(([field, label, maxLength]) => {
+    const value = data[field];
+    if (
+      value !== undefined &&
+      (typeof value !== 'string' || value.length > maxLength)
+    ) {
+      errors[
+        field
+      ] = `${label} must be text of at most ${maxLength} characters`;
+    }
+  });
+
+  // Part book IDs are the code with the part number appended
+  if (data.code === undefined) {
+    if (!partial) errors.code = 'Code is required';
+  } else if (
+    typeof data.code !== 'string' ||
+    !/^[A-Za-z0-9-]{1,20}$/.test(data.code)
+  ) {
+    errors.code = 'Code may only contain letters, numbers and hyphens (max 20)';
+  }
+
+  if (data.category === undefined) {
+    if (!partial) errors.category = 'Category is required';
+  } else if (!SERIAL_CATEGORIES.includes(data.category)) {
+    errors.category = `Category must be one of ${SERIAL_CATEGORIES.join(', ')}`;
+  }
+
+  if (data.frequency === undefined) {
+    if (!partial) errors.frequency = 'Frequency is required';
+  } else if (!SERIAL_FREQUENCIES.includes(data.frequency)) {
+    errors.frequency = `Frequency must be one of ${SERIAL_FREQUENCIES.join(
+      ', '
+    )}`;
+  }
+
+  const numberFields = [
+    ['issuesPerVolume', 'Parts per volume', 1, 1000],
+    ['graceDays', 'Grace days', 0, 365],
+    ['copiesPerIssue', 'Copies per part', 1, 100],
+  ] as const;
+  numberFields.forEach(([field, label, min, max]) => {
+    const value = data[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      (!Number.isInteger(value) || value < min || value > max)
+    ) {
+      errors[field] = `${label} must be a whole number from ${min} to ${max}`;
+    }
+  });
+
+  if (
+    data.restartPartNumbers !== undefined &&
+    typeof data.restartPartNumbers !== 'boolean'
+  ) {
+    errors.restartPartNumbers = 'restartPartNumbers must be a boolean';
+  }
+
+  if (
+    data.status !== undefined &&
+    !['active', 'ceased'].includes(data.status)
+  ) {
+    errors.status = 'Status must be active or ceased';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+/**
+ * Checks the numbering and dates of a serial part, as scheduled or as
+ * checked in.
+ */
+export const validateSerialIssue = (data: Partial<SerialIssue>) => {
+  const errors: Record<string, string> = {};
+
+  if (!Number.isInteger(data.part) || data.part! < 1) {
+    errors.part = 'Part must be a positive whole number';
+  }
+  if (
+    data.volume != null &&
+    (!Number.isInteger(data.volume) || data.volume < 1)
+  ) {
+    errors.volume = 'Volume must be a positive whole number';
+  }
+  if (
+    data.year != null &&
+    (!Number.isInteger(data.year) || data.year < 1800 || data.year > 2200)
+  ) {
+    errors.year = 'Year must be a four digit year';
+  }
+
+  const dateFields = [
+    ['expectedDate', 'Expected date'],
+    ['receivedDate', 'Received date'],
+  ] as const;
+  dateFields.forEach(([field, label]) => {
+    const value = data[field];
+    if (value != null && Number.isNaN(new Date(value).getTime())) {
+      errors[field] = `${label} must be a valid date`;
+    }
+  });
+
+  if (data.notes !== undefined && typeof data.notes !== 'string') {
+    errors.notes = 'Notes must be text';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateLoanPolicy = (
+  data: Partial<LoanPolicy>,
+  { partial = false }: { partial?: boolean } = {}
+) => {
+  const errors: Record<string, string> = {};
+  const allowedFields: (keyof LoanPolicy)[] = [
+    'name',
+    'borrowerRole',
+    'bookCategory',
+    'loanPeriodDays',
+    'maxConcurrentLoans',
+    'maxRenewals',
+    'referenceOnly',
+    'finePerDay',
+    'maxFine',
+  ];
+
+  (Object.keys(data) as (keyof LoanPolicy)[]).forEach((field) => {
+    if (!allowedFields.includes(field)) {
+      errors[field as string] = 'Field not allowed';
+    }
+  });
+
+  const stringFields = ['name', 'borrowerRole', 'bookCategory'] as const;
+  stringFields.forEach((field) => {
+    const value = data[field];
+    if (value === undefined) {
+      if (!partial) errors[field] = `${field} is required`;
+    } else if (typeof value !== 'string' || value.trim().length === 0) {
+      errors[field] = `${field} must be a non-empty string`;
+    }
+  });
+
+  const numberFields = [
+    'loanPeriodDays',
+    'maxConcurrentLoans',
+    'maxRenewals',
+  ] as const;
+  numberFields.forEach((field) => {
+    const value = data[field];
+    if (value === undefined) {
+      if (!partial) errors[field] = `${field} is required`;
+    } else if (!Number.isInteger(value) || value < 0) {
+      errors[field] = `${field} must be a non-negative whole number`;
+    }
+  });
+
+  if (data.loanPeriodDays === 0) {
+    errors.loanPeriodDays = 'loanPeriodDays must be at least 1';
+  }
+
+  if (
+    data.referenceOnly !== undefined &&
+    typeof data.referenceOnly !== 'boolean'
+  ) {
+    errors.referenceOnly = 'referenceOnly must be a boolean';
+  }
+
+  // Fine amounts may carry minor units
+  const amountFields = ['finePerDay', 'maxFine'] as const;
+  amountFields.forEach((field) => {
+    const value = data[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+    ) {
+      errors[field] = `${field} must be a non-negative amount`;
+    }
+  });
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateBookCopy = (
+  data: Partial<BookCopy>,
+  { partial = false }: { partial?: boolean } = {}
+) => {
+  const errors: Record<string, string> = {};
+  const allowedFields: (keyof BookCopy)[] = [
+    'barcode',
+    'condition',
+    'status',
+    'acquisitionDate',
+    'notes',
+  ];
+
+  (Object.keys(data) as (keyof BookCopy)[]).forEach((field) => {
+    if (!allowedFields.includes(field)) {
+      errors[field as string] = 'Field not allowed';
+    }
+  });
+
+  if (data.barcode === undefined) {
+    if (!partial) errors.barcode = 'barcode is required';
+  } else if (
+    typeof data.barcode !== 'string' ||
+    !/^[A-Za-z0-9-]{1,40}$/.test(data.barcode)
+  ) {
+    errors.barcode =
+      'barcode may only contain letters, numbers and hyphens (max 40)';
+  }
+
+  if (
+    data.condition !== undefined &&
+    !COPY_CONDITIONS.includes(data.condition)
+  ) {
+    errors.condition = `condition must be one of ${COPY_CONDITIONS.join(', ')}`;
+  }
+
+  // Copies go on and off loan through the lending routes only
+  if (data.status !== undefined) {
+    if (!COPY_STATUSES.includes(data.status)) {
+      errors.status = `status must be one of ${COPY_STATUSES.join(', ')}`;
+    } else if (data.status === 'on_loan') {
+      errors.status = 'Copies are put on loan by lending them';
+    }
+  }
+
+  if (
+    data.acquisitionDate !== undefined &&
+    Number.isNaN(new Date(data.acquisitionDate).getTime())
+  ) {
+    errors.acquisitionDate = 'acquisitionDate must be a valid date';
+  }
+
+  if (data.notes !== undefined && typeof data.notes !== 'string') {
+    errors.notes = 'notes must be a string';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateReminder = (
+  data: Partial<Reminder>,
+  { partial = false }: { partial?: boolean } = {}
+) => {
+  const errors: Record<string, string> = {};
+  const allowedFields: (keyof Reminder)[] = [
+    'title',
+    'message',
+    'dueDate',
+    'leadDays',
+    'recurrence',
+    'assignees',
+  ];
+
+  (Object.keys(data) as (keyof Reminder)[]).forEach((field) => {
+    if (!allowedFields.includes(field)) {
+      errors[field as string] = 'Field not allowed';
+    }
+  });
+
+  if (data.title !== undefined && typeof data.title !== 'string') {
+    errors.title = 'title must be a string';
+  }
+
+  if (data.message === undefined) {
+    if (!partial) errors.message = 'message is required';
+  } else if (
+    typeof data.message !== 'string' ||
+    data.message.trim().length === 0
+  ) {
+    errors.message = 'message must be a non-empty string';
+  }
+
+  if (data.dueDate === undefined) {
+    if (!partial) errors.dueDate = 'dueDate is required';
+  } else if (Number.isNaN(new Date(data.dueDate).getTime())) {
+    errors.dueDate = 'dueDate must be a valid date';
+  }
+
+  if (
+    data.leadDays !== undefined &&
+    (!Array.isArray(data.leadDays) ||
+      !data.leadDays.every(
+        (days) => Number.isInteger(days) && days >= 0 && days <= 365
+      ))
+  ) {
+    errors.leadDays = 'leadDays must be a list of whole days from 0 to 365';
+  }
+
+  // null clears the recurrence of an existing reminder
+  if (data.recurrence !== undefined && data.recurrence !== null) {
+    const { frequency, interval, until } = data.recurrence;
+    if (frequency !== 'weekly' && frequency !== 'monthly') {
+      errors.recurrence = 'recurrence frequency must be weekly or monthly';
+    } else if (
+      interval !== undefined &&
+      (!Number.isInteger(interval) || interval < 1 || interval > 52)
+    ) {
+      errors.recurrence = 'recurrence interval must be from 1 to 52';
+    } else if (
+      until !== undefined &&
+      until !== null &&
+      Number.isNaN(new Date(until).getTime())
+    ) {
+      errors.recurrence = 'recurrence until must be a valid date';
+    }
+  }
+
+  if (data.assignees === undefined) {
+    if (!partial) errors.assignees = 'assignees is required';
+  } else if (
+    !Array.isArray(data.assignees) ||
+    data.assignees.length === 0 ||
+    !data.assignees.every((id) => ObjectId.isValid(id))
+  ) {
+    errors.assignees = 'assignees must be a non-empty list of user IDs';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateRole = (
+  data: Partial<Role>,
+  { partial = false }: { partial?: boolean } = {}
+) => {
+  const errors: Record<string, string> = {};
+  const allowedFields: (keyof Role)[] = [
+    'name',
+    'description',
+    'permissions',
+    'requireTwoFactor',
+    'passwordMaxAgeDays',
+  ];
+
+  (Object.keys(data) as (keyof Role)[]).forEach((field) => {
+    if (!allowedFields.includes(field)) {
+      errors[field as string] = 'Field not allowed';
+    }
+  });
+
+  if (data.name === undefined) {
+    if (!partial) errors.name = 'name is required';
+  } else if (
+    typeof data.name !== 'string' ||
+    data.name.trim().length < 2 ||
+    data.name.trim().length > 50
+  ) {
+    errors.name = 'name must be between 2 and 50 characters';
+  }
+
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.description = 'description must be a string';
+  }
+
+  if (
+    data.requireTwoFactor !== undefined &&
+    typeof data.requireTwoFactor !== 'boolean'
+  ) {
+    errors.requireTwoFactor = 'requireTwoFactor must be a boolean';
+  }
+
+  if (
+    data.passwordMaxAgeDays !== undefined &&
+    data.passwordMaxAgeDays !== null &&
+    (!Number.isInteger(data.passwordMaxAgeDays) ||
+      data.passwordMaxAgeDays < 1 ||
+      data.passwordMaxAgeDays > 3650)
+  ) {
+    errors.passwordMaxAgeDays =
+      'passwordMaxAgeDays must be a whole number of days between 1 and 3650, or null';
+  }
+
+  const knownPermissions: string[] = Object.values(PERMISSIONS);
+  if (data.permissions === undefined) {
+    if (!partial) errors.permissions = 'permissions is required';
+  } else if (!Array.isArray(data.permissions)) {
+    errors.permissions = 'permissions must be an array';
+  } else {
+    const unknown = data.permissions.filter(
+      (permission) => !knownPermissions.includes(permission)
+    );
+    if (unknown.length > 0) {
+      errors.permissions = `Unknown permissions: ${unknown.join(', ')}`;
+    }
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
+
+export const validateApiToken = (data: {
+  name?: unknown;
+  scopes?: unknown;
+  expiresInDays?: unknown;
+}) => {
+  const errors: Record<string, string> = {};
+  const allowedFields = ['name', 'scopes', 'expiresInDays'];
+
+  Object.keys(data).forEach((field) => {
+    if (!allowedFields.includes(field)) {
+      errors[field] = 'Field not allowed';
+    }
+  });
+
+  if (
+    typeof data.name !== 'string' ||
+    data.name.trim().length < 1 ||
+    data.name.trim().length > 100
+  ) {
+    errors.name = 'name must be between 1 and 100 characters';
+  }
+
+  const knownPermissions: string[] = Object.values(PERMISSIONS);
+  if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+    errors.scopes = 'scopes must be a non-empty array';
+  } else {
+    const unknown = data.scopes.filter(
+      (scope) => !knownPermissions.includes(scope)
+    );
+    if (unknown.length > 0) {
+      errors.scopes = `Unknown scopes: ${unknown.join(', ')}`;
+    }
+  }
+
+  if (
+    !Number.isInteger(data.expiresInDays) ||
+    (data.expiresInDays as number) < 1 ||
+    (data.expiresInDays as number) > MAX_TOKEN_LIFETIME_DAYS
+  ) {
+    errors.expiresInDays = `expiresInDays must be a whole number between 1 and ${MAX_TOKEN_LIFETIME_DAYS}`;
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+};
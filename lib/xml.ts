@@ -0,0 +1,31 @@
+/** @format */
+
+// Escaping for the XML read and written by the MARCXML and Excel imports
+// and exports
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export const decodeXml = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return XML_ENTITIES[name] ?? entity;
+    return String.fromCodePoint(
+      name[1] === 'x' || name[1] === 'X'
+        ? Number.parseInt(name.slice(2), 16)
+        : Number.parseInt(name.slice(1), 10)
+    );
+  });
+
+export const encodeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
@@ -19,6 +19,8 @@ const nextConfig = {
     // Add these to prevent any static generation
     fallbackNodePolyfills: false,
     serverComponentsExternalPackages: ['mongodb', 'mongoose'],
+    // Starts background services from instrumentation.ts
+    instrumentationHook: true,
   },
 };
 
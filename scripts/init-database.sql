@@ -27,8 +27,80 @@
   "shelfLocation": String (required),
   "keywords": Array of Strings (for search functionality),
   "coverImage": String (optional, URL to image),
+  "replacementCost": Number (optional, charged when a copy is lost or damaged),
+  "citation": {                  // Law Report and Case Law only, e.g. (2019) 8 NWLR (Pt. 1675) 1
+    "series": String (canonical abbreviation, e.g. "NWLR", "All ER"),
+    "year": Number (optional),
+    "volume": Number (optional),
+    "part": Number (optional),
+    "page": Number (optional, first page of the case)
+  },
   "publishedYear": Number (optional),
   "genre": String (optional),
+  "serialId": ObjectId (optional, reference to serials collection for parts checked in from a serial),
+  "createdAt": Date,
+  "updatedAt": Date
+}
+*/
+
+-- Book Copies Collection
+-- Collection: book_copies
+-- Purpose: Track each physical volume of a book. The book's totalCopies and
+-- availableCopies are derived from the status of its copies.
+/*
+{
+  "_id": ObjectId,
+  "bookId": ObjectId (reference to books collection),
+  "barcode": String (unique, accession number like "RN-0001-001"),
+  "condition": String (enum: "new", "good", "fair", "poor", "damaged"),
+  "status": String (enum: "on_shelf", "on_loan", "missing", "withdrawn", "in_repair"),
+  "acquisitionDate": Date,
+  "notes": String (optional),
+  "createdAt": Date,
+  "updatedAt": Date
+}
+*/
+
+-- Serials Collection
+-- Collection: serials
+-- Purpose: Journals and law report series the library subscribes to, and how often their parts arrive
+/*
+{
+  "_id": ObjectId,
+  "title": String (required),
+  "category": String (enum: "Journal", "Law Report"),
+  "code": String (unique, prefix of the book IDs of its parts, e.g. "NWLR"),
+  "series": String (optional, citation series of law report parts, e.g. "NWLR"),
+  "publisher": String (optional),
+  "issn": String (optional),
+  "shelfLocation": String (required),
+  "frequency": String (enum: "weekly", "fortnightly", "monthly", "bimonthly", "quarterly", "semiannual", "annual", "irregular"),
+  "issuesPerVolume": Number (optional, parts per volume when volumes are numbered),
+  "restartPartNumbers": Boolean (whether parts are numbered within each volume),
+  "graceDays": Number (days after the expected date before a part is late, default 14),
+  "copiesPerIssue": Number (copies received of each part, default 1),
+  "status": String (enum: "active", "ceased"),
+  "createdAt": Date,
+  "updatedAt": Date
+}
+*/
+
+-- Serial Issues Collection
+-- Collection: serial_issues
+-- Purpose: Each part of a serial, expected or received. Received parts are catalogued as books.
+/*
+{
+  "_id": ObjectId,
+  "serialId": ObjectId (reference to serials collection),
+  "volume": Number (optional),
+  "part": Number (required),
+  "year": Number (required),
+  "status": String (enum: "expected", "received", "claimed", "not_published"),
+  "expectedDate": Date (optional, unannounced parts have none),
+  "receivedDate": Date (optional),
+  "claimedAt": Date (optional, when the part was claimed from the publisher),
+  "bookId": ObjectId (optional, reference to books collection once received),
+  "notes": String (optional),
   "createdAt": Date,
   "updatedAt": Date
 }
@@ -59,11 +131,37 @@
   "_id": ObjectId,
   "bookId": ObjectId (reference to books collection),
   "borrowerId": ObjectId (reference to borrowers collection),
+  "copyId": ObjectId (reference to book_copies collection),
   "borrowDate": Date (required),
   "dueDate": Date (required),
   "returnDate": Date (optional, set when book is returned),
-  "status": String (enum: "borrowed", "returned", "overdue"),
+  "status": String (enum: "borrowed", "returned", "overdue", "lost"; set to "overdue" by the hourly overdue sweep),
+  "lostAt": Date (optional, set when the book is reported lost),
   "notes": String (optional),
+  "notices": Array (due-soon and overdue reminders sent, { type, offsetDays, dueDate, channel, sentAt }),
+  "createdAt": Date,
+  "updatedAt": Date
+}
+*/
+
+-- Fine Ledger Collection
+-- Collection: fine_ledger
+-- Purpose: Record every fine charged to a borrower and every payment or waiver
+-- against it. A borrower's balance is the sum of their entries.
+/*
+{
+  "_id": ObjectId,
+  "borrowerId": ObjectId (reference to borrowers collection),
+  "type": String (enum: "overdue", "lost", "damaged", "payment", "waiver"),
+  "amount": Number (positive for charges, negative for payments and waivers),
+  "description": String (optional),
+  "lendingId": ObjectId (optional, loan the charge arose from),
+  "bookId": ObjectId (optional),
+  "daysOverdue": Number (overdue charges only),
+  "dueDate": Date (overdue charges only, due date the charge accrued against),
+  "accruing": Boolean (overdue charge still growing while the loan is open),
+  "waivedEntryId": ObjectId (waivers only, the charge being waived),
+  "recordedBy": ObjectId (optional, reference to users collection),
   "createdAt": Date,
   "updatedAt": Date
 }
@@ -78,14 +176,85 @@
   "name": String (required),
   "email": String (required, unique),
   "password": String (required, hashed),
-  "role": String (enum: "Super Admin", "Admin", "Librarian", "User"),
-  "permissions": Array of Strings (based on role),
+  "passwordHistory": Array of Strings (optional, recent bcrypt hashes newest first, checked against reuse),
+  "passwordChangedAt": Date (optional, when the password was last set, for role password expiry),
+  "role": String (required, reference to roles.name),
+  "permissions": Array of Strings (extra grants on top of the role),
+  "status": String (optional, enum: "active", "inactive"; inactive users cannot sign in),
+  "twoFactor": Object (optional, { enabled, secret (encrypted), pendingSecret, recoveryCodes (SHA-256 hashes), lastUsedStep, enabledAt }),
+  "lockedUntil": Date (optional, set after too many failed sign-ins),
+  "failedLoginsClearedAt": Date (optional, failed sign-ins before this no longer count),
+  "sessionVersion": Number (optional, default 0, incremented to sign out every session),
+  "oidcSubject": String (optional, identity provider subject, set on the first single sign-on),
+  "emailVerifiedAt": Date (optional, when the user proved they own the email; borrowers are only linked by email after this),
+  "borrowerId": ObjectId (optional, reference to borrowers collection for My Library, null once unlinked by an admin),
+  "invitationToken": String (optional, set until the invitation is accepted),
+  "invitationExpires": Date (optional),
+  "invitedAt": Date (optional),
+  "invitedBy": ObjectId (optional, reference to the inviting user),
+  "invitedByName": String (optional),
+  "invitationAcceptedAt": Date (optional),
   "isActive": Boolean (default: true),
   "createdAt": Date,
   "updatedAt": Date
 }
 */
 
+-- Roles Collection
+-- Collection: roles
+-- Purpose: Named permission sets assigned to users; built-in roles are seeded on first use
+/*
+{
+  "_id": ObjectId,
+  "name": String (required, unique),
+  "description": String (optional),
+  "permissions": Array of Strings (values of PERMISSIONS),
+  "builtIn": Boolean (Super Admin, Admin, Librarian and User cannot be renamed or deleted),
+  "requireTwoFactor": Boolean (users with the role must set up 2FA, default: false),
+  "passwordMaxAgeDays": Number (optional, days before passwords of users with the role expire, null for never),
+  "createdAt": Date,
+  "updatedAt": Date
+}
+*/
+
+-- API Tokens Collection
+-- Collection: api_tokens
+-- Purpose: Personal access tokens for scripts and integrations, sent as "Authorization: Bearer lms_..."
+/*
+{
+  "_id": ObjectId,
+  "userId": ObjectId (required, reference to users collection),
+  "name": String (required),
+  "tokenHash": String (required, unique, SHA-256 of the token),
+  "prefix": String (start of the token, for display),
+  "scopes": Array of Strings (permissions the token may use, within the owner's own),
+  "expiresAt": Date,
+  "lastUsedAt": Date (optional),
+  "lastUsedIp": String (optional),
+  "useCount": Number (default: 0),
+  "revokedAt": Date (optional),
+  "createdAt": Date
+}
+*/
+
+-- Login Attempts Collection
+-- Collection: login_attempts
+-- Purpose: Sign-in and password reset attempts, used for throttling and each user's sign-in history
+/*
+{
+  "_id": ObjectId,
+  "kind": String (enum: "sign_in", "password_reset", "password_reset_verify"),
+  "email": String (optional),
+  "userId": ObjectId (optional, reference to users collection),
+  "success": Boolean,
+  "reason": String (optional, enum: "unknown_user", "bad_password", "bad_code", "invalid_token", "throttled", "locked"),
+  "newDevice": Boolean (optional, first successful sign-in from this user agent),
+  "ip": String (optional),
+  "userAgent": String (optional),
+  "createdAt": Date
+}
+*/
+
 -- Notifications Collection
 -- Collection: notifications
 -- Purpose: Store notifications for users
@@ -101,6 +270,53 @@
 }
 */
 
+-- Reminders Collection
+-- Collection: reminders
+-- Purpose: Case deadlines and the reminders emailed to the lawyers on them
+/*
+{
+  "_id": ObjectId,
+  "caseId": ObjectId (reference to cases collection),
+  "title": String (optional),
+  "message": String (required),
+  "dueDate": Date (required, when the deadline falls, the first occurrence for recurring reminders),
+  "leadDays": Array of Numbers (days before each deadline to send a notice, default [0]),
+  "recurrence": Object (optional, { frequency: "weekly" | "monthly", interval, until }),
+  "assignees": Array of ObjectIds (reference to users collection),
+  "status": String (enum: "pending", "sent", "failed", "done", "snoozed", "cancelled"),
+  "notices": Array (each notice sent or attempted, { occurrence, leadDays, sendAt, status, claimedAt, sentAt, errorMessage }),
+  "nextSendAt": Date (optional, when the next notice is due),
+  "snoozedUntil": Date (snoozed reminders only, when to send again),
+  "sentAt": Date (optional),
+  "failedAt": Date (optional),
+  "errorMessage": String (optional, why the last send failed),
+  "completedAt": Date (optional),
+  "completedBy": ObjectId (optional, reference to users collection),
+  "createdBy": ObjectId (optional, reference to users collection),
+  "createdAt": Date,
+  "updatedAt": Date
+}
+*/
+
+-- Audit Logs Collection
+-- Collection: audit_logs
+-- Purpose: Record every write made through the API, who made it and what changed
+/*
+{
+  "_id": ObjectId,
+  "action": String (required, e.g. "UPDATE_BORROWER"),
+  "targetType": String (e.g. "book", "borrower", "lending", "case", "user"),
+  "targetId": ObjectId (optional, the record that was written),
+  "actor": ObjectId (optional, reference to users collection),
+  "actorName": String (optional),
+  "actorEmail": String (optional),
+  "details": Object ({ oldValues, newValues, changes: [{ field, from, to }] }, secrets redacted),
+  "ip": String (optional),
+  "userAgent": String (optional),
+  "timestamp": Date (required)
+}
+*/
+
 -- NextAuth Collections (automatically created by NextAuth)
 -- Collection: accounts - OAuth account information
 -- Collection: sessions - User session data
@@ -111,13 +327,31 @@
 -- Create these indexes in MongoDB for better query performance:
 
 -- Books Collection Indexes
--- db.books.createIndex({ "title": "text", "author": "text", "keywords": "text" })
+-- Catalogue search and citation indexes, created by the app on first search (lib/search.ts)
+-- db.books.createIndex(
+--   { "title": "text", "author": "text", "keywords": "text", "isbn": "text", "bookId": "text" },
+--   { "name": "book_search", "default_language": "english",
+--     "weights": { "title": 10, "bookId": 8, "isbn": 8, "author": 6, "keywords": 4 } }
+-- )
+-- db.books.createIndex(
+--   { "citation.series": 1, "citation.part": 1, "citation.year": 1 },
+--   { "name": "book_citation", "sparse": true }
+-- )
 -- db.books.createIndex({ "bookId": 1 }, { unique: true })
 -- db.books.createIndex({ "category": 1 })
 -- db.books.createIndex({ "availableCopies": 1 })
 -- db.books.createIndex({ "publishedYear": 1 })
 -- db.books.createIndex({ "genre": 1 })
 
+-- Book Copies Collection Indexes
+-- db.book_copies.createIndex({ "barcode": 1 }, { unique: true })
+-- db.book_copies.createIndex({ "bookId": 1, "status": 1 })
+
+-- Serials Collection Indexes
+-- db.serials.createIndex({ "code": 1 }, { unique: true })
+-- db.serial_issues.createIndex({ "serialId": 1, "volume": 1, "part": 1 }, { unique: true })
+-- db.serial_issues.createIndex({ "status": 1, "expectedDate": 1 })
+
 -- Borrowers Collection Indexes
 -- db.borrowers.createIndex({ "name": "text", "phone": "text", "email": "text" })
 -- db.borrowers.createIndex({ "role": 1 })
@@ -126,14 +360,44 @@
 -- Lendings Collection Indexes
 -- db.lendings.createIndex({ "bookId": 1 })
 -- db.lendings.createIndex({ "borrowerId": 1 })
+-- db.lendings.createIndex({ "copyId": 1 })
 -- db.lendings.createIndex({ "status": 1 })
 -- db.lendings.createIndex({ "dueDate": 1 })
 -- db.lendings.createIndex({ "borrowDate": -1 })
 
+-- Fine Ledger Collection Indexes
+-- db.fine_ledger.createIndex({ "borrowerId": 1, "createdAt": -1 })
+-- db.fine_ledger.createIndex({ "lendingId": 1, "type": 1, "dueDate": 1 })
+
+-- Reminders Collection Indexes
+-- db.reminders.createIndex({ "caseId": 1, "dueDate": 1 })
+-- db.reminders.createIndex({ "status": 1, "nextSendAt": 1 })
+
+-- Audit Logs Collection Indexes
+-- db.audit_logs.createIndex({ "timestamp": -1 })
+-- db.audit_logs.createIndex({ "targetType": 1, "targetId": 1, "timestamp": -1 })
+-- db.audit_logs.createIndex({ "actor": 1, "timestamp": -1 })
+-- db.audit_logs.createIndex({ "action": 1, "timestamp": -1 })
+
 -- Users Collection Indexes
 -- db.users.createIndex({ "email": 1 }, { unique: true })
 -- db.users.createIndex({ "role": 1 })
 -- db.users.createIndex({ "isActive": 1 })
+-- db.users.createIndex({ "oidcSubject": 1 }, { unique: true, sparse: true })
+-- db.users.createIndex({ "borrowerId": 1 }, { unique: true, partialFilterExpression: { borrowerId: { $type: "objectId" } } })
+
+-- Roles Collection Indexes
+-- db.roles.createIndex({ "name": 1 }, { unique: true })
+
+-- API Tokens Collection Indexes
+-- db.api_tokens.createIndex({ "tokenHash": 1 }, { unique: true })
+-- db.api_tokens.createIndex({ "userId": 1, "createdAt": -1 })
+
+-- Login Attempts Collection Indexes
+-- db.login_attempts.createIndex({ "kind": 1, "email": 1, "createdAt": -1 })
+-- db.login_attempts.createIndex({ "kind": 1, "ip": 1, "createdAt": -1 })
+-- db.login_attempts.createIndex({ "kind": 1, "userId": 1, "createdAt": -1 })
+-- db.login_attempts.createIndex({ "createdAt": 1 }, { expireAfterSeconds: 7776000 }) -- keep 90 days
 
 -- Notifications Collection Indexes
 -- db.notifications.createIndex({ "userId": 1 })
@@ -0,0 +1,386 @@
+/** @format */
+
+/*
+ * A mock OpenID Connect issuer for trying single sign-on locally, with no
+ * identity provider to set up. It signs in whichever test user you pick on
+ * its sign-in page, so never expose it beyond your machine.
+ *
+ *   npm run mock-oidc
+ *
+ * then start the app with:
+ *
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=library
+ *   OIDC_CLIENT_SECRET=mock-secret
+ *   OIDC_ROLE_MAPPINGS=library-admins=Admin,librarians=Librarian
+ *
+ * Settings, all optional:
+ *
+ *   MOCK_OIDC_PORT           Defaults to 9400
+ *   MOCK_OIDC_CLIENT_ID      Defaults to "library"
+ *   MOCK_OIDC_CLIENT_SECRET  Defaults to "mock-secret"
+ *   MOCK_OIDC_USERS          JSON array of test users, each with sub, email,
+ *                            name, groups and email_verified
+ *
+ * Users are sent with their groups in the "groups" claim, the default
+ * OIDC_GROUPS_CLAIM. A user with email_verified false shows how the app
+ * refuses identities the provider has not vouched for, and one without the
+ * claim, sharing the seeded admin's email, shows that an existing account is
+ * only linked through a verified email.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number.parseInt(process.env.MOCK_OIDC_PORT || '9400');
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'library';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+const TOKEN_LIFETIME_SECONDS = 3600;
+const CODE_LIFETIME_MS = 60 * 1000;
+
+const DEFAULT_USERS = [
+  {
+    sub: 'mock-admin',
+    email: 'admin@example.com',
+    name: 'Ada Admin',
+    groups: ['library-admins'],
+    email_verified: true,
+  },
+  {
+    sub: 'mock-librarian',
+    email: 'librarian@example.com',
+    name: 'Lee Librarian',
+    groups: ['librarians'],
+    email_verified: true,
+  },
+  {
+    sub: 'mock-user',
+    email: 'user@example.com',
+    name: 'Uche User',
+    groups: [],
+    email_verified: true,
+  },
+  {
+    sub: 'mock-unverified',
+    email: 'unverified@example.com',
+    name: 'Una Unverified',
+    groups: [],
+    email_verified: false,
+  },
+  {
+    // Sends no email_verified claim, under the email of the seeded admin
+    sub: 'mock-impostor',
+    email: 'admin@example.com',
+    name: 'Ivan Impostor',
+    groups: [],
+  },
+];
+
+const users = process.env.MOCK_OIDC_USERS
+  ? JSON.parse(process.env.MOCK_OIDC_USERS)
+  : DEFAULT_USERS;
+
+// A fresh signing key on every start, published through the JWKS endpoint
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const jwk = {
+  ...publicKey.export({ format: 'jwk' }),
+  kid: KEY_ID,
+  use: 'sig',
+  alg: 'RS256',
+};
+
+// Authorization codes and access tokens, kept in memory until used or expired
+const codes = new Map();
+const accessTokens = new Map();
+
+const base64url = (value) =>
+  Buffer.from(
+    typeof value === 'string' ? value : JSON.stringify(value)
+  ).toString('base64url');
+
+function signJwt(claims) {
+  const input = `${base64url({
+    alg: 'RS256',
+    typ: 'JWT',
+    kid: KEY_ID,
+  })}.${base64url(claims)}`;
+  const signature = crypto.sign('sha256', Buffer.from(input), privateKey);
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+// Left half of the access token's SHA-256, as the at_hash claim
+const tokenHash = (token) =>
+  crypto
+    .createHash('sha256')
+    .update(token)
+    .digest()
+    .subarray(0, 16)
+    .toString('base64url');
+
+const escapeHtml = (value) =>
+  String(value).replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[
+        char
+      ])
+  );
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readForm(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+    req.on('error', reject);
+  });
+}
+
+function discovery() {
+  return {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: [
+      'client_secret_basic',
+      'client_secret_post',
+    ],
+    code_challenge_methods_supported: ['S256', 'plain'],
+    claims_supported: [
+      'sub',
+      'email',
+      'email_verified',
+      'name',
+      'preferred_username',
+      'groups',
+    ],
+  };
+}
+
+// The sign-in page: one button per test user, carrying the request through
+function signInPage(params) {
+  const hidden = Array.from(params.entries())
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(
+          value
+        )}">`
+    )
+    .join('');
+  const buttons = users
+    .map(
+      (user, index) => `
+        <button name="user" value="${index}">
+          <strong>${escapeHtml(user.name)}</strong><br>
+          ${escapeHtml(user.email)}${
+        user.email_verified !== true ? ' (unverified)' : ''
+      }<br>
+          <small>groups: ${escapeHtml(
+            (user.groups || []).join(', ') || 'none'
+          )}</small>
+        </button>`
+    )
+    .join('');
+
+  return `<!doctype html>
+<html>
+  <head>
+    <title>Mock OIDC issuer</title>
+    <style>
+      body { font-family: sans-serif; max-width: 480px; margin: 48px auto; }
+      button { display: block; width: 100%; margin: 8px 0; padding: 12px; text-align: left; cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <h2>Mock OIDC issuer</h2>
+    <p>Sign in to ${escapeHtml(params.get('client_id'))} as:</p>
+    <form method="post" action="/authorize">${hidden}${buttons}</form>
+  </body>
+</html>`;
+}
+
+function authorizeError(res, redirectUri, state, error) {
+  const url = new URL(redirectUri);
+  url.searchParams.set('error', error);
+  if (state) url.searchParams.set('state', state);
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+}
+
+async function handleAuthorize(req, res, url) {
+  const params = req.method === 'POST' ? await readForm(req) : url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state');
+
+  if (params.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return sendJson(res, 400, {
+      error: 'invalid_request',
+      error_description: 'Unknown client_id or missing redirect_uri',
+    });
+  }
+  if (params.get('response_type') !== 'code') {
+    return authorizeError(res, redirectUri, state, 'unsupported_response_type');
+  }
+
+  if (req.method !== 'POST') {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(signInPage(params));
+  }
+
+  const user = users[Number.parseInt(params.get('user') || '')];
+  if (!user) return authorizeError(res, redirectUri, state, 'access_denied');
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    user,
+    redirectUri,
+    nonce: params.get('nonce'),
+    scope: params.get('scope') || 'openid',
+    codeChallenge: params.get('code_challenge'),
+    codeChallengeMethod: params.get('code_challenge_method') || 'plain',
+    expiresAt: Date.now() + CODE_LIFETIME_MS,
+  });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+function checkPkce(grant, verifier) {
+  if (!grant.codeChallenge) return true;
+  if (!verifier) return false;
+  const expected =
+    grant.codeChallengeMethod === 'S256'
+      ? crypto.createHash('sha256').update(verifier).digest('base64url')
+      : verifier;
+  return expected === grant.codeChallenge;
+}
+
+async function handleToken(req, res) {
+  const params = await readForm(req);
+
+  // Clients authenticate with HTTP Basic or in the form body
+  let clientId = params.get('client_id');
+  let clientSecret = params.get('client_secret');
+  const basic = (req.headers.authorization || '').match(/^Basic\s+(\S+)$/i);
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], 'base64')
+      .toString()
+      .split(':')
+      .map(decodeURIComponent);
+    clientId = id;
+    clientSecret = secret;
+  }
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+
+  if (params.get('grant_type') !== 'authorization_code') {
+    return sendJson(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  const code = params.get('code');
+  const grant = codes.get(code);
+  codes.delete(code);
+  if (
+    !grant ||
+    grant.expiresAt < Date.now() ||
+    grant.redirectUri !== params.get('redirect_uri') ||
+    !checkPkce(grant, params.get('code_verifier'))
+  ) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, {
+    user: grant.user,
+    expiresAt: Date.now() + TOKEN_LIFETIME_SECONDS * 1000,
+  });
+
+  const { groups, ...profile } = grant.user;
+  const idToken = signJwt({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+    at_hash: tokenHash(accessToken),
+    ...(grant.nonce && { nonce: grant.nonce }),
+    ...profile,
+    preferred_username: profile.email,
+    groups: groups || [],
+  });
+
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_LIFETIME_SECONDS,
+    id_token: idToken,
+    scope: grant.scope,
+  });
+}
+
+function handleUserinfo(req, res) {
+  const bearer = (req.headers.authorization || '').match(/^Bearer\s+(\S+)$/i);
+  const token = bearer && accessTokens.get(bearer[1]);
+  if (!token || token.expiresAt < Date.now()) {
+    return sendJson(res, 401, { error: 'invalid_token' });
+  }
+  sendJson(res, 200, {
+    ...token.user,
+    preferred_username: token.user.email,
+    groups: token.user.groups || [],
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  try {
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, discovery());
+    }
+    if (url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [jwk] });
+    }
+    if (url.pathname === '/authorize') {
+      return await handleAuthorize(req, res, url);
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      return await handleToken(req, res);
+    }
+    if (url.pathname === '/userinfo') {
+      return handleUserinfo(req, res);
+    }
+    sendJson(res, 404, { error: 'not_found' });
+  } catch (error) {
+    console.error('Mock OIDC issuer error:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC issuer listening on ${ISSUER}`);
+  console.log(`Client ID: ${CLIENT_ID}, client secret: ${CLIENT_SECRET}`);
+  console.log(`Test users: ${users.map((user) => user.email).join(', ')}`);
+});
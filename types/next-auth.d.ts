@@ -1,5 +1,10 @@
 /** @format */
 
+// Imports make this a module, so the declarations below augment next-auth
+// instead of replacing its types
+import 'next-auth';
+import 'next-auth/jwt';
+
 declare module 'next-auth' {
   interface Session {
     user: {
@@ -7,8 +12,10 @@ declare module 'next-auth' {
       name?: string | null;
       email?: string | null;
       image?: string | null;
-      role: 'User' | 'Librarian' | 'Admin' | 'Super Admin';
+      role: 'User' | 'Librarian' | 'Admin' | 'Super Admin' | string;
       permissions: string[];
+      twoFactorSetupRequired?: boolean;
+      passwordChangeRequired?: boolean;
     };
   }
 
@@ -17,15 +24,22 @@ declare module 'next-auth' {
     name?: string | null;
     email?: string | null;
     image?: string | null;
-    role: 'User' | 'Librarian' | 'Admin' | 'Super Admin';
+    role: 'User' | 'Librarian' | 'Admin' | 'Super Admin' | string;
     permissions: string[];
+    twoFactorSetupRequired?: boolean;
+    passwordChangeRequired?: boolean;
+    sessionVersion?: number;
+    provider?: string; // Sign-in provider, credentials or oidc
   }
 }
 
 declare module 'next-auth/jwt' {
   interface JWT {
     id: string;
-    role: 'User' | 'Librarian' | 'Admin' | 'Super Admin';
+    role: 'User' | 'Librarian' | 'Admin' | 'Super Admin' | string;
     permissions: string[];
+    twoFactorSetupRequired?: boolean;
+    passwordChangeRequired?: boolean;
+    sessionVersion?: number;
   }
 }